@@ -1,8 +1,16 @@
 import { performance } from "node:perf_hooks"
 import { resolve, join, dirname } from "node:path"
 import { fileURLToPath } from "node:url"
-import { loadProjectRecords, DEFAULT_ROOT } from "../src/lib/opencode-data"
+import {
+  clearTokenCache,
+  computeGlobalTokenSummary,
+  loadProjectRecords,
+  loadSessionRecords,
+  searchSessionsChat,
+  DEFAULT_ROOT,
+} from "../src/lib/opencode-data"
 import { loadProjectRecordsSqlite, DEFAULT_SQLITE_PATH } from "../src/lib/opencode-data-sqlite"
+import { DEFAULT_IO_CONCURRENCY, setIoConcurrency } from "../src/lib/worker-pool"
 
 type BenchmarkResult = {
   label: string
@@ -55,6 +63,50 @@ async function runBenchmark(
   }
 }
 
+function printResult(result: BenchmarkResult): void {
+  console.log(
+    `${result.label}: avg=${result.avgMs.toFixed(2)}ms ` +
+      `median=${result.medianMs.toFixed(2)}ms ` +
+      `min=${result.minMs.toFixed(2)}ms max=${result.maxMs.toFixed(2)}ms ` +
+      `iterations=${result.iterations}`
+  )
+}
+
+/**
+ * Time the JSONL loaders with files read one at a time and through the
+ * shared worker pool, so throughput can be compared on the same store.
+ */
+async function benchmarkJsonlConcurrency(root: string, iterations: number, concurrency: number): Promise<void> {
+  const sessions = await loadSessionRecords({ root })
+  const loaders: [string, () => Promise<unknown>][] = [
+    ["loadProjectRecords", () => loadProjectRecords({ root })],
+    ["loadSessionRecords", () => loadSessionRecords({ root })],
+    [
+      "computeGlobalTokenSummary",
+      () => {
+        // Token summaries are cached in memory; measure the file reads
+        clearTokenCache()
+        return computeGlobalTokenSummary(sessions, root)
+      },
+    ],
+    ["searchSessionsChat", () => searchSessionsChat(sessions, "__benchmark_no_match__", root)],
+  ]
+
+  console.log("")
+  console.log(`JSONL loaders: sequential vs concurrency=${concurrency} (${sessions.length} sessions)`)
+  for (const [name, fn] of loaders) {
+    const results: BenchmarkResult[] = []
+    for (const level of [1, concurrency]) {
+      setIoConcurrency(level)
+      await fn()
+      results.push(await runBenchmark(`JSONL ${name} (concurrency=${level})`, iterations, fn))
+    }
+    results.forEach(printResult)
+    console.log(`  speedup: ${(results[0].medianMs / results[1].medianMs).toFixed(2)}x`)
+  }
+  setIoConcurrency(DEFAULT_IO_CONCURRENCY)
+}
+
 async function main() {
   const iterationsArg = parseArg("--iterations")
   const iterations = iterationsArg ? Number(iterationsArg) : 100
@@ -69,6 +121,11 @@ async function main() {
 
   const rootArg = parseArg("--root")
   const dbArg = parseArg("--db")
+  const concurrencyArg = parseArg("--concurrency")
+  const concurrency = concurrencyArg ? Number(concurrencyArg) : DEFAULT_IO_CONCURRENCY
+  if (!Number.isInteger(concurrency) || concurrency <= 0) {
+    throw new Error(`Invalid --concurrency value: ${concurrencyArg}`)
+  }
 
   const root = rootArg ? resolve(rootArg) : defaultFixtureRoot ?? DEFAULT_ROOT
   const dbPath = dbArg ? resolve(dbArg) : defaultFixtureDb ?? DEFAULT_SQLITE_PATH
@@ -89,13 +146,10 @@ async function main() {
   console.log(`db: ${dbPath}`)
   console.log("")
   for (const result of [jsonl, sqlite]) {
-    console.log(
-      `${result.label}: avg=${result.avgMs.toFixed(2)}ms ` +
-        `median=${result.medianMs.toFixed(2)}ms ` +
-        `min=${result.minMs.toFixed(2)}ms max=${result.maxMs.toFixed(2)}ms ` +
-        `iterations=${result.iterations}`
-    )
+    printResult(result)
   }
+
+  await benchmarkJsonlConcurrency(root, iterations, concurrency)
 }
 
 main().catch((error) => {
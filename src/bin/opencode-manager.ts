@@ -5,7 +5,7 @@
  * Routes between TUI and CLI modes based on provided subcommands:
  * - No subcommand → shows help
  * - "tui" subcommand → launches TUI
- * - CLI subcommands (projects, sessions, chat, tokens) → launches CLI
+ * - CLI subcommands (projects, sessions, chat, tokens, maintenance, store, trash, backup, doctor, cache, config) → launches CLI
  *
  * Uses dynamic imports to keep initial load fast and avoid loading
  * unused modules.
@@ -17,6 +17,13 @@ const CLI_SUBCOMMANDS = new Set([
   "sessions",
   "chat",
   "tokens",
+  "maintenance",
+  "store",
+  "trash",
+  "backup",
+  "doctor",
+  "cache",
+  "config",
 ])
 
 // Subcommands that explicitly request TUI
@@ -39,10 +46,11 @@ MODES:
 
 CLI COMMANDS:
   projects list             List all projects
-  projects delete           Delete a project's metadata
+  projects delete           Delete a project's metadata (moved to trash unless --permanent)
 
   sessions list             List sessions (optionally filter by project)
-  sessions delete           Delete a session's metadata
+  sessions tree             Show sessions nested under the session that started them
+  sessions delete           Delete a session's metadata (moved to trash unless --permanent)
   sessions rename           Rename a session
   sessions move             Move a session to another project
   sessions copy             Copy a session to another project
@@ -54,6 +62,34 @@ CLI COMMANDS:
   tokens session            Show token usage for a session
   tokens project            Show token usage for a project
   tokens global             Show global token usage
+  tokens timeline           Show token usage per day, week or month
+  tokens check              Check usage against the configured budgets
+
+  maintenance orphans list  List orphaned sessions, messages and parts
+  maintenance orphans clean Delete orphaned data (supports --dry-run, --backup-dir)
+
+  store migrate             Migrate between JSONL and SQLite stores (--from, --to, --db, --root)
+  store diff                Compare the JSONL store with a database or another root (--other-root)
+  store list                List the named stores from the config file (use with --store <name>)
+
+  trash list                List deleted projects and sessions
+  trash restore <id>        Restore a trash entry
+  trash purge               Permanently remove old trash entries (--older-than 7d)
+
+  backup list               List backups under --backup-dir
+  backup verify <dir>       Check a backup against its manifest checksums
+  backup restore <dir>      Restore a backup (supports --dry-run, --force)
+
+  doctor                    Check the store for corrupt or inconsistent data (--strict)
+
+  cache stats               Show the persistent index cache size and entry counts
+  cache clear               Delete the index cache (rebuilt on the next run)
+
+  config list               List every setting with its value and source
+  config get <key>          Show the effective value of a setting
+  config set <key> <value>  Store a default in the config file (e.g. format json)
+  config unset <key>        Remove a default from the config file
+  config path               Show the config file location
 
 OPTIONS:
   --help, -h                Show this help
@@ -0,0 +1,194 @@
+/**
+ * Single-file backup archives.
+ *
+ * Backups can be written as one gzip-compressed tar file instead of a
+ * directory tree. Archives can additionally be encrypted with AES-256-GCM,
+ * using a key derived from a passphrase with scrypt.
+ *
+ * Encrypted archives start with a fixed magic header followed by the scrypt
+ * salt, the GCM nonce and the authentication tag, then the ciphertext of the
+ * compressed tar. The magic, salt and nonce are authenticated as additional
+ * data, so changing any of them fails decryption like a changed ciphertext.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto"
+import { gunzipSync, gzipSync } from "node:zlib"
+
+/**
+ * One file stored in an archive.
+ */
+export interface ArchiveMember {
+  /** Path inside the archive, using `/` separators */
+  name: string
+  data: Buffer
+}
+
+export const ARCHIVE_EXTENSION = ".tar.gz"
+export const ENCRYPTED_ARCHIVE_EXTENSION = ".tar.gz.enc"
+
+const BLOCK_SIZE = 512
+const ENCRYPTION_MAGIC = Buffer.from("OCMENC01", "ascii")
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+const KEY_LENGTH = 32
+
+// ========================
+// Tar
+// ========================
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, "0") + "\0", offset, length, "ascii")
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end === -1 ? length : end).toString("utf8")
+}
+
+/**
+ * Split a member name into the ustar prefix and name fields.
+ */
+function splitName(name: string): { prefix: string; base: string } {
+  if (Buffer.byteLength(name) <= 100) {
+    return { prefix: "", base: name }
+  }
+  for (let i = name.indexOf("/"); i !== -1; i = name.indexOf("/", i + 1)) {
+    const prefix = name.slice(0, i)
+    const base = name.slice(i + 1)
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(base) <= 100) {
+      return { prefix, base }
+    }
+  }
+  throw new Error(`Path too long for archive: ${name}`)
+}
+
+function createHeader(member: ArchiveMember, mtime: number): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE)
+  const { prefix, base } = splitName(member.name)
+
+  header.write(base, 0, 100, "utf8")
+  writeOctal(header, 0o644, 100, 8)
+  writeOctal(header, 0, 108, 8)
+  writeOctal(header, 0, 116, 8)
+  writeOctal(header, member.data.length, 124, 12)
+  writeOctal(header, mtime, 136, 12)
+  header.fill(" ", 148, 156)
+  header.write("0", 156, 1, "ascii")
+  header.write("ustar\0", 257, 6, "ascii")
+  header.write("00", 263, 2, "ascii")
+  header.write(prefix, 345, 155, "utf8")
+
+  let checksum = 0
+  for (const byte of header) {
+    checksum += byte
+  }
+  header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8, "ascii")
+  return header
+}
+
+/**
+ * Build a gzip-compressed tar archive of the given members.
+ */
+export function createTarGz(members: ArchiveMember[]): Buffer {
+  const mtime = Math.floor(Date.now() / 1000)
+  const blocks: Buffer[] = []
+  for (const member of members) {
+    blocks.push(createHeader(member, mtime), member.data)
+    const padding = (BLOCK_SIZE - (member.data.length % BLOCK_SIZE)) % BLOCK_SIZE
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding))
+    }
+  }
+  // Two zero blocks mark the end of the archive
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2))
+  return gzipSync(Buffer.concat(blocks))
+}
+
+/**
+ * Read the regular files of a gzip-compressed tar archive.
+ *
+ * @returns Member contents keyed by path inside the archive
+ * @throws Error if the data is not a readable archive
+ */
+export function readTarGz(archive: Buffer): Map<string, Buffer> {
+  const tar = gunzipSync(archive)
+  const members = new Map<string, Buffer>()
+
+  let offset = 0
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE)
+    if (header.every((byte) => byte === 0)) {
+      break
+    }
+    const name = readString(header, 0, 100)
+    const prefix = readString(header, 345, 155)
+    const size = parseInt(readString(header, 124, 12).trim() || "0", 8)
+    const type = String.fromCharCode(header[156])
+    if (Number.isNaN(size)) {
+      throw new Error(`Corrupted archive header at offset ${offset}`)
+    }
+
+    const start = offset + BLOCK_SIZE
+    if (start + size > tar.length) {
+      throw new Error(`Truncated archive member: ${name}`)
+    }
+    if (type === "0" || type === "\0") {
+      members.set(prefix ? `${prefix}/${name}` : name, Buffer.from(tar.subarray(start, start + size)))
+    }
+    offset = start + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE
+  }
+  return members
+}
+
+// ========================
+// Encryption
+// ========================
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, KEY_LENGTH)
+}
+
+/**
+ * Whether the data starts with the encrypted archive header.
+ */
+export function isEncryptedArchive(data: Buffer): boolean {
+  return data.length >= ENCRYPTION_MAGIC.length && data.subarray(0, ENCRYPTION_MAGIC.length).equals(ENCRYPTION_MAGIC)
+}
+
+/**
+ * Encrypt an archive with AES-256-GCM under a passphrase-derived key.
+ */
+export function encryptArchive(data: Buffer, passphrase: string): Buffer {
+  const salt = randomBytes(SALT_LENGTH)
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, salt), iv)
+  cipher.setAAD(Buffer.concat([ENCRYPTION_MAGIC, salt, iv]))
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()])
+  return Buffer.concat([ENCRYPTION_MAGIC, salt, iv, cipher.getAuthTag(), ciphertext])
+}
+
+/**
+ * Decrypt an archive written by encryptArchive.
+ *
+ * @throws Error if the passphrase is wrong or the data was modified
+ */
+export function decryptArchive(data: Buffer, passphrase: string): Buffer {
+  if (!isEncryptedArchive(data)) {
+    throw new Error("Not an encrypted archive")
+  }
+  let offset = ENCRYPTION_MAGIC.length
+  const salt = data.subarray(offset, (offset += SALT_LENGTH))
+  const iv = data.subarray(offset, (offset += IV_LENGTH))
+  const tag = data.subarray(offset, (offset += TAG_LENGTH))
+
+  const decipher = createDecipheriv("aes-256-gcm", deriveKey(passphrase, salt), iv)
+  decipher.setAAD(data.subarray(0, ENCRYPTION_MAGIC.length + SALT_LENGTH + IV_LENGTH))
+  decipher.setAuthTag(tag)
+  try {
+    return Buffer.concat([decipher.update(data.subarray(offset)), decipher.final()])
+  } catch {
+    throw new Error("Wrong passphrase or corrupted archive")
+  }
+}
@@ -1,13 +1,40 @@
 /**
  * CLI backup utilities module.
  *
- * Provides helpers for backing up files and directories before
- * destructive operations like delete.
+ * Provides helpers for backing up files and directories (or SQLite rows)
+ * before destructive operations like delete, and for listing, verifying
+ * and restoring those backups.
+ *
+ * Every backup directory contains a `manifest.json` recording where each
+ * item came from, its SHA-256 checksum and the command that created it.
+ * In archive mode the same layout is written into a single `.tar.gz` file,
+ * optionally encrypted (`.tar.gz.enc`).
  */
 
+import { createHash } from "node:crypto"
 import { promises as fs } from "node:fs"
-import { basename, dirname, join, relative, resolve } from "node:path"
-import { FileOperationError } from "./errors"
+import { basename, dirname, join, relative, resolve, sep } from "node:path"
+import type { DataProvider } from "../lib/opencode-data-provider"
+import {
+  compareRowsSqlite,
+  selectCascadeRowsSqlite,
+  writeRowsSqlite,
+  type SqliteRowSnapshot,
+  type SqliteRowTargets,
+} from "../lib/opencode-data-sqlite"
+import { releaseSqliteSnapshot, takeSqliteSnapshot, type SqliteSnapshot } from "../lib/opencode-data-snapshot"
+import { decodeRows, encodeRows } from "../lib/opencode-data-trash"
+import {
+  ARCHIVE_EXTENSION,
+  ENCRYPTED_ARCHIVE_EXTENSION,
+  createTarGz,
+  decryptArchive,
+  encryptArchive,
+  isEncryptedArchive,
+  readTarGz,
+  type ArchiveMember,
+} from "./archive"
+import { FileOperationError, UsageError } from "./errors"
 
 // ========================
 // Types
@@ -25,6 +52,133 @@ export interface BackupOptions {
   preserveStructure?: boolean
   /** Root directory for preserving structure (paths are relative to this). */
   structureRoot?: string
+  /** Backend of the store being backed up (recorded in the manifest, defaults to jsonl). */
+  backend?: BackupBackend
+  /** Store root (JSONL) or database path (SQLite), recorded in the manifest. */
+  storeRoot?: string
+  /** Command recorded in the manifest (defaults to the current CLI invocation). */
+  command?: string
+  /** Write a single `.tar.gz` file instead of a directory tree. */
+  archive?: boolean
+  /** Encrypt the archive with a key derived from this passphrase (implies archive). */
+  passphrase?: string
+}
+
+export type BackupBackend = "jsonl" | "sqlite"
+
+/**
+ * How a backup is stored: a directory tree or a single archive file.
+ */
+export type BackupFormat = "directory" | "archive"
+
+/**
+ * One backed-up file or SQLite row.
+ */
+export type BackupItem =
+  | {
+      kind: "file"
+      /** Absolute path the file was copied from */
+      originalPath: string
+      /** Path of the copy, relative to the backup directory */
+      backupPath: string
+      sha256: string
+      size: number
+    }
+  | {
+      kind: "row"
+      table: string
+      id: string
+      /** Checksum of the row as stored in rows.json */
+      sha256: string
+    }
+
+/**
+ * Contents of a backup's manifest.json.
+ */
+export interface BackupManifest {
+  version: 1
+  /** ISO timestamp */
+  createdAt: string
+  command: string
+  backend: BackupBackend
+  /** Store root (JSONL) or database path (SQLite); null when unknown */
+  storeRoot: string | null
+  items: BackupItem[]
+}
+
+/**
+ * A backup directory or archive with its manifest.
+ */
+export interface BackupEntry extends BackupManifest {
+  /** Absolute path of the backup directory or archive file */
+  path: string
+  format: BackupFormat
+  encrypted: boolean
+}
+
+/**
+ * Options for reading a backup.
+ */
+export interface BackupReadOptions {
+  /** Passphrase for encrypted archives */
+  passphrase?: string
+}
+
+/**
+ * Options for listing backups.
+ */
+export interface BackupListOptions extends BackupReadOptions {
+  /** Called for archives that cannot be opened (e.g. encrypted without a passphrase) */
+  onWarning?: (message: string) => void
+}
+
+/**
+ * Result of checking a backup's checksums.
+ */
+export interface BackupVerifyResult {
+  backupDir: string
+  ok: boolean
+  /** Number of items checked */
+  checked: number
+  problems: Array<{ item: string; problem: string }>
+}
+
+/**
+ * What restoring one item would do.
+ * - restore: the original is gone and will be recreated
+ * - unchanged: the original exists with identical content
+ * - conflict: the original exists with different (newer) content
+ * - overwrite: a conflict that --force replaces
+ */
+export type BackupRestoreAction = "restore" | "unchanged" | "conflict" | "overwrite"
+
+export interface BackupRestoreItem {
+  /** Original file path or `sqlite:<table>:<id>` */
+  target: string
+  action: BackupRestoreAction
+}
+
+/**
+ * Options for restoring a backup.
+ */
+export interface BackupRestoreOptions extends BackupReadOptions {
+  /** Report the plan without writing anything */
+  dryRun?: boolean
+  /** Overwrite items whose current content differs from the backup */
+  force?: boolean
+  /** Wait for SQLite write locks to clear before failing */
+  forceWrite?: boolean
+}
+
+export interface BackupRestoreResult {
+  backupDir: string
+  backend: BackupBackend
+  dryRun: boolean
+  items: BackupRestoreItem[]
+  /** Items written back (empty for dry runs and aborted restores) */
+  restored: string[]
+  /** Items that differ from the backup and were not overwritten */
+  conflicts: string[]
 }
 
 /**
@@ -33,14 +187,22 @@ export interface BackupOptions {
 export interface BackupResult {
   /** Source paths that were backed up. */
   sources: string[]
-  /** Destination paths where backups were created. */
+  /** Destination paths where backups were created (the archive file in archive mode). */
   destinations: string[]
+  /** Archive mode only: each destination's member path inside the archive. */
+  entries?: string[]
   /** The backup directory used (may include timestamp subdirectory). */
   backupDir: string
   /** Any paths that failed to backup. */
   failed: Array<{ path: string; error: string }>
 }
 
+const MANIFEST_FILE = "manifest.json"
+const ROWS_FILE = "rows.json"
+
+/** Environment variable holding the passphrase for encrypted backups */
+export const BACKUP_PASSPHRASE_ENV = "OPENCODE_MANAGER_BACKUP_PASSPHRASE"
+
 // ========================
 // Helpers
 // ========================
@@ -139,6 +301,114 @@ async function copyPath(src: string, dest: string): Promise<void> {
   }
 }
 
+/**
+ * SHA-256 of a buffer or string, hex-encoded.
+ */
+function sha256(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex")
+}
+
+async function sha256File(path: string): Promise<string> {
+  return sha256(await fs.readFile(path))
+}
+
+/**
+ * List files under a path (the path itself when it is a file).
+ */
+async function listFiles(path: string): Promise<string[]> {
+  if (!(await isDirectory(path))) {
+    return [path]
+  }
+  const files: string[] = []
+  for (const entry of await fs.readdir(path, { withFileTypes: true })) {
+    files.push(...(await listFiles(join(path, entry.name))))
+  }
+  return files
+}
+
+function defaultCommand(): string {
+  return ["opencode-manager", ...process.argv.slice(2)].join(" ")
+}
+
+function createManifest(
+  options: Pick<BackupOptions, "backend" | "storeRoot" | "structureRoot" | "command">,
+  items: BackupItem[]
+): BackupManifest {
+  const storeRoot = options.storeRoot ?? options.structureRoot
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    command: options.command ?? defaultCommand(),
+    backend: options.backend ?? "jsonl",
+    storeRoot: storeRoot ? resolve(storeRoot) : null,
+    items,
+  }
+}
+
+function serializeManifest(manifest: BackupManifest): string {
+  return JSON.stringify(manifest, null, 2)
+}
+
+function usesArchive(options: Pick<BackupOptions, "archive" | "passphrase">): boolean {
+  return Boolean(options.archive || options.passphrase)
+}
+
+/**
+ * Path of the backup to create: a timestamped directory, or a timestamped
+ * archive file in archive mode.
+ */
+function createBackupLocation(options: Pick<BackupOptions, "backupDir" | "prefix" | "archive" | "passphrase">): string {
+  const timestamp = generateBackupTimestamp()
+  const backupSubdir = options.prefix ? `${options.prefix}_${timestamp}` : timestamp
+  const dir = join(resolve(options.backupDir), backupSubdir)
+  if (!usesArchive(options)) {
+    return dir
+  }
+  return dir + (options.passphrase ? ENCRYPTED_ARCHIVE_EXTENSION : ARCHIVE_EXTENSION)
+}
+
+/**
+ * Path of a source inside the backup, relative to the backup root.
+ */
+function backupMemberPath(
+  resolvedSrc: string,
+  options: Pick<BackupOptions, "preserveStructure" | "structureRoot">
+): string {
+  if (options.preserveStructure && options.structureRoot) {
+    // Preserve directory structure relative to root
+    const relativePath = relative(resolve(options.structureRoot), resolvedSrc)
+    // Paths outside structureRoot use their basename
+    return relativePath.startsWith("..") ? basename(resolvedSrc) : relativePath
+  }
+  return basename(resolvedSrc)
+}
+
+function toArchiveName(path: string): string {
+  return path.split(sep).join("/")
+}
+
+/**
+ * Write the manifest and backed-up contents as a single (optionally
+ * encrypted) archive file.
+ */
+async function writeBackupArchive(
+  archivePath: string,
+  manifest: BackupManifest,
+  members: ArchiveMember[],
+  passphrase: string | undefined
+): Promise<void> {
+  const archive = createTarGz([
+    { name: MANIFEST_FILE, data: Buffer.from(serializeManifest(manifest), "utf8") },
+    ...members,
+  ])
+  await ensureDir(dirname(archivePath))
+  await fs.writeFile(archivePath, passphrase ? encryptArchive(archive, passphrase) : archive)
+}
+
+function describeItem(item: BackupItem): string {
+  return item.kind === "file" ? item.originalPath : `sqlite:${item.table}:${item.id}`
+}
+
 // ========================
 // Main Backup Functions
 // ========================
@@ -148,6 +418,8 @@ async function copyPath(src: string, dest: string): Promise<void> {
  *
  * Creates a timestamped subdirectory within backupDir to store the backups.
  * Preserves directory structure relative to structureRoot if specified.
+ * A manifest listing every copied file with its SHA-256 checksum is written
+ * alongside the copies.
  *
  * @param paths - Array of file/directory paths to backup
  * @param options - Backup options
@@ -172,39 +444,59 @@ async function copyPath(src: string, dest: string): Promise<void> {
  *   }
  * )
  * // File is copied to /backups/2024-01-15_12-30-45/storage/project/abc.json
+ *
+ * // Single encrypted archive
+ * const result = await copyToBackupDir(
+ *   ["/data/storage/project/abc.json"],
+ *   { backupDir: "/backups", passphrase: "secret" }
+ * )
+ * // Written to /backups/2024-01-15_12-30-45.tar.gz.enc
  * ```
  */
 export async function copyToBackupDir(
   paths: string[],
   options: BackupOptions
 ): Promise<BackupResult> {
-  const { backupDir, prefix, preserveStructure, structureRoot } = options
+  return backupSources(
+    paths.map((path) => ({ path: resolve(path), originalPath: resolve(path) })),
+    options
+  )
+}
+
+/**
+ * A file or directory to back up. `path` is read; `originalPath` is where
+ * it is recorded as coming from (they differ for database snapshots).
+ */
+interface BackupSource {
+  path: string
+  originalPath: string
+}
 
-  // Validate backup directory
-  const resolvedBackupDir = resolve(backupDir)
+async function backupSources(
+  sources: BackupSource[],
+  options: BackupOptions
+): Promise<BackupResult> {
+  const archive = usesArchive(options)
 
-  // Create timestamped subdirectory
-  const timestamp = generateBackupTimestamp()
-  const backupSubdir = prefix
-    ? `${prefix}_${timestamp}`
-    : timestamp
-  const targetBackupDir = join(resolvedBackupDir, backupSubdir)
+  // Create timestamped subdirectory (or archive file)
+  const targetBackupDir = createBackupLocation(options)
 
   const result: BackupResult = {
     sources: [],
     destinations: [],
+    ...(archive ? { entries: [] } : {}),
     backupDir: targetBackupDir,
     failed: [],
   }
 
   // If no paths, return early
-  if (paths.length === 0) {
+  if (sources.length === 0) {
     return result
   }
 
   // Ensure backup directory exists
   try {
-    await ensureDir(targetBackupDir)
+    await ensureDir(archive ? dirname(targetBackupDir) : targetBackupDir)
   } catch (error) {
     throw new FileOperationError(
       `Failed to create backup directory: ${targetBackupDir}`,
@@ -212,12 +504,13 @@ export async function copyToBackupDir(
     )
   }
 
-  // Copy each path
-  for (const srcPath of paths) {
-    const resolvedSrc = resolve(srcPath)
+  // Copy each path (or read it into the archive)
+  const members: Array<ArchiveMember & { originalPath: string }> = []
+  for (const source of sources) {
+    const resolvedSrc = source.originalPath
 
     // Check if source exists
-    if (!(await pathExists(resolvedSrc))) {
+    if (!(await pathExists(source.path))) {
       result.failed.push({
         path: resolvedSrc,
         error: "Source path does not exist",
@@ -225,27 +518,31 @@ export async function copyToBackupDir(
       continue
     }
 
-    // Determine destination path
-    let destPath: string
-    if (preserveStructure && structureRoot) {
-      // Preserve directory structure relative to root
-      const relativePath = relative(resolve(structureRoot), resolvedSrc)
-      if (relativePath.startsWith("..")) {
-        // Path is outside structureRoot, use basename
-        destPath = join(targetBackupDir, basename(resolvedSrc))
-      } else {
-        destPath = join(targetBackupDir, relativePath)
-      }
-    } else {
-      // Just use the basename
-      destPath = join(targetBackupDir, basename(resolvedSrc))
-    }
+    // Determine destination path (inside the archive in archive mode)
+    const memberPath = backupMemberPath(resolvedSrc, options)
+    const destPath = join(targetBackupDir, memberPath)
 
     // Copy the file/directory
     try {
-      await copyPath(resolvedSrc, destPath)
-      result.sources.push(resolvedSrc)
-      result.destinations.push(destPath)
+      if (archive) {
+        const sourceMembers = []
+        for (const file of await listFiles(source.path)) {
+          const relativeFile = relative(source.path, file)
+          sourceMembers.push({
+            name: toArchiveName(relative(targetBackupDir, join(destPath, relativeFile))),
+            data: await fs.readFile(file),
+            originalPath: join(resolvedSrc, relativeFile),
+          })
+        }
+        members.push(...sourceMembers)
+        result.sources.push(resolvedSrc)
+        result.destinations.push(targetBackupDir)
+        result.entries?.push(toArchiveName(memberPath))
+      } else {
+        await copyPath(source.path, destPath)
+        result.sources.push(resolvedSrc)
+        result.destinations.push(destPath)
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
       result.failed.push({
@@ -255,12 +552,167 @@ export async function copyToBackupDir(
     }
   }
 
+  // Record every copied file (directories are expanded) in the manifest
+  const items: BackupItem[] = []
+  try {
+    if (archive) {
+      for (const member of members) {
+        items.push({
+          kind: "file",
+          originalPath: member.originalPath,
+          backupPath: member.name,
+          sha256: sha256(member.data),
+          size: member.data.length,
+        })
+      }
+      await writeBackupArchive(targetBackupDir, createManifest(options, items), members, options.passphrase)
+      return result
+    }
+    for (let i = 0; i < result.sources.length; i++) {
+      for (const copy of await listFiles(result.destinations[i])) {
+        const contents = await fs.readFile(copy)
+        items.push({
+          kind: "file",
+          originalPath: join(result.sources[i], relative(result.destinations[i], copy)),
+          backupPath: relative(targetBackupDir, copy),
+          sha256: sha256(contents),
+          size: contents.length,
+        })
+      }
+    }
+    await fs.writeFile(join(targetBackupDir, MANIFEST_FILE), serializeManifest(createManifest(options, items)), "utf8")
+  } catch (error) {
+    throw new FileOperationError(
+      `Failed to write backup manifest in ${targetBackupDir}: ${error instanceof Error ? error.message : String(error)}`,
+      "backup"
+    )
+  }
+
   return result
 }
 
+/**
+ * Save SQLite rows to a backup directory before deletion.
+ *
+ * Rows are written to `rows.json` (BLOBs base64-encoded) and listed in the
+ * manifest with a per-row SHA-256 checksum, so `restoreBackup` can
+ * re-insert them.
+ *
+ * @param rows - Full rows keyed by table (see selectCascadeRowsSqlite)
+ * @param options - Backup options; storeRoot should be the database path
+ * @returns BackupResult whose sources are `sqlite:<table>:<id>` paths
+ */
+export async function backupRowsToDir(
+  rows: SqliteRowSnapshot,
+  options: BackupOptions
+): Promise<BackupResult> {
+  const targetBackupDir = createBackupLocation(options)
+  const rowsPath = join(targetBackupDir, ROWS_FILE)
+  const stored = encodeRows(rows)
+  const items: BackupItem[] = []
+  for (const [table, tableRows] of Object.entries(stored)) {
+    for (const row of tableRows) {
+      items.push({ kind: "row", table, id: String(row.id), sha256: sha256(JSON.stringify(row)) })
+    }
+  }
+
+  const archive = usesArchive(options)
+  const result: BackupResult = {
+    sources: items.map(describeItem),
+    destinations: items.length > 0 ? [archive ? targetBackupDir : rowsPath] : [],
+    ...(archive ? { entries: items.length > 0 ? [ROWS_FILE] : [] } : {}),
+    backupDir: targetBackupDir,
+    failed: [],
+  }
+  if (items.length === 0) {
+    return result
+  }
+
+  try {
+    const manifest = createManifest({ ...options, backend: options.backend ?? "sqlite" }, items)
+    const contents = JSON.stringify(stored, null, 2)
+    if (archive) {
+      await writeBackupArchive(
+        targetBackupDir,
+        manifest,
+        [{ name: ROWS_FILE, data: Buffer.from(contents, "utf8") }],
+        options.passphrase
+      )
+    } else {
+      await ensureDir(targetBackupDir)
+      await fs.writeFile(rowsPath, contents, "utf8")
+      await fs.writeFile(join(targetBackupDir, MANIFEST_FILE), serializeManifest(manifest), "utf8")
+    }
+  } catch (error) {
+    throw new FileOperationError(
+      `Failed to write backup to ${targetBackupDir}: ${error instanceof Error ? error.message : String(error)}`,
+      "backup"
+    )
+  }
+  return result
+}
+
+/**
+ * Back up a whole SQLite database as one consistent file.
+ *
+ * The copy is taken with `VACUUM INTO` (see takeSqliteSnapshot), so it
+ * includes changes still in the WAL and needs no `-wal` or `-shm` file.
+ * The manifest records the live database path as its origin.
+ *
+ * @throws FileOperationError if the database cannot be copied
+ */
+export async function backupSqliteDatabase(dbPath: string, options: BackupOptions): Promise<BackupResult> {
+  let snapshot: SqliteSnapshot
+  try {
+    snapshot = takeSqliteSnapshot(dbPath)
+  } catch (error) {
+    throw new FileOperationError(error instanceof Error ? error.message : String(error), "backup")
+  }
+  try {
+    return await backupSources([{ path: snapshot.path, originalPath: snapshot.sourcePath }], {
+      ...options,
+      preserveStructure: false,
+      backend: "sqlite",
+      storeRoot: options.storeRoot ?? snapshot.sourcePath,
+    })
+  } finally {
+    releaseSqliteSnapshot(snapshot)
+  }
+}
+
+/**
+ * Back up everything a delete is about to remove from the provider's store.
+ *
+ * JSONL stores copy the files, preserving their layout under the store
+ * root. SQLite stores save the rows of the targets and their descendants.
+ *
+ * @param paths - Files the delete will remove (JSONL)
+ * @param targets - Records the delete targets (SQLite)
+ */
+export async function backupBeforeDelete(
+  provider: DataProvider,
+  paths: string[],
+  targets: SqliteRowTargets,
+  options: Pick<BackupOptions, "backupDir" | "prefix" | "archive" | "passphrase">
+): Promise<BackupResult> {
+  if (provider.backend === "sqlite") {
+    const rows = await selectCascadeRowsSqlite(targets, { db: provider.location })
+    return backupRowsToDir(rows, { ...options, backend: "sqlite", storeRoot: provider.location })
+  }
+  return copyToBackupDir(paths, {
+    ...options,
+    preserveStructure: true,
+    structureRoot: provider.location,
+    backend: "jsonl",
+  })
+}
+
 /**
  * Get the paths that would be backed up (for dry-run display).
  *
+ * In archive mode backupDir is the archive file, every destination is that
+ * file, and entries holds each source's member path inside it.
+ *
  * @param paths - Source paths to backup
  * @param options - Backup options
  * @returns Object with source and computed destination paths
@@ -268,36 +720,27 @@ export async function copyToBackupDir(
 export function previewBackupPaths(
   paths: string[],
   options: BackupOptions
-): { sources: string[]; destinations: string[]; backupDir: string } {
-  const { backupDir, prefix, preserveStructure, structureRoot } = options
-
-  const resolvedBackupDir = resolve(backupDir)
-  const timestamp = generateBackupTimestamp()
-  const backupSubdir = prefix ? `${prefix}_${timestamp}` : timestamp
-  const targetBackupDir = join(resolvedBackupDir, backupSubdir)
+): Pick<BackupResult, "sources" | "destinations" | "entries" | "backupDir"> {
+  const archive = usesArchive(options)
+  const targetBackupDir = createBackupLocation(options)
 
   const sources: string[] = []
   const destinations: string[] = []
+  const entries: string[] = []
 
   for (const srcPath of paths) {
     const resolvedSrc = resolve(srcPath)
+    const memberPath = backupMemberPath(resolvedSrc, options)
     sources.push(resolvedSrc)
-
-    let destPath: string
-    if (preserveStructure && structureRoot) {
-      const relativePath = relative(resolve(structureRoot), resolvedSrc)
-      if (relativePath.startsWith("..")) {
-        destPath = join(targetBackupDir, basename(resolvedSrc))
-      } else {
-        destPath = join(targetBackupDir, relativePath)
-      }
+    if (archive) {
+      destinations.push(targetBackupDir)
+      entries.push(toArchiveName(memberPath))
     } else {
-      destPath = join(targetBackupDir, basename(resolvedSrc))
+      destinations.push(join(targetBackupDir, memberPath))
     }
-    destinations.push(destPath)
   }
 
-  return { sources, destinations, backupDir: targetBackupDir }
+  return { sources, destinations, ...(archive ? { entries } : {}), backupDir: targetBackupDir }
 }
 
 /**
@@ -322,3 +765,354 @@ export function formatBackupResult(result: BackupResult): string {
 
   return lines.join("\n")
 }
+
+// ========================
+// Manifest-Based Operations
+// ========================
+
+/**
+ * An opened backup: its manifest plus access to the backed-up contents.
+ */
+interface OpenedBackup {
+  entry: BackupEntry
+  /** Contents of a path relative to the backup root, or null when missing */
+  read(member: string): Promise<Buffer | null>
+}
+
+/**
+ * Open a backup directory or archive file.
+ *
+ * @throws FileOperationError if the backup cannot be read or decrypted, or
+ * has no readable manifest
+ */
+async function openBackup(target: string, options: BackupReadOptions = {}): Promise<OpenedBackup> {
+  const path = resolve(target)
+  let members: Map<string, Buffer> | null = null
+  let encrypted = false
+
+  if (!(await isDirectory(path))) {
+    let data: Buffer
+    try {
+      data = await fs.readFile(path)
+    } catch (error) {
+      throw new FileOperationError(
+        `No readable backup at ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        "read"
+      )
+    }
+    encrypted = isEncryptedArchive(data)
+    if (encrypted && !options.passphrase) {
+      throw new FileOperationError(`Backup ${path} is encrypted; a passphrase is required`, "read")
+    }
+    try {
+      members = readTarGz(encrypted ? decryptArchive(data, options.passphrase!) : data)
+    } catch (error) {
+      throw new FileOperationError(
+        `Cannot open backup archive ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        "read"
+      )
+    }
+  }
+
+  const read = async (member: string): Promise<Buffer | null> => {
+    if (members) {
+      return members.get(toArchiveName(member)) ?? null
+    }
+    try {
+      return await fs.readFile(join(path, member))
+    } catch {
+      return null
+    }
+  }
+
+  try {
+    const data = await read(MANIFEST_FILE)
+    if (!data) {
+      throw new Error(`${MANIFEST_FILE} not found`)
+    }
+    const manifest = JSON.parse(data.toString("utf8")) as BackupManifest
+    return { entry: { ...manifest, path, format: members ? "archive" : "directory", encrypted }, read }
+  } catch (error) {
+    throw new FileOperationError(
+      `No readable backup manifest in ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      "read"
+    )
+  }
+}
+
+/**
+ * Read the manifest of a backup directory or archive.
+ *
+ * @throws FileOperationError if the backup has no readable manifest
+ */
+export async function readBackupManifest(dir: string, options: BackupReadOptions = {}): Promise<BackupEntry> {
+  return (await openBackup(dir, options)).entry
+}
+
+/**
+ * Whether a path is an encrypted backup archive.
+ */
+export async function isEncryptedBackup(path: string): Promise<boolean> {
+  try {
+    const handle = await fs.open(resolve(path), "r")
+    try {
+      const header = Buffer.alloc(16)
+      const { bytesRead } = await handle.read(header, 0, header.length, 0)
+      return isEncryptedArchive(header.subarray(0, bytesRead))
+    } finally {
+      await handle.close()
+    }
+  } catch {
+    // Directories and missing paths are not encrypted archives
+    return false
+  }
+}
+
+/**
+ * List backups (directories with a manifest, and archive files) under a
+ * backup directory, newest first. Directories without a manifest are
+ * ignored; archives that cannot be opened are reported via onWarning.
+ */
+export async function listBackups(backupDir: string, options: BackupListOptions = {}): Promise<BackupEntry[]> {
+  const root = resolve(backupDir)
+  let dirents: Array<{ name: string; isDirectory(): boolean }>
+  try {
+    dirents = await fs.readdir(root, { withFileTypes: true })
+  } catch {
+    return []
+  }
+
+  const entries: BackupEntry[] = []
+  for (const dirent of dirents) {
+    const path = join(root, dirent.name)
+    if (dirent.isDirectory()) {
+      try {
+        entries.push(await readBackupManifest(path))
+      } catch {
+        // Legacy backup without manifest, or not a backup at all
+      }
+      continue
+    }
+    if (!dirent.name.endsWith(ARCHIVE_EXTENSION) && !dirent.name.endsWith(ENCRYPTED_ARCHIVE_EXTENSION)) {
+      continue
+    }
+    try {
+      entries.push(await readBackupManifest(path, options))
+    } catch (error) {
+      options.onWarning?.(`Skipping backup ${path}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.path.localeCompare(a.path))
+  return entries
+}
+
+async function verifyOpenedBackup(backup: OpenedBackup): Promise<BackupVerifyResult> {
+  const { entry } = backup
+  const problems: BackupVerifyResult["problems"] = []
+
+  let storedRows: Record<string, Record<string, unknown>[]> | null = null
+  if (entry.items.some((item) => item.kind === "row")) {
+    const data = await backup.read(ROWS_FILE)
+    try {
+      if (!data) {
+        throw new Error("missing from backup")
+      }
+      storedRows = JSON.parse(data.toString("utf8"))
+    } catch (error) {
+      problems.push({ item: ROWS_FILE, problem: `unreadable: ${error instanceof Error ? error.message : String(error)}` })
+    }
+  }
+
+  for (const item of entry.items) {
+    if (item.kind === "file") {
+      const copy = await backup.read(item.backupPath)
+      if (!copy) {
+        problems.push({ item: item.backupPath, problem: "missing from backup" })
+      } else if (sha256(copy) !== item.sha256) {
+        problems.push({ item: item.backupPath, problem: "checksum mismatch" })
+      }
+      continue
+    }
+    if (!storedRows) {
+      continue
+    }
+    const row = storedRows[item.table]?.find((candidate) => String(candidate.id) === item.id)
+    if (!row) {
+      problems.push({ item: describeItem(item), problem: "missing from backup" })
+    } else if (sha256(JSON.stringify(row)) !== item.sha256) {
+      problems.push({ item: describeItem(item), problem: "checksum mismatch" })
+    }
+  }
+
+  return { backupDir: entry.path, ok: problems.length === 0, checked: entry.items.length, problems }
+}
+
+/**
+ * Check every item of a backup against the checksums in its manifest.
+ */
+export async function verifyBackup(dir: string, options: BackupReadOptions = {}): Promise<BackupVerifyResult> {
+  return verifyOpenedBackup(await openBackup(dir, options))
+}
+
+/**
+ * Put the contents of a backup back where they came from.
+ *
+ * Files are copied back to their original paths and rows are re-inserted
+ * into the recorded database. An item whose original exists with different
+ * content is a conflict: unless `force` is set, nothing is restored when
+ * any conflict exists. Items identical to the backup are left alone.
+ *
+ * @throws FileOperationError if the backup fails verification
+ */
+export async function restoreBackup(
+  dir: string,
+  options: BackupRestoreOptions = {}
+): Promise<BackupRestoreResult> {
+  const backup = await openBackup(dir, options)
+  const { entry } = backup
+  const verification = await verifyOpenedBackup(backup)
+  if (!verification.ok) {
+    throw new FileOperationError(
+      `Backup ${entry.path} failed verification: ${verification.problems
+        .map((problem) => `${problem.item} (${problem.problem})`)
+        .join(", ")}`,
+      "read"
+    )
+  }
+
+  const resolveAction = (differs: boolean): BackupRestoreAction =>
+    differs ? (options.force ? "overwrite" : "conflict") : "unchanged"
+
+  const items: BackupRestoreItem[] = []
+  const files = entry.items.filter((item): item is Extract<BackupItem, { kind: "file" }> => item.kind === "file")
+  for (const item of files) {
+    const action = (await pathExists(item.originalPath))
+      ? resolveAction((await sha256File(item.originalPath)) !== item.sha256)
+      : "restore"
+    items.push({ target: item.originalPath, action })
+  }
+
+  let rows: SqliteRowSnapshot | null = null
+  if (entry.items.some((item) => item.kind === "row")) {
+    if (!entry.storeRoot) {
+      throw new FileOperationError(`Backup ${entry.path} does not record its database path`, "read")
+    }
+    rows = decodeRows(JSON.parse((await backup.read(ROWS_FILE))!.toString("utf8")))
+    for (const row of await compareRowsSqlite(rows, { db: entry.storeRoot })) {
+      items.push({
+        target: row.path,
+        action: row.state === "missing" ? "restore" : resolveAction(row.state === "changed"),
+      })
+    }
+  }
+
+  const conflicts = items.filter((item) => item.action === "conflict").map((item) => item.target)
+  const result: BackupRestoreResult = {
+    backupDir: entry.path,
+    backend: entry.backend,
+    dryRun: Boolean(options.dryRun),
+    items,
+    restored: [],
+    conflicts,
+  }
+  if (options.dryRun || conflicts.length > 0) {
+    return result
+  }
+
+  const pending = new Set(
+    items.filter((item) => item.action === "restore" || item.action === "overwrite").map((item) => item.target)
+  )
+  for (const item of files) {
+    if (pending.has(item.originalPath)) {
+      await ensureDir(dirname(item.originalPath))
+      await fs.writeFile(item.originalPath, (await backup.read(item.backupPath))!)
+      result.restored.push(item.originalPath)
+    }
+  }
+  if (rows) {
+    const toWrite: SqliteRowSnapshot = {}
+    for (const [table, tableRows] of Object.entries(rows)) {
+      const selected = tableRows.filter((row) => pending.has(`sqlite:${table}:${row.id}`))
+      if (selected.length > 0) {
+        toWrite[table] = selected
+      }
+    }
+    result.restored.push(
+      ...(await writeRowsSqlite(toWrite, {
+        db: entry.storeRoot!,
+        replace: options.force,
+        forceWrite: options.forceWrite,
+      }))
+    )
+  }
+  return result
+}
+
+// ========================
+// Passphrases
+// ========================
+
+/**
+ * Read a line from the terminal without echoing it.
+ */
+function promptHidden(question: string): Promise<string> {
+  const stdin = process.stdin
+  process.stderr.write(question)
+  stdin.setRawMode(true)
+  stdin.resume()
+
+  return new Promise((resolvePrompt, reject) => {
+    let value = ""
+    const finish = () => {
+      stdin.off("data", onData)
+      stdin.setRawMode(false)
+      stdin.pause()
+      process.stderr.write("\n")
+    }
+    const onData = (chunk: Buffer) => {
+      for (const char of chunk.toString("utf8")) {
+        if (char === "\r" || char === "\n") {
+          finish()
+          resolvePrompt(value)
+          return
+        }
+        if (char === "\u0003") {
+          finish()
+          reject(new UsageError("Passphrase prompt cancelled"))
+          return
+        }
+        value = char === "\u007f" || char === "\b" ? value.slice(0, -1) : value + char
+      }
+    }
+    stdin.on("data", onData)
+  })
+}
+
+/**
+ * Get the passphrase for encrypted backups.
+ *
+ * Uses OPENCODE_MANAGER_BACKUP_PASSPHRASE when set, otherwise prompts on the
+ * terminal. With `confirm`, the prompt asks twice (for new backups).
+ *
+ * @throws UsageError if no passphrase is available or the entries differ
+ */
+export async function readBackupPassphrase(options: { confirm?: boolean } = {}): Promise<string> {
+  const fromEnv = process.env[BACKUP_PASSPHRASE_ENV]
+  if (fromEnv) {
+    return fromEnv
+  }
+  if (!process.stdin.isTTY) {
+    throw new UsageError(
+      `Encrypted backups need a passphrase. Set ${BACKUP_PASSPHRASE_ENV} or run in a terminal to be prompted.`
+    )
+  }
+
+  const passphrase = await promptHidden("Backup passphrase: ")
+  if (!passphrase) {
+    throw new UsageError("Backup passphrase must not be empty")
+  }
+  if (options.confirm && (await promptHidden("Repeat passphrase: ")) !== passphrase) {
+    throw new UsageError("Backup passphrases do not match")
+  }
+  return passphrase
+}
@@ -0,0 +1,228 @@
+/**
+ * Backup CLI subcommands.
+ *
+ * Provides commands for listing, verifying and restoring the backups that
+ * delete commands write with --backup-dir (directories or archive files).
+ */
+
+import { Command, type OptionValues } from "commander"
+import { parseGlobalOptions, type GlobalOptions } from "../index"
+import {
+  BACKUP_PASSPHRASE_ENV,
+  isEncryptedBackup,
+  listBackups,
+  readBackupPassphrase,
+  restoreBackup,
+  verifyBackup,
+} from "../backup"
+import {
+  getOutputOptions,
+  printBackupListOutput,
+  printBackupRestoreOutput,
+  printSuccessOutput,
+} from "../output"
+import {
+  CLIError,
+  FileOperationError,
+  requireConfirmation,
+  withErrorHandling,
+  UsageError,
+} from "../errors"
+
+/**
+ * Collect all options from a command and its ancestors.
+ * Commander stores global options on the root program, not on subcommands.
+ */
+function collectOptions(cmd: Command): OptionValues {
+  const opts: OptionValues = {}
+  let current: Command | null = cmd
+  while (current) {
+    Object.assign(opts, current.opts())
+    current = current.parent
+  }
+  return opts
+}
+
+/**
+ * Options specific to the backup verify command.
+ */
+export interface BackupVerifyOptions {
+  /** Backup directory (holding manifest.json) or archive file */
+  dir: string
+}
+
+/**
+ * Options specific to the backup restore command.
+ */
+export interface BackupRestoreCommandOptions {
+  /** Backup directory (holding manifest.json) or archive file */
+  dir: string
+  /** Overwrite items whose current content differs from the backup */
+  force: boolean
+  /** Skip confirmation prompt (required for --force) */
+  yes: boolean
+  /** Report what would be restored without writing anything */
+  dryRun: boolean
+}
+
+/**
+ * Register backup subcommands on the given parent command.
+ */
+export function registerBackupCommands(parent: Command): void {
+  const backup = parent
+    .command("backup")
+    .description("List, verify and restore backups written by --backup-dir")
+
+  backup
+    .command("list")
+    .description("List backups under --backup-dir, newest first")
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      await withErrorHandling(handleBackupList, getOutputOptions(globalOpts).format)(globalOpts)
+    })
+
+  backup
+    .command("verify")
+    .description("Check a backup's files or rows against the checksums in its manifest")
+    .argument("<dir>", "Backup directory or archive file")
+    .action(async function (this: Command, dir: string) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      const verifyOpts: BackupVerifyOptions = { dir }
+      await withErrorHandling(handleBackupVerify, getOutputOptions(globalOpts).format)(
+        globalOpts,
+        verifyOpts
+      )
+    })
+
+  backup
+    .command("restore")
+    .description("Copy backed-up files back, or re-insert backed-up SQLite rows")
+    .argument("<dir>", "Backup directory or archive file")
+    .option("--force", "Overwrite data that changed since the backup", false)
+    .option("--yes", "Skip confirmation prompt", false)
+    .option("--dry-run", "Show what would be restored without writing anything", false)
+    .action(async function (this: Command, dir: string) {
+      const allOpts = collectOptions(this)
+      const globalOpts = parseGlobalOptions(allOpts)
+      const cmdOpts = this.opts()
+      const restoreOpts: BackupRestoreCommandOptions = {
+        dir,
+        force: Boolean(cmdOpts.force),
+        yes: Boolean(allOpts.yes ?? cmdOpts.yes),
+        dryRun: Boolean(allOpts.dryRun ?? cmdOpts.dryRun),
+      }
+      await withErrorHandling(handleBackupRestore, getOutputOptions(globalOpts).format)(
+        globalOpts,
+        restoreOpts
+      )
+    })
+
+  backup.addHelpText(
+    "after",
+    [
+      "",
+      "Examples:",
+      "  opencode-manager backup list --backup-dir ./backups",
+      "  opencode-manager backup verify ./backups/session_2026-01-15_12-30-45",
+      "  opencode-manager backup restore ./backups/session_2026-01-15_12-30-45 --dry-run",
+      "  opencode-manager backup restore ./backups/session_2026-01-15_12-30-45 --force --yes",
+      "  opencode-manager backup restore ./backups/session_2026-01-15_12-30-45.tar.gz.enc",
+    ].join("\n")
+  )
+}
+
+/**
+ * Handle the backup list command.
+ *
+ * Exit codes:
+ * - 0: Success
+ * - 2: Usage error (--backup-dir not provided)
+ */
+async function handleBackupList(globalOpts: GlobalOptions): Promise<void> {
+  if (!globalOpts.backupDir) {
+    throw new UsageError("Backup directory is required. Pass --backup-dir <path>.")
+  }
+
+  // Encrypted archives are only listed when the passphrase is in the environment
+  let entries = await listBackups(globalOpts.backupDir, {
+    passphrase: process.env[BACKUP_PASSPHRASE_ENV],
+    onWarning: (message) => {
+      if (!globalOpts.quiet) {
+        console.error(`Warning: ${message}`)
+      }
+    },
+  })
+
+  // Apply limit
+  if (globalOpts.limit && entries.length > globalOpts.limit) {
+    entries = entries.slice(0, globalOpts.limit)
+  }
+
+  printBackupListOutput(entries, getOutputOptions(globalOpts))
+}
+
+/**
+ * Handle the backup verify command.
+ *
+ * Exit codes:
+ * - 0: All checksums match
+ * - 2: Usage error (no passphrase for an encrypted archive)
+ * - 4: Missing manifest, wrong passphrase, or missing/corrupted items
+ */
+async function handleBackupVerify(
+  globalOpts: GlobalOptions,
+  verifyOpts: BackupVerifyOptions
+): Promise<void> {
+  const passphrase = (await isEncryptedBackup(verifyOpts.dir)) ? await readBackupPassphrase() : undefined
+  const result = await verifyBackup(verifyOpts.dir, { passphrase })
+
+  if (!result.ok) {
+    throw new FileOperationError(
+      `Backup verification failed for ${result.backupDir}: ${result.problems
+        .map((problem) => `${problem.item} (${problem.problem})`)
+        .join(", ")}`,
+      "read"
+    )
+  }
+
+  printSuccessOutput(
+    `Backup verified: ${result.checked} item(s) match their checksums`,
+    { ...result },
+    getOutputOptions(globalOpts).format
+  )
+}
+
+/**
+ * Handle the backup restore command.
+ *
+ * Exit codes:
+ * - 0: Success (including dry runs that report conflicts)
+ * - 1: Restore aborted because data changed since the backup (without --force)
+ * - 2: Usage error (--yes not provided for --force, no passphrase for an encrypted archive)
+ * - 4: Missing manifest, wrong passphrase, or the backup failed verification
+ */
+async function handleBackupRestore(
+  globalOpts: GlobalOptions,
+  restoreOpts: BackupRestoreCommandOptions
+): Promise<void> {
+  // Overwriting newer data is destructive
+  if (restoreOpts.force && !restoreOpts.dryRun) {
+    requireConfirmation(restoreOpts.yes, "Overwriting data that changed since the backup")
+  }
+
+  const passphrase = (await isEncryptedBackup(restoreOpts.dir)) ? await readBackupPassphrase() : undefined
+  const result = await restoreBackup(restoreOpts.dir, {
+    passphrase,
+    dryRun: restoreOpts.dryRun,
+    force: restoreOpts.force,
+    forceWrite: globalOpts.forceWrite,
+  })
+
+  printBackupRestoreOutput(result, getOutputOptions(globalOpts).format)
+
+  if (!result.dryRun && result.conflicts.length > 0) {
+    throw new CLIError(
+      `Restore aborted: ${result.conflicts.length} item(s) changed since the backup. Re-run with --force --yes to overwrite them.`
+    )
+  }
+}
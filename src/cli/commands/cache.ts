@@ -0,0 +1,90 @@
+/**
+ * Cache CLI subcommands.
+ *
+ * Provides commands for inspecting and clearing the persistent index cache
+ * that speeds up listing and token commands on large stores.
+ */
+
+import { Command, type OptionValues } from "commander"
+import { parseGlobalOptions, type GlobalOptions } from "../index"
+import { clearIndexCache, DEFAULT_CACHE_PATH, getIndexCacheStats } from "../../lib/opencode-data-cache"
+import { formatByteSize } from "../formatters/table"
+import { getOutputOptions, printCacheStatsOutput, printSuccessOutput } from "../output"
+import { withErrorHandling } from "../errors"
+
+/**
+ * Collect all options from a command and its ancestors.
+ * Commander stores global options on the root program, not on subcommands.
+ */
+function collectOptions(cmd: Command): OptionValues {
+  const opts: OptionValues = {}
+  let current: Command | null = cmd
+  while (current) {
+    Object.assign(opts, current.opts())
+    current = current.parent
+  }
+  return opts
+}
+
+/**
+ * Register cache subcommands on the given parent command.
+ */
+export function registerCacheCommands(parent: Command): void {
+  const cache = parent
+    .command("cache")
+    .description("Inspect or clear the persistent index cache")
+
+  cache
+    .command("stats")
+    .description("Show the cache file, its size and entry counts per kind and store")
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      await withErrorHandling(handleCacheStats, getOutputOptions(globalOpts).format)(globalOpts)
+    })
+
+  cache
+    .command("clear")
+    .description("Delete the cache file (it is rebuilt on the next run)")
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      await withErrorHandling(handleCacheClear, getOutputOptions(globalOpts).format)(globalOpts)
+    })
+
+  cache.addHelpText(
+    "after",
+    [
+      "",
+      `The cache lives at ${DEFAULT_CACHE_PATH} ($XDG_CACHE_HOME is honored).`,
+      "Pass --no-cache to any command to bypass it.",
+      "",
+      "Examples:",
+      "  opencode-manager cache stats",
+      "  opencode-manager cache clear",
+    ].join("\n")
+  )
+}
+
+/**
+ * Handle the cache stats command.
+ */
+async function handleCacheStats(globalOpts: GlobalOptions): Promise<void> {
+  printCacheStatsOutput(getIndexCacheStats(), getOutputOptions(globalOpts).format)
+}
+
+/**
+ * Handle the cache clear command.
+ *
+ * Exit codes:
+ * - 0: Success (including when there is no cache file)
+ */
+async function handleCacheClear(globalOpts: GlobalOptions): Promise<void> {
+  const result = await clearIndexCache()
+
+  printSuccessOutput(
+    result.removed
+      ? `Cleared cache ${result.path} (${formatByteSize(result.sizeBytes)})`
+      : `No cache at ${result.path}`,
+    { ...result },
+    getOutputOptions(globalOpts).format
+  )
+}
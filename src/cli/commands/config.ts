@@ -0,0 +1,216 @@
+/**
+ * Config CLI subcommands.
+ *
+ * Provides commands for reading and editing the user config file that holds
+ * defaults for the global options, TUI preferences and the store registry.
+ */
+
+import { Command, type OptionValues } from "commander"
+import { existsSync } from "node:fs"
+import { DEFAULT_OPTIONS, parseGlobalOptions, type GlobalOptions } from "../index"
+import {
+  CONFIG_KEY_NAMES,
+  CONFIG_KEYS,
+  ConfigError,
+  DEFAULT_CONFIG_PATH,
+  DEFAULT_TUI_PREFERENCES,
+  configEnvVar,
+  describeConfigKind,
+  listSettings,
+  normalizeConfigKey,
+  setConfigValue,
+  unsetConfigValue,
+  type ConfigKey,
+  type ConfigSetting,
+  type ConfigValue,
+} from "../../lib/config"
+import { DEFAULT_SQLITE_PATH } from "../../lib/opencode-data-sqlite"
+import { formatConfigValue } from "../formatters/table"
+import { getOutputOptions, printConfigSettingsOutput, printSuccessOutput } from "../output"
+import { withErrorHandling, UsageError } from "../errors"
+
+/**
+ * Collect all options from a command and its ancestors.
+ * Commander stores global options on the root program, not on subcommands.
+ */
+function collectOptions(cmd: Command): OptionValues {
+  const opts: OptionValues = {}
+  let current: Command | null = cmd
+  while (current) {
+    Object.assign(opts, current.opts())
+    current = current.parent
+  }
+  return opts
+}
+
+/**
+ * Register config subcommands on the given parent command.
+ */
+export function registerConfigCommands(parent: Command): void {
+  const config = parent
+    .command("config")
+    .description("Show or edit defaults in the config file")
+
+  config
+    .command("path")
+    .description("Show the config file location")
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      await withErrorHandling(handleConfigPath, getOutputOptions(globalOpts).format)(globalOpts)
+    })
+
+  config
+    .command("get <key>")
+    .description("Show the effective value of a setting and where it comes from")
+    .action(async function (this: Command, key: string) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      await withErrorHandling(handleConfigGet, getOutputOptions(globalOpts).format)(globalOpts, key)
+    })
+
+  config
+    .command("set <key> <value>")
+    .description("Store a default in the config file")
+    .action(async function (this: Command, key: string, value: string) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      await withErrorHandling(handleConfigSet, getOutputOptions(globalOpts).format)(globalOpts, key, value)
+    })
+
+  config
+    .command("unset <key>")
+    .description("Remove a default from the config file")
+    .action(async function (this: Command, key: string) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      await withErrorHandling(handleConfigUnset, getOutputOptions(globalOpts).format)(globalOpts, key)
+    })
+
+  config
+    .command("list")
+    .description("List every setting with its effective value and source (env, config or default)")
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      await withErrorHandling(handleConfigList, getOutputOptions(globalOpts).format)(globalOpts)
+    })
+
+  config.addHelpText(
+    "after",
+    [
+      "",
+      `The config file lives at ${DEFAULT_CONFIG_PATH} ($XDG_CONFIG_HOME is honored).`,
+      "Precedence: command-line flag > OPENCODE_MANAGER_* environment variable > config file > built-in default.",
+      "",
+      "Keys:",
+      ...CONFIG_KEY_NAMES.map(
+        (key) => `  ${key.padEnd(16)} ${CONFIG_KEYS[key].description} (${describeConfigKind(key)}; ${configEnvVar(key)})`
+      ),
+      "",
+      "Examples:",
+      "  opencode-manager config set format json",
+      "  opencode-manager config set backup-dir ~/opencode-backups",
+      "  opencode-manager config set tui.showHelp false",
+      "  opencode-manager config get format",
+      "  opencode-manager config list",
+    ].join("\n")
+  )
+}
+
+/**
+ * Built-in values of every setting that has one.
+ */
+function builtInSettings(): Partial<Record<ConfigKey, ConfigValue>> {
+  const { experimentalSqlite: _sqlite, merged: _merged, dbPath: _dbPath, backupDir: _backupDir, store: _store, ...flags } =
+    DEFAULT_OPTIONS
+  return {
+    ...flags,
+    backend: "jsonl",
+    dbPath: DEFAULT_SQLITE_PATH,
+    "tui.showHelp": DEFAULT_TUI_PREFERENCES.showHelp,
+    "tui.tab": DEFAULT_TUI_PREFERENCES.tab,
+    "tui.sessionSort": DEFAULT_TUI_PREFERENCES.sessionSort,
+  }
+}
+
+/**
+ * Run a config library call, reporting invalid keys, values and files as
+ * usage errors.
+ */
+function configCall<T>(fn: () => T): T {
+  try {
+    return fn()
+  } catch (error) {
+    throw error instanceof ConfigError ? new UsageError(error.message) : error
+  }
+}
+
+/**
+ * Handle the config path command.
+ */
+async function handleConfigPath(globalOpts: GlobalOptions): Promise<void> {
+  printSuccessOutput(
+    DEFAULT_CONFIG_PATH,
+    { path: DEFAULT_CONFIG_PATH, exists: existsSync(DEFAULT_CONFIG_PATH) },
+    getOutputOptions(globalOpts).format
+  )
+}
+
+/**
+ * Handle the config get command. The table format prints the bare value so
+ * it can be used in scripts.
+ *
+ * Exit codes:
+ * - 0: Success (including settings that are not set)
+ * - 2: Unknown key, or the config file or environment is invalid
+ */
+async function handleConfigGet(globalOpts: GlobalOptions, name: string): Promise<void> {
+  const key = configCall(() => normalizeConfigKey(name))
+  const setting = configCall(() => listSettings(builtInSettings())).find((entry) => entry.key === key) as ConfigSetting
+  printSuccessOutput(formatConfigValue(setting.value), { ...setting }, getOutputOptions(globalOpts).format)
+}
+
+/**
+ * Handle the config set command.
+ *
+ * Exit codes:
+ * - 0: Success
+ * - 2: Unknown key, invalid value, or the config file cannot be parsed
+ */
+async function handleConfigSet(globalOpts: GlobalOptions, name: string, raw: string): Promise<void> {
+  const key = configCall(() => normalizeConfigKey(name))
+  const value = configCall(() => setConfigValue(key, raw))
+  const envVar = configEnvVar(key)
+  const overridden = process.env[envVar] ? ` (overridden by ${envVar})` : ""
+
+  printSuccessOutput(
+    `Set ${key} = ${formatConfigValue(value)} in ${DEFAULT_CONFIG_PATH}${overridden}`,
+    { key, value, path: DEFAULT_CONFIG_PATH },
+    getOutputOptions(globalOpts).format
+  )
+}
+
+/**
+ * Handle the config unset command.
+ *
+ * Exit codes:
+ * - 0: Success (including keys the file did not set)
+ * - 2: Unknown key, or the config file cannot be parsed
+ */
+async function handleConfigUnset(globalOpts: GlobalOptions, name: string): Promise<void> {
+  const key = configCall(() => normalizeConfigKey(name))
+  const removed = configCall(() => unsetConfigValue(key))
+
+  printSuccessOutput(
+    removed ? `Unset ${key} in ${DEFAULT_CONFIG_PATH}` : `${key} is not set in ${DEFAULT_CONFIG_PATH}`,
+    { key, removed, path: DEFAULT_CONFIG_PATH },
+    getOutputOptions(globalOpts).format
+  )
+}
+
+/**
+ * Handle the config list command.
+ *
+ * Exit codes:
+ * - 0: Success
+ * - 2: The config file or an environment variable is invalid
+ */
+async function handleConfigList(globalOpts: GlobalOptions): Promise<void> {
+  printConfigSettingsOutput(configCall(() => listSettings(builtInSettings())), getOutputOptions(globalOpts))
+}
@@ -0,0 +1,98 @@
+/**
+ * Doctor CLI subcommand.
+ *
+ * Validates a store end to end: unparsable records, bad timestamps,
+ * inconsistent references, and (for SQLite) integrity and schema checks.
+ */
+
+import { Command, type OptionValues } from "commander"
+import { parseGlobalOptions, type GlobalOptions } from "../index"
+import { countDoctorIssues } from "../../lib/opencode-data"
+import { createProviderFromGlobalOptions } from "../../lib/opencode-data-provider"
+import { getOutputOptions, printDoctorOutput } from "../output"
+import { CLIError, withErrorHandling } from "../errors"
+
+/**
+ * Collect all options from a command and its ancestors.
+ * Commander stores global options on the root program, not on subcommands.
+ */
+function collectOptions(cmd: Command): OptionValues {
+  const opts: OptionValues = {}
+  let current: Command | null = cmd
+  while (current) {
+    Object.assign(opts, current.opts())
+    current = current.parent
+  }
+  return opts
+}
+
+/**
+ * Options specific to the doctor command.
+ */
+export interface DoctorCommandOptions {
+  /** Fail on warnings as well as errors */
+  strict: boolean
+}
+
+/**
+ * Register the doctor subcommand on the given parent command.
+ */
+export function registerDoctorCommand(parent: Command): void {
+  parent
+    .command("doctor")
+    .description("Check the store for corrupt, inconsistent or unreadable data")
+    .option("--strict", "Exit non-zero on warnings as well as errors", false)
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      const doctorOpts: DoctorCommandOptions = {
+        strict: Boolean(this.opts().strict),
+      }
+      await withErrorHandling(handleDoctor, getOutputOptions(globalOpts).format)(
+        globalOpts,
+        doctorOpts
+      )
+    })
+    .addHelpText(
+      "after",
+      [
+        "",
+        "Checks:",
+        "  json              Records whose JSON does not parse (skipped by the loaders)",
+        "  timestamp         Creation/update times that are missing or in the future",
+        "  message-parent    Assistant messages whose parentID does not resolve",
+        "  part-message      Parts whose messageID disagrees with their directory",
+        "  session-project   Sessions whose projectID disagrees with their folder",
+        "  sqlite-integrity  PRAGMA integrity_check failures (SQLite only)",
+        "  sqlite-schema     Missing required tables or columns (SQLite only)",
+        "",
+        "Examples:",
+        "  opencode-manager doctor",
+        "  opencode-manager doctor --strict --format json --db ~/.local/share/opencode/opencode.db",
+      ].join("\n")
+    )
+}
+
+/**
+ * Handle the doctor command.
+ *
+ * Exit codes:
+ * - 0: No errors (warnings allowed unless --strict)
+ * - 1: Errors found (or warnings with --strict), or the store could not be read
+ */
+async function handleDoctor(
+  globalOpts: GlobalOptions,
+  doctorOpts: DoctorCommandOptions
+): Promise<void> {
+  const provider = createProviderFromGlobalOptions(globalOpts)
+
+  const report = await provider.diagnose()
+
+  printDoctorOutput(report, getOutputOptions(globalOpts).format)
+
+  const { errors, warnings } = countDoctorIssues(report.issues)
+  if (errors > 0 || (doctorOpts.strict && warnings > 0)) {
+    throw new CLIError(
+      `Doctor found ${errors} error(s) and ${warnings} warning(s) in ${report.location}`
+    )
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Maintenance CLI subcommands.
+ *
+ * Provides housekeeping commands for OpenCode metadata stores, such as
+ * finding and cleaning up orphaned data left behind by deletions.
+ */
+
+import { Command, type OptionValues } from "commander"
+import { parseGlobalOptions, type GlobalOptions } from "../index"
+import type { OrphanKind, OrphanRecord } from "../../lib/opencode-data"
+import {
+  createProviderFromGlobalOptions,
+  type DataProvider,
+} from "../../lib/opencode-data-provider"
+import {
+  getOutputOptions,
+  printOrphansOutput,
+  printDryRunOutput,
+  createDryRunResult,
+  printSuccessOutput,
+} from "../output"
+import {
+  requireConfirmation,
+  withErrorHandling,
+  FileOperationError,
+  UsageError,
+} from "../errors"
+import { backupSqliteDatabase, copyToBackupDir, formatBackupResult, readBackupPassphrase } from "../backup"
+
+/**
+ * Collect all options from a command and its ancestors.
+ * Commander stores global options on the root program, not on subcommands.
+ */
+function collectOptions(cmd: Command): OptionValues {
+  const opts: OptionValues = {}
+  let current: Command | null = cmd
+  while (current) {
+    Object.assign(opts, current.opts())
+    current = current.parent
+  }
+  return opts
+}
+
+const ORPHAN_KINDS: readonly OrphanKind[] = ["session", "message", "part"]
+
+/**
+ * Options specific to the maintenance orphans list command.
+ */
+export interface OrphansListOptions {
+  /** Only report orphans of this kind (session, message, part) */
+  kind?: string
+}
+
+/**
+ * Options specific to the maintenance orphans clean command.
+ */
+export interface OrphansCleanOptions {
+  /** Only clean orphans of this kind (session, message, part) */
+  kind?: string
+  /** Skip confirmation prompt */
+  yes: boolean
+  /** Preview changes without deleting */
+  dryRun: boolean
+  /** Directory to backup files before deletion */
+  backupDir?: string
+}
+
+/**
+ * Parse and validate the --kind option.
+ */
+function parseOrphanKind(kind: string | undefined): OrphanKind | undefined {
+  if (kind === undefined) {
+    return undefined
+  }
+  if (!ORPHAN_KINDS.includes(kind as OrphanKind)) {
+    throw new UsageError(
+      `Invalid --kind "${kind}". Must be one of: ${ORPHAN_KINDS.join(", ")}.`
+    )
+  }
+  return kind as OrphanKind
+}
+
+/**
+ * Register maintenance subcommands on the given parent command.
+ */
+export function registerMaintenanceCommands(parent: Command): void {
+  const maintenance = parent
+    .command("maintenance")
+    .description("Housekeeping for OpenCode metadata stores")
+
+  const orphans = maintenance
+    .command("orphans")
+    .description("Find and clean up orphaned sessions, messages and parts")
+
+  orphans
+    .command("list")
+    .description("List orphaned data (sessions without a project, messages without a session, parts without a message)")
+    .option("--kind <kind>", "Only list orphans of this kind: session, message, or part")
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      const cmdOpts = this.opts()
+      const listOpts: OrphansListOptions = {
+        kind: cmdOpts.kind as string | undefined,
+      }
+      await withErrorHandling(handleOrphansList, getOutputOptions(globalOpts).format)(
+        globalOpts,
+        listOpts
+      )
+    })
+
+  orphans
+    .command("clean")
+    .description("Delete orphaned data")
+    .option("--kind <kind>", "Only clean orphans of this kind: session, message, or part")
+    .option("--yes", "Skip confirmation prompt", false)
+    .option("--dry-run", "Preview changes without deleting", false)
+    .option("--backup-dir <dir>", "Directory to backup files before deletion")
+    .action(async function (this: Command) {
+      const allOpts = collectOptions(this)
+      const globalOpts = parseGlobalOptions(allOpts)
+      const cmdOpts = this.opts()
+      const cleanOpts: OrphansCleanOptions = {
+        kind: cmdOpts.kind as string | undefined,
+        yes: Boolean(allOpts.yes ?? cmdOpts.yes),
+        dryRun: Boolean(allOpts.dryRun ?? cmdOpts.dryRun),
+        backupDir: (allOpts.backupDir ?? cmdOpts.backupDir) as string | undefined,
+      }
+      await withErrorHandling(handleOrphansClean, getOutputOptions(globalOpts).format)(
+        globalOpts,
+        cleanOpts
+      )
+    })
+
+  maintenance.addHelpText(
+    "after",
+    [
+      "",
+      "Examples:",
+      "  opencode-manager maintenance orphans list",
+      "  opencode-manager maintenance orphans clean --dry-run",
+      "  opencode-manager maintenance orphans clean --yes --backup-dir ~/opencode-backups",
+      "  opencode-manager maintenance orphans list --db ~/.local/share/opencode/opencode.db",
+    ].join("\n")
+  )
+}
+
+/**
+ * Load orphans from the provider, optionally filtered by kind.
+ */
+async function loadOrphans(provider: DataProvider, kind?: OrphanKind): Promise<OrphanRecord[]> {
+  const orphans = await provider.findOrphans()
+  return kind ? orphans.filter((orphan) => orphan.kind === kind) : orphans
+}
+
+/**
+ * Handle the maintenance orphans list command.
+ */
+async function handleOrphansList(
+  globalOpts: GlobalOptions,
+  listOpts: OrphansListOptions
+): Promise<void> {
+  const kind = parseOrphanKind(listOpts.kind)
+
+  // Create data provider based on global options (JSONL or SQLite backend)
+  const provider = createProviderFromGlobalOptions(globalOpts)
+
+  let orphans = await loadOrphans(provider, kind)
+
+  // Apply limit
+  if (globalOpts.limit && orphans.length > globalOpts.limit) {
+    orphans = orphans.slice(0, globalOpts.limit)
+  }
+
+  printOrphansOutput(orphans, getOutputOptions(globalOpts))
+}
+
+/**
+ * Handle the maintenance orphans clean command.
+ *
+ * Exit codes:
+ * - 0: Success (including when there is nothing to clean)
+ * - 2: Usage error (--yes not provided, invalid --kind)
+ * - 4: File operation failure (backup or delete failed)
+ */
+async function handleOrphansClean(
+  globalOpts: GlobalOptions,
+  cleanOpts: OrphansCleanOptions
+): Promise<void> {
+  const kind = parseOrphanKind(cleanOpts.kind)
+  const outputOpts = getOutputOptions(globalOpts)
+
+  // Create data provider based on global options (JSONL, SQLite or merged backend)
+  const provider = createProviderFromGlobalOptions(globalOpts)
+
+  const orphans = await loadOrphans(provider, kind)
+
+  // Collect every file/row the cleanup touches (orphaned sessions cascade)
+  const { removed: pathsToDelete } = await provider.deleteOrphans(orphans, { dryRun: true })
+
+  // Handle dry-run mode
+  if (cleanOpts.dryRun) {
+    const dryRunResult = createDryRunResult(pathsToDelete, "delete", "orphan", orphans.length)
+    printDryRunOutput(dryRunResult, outputOpts.format)
+    return
+  }
+
+  if (orphans.length === 0) {
+    printSuccessOutput("No orphans found", { count: 0, deleted: [] }, outputOpts.format)
+    return
+  }
+
+  // Require confirmation for destructive operation
+  requireConfirmation(cleanOpts.yes, "Orphan cleanup")
+
+  if (cleanOpts.backupDir) {
+    const passphrase = globalOpts.backupEncrypt ? await readBackupPassphrase({ confirm: true }) : undefined
+    // A merged store is backed up once per store that owns orphans
+    for (const owner of new Set(orphans.map((orphan) => provider.ownerOf(orphan)))) {
+      const backupOptions = {
+        backupDir: cleanOpts.backupDir,
+        prefix: "orphans",
+        storeRoot: owner.location,
+        archive: globalOpts.backupArchive,
+        passphrase,
+      }
+      // SQLite orphans are rows, so a consistent copy of the database is the backup unit
+      const backupResult = owner.backend === "jsonl"
+        ? await copyToBackupDir(
+            (await owner.deleteOrphans(orphans.filter((orphan) => provider.ownerOf(orphan) === owner), { dryRun: true })).removed,
+            { ...backupOptions, preserveStructure: true, structureRoot: owner.location, backend: "jsonl" }
+          )
+        : await backupSqliteDatabase(owner.location, backupOptions)
+
+      if (backupResult.failed.length > 0) {
+        throw new FileOperationError(
+          `Backup failed for ${backupResult.failed.length} file(s): ${backupResult.failed
+            .map((f) => f.path)
+            .join(", ")}`,
+          "backup"
+        )
+      }
+
+      if (!globalOpts.quiet) {
+        console.log(formatBackupResult(backupResult))
+      }
+    }
+  }
+
+  const deleteResult = await provider.deleteOrphans(orphans)
+
+  if (deleteResult.failed.length > 0) {
+    throw new FileOperationError(
+      `Failed to delete ${deleteResult.failed.length} file(s): ${deleteResult.failed
+        .map((f) => `${f.path}: ${f.error || "unknown error"}`)
+        .join(", ")}`,
+      "delete"
+    )
+  }
+
+  printSuccessOutput(
+    `Removed ${orphans.length} orphan(s)`,
+    { count: orphans.length, deleted: deleteResult.removed },
+    outputOpts.format
+  )
+}
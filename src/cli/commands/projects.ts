@@ -21,7 +21,8 @@ import {
 import { tokenizedSearch } from "../../lib/search"
 import { resolveProjectId } from "../resolvers"
 import { requireConfirmation, withErrorHandling, FileOperationError } from "../errors"
-import { copyToBackupDir, formatBackupResult } from "../backup"
+import { backupBeforeDelete, formatBackupResult, readBackupPassphrase } from "../backup"
+import { createTrashContext, formatDeletedMessage } from "../trash"
 
 /**
  * Collect all options from a command and its ancestors.
@@ -59,6 +60,8 @@ export interface ProjectsDeleteOptions {
   dryRun: boolean
   /** Directory to backup files before deletion */
   backupDir?: string
+  /** Delete permanently instead of moving data into the trash */
+  permanent: boolean
 }
 
 /**
@@ -91,6 +94,7 @@ export function registerProjectsCommands(parent: Command): void {
     .option("--yes", "Skip confirmation prompt", false)
     .option("--dry-run", "Preview changes without deleting", false)
     .option("--backup-dir <dir>", "Directory to backup files before deletion")
+    .option("--permanent", "Delete permanently instead of moving data into the trash", false)
     .action(async function (this: Command) {
       const allOpts = collectOptions(this)
       const globalOpts = parseGlobalOptions(allOpts)
@@ -100,6 +104,7 @@ export function registerProjectsCommands(parent: Command): void {
         yes: Boolean(allOpts.yes ?? cmdOpts.yes),
         dryRun: Boolean(allOpts.dryRun ?? cmdOpts.dryRun),
         backupDir: (allOpts.backupDir ?? cmdOpts.backupDir) as string | undefined,
+        permanent: Boolean(cmdOpts.permanent),
       }
       await withErrorHandling(handleProjectsDelete, getOutputOptions(globalOpts).format)(
         globalOpts,
@@ -158,7 +163,8 @@ async function handleProjectsList(
  * Handle the projects delete command.
  *
  * This command deletes a project's metadata file from the OpenCode storage.
- * It does NOT delete the actual project directory on disk.
+ * It does NOT delete the actual project directory on disk. Unless
+ * --permanent is given, the deleted data is moved into the trash.
  *
  * Exit codes:
  * - 0: Success (or dry-run completed)
@@ -182,11 +188,12 @@ async function handleProjectsDelete(
     provider,
   })
 
-  const pathsToDelete = [project.filePath]
+  // Collect the project file plus its sessions, messages and parts (record file first)
+  const { removed: pathsToDelete } = await provider.deleteProjectMetadata([project], { dryRun: true })
 
   // Handle dry-run mode
   if (deleteOpts.dryRun) {
-    const dryRunResult = createDryRunResult(pathsToDelete, "delete", "project")
+    const dryRunResult = createDryRunResult(pathsToDelete, "delete", "project", 1)
     printDryRunOutput(dryRunResult, outputOpts.format)
     return
   }
@@ -194,13 +201,13 @@ async function handleProjectsDelete(
   // Require confirmation for destructive operation
   requireConfirmation(deleteOpts.yes, "Project deletion")
 
-  // Backup files if requested (only applies to JSONL backend - SQLite has no files to backup)
-  if (deleteOpts.backupDir && provider.backend === "jsonl") {
-    const backupResult = await copyToBackupDir(pathsToDelete, {
+  // Backup files (JSONL) or rows (SQLite) if requested
+  if (deleteOpts.backupDir) {
+    const backupResult = await backupBeforeDelete(provider.ownerOf(project), pathsToDelete, { project: [project.projectId] }, {
       backupDir: deleteOpts.backupDir,
       prefix: "project",
-      preserveStructure: true,
-      structureRoot: globalOpts.root,
+      archive: globalOpts.backupArchive,
+      passphrase: globalOpts.backupEncrypt ? await readBackupPassphrase({ confirm: true }) : undefined,
     })
 
     if (backupResult.failed.length > 0) {
@@ -218,7 +225,10 @@ async function handleProjectsDelete(
   }
 
   // Perform the deletion using the provider (handles both JSONL and SQLite)
-  const deleteResult = await provider.deleteProjectMetadata([project], { dryRun: false })
+  const deleteResult = await provider.deleteProjectMetadata([project], {
+    dryRun: false,
+    trash: deleteOpts.permanent ? undefined : createTrashContext(),
+  })
 
   if (deleteResult.failed.length > 0) {
     throw new FileOperationError(
@@ -231,8 +241,8 @@ async function handleProjectsDelete(
 
   // Output success
   printSuccessOutput(
-    `Deleted project: ${project.projectId}`,
-    { projectId: project.projectId, deleted: deleteResult.removed },
+    formatDeletedMessage(`Deleted project: ${project.projectId}`, deleteResult.trashId),
+    { projectId: project.projectId, deleted: deleteResult.removed, trashId: deleteResult.trashId },
     outputOpts.format
   )
 }
@@ -12,10 +12,19 @@ import {
   copySession,
   type SessionRecord,
 } from "../../lib/opencode-data"
-import { createProviderFromGlobalOptions } from "../../lib/opencode-data-provider"
+import { ConfigError, resolveStore } from "../../lib/config"
+import { createProviderForStore, createProviderFromGlobalOptions } from "../../lib/opencode-data-provider"
+import {
+  buildSessionTree,
+  collectDescendants,
+  copySessionTree,
+  expandWithDescendants,
+  flattenSessionTree,
+} from "../../lib/opencode-data-tree"
 import {
   getOutputOptions,
   printSessionsOutput,
+  printSessionTreeOutput,
   printDryRunOutput,
   createDryRunResult,
   printSuccessOutput,
@@ -23,7 +32,8 @@ import {
 import { fuzzySearch, type SearchCandidate } from "../../lib/search"
 import { resolveSessionId, resolveProjectId } from "../resolvers"
 import { requireConfirmation, withErrorHandling, FileOperationError, UsageError } from "../errors"
-import { copyToBackupDir, formatBackupResult } from "../backup"
+import { backupBeforeDelete, formatBackupResult, readBackupPassphrase } from "../backup"
+import { createTrashContext, formatDeletedMessage } from "../trash"
 
 /**
  * Collect all options from a command and its ancestors.
@@ -49,6 +59,20 @@ export interface SessionsListOptions {
   global?: boolean
   /** Search query to filter sessions (fuzzy match) */
   search?: string
+  /** Add model, agent, message and cost details read from each session's messages */
+  stats?: boolean
+}
+
+/**
+ * Options specific to the sessions tree command.
+ */
+export interface SessionsTreeOptions {
+  /** Filter sessions by project ID */
+  project?: string
+  /** Show trees for all projects (conflicts with --project) */
+  global?: boolean
+  /** Show only the tree below this session */
+  session?: string
 }
 
 /**
@@ -63,6 +87,10 @@ export interface SessionsDeleteOptions {
   dryRun: boolean
   /** Directory to backup files before deletion */
   backupDir?: string
+  /** Delete permanently instead of moving data into the trash */
+  permanent: boolean
+  /** Also delete the session's child sessions */
+  cascade: boolean
 }
 
 /**
@@ -83,6 +111,8 @@ export interface SessionsMoveOptions {
   session: string
   /** Target project ID */
   to: string
+  /** Also move the session's child sessions */
+  cascade: boolean
 }
 
 /**
@@ -93,6 +123,10 @@ export interface SessionsCopyOptions {
   session: string
   /** Target project ID */
   to: string
+  /** Named store to copy into instead of the current store */
+  toStore?: string
+  /** Also copy the session's child sessions, keeping their links */
+  cascade: boolean
 }
 
 /**
@@ -109,6 +143,7 @@ export function registerSessionsCommands(parent: Command): void {
     .option("-p, --project <projectId>", "Filter by project ID")
     .option("-g, --global", "List all sessions globally (default: sessions for current directory)")
     .option("-s, --search <query>", "Search query to filter sessions")
+    .option("--stats", "Add model, agent, message count, cost and last activity (reads each session's messages)")
     .action(function (this: Command) {
       const globalOpts = parseGlobalOptions(collectOptions(this))
       const cmdOpts = this.opts()
@@ -116,10 +151,31 @@ export function registerSessionsCommands(parent: Command): void {
         project: cmdOpts.project as string | undefined,
         global: cmdOpts.global as boolean | undefined,
         search: cmdOpts.search as string | undefined,
+        stats: cmdOpts.stats as boolean | undefined,
       }
       handleSessionsList(globalOpts, listOpts)
     })
 
+  sessions
+    .command("tree")
+    .description("Show sessions with their child (subagent) sessions nested below them")
+    .option("-p, --project <projectId>", "Filter by project ID")
+    .option("-g, --global", "Show trees for all projects (default: sessions for current directory)")
+    .option("--session <sessionId>", "Show only the tree below this session")
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      const cmdOpts = this.opts()
+      const treeOpts: SessionsTreeOptions = {
+        project: cmdOpts.project as string | undefined,
+        global: cmdOpts.global as boolean | undefined,
+        session: cmdOpts.session as string | undefined,
+      }
+      await withErrorHandling(handleSessionsTree, getOutputOptions(globalOpts).format)(
+        globalOpts,
+        treeOpts
+      )
+    })
+
   sessions
     .command("delete")
     .description("Delete a session's metadata file")
@@ -127,6 +183,8 @@ export function registerSessionsCommands(parent: Command): void {
     .option("--yes", "Skip confirmation prompt", false)
     .option("--dry-run", "Preview changes without deleting", false)
     .option("--backup-dir <dir>", "Directory to backup files before deletion")
+    .option("--permanent", "Delete permanently instead of moving data into the trash", false)
+    .option("--cascade", "Also delete the session's child (subagent) sessions", false)
     .action(async function (this: Command) {
       const allOpts = collectOptions(this)
       const globalOpts = parseGlobalOptions(allOpts)
@@ -136,6 +194,8 @@ export function registerSessionsCommands(parent: Command): void {
         yes: Boolean(allOpts.yes ?? cmdOpts.yes),
         dryRun: Boolean(allOpts.dryRun ?? cmdOpts.dryRun),
         backupDir: (allOpts.backupDir ?? cmdOpts.backupDir) as string | undefined,
+        permanent: Boolean(cmdOpts.permanent),
+        cascade: Boolean(cmdOpts.cascade),
       }
       await withErrorHandling(handleSessionsDelete, getOutputOptions(globalOpts).format)(
         globalOpts,
@@ -166,12 +226,14 @@ export function registerSessionsCommands(parent: Command): void {
     .description("Move a session to another project")
     .requiredOption("--session <sessionId>", "Session ID to move")
     .requiredOption("--to <projectId>", "Target project ID")
+    .option("--cascade", "Also move the session's child (subagent) sessions", false)
     .action(async function (this: Command) {
       const globalOpts = parseGlobalOptions(collectOptions(this))
       const cmdOpts = this.opts()
       const moveOpts: SessionsMoveOptions = {
         session: String(cmdOpts.session),
         to: String(cmdOpts.to),
+        cascade: Boolean(cmdOpts.cascade),
       }
       await withErrorHandling(handleSessionsMove, getOutputOptions(globalOpts).format)(
         globalOpts,
@@ -184,12 +246,16 @@ export function registerSessionsCommands(parent: Command): void {
     .description("Copy a session to another project")
     .requiredOption("--session <sessionId>", "Session ID to copy")
     .requiredOption("--to <projectId>", "Target project ID")
+    .option("--to-store <name>", "Copy into a named store from the config file (the project must exist there)")
+    .option("--cascade", "Also copy the session's child (subagent) sessions, linked to the new copy", false)
     .action(async function (this: Command) {
       const globalOpts = parseGlobalOptions(collectOptions(this))
       const cmdOpts = this.opts()
       const copyOpts: SessionsCopyOptions = {
         session: String(cmdOpts.session),
         to: String(cmdOpts.to),
+        toStore: cmdOpts.toStore ? String(cmdOpts.toStore) : undefined,
+        cascade: Boolean(cmdOpts.cascade),
       }
       await withErrorHandling(handleSessionsCopy, getOutputOptions(globalOpts).format)(
         globalOpts,
@@ -205,8 +271,13 @@ export function registerSessionsCommands(parent: Command): void {
       "  opencode-manager sessions list                      # List sessions for current directory",
       "  opencode-manager sessions list --global             # List all sessions globally",
       "  opencode-manager sessions list -p my-project        # List sessions for specific project",
+      "  opencode-manager sessions list --stats              # Add model, agent, messages and cost",
       "  opencode-manager sessions list --experimental-sqlite",
       "  opencode-manager sessions list --db ~/.local/share/opencode/opencode.db",
+      "  opencode-manager sessions list --store work         # Use a store from the config file",
+      "  opencode-manager sessions copy --session abc --to proj_x --to-store laptop",
+      "  opencode-manager sessions tree --global             # Nest subagent sessions under their parents",
+      "  opencode-manager sessions delete --session abc --cascade --yes",
     ].join("\n")
   )
 }
@@ -377,16 +448,74 @@ async function handleSessionsList(
     sessions = sessions.slice(0, globalOpts.limit)
   }
 
+  // Only the listed sessions have their messages read
+  if (listOpts.stats) {
+    sessions = await provider.enrichSessionRecords(sessions)
+  }
+
   // Output the sessions using the appropriate formatter
   const outputOpts = getOutputOptions(globalOpts)
   printSessionsOutput(sessions, outputOpts)
 }
 
+/**
+ * Handle the sessions tree command.
+ *
+ * Roots are sorted like `sessions list` and the limit caps the number of
+ * roots, so a tree is never cut off part-way. Children are sorted the same
+ * way below their parent. Sessions whose parent is outside the selection are
+ * shown as roots.
+ *
+ * Exit codes:
+ * - 0: Success
+ * - 2: Usage error (--global with --project, or no project for the current directory)
+ * - 3: Session not found (--session)
+ */
+async function handleSessionsTree(
+  globalOpts: GlobalOptions,
+  treeOpts: SessionsTreeOptions
+): Promise<void> {
+  if (treeOpts.global && treeOpts.project) {
+    throw new UsageError(
+      "Cannot use --global and --project together. Use one or the other."
+    )
+  }
+
+  const provider = createProviderFromGlobalOptions(globalOpts)
+
+  let sessions: SessionRecord[]
+  if (treeOpts.session) {
+    const { session } = await resolveSessionId(treeOpts.session, {
+      root: globalOpts.root,
+      allowPrefix: true,
+      provider,
+    })
+    // Children may live in other projects, so search every session
+    sessions = [session, ...collectDescendants(session.sessionId, await provider.loadSessionRecords())]
+  } else {
+    const projectId = treeOpts.global || treeOpts.project
+      ? treeOpts.project
+      : (await inferProjectFromCwd(provider)).projectId
+    sessions = await provider.loadSessionRecords({ projectId })
+  }
+
+  const sortField = globalOpts.sort
+  const sortTime = (session: SessionRecord) =>
+    (sortField === "created" ? session.createdAt : (session.updatedAt ?? session.createdAt))?.getTime() ?? 0
+  sessions.sort((a, b) => sortTime(b) - sortTime(a) || a.sessionId.localeCompare(b.sessionId))
+
+  const trees = buildSessionTree(sessions).slice(0, globalOpts.limit)
+  printSessionTreeOutput(flattenSessionTree(trees), getOutputOptions(globalOpts))
+}
+
 /**
  * Handle the sessions delete command.
  *
  * This command deletes a session's metadata file from the OpenCode storage.
  * For SQLite backend, it deletes session, messages, and parts in a transaction.
+ * Unless --permanent is given, the deleted data is moved into the trash.
+ * With --cascade, child sessions (and theirs) are deleted along with it in
+ * the same trash entry.
  *
  * Exit codes:
  * - 0: Success (or dry-run completed)
@@ -410,11 +539,18 @@ async function handleSessionsDelete(
     provider,
   })
 
-  const pathsToDelete = [session.filePath]
+  // The session plus, with --cascade, every descendant
+  const targets = deleteOpts.cascade
+    ? expandWithDescendants([session], await provider.loadSessionRecords())
+    : [session]
+  const childSessionIds = targets.slice(1).map((target) => target.sessionId)
+
+  // Collect the session files plus their messages and parts (record files first)
+  const { removed: pathsToDelete } = await provider.deleteSessionMetadata(targets, { dryRun: true })
 
   // Handle dry-run mode
   if (deleteOpts.dryRun) {
-    const dryRunResult = createDryRunResult(pathsToDelete, "delete", "session")
+    const dryRunResult = createDryRunResult(pathsToDelete, "delete", "session", targets.length)
     printDryRunOutput(dryRunResult, outputOpts.format)
     return
   }
@@ -422,13 +558,13 @@ async function handleSessionsDelete(
   // Require confirmation for destructive operation
   requireConfirmation(deleteOpts.yes, "Session deletion")
 
-  // Backup files if requested (only applies to JSONL backend - SQLite has no files to backup)
-  if (deleteOpts.backupDir && provider.backend === "jsonl") {
-    const backupResult = await copyToBackupDir(pathsToDelete, {
+  // Backup files (JSONL) or rows (SQLite) if requested
+  if (deleteOpts.backupDir) {
+    const backupResult = await backupBeforeDelete(provider.ownerOf(session), pathsToDelete, { session: targets.map((target) => target.sessionId) }, {
       backupDir: deleteOpts.backupDir,
       prefix: "session",
-      preserveStructure: true,
-      structureRoot: globalOpts.root,
+      archive: globalOpts.backupArchive,
+      passphrase: globalOpts.backupEncrypt ? await readBackupPassphrase({ confirm: true }) : undefined,
     })
 
     if (backupResult.failed.length > 0) {
@@ -446,7 +582,10 @@ async function handleSessionsDelete(
   }
 
   // Perform the deletion using the provider (handles both JSONL and SQLite)
-  const deleteResult = await provider.deleteSessionMetadata([session], { dryRun: false })
+  const deleteResult = await provider.deleteSessionMetadata(targets, {
+    dryRun: false,
+    trash: deleteOpts.permanent ? undefined : createTrashContext(),
+  })
 
   if (deleteResult.failed.length > 0) {
     throw new FileOperationError(
@@ -459,8 +598,13 @@ async function handleSessionsDelete(
 
   // Output success
   printSuccessOutput(
-    `Deleted session: ${session.sessionId}`,
-    { sessionId: session.sessionId, deleted: deleteResult.removed },
+    formatDeletedMessage(`Deleted session: ${session.sessionId}${formatChildCount(childSessionIds)}`, deleteResult.trashId),
+    {
+      sessionId: session.sessionId,
+      ...(deleteOpts.cascade ? { childSessionIds } : {}),
+      deleted: deleteResult.removed,
+      trashId: deleteResult.trashId,
+    },
     outputOpts.format
   )
 }
@@ -515,6 +659,8 @@ async function handleSessionsRename(
  * This command moves a session to a different project.
  * For JSONL backend, the session file is moved to the target project's session directory.
  * For SQLite backend, the project_id column is updated in the database.
+ * With --cascade, child sessions (and theirs) are moved too; session IDs do
+ * not change, so the parent links stay intact either way.
  *
  * Exit codes:
  * - 0: Success
@@ -547,8 +693,14 @@ async function handleSessionsMove(
     provider,
   })
 
-  // Check if session is already in the target project
-  if (session.projectId === targetProject.projectId) {
+  const targets = moveOpts.cascade
+    ? expandWithDescendants([session], await provider.loadSessionRecords())
+    : [session]
+  const childSessionIds = targets.slice(1).map((target) => target.sessionId)
+
+  // Check if the sessions are already in the target project
+  const pending = targets.filter((target) => target.projectId !== targetProject.projectId)
+  if (pending.length === 0) {
     printSuccessOutput(
       `Session ${session.sessionId} is already in project ${targetProject.projectId}`,
       { sessionId: session.sessionId, projectId: targetProject.projectId, moved: false },
@@ -557,17 +709,24 @@ async function handleSessionsMove(
     return
   }
 
-  // Move the session using the provider
-  const newRecord = await provider.moveSession(session, targetProject.projectId)
+  // Move the sessions using the provider
+  let newPath = session.filePath
+  for (const target of pending) {
+    const newRecord = await provider.moveSession(target, targetProject.projectId)
+    if (target === session) {
+      newPath = newRecord.filePath
+    }
+  }
 
   // Output success
   printSuccessOutput(
-    `Moved session ${session.sessionId} to project ${targetProject.projectId}`,
+    `Moved session ${session.sessionId}${formatChildCount(childSessionIds)} to project ${targetProject.projectId}`,
     {
       sessionId: session.sessionId,
+      ...(moveOpts.cascade ? { childSessionIds } : {}),
       fromProject: session.projectId,
       toProject: targetProject.projectId,
-      newPath: newRecord.filePath,
+      newPath,
     },
     outputOpts.format
   )
@@ -578,9 +737,14 @@ async function handleSessionsMove(
  *
  * This command copies a session to a different project.
  * A new session file is created in the target project with a new session ID.
+ * With --to-store, the session is read through the current provider and
+ * written through a second provider for the named store, so it can be
+ * copied between backends. With --cascade, child sessions (and theirs) are
+ * copied too, each linked to its parent's copy.
  *
  * Exit codes:
  * - 0: Success
+ * - 2: Unknown --to-store name
  * - 3: Session or target project not found
  * - 4: File operation failure
  */
@@ -600,27 +764,61 @@ async function handleSessionsCopy(
     provider,
   })
 
-  // Validate target project exists
+  let targetProvider = provider
+  if (copyOpts.toStore) {
+    let store
+    try {
+      store = resolveStore(copyOpts.toStore)
+    } catch (error) {
+      throw error instanceof ConfigError ? new UsageError(error.message) : error
+    }
+    targetProvider = createProviderForStore(store, { forceWrite: globalOpts.forceWrite })
+  }
+
+  // Validate target project exists (in the target store)
   // Use prefix matching for convenience, but require exactly one match
   const { project: targetProject } = await resolveProjectId(copyOpts.to, {
     root: globalOpts.root,
     allowPrefix: true,
-    provider,
+    provider: targetProvider,
   })
 
-  // Copy the session
-  const newRecord = await provider.copySession(session, targetProject.projectId)
+  // Copy the session (and with --cascade, its descendants)
+  let copies: SessionRecord[]
+  if (copyOpts.cascade) {
+    const targets = expandWithDescendants([session], await provider.loadSessionRecords())
+    copies = await copySessionTree(provider, targetProvider, targets, targetProject.projectId)
+  } else if (copyOpts.toStore) {
+    copies = [await targetProvider.importSession(await provider.exportSession(session), targetProject.projectId)]
+  } else {
+    copies = [await provider.copySession(session, targetProject.projectId)]
+  }
+  const [newRecord] = copies
+  const childSessionIds = copies.slice(1).map((copy) => copy.sessionId)
+  const copied = `Copied session ${session.sessionId}${formatChildCount(childSessionIds)} to project ${targetProject.projectId}`
 
   // Output success
   printSuccessOutput(
-    `Copied session ${session.sessionId} to project ${targetProject.projectId}`,
+    copyOpts.toStore ? `${copied} in store ${copyOpts.toStore}` : copied,
     {
       originalSessionId: session.sessionId,
       newSessionId: newRecord.sessionId,
+      ...(copyOpts.cascade ? { childSessionIds } : {}),
       fromProject: session.projectId,
       toProject: targetProject.projectId,
+      ...(copyOpts.toStore ? { toStore: copyOpts.toStore } : {}),
       newPath: newRecord.filePath,
     },
     outputOpts.format
   )
 }
+
+/**
+ * " (+N child sessions)" for success messages, or "" without children.
+ */
+function formatChildCount(childSessionIds: string[]): string {
+  if (childSessionIds.length === 0) {
+    return ""
+  }
+  return ` (+${childSessionIds.length} child session${childSessionIds.length === 1 ? "" : "s"})`
+}
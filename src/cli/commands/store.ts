@@ -0,0 +1,296 @@
+/**
+ * Store CLI subcommands.
+ *
+ * Provides commands that operate on whole metadata stores, such as
+ * migrating between the JSONL and SQLite backends, comparing two stores and
+ * listing the named stores registered in the config file.
+ */
+
+import { Command, type OptionValues } from "commander"
+import { existsSync } from "node:fs"
+import { resolve } from "node:path"
+import { parseGlobalOptions, type GlobalOptions } from "../index"
+import {
+  CONFLICT_MODES,
+  migrateJsonlToSqlite,
+  migrateSqliteToJsonl,
+  type ConflictMode,
+  type MigrationProgress,
+} from "../../lib/opencode-data-migrate"
+import { ConfigError, DEFAULT_CONFIG_PATH, listStores } from "../../lib/config"
+import { diffStores } from "../../lib/opencode-data-diff"
+import { createProvider } from "../../lib/opencode-data-provider"
+import { DEFAULT_SQLITE_PATH } from "../../lib/opencode-data-sqlite"
+import { getOutputOptions, printMigrationOutput, printStoreDiffOutput, printStoreListOutput } from "../output"
+import { CLIError, NotFoundError, requireConfirmation, withErrorHandling, UsageError } from "../errors"
+
+/**
+ * Collect all options from a command and its ancestors.
+ * Commander stores global options on the root program, not on subcommands.
+ */
+function collectOptions(cmd: Command): OptionValues {
+  const opts: OptionValues = {}
+  let current: Command | null = cmd
+  while (current) {
+    Object.assign(opts, current.opts())
+    current = current.parent
+  }
+  return opts
+}
+
+const STORE_BACKENDS = ["jsonl", "sqlite"] as const
+
+type StoreBackend = (typeof STORE_BACKENDS)[number]
+
+/**
+ * Options specific to the store migrate command.
+ */
+export interface StoreMigrateOptions {
+  /** Source backend (jsonl or sqlite) */
+  from: string
+  /** Target backend (jsonl or sqlite) */
+  to: string
+  /** How to handle IDs that already exist in the target */
+  onConflict: string
+  /** Skip confirmation prompt (required for --on-conflict overwrite) */
+  yes: boolean
+  /** Report what would be written without touching the target */
+  dryRun: boolean
+}
+
+/**
+ * Options specific to the store diff command.
+ */
+export interface StoreDiffOptions {
+  /** Second JSONL root to compare --root against (instead of the database) */
+  otherRoot?: string
+}
+
+/**
+ * Parse and validate a --from/--to backend name.
+ */
+function parseBackend(value: string, flag: string): StoreBackend {
+  if (!STORE_BACKENDS.includes(value as StoreBackend)) {
+    throw new UsageError(
+      `Invalid ${flag} "${value}". Must be one of: ${STORE_BACKENDS.join(", ")}.`
+    )
+  }
+  return value as StoreBackend
+}
+
+/**
+ * Parse and validate the --on-conflict option.
+ */
+function parseConflictMode(value: string): ConflictMode {
+  if (!CONFLICT_MODES.includes(value as ConflictMode)) {
+    throw new UsageError(
+      `Invalid --on-conflict "${value}". Must be one of: ${CONFLICT_MODES.join(", ")}.`
+    )
+  }
+  return value as ConflictMode
+}
+
+/**
+ * Register store subcommands on the given parent command.
+ */
+export function registerStoreCommands(parent: Command): void {
+  const store = parent
+    .command("store")
+    .description("Operate on whole metadata stores")
+
+  store
+    .command("migrate")
+    .description("Copy all projects, sessions, messages and parts from one backend to another")
+    .requiredOption("--from <backend>", "Source backend: jsonl (read from --root) or sqlite (read from --db)")
+    .requiredOption("--to <backend>", "Target backend: sqlite (written to --db) or jsonl (written to --root)")
+    .option("--on-conflict <mode>", "When an ID already exists in the target: fail, skip, or overwrite", "fail")
+    .option("--yes", "Skip confirmation prompt", false)
+    .option("--dry-run", "Report what would be written without changing the target", false)
+    .action(async function (this: Command) {
+      const allOpts = collectOptions(this)
+      const globalOpts = parseGlobalOptions(allOpts)
+      const cmdOpts = this.opts()
+      const migrateOpts: StoreMigrateOptions = {
+        from: String(cmdOpts.from),
+        to: String(cmdOpts.to),
+        onConflict: String(cmdOpts.onConflict),
+        yes: Boolean(allOpts.yes ?? cmdOpts.yes),
+        dryRun: Boolean(allOpts.dryRun ?? cmdOpts.dryRun),
+      }
+      await withErrorHandling(handleStoreMigrate, getOutputOptions(globalOpts).format)(
+        globalOpts,
+        migrateOpts
+      )
+    })
+
+  store
+    .command("diff")
+    .description("Compare the JSONL store (--root) with the SQLite database (--db or default) or another root")
+    .option("--other-root <path>", "Compare --root with another JSONL root instead of the database")
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      const cmdOpts = this.opts()
+      const diffOpts: StoreDiffOptions = {
+        otherRoot: cmdOpts.otherRoot ? resolve(String(cmdOpts.otherRoot)) : undefined,
+      }
+      await withErrorHandling(handleStoreDiff, getOutputOptions(globalOpts).format)(
+        globalOpts,
+        diffOpts
+      )
+    })
+
+  store
+    .command("list")
+    .description(`List the named stores registered in ${DEFAULT_CONFIG_PATH} (use with --store <name>)`)
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      await withErrorHandling(handleStoreList, getOutputOptions(globalOpts).format)(globalOpts)
+    })
+
+  store.addHelpText(
+    "after",
+    [
+      "",
+      "Examples:",
+      "  opencode-manager store migrate --from jsonl --to sqlite --db ./opencode.db --dry-run",
+      "  opencode-manager store migrate --from jsonl --to sqlite --db ./opencode.db",
+      "  opencode-manager store migrate --from jsonl --to sqlite --db ./opencode.db --on-conflict skip",
+      "  opencode-manager store migrate --from sqlite --to jsonl --db ./opencode.db --root ./snapshot",
+      "  opencode-manager store diff --db ./opencode.db",
+      "  opencode-manager store diff --other-root ./snapshot --format json",
+      "  opencode-manager store list",
+    ].join("\n")
+  )
+}
+
+/**
+ * Create a progress reporter that writes to stderr roughly every 5%.
+ */
+function createProgressReporter(): (progress: MigrationProgress) => void {
+  let lastReported = -1
+  return ({ sessionsDone, sessionsTotal }) => {
+    const percent = Math.floor((sessionsDone / sessionsTotal) * 100)
+    if (percent - lastReported >= 5 || sessionsDone === sessionsTotal) {
+      lastReported = percent
+      console.error(`Migrating sessions: ${sessionsDone}/${sessionsTotal} (${percent}%)`)
+    }
+  }
+}
+
+/**
+ * Handle the store migrate command.
+ *
+ * Exit codes:
+ * - 0: Success (including dry runs that report conflicts)
+ * - 1: Migration failed (conflict in fail mode, or verification mismatch)
+ * - 2: Usage error (same source and target backend, missing --db for a
+ *      SQLite target, invalid mode, --yes not provided for overwrite)
+ */
+async function handleStoreMigrate(
+  globalOpts: GlobalOptions,
+  migrateOpts: StoreMigrateOptions
+): Promise<void> {
+  const from = parseBackend(migrateOpts.from, "--from")
+  const to = parseBackend(migrateOpts.to, "--to")
+  const onConflict = parseConflictMode(migrateOpts.onConflict)
+  const outputOpts = getOutputOptions(globalOpts)
+
+  if (from === to) {
+    throw new UsageError(`--from and --to must differ (both are ${from}).`)
+  }
+
+  // Writing into a default database location by accident is too easy
+  if (to === "sqlite" && !globalOpts.dbPath) {
+    throw new UsageError("Target database is required. Pass --db <path>.")
+  }
+
+  // Overwriting existing records is destructive
+  if (onConflict === "overwrite" && !migrateOpts.dryRun) {
+    requireConfirmation(migrateOpts.yes, "Overwriting existing records")
+  }
+
+  const onProgress = globalOpts.quiet ? undefined : createProgressReporter()
+  const result = to === "sqlite"
+    ? await migrateJsonlToSqlite({
+        root: globalOpts.root,
+        dbPath: globalOpts.dbPath!,
+        onConflict,
+        dryRun: migrateOpts.dryRun,
+        forceWrite: globalOpts.forceWrite,
+        onProgress,
+      })
+    : await migrateSqliteToJsonl({
+        dbPath: globalOpts.dbPath ?? DEFAULT_SQLITE_PATH,
+        root: globalOpts.root,
+        onConflict,
+        dryRun: migrateOpts.dryRun,
+        onProgress,
+      })
+
+  printMigrationOutput(result, outputOpts.format)
+
+  if (result.verification && !result.verification.ok) {
+    throw new CLIError(
+      `Migration verification failed: ${result.verification.mismatches.join("; ")}`
+    )
+  }
+}
+
+/**
+ * Handle the store diff command.
+ *
+ * The left side is always the JSONL store at --root; the right side is
+ * --other-root when given, otherwise the SQLite database.
+ *
+ * Exit codes:
+ * - 0: Stores match
+ * - 1: Differences found
+ * - 3: The right-hand root or database does not exist
+ */
+async function handleStoreDiff(
+  globalOpts: GlobalOptions,
+  diffOpts: StoreDiffOptions
+): Promise<void> {
+  const left = createProvider({
+    backend: "jsonl",
+    root: globalOpts.root,
+    jsonlStrict: globalOpts.jsonlStrict,
+  })
+
+  const rightPath = diffOpts.otherRoot ?? globalOpts.dbPath ?? DEFAULT_SQLITE_PATH
+  if (!existsSync(rightPath)) {
+    throw new NotFoundError(
+      diffOpts.otherRoot ? `Root not found: ${rightPath}` : `Database not found: ${rightPath}`
+    )
+  }
+  const right = diffOpts.otherRoot
+    ? createProvider({ backend: "jsonl", root: diffOpts.otherRoot, jsonlStrict: globalOpts.jsonlStrict })
+    : createProvider({ backend: "sqlite", dbPath: rightPath, sqliteStrict: globalOpts.sqliteStrict })
+
+  const report = await diffStores(left, right)
+
+  printStoreDiffOutput(report, getOutputOptions(globalOpts).format)
+
+  if (report.differences.length > 0) {
+    throw new CLIError(
+      `Found ${report.differences.length} difference(s) between ${report.left.location} and ${report.right.location}`
+    )
+  }
+}
+
+/**
+ * Handle the store list command.
+ *
+ * Exit codes:
+ * - 0: Success (including an empty registry)
+ * - 2: The config file is invalid
+ */
+async function handleStoreList(globalOpts: GlobalOptions): Promise<void> {
+  let stores
+  try {
+    stores = listStores()
+  } catch (error) {
+    throw error instanceof ConfigError ? new UsageError(error.message) : error
+  }
+  printStoreListOutput(stores, getOutputOptions(globalOpts))
+}
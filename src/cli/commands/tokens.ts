@@ -7,10 +7,26 @@
 
 import { Command, type OptionValues } from "commander"
 import { parseGlobalOptions, type GlobalOptions } from "../index"
-import { createProviderFromGlobalOptions } from "../../lib/opencode-data-provider"
-import { getOutputOptions, printAggregateTokensOutput, printTokensOutput } from "../output"
-import { handleError } from "../errors"
+import { checkBudgets } from "../../lib/budgets"
+import { loadUserConfig, resolveStore } from "../../lib/config"
+import { TIMELINE_BUCKETS, TOKEN_GROUP_BYS, type TimelineBucket, type TokenGroupBy } from "../../lib/opencode-data"
+import {
+  createProviderForStore,
+  createProviderFromGlobalOptions,
+  type DataProvider,
+} from "../../lib/opencode-data-provider"
+import { collectDescendants } from "../../lib/opencode-data-tree"
+import {
+  getOutputOptions,
+  printAggregateTokensOutput,
+  printBudgetReportOutput,
+  printGroupedTokensOutput,
+  printTokenTimelineOutput,
+  printTokensOutput,
+} from "../output"
+import { BudgetExceededError, handleError, UsageError } from "../errors"
 import { findProjectById, findSessionById } from "../resolvers"
+import { parseDuration } from "../trash"
 
 /**
  * Collect all options from a command and its ancestors.
@@ -32,6 +48,10 @@ function collectOptions(cmd: Command): OptionValues {
 export interface TokensSessionOptions {
   /** Session ID to show token usage for */
   session: string
+  /** Add the usage of child (subagent) sessions, recursively */
+  includeChildren: boolean
+  /** Split usage by model, provider or agent */
+  by?: TokenGroupBy
 }
 
 /**
@@ -40,6 +60,89 @@ export interface TokensSessionOptions {
 export interface TokensProjectOptions {
   /** Project ID to show token usage for */
   project: string
+  /** Split usage by model, provider or agent */
+  by?: TokenGroupBy
+}
+
+/**
+ * Options specific to the tokens global command.
+ */
+export interface TokensGlobalOptions {
+  /** Split usage by model, provider or agent */
+  by?: TokenGroupBy
+}
+
+/**
+ * Options specific to the tokens timeline command.
+ */
+export interface TokensTimelineOptions {
+  bucket: TimelineBucket
+  /** Only messages created at or after this time */
+  since?: Date
+  /** Only messages created before this time */
+  until?: Date
+  /** Only sessions of this project */
+  project?: string
+}
+
+/**
+ * Options specific to the tokens check command.
+ */
+export interface TokensCheckOptions {
+  /** Check the periods that contain this time instead of now */
+  at?: Date
+}
+
+const BY_OPTION_DESCRIPTION = `Split usage by ${TOKEN_GROUP_BYS.join(", ")}`
+
+/**
+ * Parse and validate the --by option.
+ */
+function parseGroupBy(value: unknown): TokenGroupBy | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  if (!TOKEN_GROUP_BYS.includes(value as TokenGroupBy)) {
+    throw new UsageError(`Invalid --by "${value}". Must be one of: ${TOKEN_GROUP_BYS.join(", ")}.`)
+  }
+  return value as TokenGroupBy
+}
+
+/**
+ * Parse and validate the --bucket option.
+ */
+function parseBucket(value: unknown): TimelineBucket {
+  if (!TIMELINE_BUCKETS.includes(value as TimelineBucket)) {
+    throw new UsageError(`Invalid --bucket "${value}". Must be one of: ${TIMELINE_BUCKETS.join(", ")}.`)
+  }
+  return value as TimelineBucket
+}
+
+/**
+ * Parse --since or --until: a UTC date (2024-01-31), an ISO timestamp, or a
+ * duration before now (30d). A bare --until date includes that whole day.
+ *
+ * @throws UsageError if the value is none of these
+ */
+function parseTimelineDate(value: unknown, flag: "--since" | "--until" | "--at", now: Date = new Date()): Date | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  const text = String(value).trim()
+  if (/^\d+[mhdw]$/.test(text)) {
+    return new Date(now.getTime() - parseDuration(text, flag))
+  }
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(text)
+  const date = new Date(dateOnly ? `${text}T00:00:00.000Z` : text)
+  if (Number.isNaN(date.getTime())) {
+    throw new UsageError(
+      `Invalid ${flag} "${value}". Use a date (2024-01-31), an ISO timestamp or a duration such as 30d.`
+    )
+  }
+  if (dateOnly && flag === "--until") {
+    date.setUTCDate(date.getUTCDate() + 1)
+  }
+  return date
 }
 
 /**
@@ -54,13 +157,17 @@ export function registerTokensCommands(parent: Command): void {
     .command("session")
     .description("Show token usage for a session")
     .requiredOption("--session <sessionId>", "Session ID to show token usage for")
+    .option("--include-children", "Add the usage of child (subagent) sessions, recursively", false)
+    .option("--by <group>", BY_OPTION_DESCRIPTION)
     .action(async function (this: Command) {
       const globalOpts = parseGlobalOptions(collectOptions(this))
       const cmdOpts = this.opts()
-      const sessionOpts: TokensSessionOptions = {
-        session: String(cmdOpts.session),
-      }
       try {
+        const sessionOpts: TokensSessionOptions = {
+          session: String(cmdOpts.session),
+          includeChildren: Boolean(cmdOpts.includeChildren),
+          by: parseGroupBy(cmdOpts.by),
+        }
         await handleTokensSession(globalOpts, sessionOpts)
       } catch (error) {
         handleError(error, globalOpts.format)
@@ -71,13 +178,15 @@ export function registerTokensCommands(parent: Command): void {
     .command("project")
     .description("Show token usage for a project")
     .requiredOption("--project <projectId>", "Project ID to show token usage for")
+    .option("--by <group>", BY_OPTION_DESCRIPTION)
     .action(async function (this: Command) {
       const globalOpts = parseGlobalOptions(collectOptions(this))
       const cmdOpts = this.opts()
-      const projectOpts: TokensProjectOptions = {
-        project: String(cmdOpts.project),
-      }
       try {
+        const projectOpts: TokensProjectOptions = {
+          project: String(cmdOpts.project),
+          by: parseGroupBy(cmdOpts.by),
+        }
         await handleTokensProject(globalOpts, projectOpts)
       } catch (error) {
         handleError(error, globalOpts.format)
@@ -87,10 +196,49 @@ export function registerTokensCommands(parent: Command): void {
   tokens
     .command("global")
     .description("Show global token usage")
+    .option("--by <group>", BY_OPTION_DESCRIPTION)
     .action(async function (this: Command) {
       const globalOpts = parseGlobalOptions(collectOptions(this))
       try {
-        await handleTokensGlobal(globalOpts)
+        const globalTokenOpts: TokensGlobalOptions = { by: parseGroupBy(this.opts().by) }
+        await handleTokensGlobal(globalOpts, globalTokenOpts)
+      } catch (error) {
+        handleError(error, globalOpts.format)
+      }
+    })
+
+  tokens
+    .command("timeline")
+    .description("Show token usage per day, week or month")
+    .option("--bucket <bucket>", `Period length: ${TIMELINE_BUCKETS.join(", ")}`, "day")
+    .option("--since <date>", "Only messages created at or after a date, timestamp or duration ago (e.g. 30d)")
+    .option("--until <date>", "Only messages created before a timestamp or duration ago, or on or before a date")
+    .option("--project <projectId>", "Only sessions of this project")
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      const cmdOpts = this.opts()
+      try {
+        const timelineOpts: TokensTimelineOptions = {
+          bucket: parseBucket(cmdOpts.bucket),
+          since: parseTimelineDate(cmdOpts.since, "--since"),
+          until: parseTimelineDate(cmdOpts.until, "--until"),
+          project: cmdOpts.project === undefined ? undefined : String(cmdOpts.project),
+        }
+        await handleTokensTimeline(globalOpts, timelineOpts)
+      } catch (error) {
+        handleError(error, globalOpts.format)
+      }
+    })
+
+  tokens
+    .command("check")
+    .description("Check usage against the budgets in the config file")
+    .option("--at <date>", "Check the periods that contain a date, timestamp or duration ago instead of now")
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      try {
+        const checkOpts: TokensCheckOptions = { at: parseTimelineDate(this.opts().at, "--at") }
+        await handleTokensCheck(globalOpts, checkOpts)
       } catch (error) {
         handleError(error, globalOpts.format)
       }
@@ -99,16 +247,35 @@ export function registerTokensCommands(parent: Command): void {
   tokens.addHelpText(
     "after",
     [
+      "",
+      "Costs are the ones OpenCode recorded, or estimates from the \"pricing\" section",
+      "of the config file for messages without one.",
+      "",
+      "Timelines bucket assistant messages by creation time in UTC; weeks start on",
+      "Monday and are numbered like ISO 8601 (2024-W05).",
+      "",
+      "`tokens check` compares the current day, week or month with the \"budgets\"",
+      "section of the config file and exits with code 5 when a budget is exceeded.",
       "",
       "Examples:",
       "  opencode-manager tokens session --session <id> --experimental-sqlite",
+      "  opencode-manager tokens session --session <id> --include-children",
+      "  opencode-manager tokens project --project <id> --by model",
+      "  opencode-manager tokens global --by agent --format json",
       "  opencode-manager tokens global --db ~/.local/share/opencode/opencode.db",
+      "  opencode-manager tokens timeline --bucket week --since 90d",
+      "  opencode-manager tokens timeline --bucket month --project <id> --format ndjson",
+      "  opencode-manager tokens check --format json",
     ].join("\n")
   )
 }
 
 /**
  * Handle the tokens session command.
+ *
+ * With --include-children, the session and all of its descendants are
+ * aggregated like a project (sessions without token data are counted as
+ * unknown). With --by, usage is split by model, provider or agent.
  */
 async function handleTokensSession(
   globalOpts: GlobalOptions,
@@ -123,11 +290,31 @@ async function handleTokensSession(
   // Find the session by ID
   const session = findSessionById(sessions, sessionOpts.session)
 
+  const outputOpts = getOutputOptions(globalOpts)
+
+  if (sessionOpts.by) {
+    const descendants = sessionOpts.includeChildren ? collectDescendants(session.sessionId, sessions) : []
+    const summary = await provider.computeGroupedTokenSummary([session, ...descendants], sessionOpts.by)
+    const children = sessionOpts.includeChildren ? ` (+${descendants.length} child session(s))` : ""
+    printGroupedTokensOutput(summary, outputOpts.format, `Session: ${session.sessionId}${children}`)
+    return
+  }
+
+  if (sessionOpts.includeChildren) {
+    const descendants = collectDescendants(session.sessionId, sessions)
+    const summary = await provider.computeGlobalTokenSummary([session, ...descendants])
+    printAggregateTokensOutput(
+      summary,
+      outputOpts.format,
+      `Session: ${session.sessionId} (+${descendants.length} child session(s))`
+    )
+    return
+  }
+
   // Compute token summary for the session
   const summary = await provider.computeSessionTokenSummary(session)
 
   // Output the result
-  const outputOpts = getOutputOptions(globalOpts)
   printTokensOutput(summary, outputOpts.format)
 }
 
@@ -149,6 +336,16 @@ async function handleTokensProject(
 
   // Load all sessions to compute token summary
   const sessions = await provider.loadSessionRecords()
+  const outputOpts = getOutputOptions(globalOpts)
+
+  if (projectOpts.by) {
+    const summary = await provider.computeGroupedTokenSummary(
+      sessions.filter((session) => session.projectId === projectOpts.project),
+      projectOpts.by
+    )
+    printGroupedTokensOutput(summary, outputOpts.format, `Project: ${projectOpts.project}`)
+    return
+  }
 
   // Compute token summary for the project
   const summary = await provider.computeProjectTokenSummary(
@@ -157,20 +354,25 @@ async function handleTokensProject(
   )
 
   // Output the result
-  const outputOpts = getOutputOptions(globalOpts)
   printAggregateTokensOutput(summary, outputOpts.format, `Project: ${projectOpts.project}`)
 }
 
 /**
  * Handle the tokens global command.
  */
-async function handleTokensGlobal(globalOpts: GlobalOptions): Promise<void> {
+async function handleTokensGlobal(globalOpts: GlobalOptions, globalTokenOpts: TokensGlobalOptions): Promise<void> {
   // Create provider based on global options (JSONL or SQLite)
   const provider = createProviderFromGlobalOptions(globalOpts)
 
   // Load all sessions to compute global token summary
   const sessions = await provider.loadSessionRecords()
 
+  if (globalTokenOpts.by) {
+    const summary = await provider.computeGroupedTokenSummary(sessions, globalTokenOpts.by)
+    printGroupedTokensOutput(summary, getOutputOptions(globalOpts).format, "Global")
+    return
+  }
+
   // Compute token summary across all sessions
   const summary = await provider.computeGlobalTokenSummary(sessions)
 
@@ -178,3 +380,75 @@ async function handleTokensGlobal(globalOpts: GlobalOptions): Promise<void> {
   const outputOpts = getOutputOptions(globalOpts)
   printAggregateTokensOutput(summary, outputOpts.format, "Global")
 }
+
+/**
+ * Handle the tokens timeline command.
+ *
+ * Exit codes:
+ * - 0: Success
+ * - 2: Invalid --bucket, --since or --until, or --since is not before --until
+ * - 3: Project not found
+ */
+async function handleTokensTimeline(globalOpts: GlobalOptions, timelineOpts: TokensTimelineOptions): Promise<void> {
+  if (timelineOpts.since && timelineOpts.until && timelineOpts.since >= timelineOpts.until) {
+    throw new UsageError("--since must be before --until.")
+  }
+
+  // Create provider based on global options (JSONL or SQLite)
+  const provider = createProviderFromGlobalOptions(globalOpts)
+
+  if (timelineOpts.project) {
+    findProjectById(await provider.loadProjectRecords(), timelineOpts.project)
+  }
+
+  const sessions = await provider.loadSessionRecords()
+  const timeline = await provider.computeTokenTimeline(
+    timelineOpts.project ? sessions.filter((session) => session.projectId === timelineOpts.project) : sessions,
+    { bucket: timelineOpts.bucket, since: timelineOpts.since, until: timelineOpts.until }
+  )
+
+  printTokenTimelineOutput(
+    timeline,
+    getOutputOptions(globalOpts).format,
+    timelineOpts.project ? `Project: ${timelineOpts.project}` : "Global"
+  )
+}
+
+/**
+ * Handle the tokens check command. Budgets that name a store are checked
+ * against that store; the others against the store selected by the global
+ * options.
+ *
+ * Exit codes:
+ * - 0: Every budget is within its limits (or none is configured)
+ * - 2: Invalid --at, or the config file is invalid
+ * - 5: At least one budget is exceeded
+ */
+async function handleTokensCheck(globalOpts: GlobalOptions, checkOpts: TokensCheckOptions): Promise<void> {
+  const config = loadUserConfig()
+  const provider = createProviderFromGlobalOptions(globalOpts)
+  const storeProviders = new Map<string, DataProvider>()
+  const providerForStore = (name: string) => {
+    let storeProvider = storeProviders.get(name)
+    if (!storeProvider) {
+      storeProvider = createProviderForStore(resolveStore(name, config), {
+        forceWrite: globalOpts.forceWrite,
+        snapshot: globalOpts.snapshot,
+      })
+      storeProviders.set(name, storeProvider)
+    }
+    return storeProvider
+  }
+
+  const report = await checkBudgets(
+    config.budgets,
+    (budget) => (budget.store === undefined || budget.store === globalOpts.store ? provider : providerForStore(budget.store)),
+    checkOpts.at
+  )
+
+  printBudgetReportOutput(report, getOutputOptions(globalOpts).format)
+
+  if (report.exceeded > 0) {
+    throw new BudgetExceededError(`${report.exceeded} of ${report.statuses.length} budget check(s) exceeded`)
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Trash CLI subcommands.
+ *
+ * Provides commands for listing, restoring and purging data that project
+ * and session deletes moved into the trash.
+ */
+
+import { Command, type OptionValues } from "commander"
+import { parseGlobalOptions, type GlobalOptions } from "../index"
+import { createProviderFromGlobalOptions } from "../../lib/opencode-data-provider"
+import {
+  getOutputOptions,
+  printTrashOutput,
+  printDryRunOutput,
+  createDryRunResult,
+  printSuccessOutput,
+} from "../output"
+import { requireConfirmation, withErrorHandling, NotFoundError, UsageError } from "../errors"
+import { parseDuration } from "../trash"
+
+/**
+ * Collect all options from a command and its ancestors.
+ * Commander stores global options on the root program, not on subcommands.
+ */
+function collectOptions(cmd: Command): OptionValues {
+  const opts: OptionValues = {}
+  let current: Command | null = cmd
+  while (current) {
+    Object.assign(opts, current.opts())
+    current = current.parent
+  }
+  return opts
+}
+
+/**
+ * Options specific to the trash restore command.
+ */
+export interface TrashRestoreOptions {
+  /** Trash entry ID (or unique prefix) to restore */
+  trashId: string
+}
+
+/**
+ * Options specific to the trash purge command.
+ */
+export interface TrashPurgeCommandOptions {
+  /** Only purge entries older than this duration (e.g. 7d) */
+  olderThan: string
+  /** Skip confirmation prompt */
+  yes: boolean
+  /** Preview entries without purging */
+  dryRun: boolean
+}
+
+/**
+ * Register trash subcommands on the given parent command.
+ */
+export function registerTrashCommands(parent: Command): void {
+  const trash = parent
+    .command("trash")
+    .description("List, restore and purge deleted projects and sessions")
+
+  trash
+    .command("list")
+    .description("List trash entries for the current store, newest first")
+    .action(async function (this: Command) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      await withErrorHandling(handleTrashList, getOutputOptions(globalOpts).format)(globalOpts)
+    })
+
+  trash
+    .command("restore")
+    .description("Put the data of a trash entry back into the store")
+    .argument("<trashId>", "Trash entry ID (or unique prefix)")
+    .action(async function (this: Command, trashId: string) {
+      const globalOpts = parseGlobalOptions(collectOptions(this))
+      const restoreOpts: TrashRestoreOptions = { trashId }
+      await withErrorHandling(handleTrashRestore, getOutputOptions(globalOpts).format)(
+        globalOpts,
+        restoreOpts
+      )
+    })
+
+  trash
+    .command("purge")
+    .description("Permanently remove old trash entries")
+    .requiredOption("--older-than <duration>", "Only purge entries older than this (e.g. 30m, 12h, 7d, 2w)")
+    .option("--yes", "Skip confirmation prompt", false)
+    .option("--dry-run", "Preview entries without purging", false)
+    .action(async function (this: Command) {
+      const allOpts = collectOptions(this)
+      const globalOpts = parseGlobalOptions(allOpts)
+      const cmdOpts = this.opts()
+      const purgeOpts: TrashPurgeCommandOptions = {
+        olderThan: String(cmdOpts.olderThan),
+        yes: Boolean(allOpts.yes ?? cmdOpts.yes),
+        dryRun: Boolean(allOpts.dryRun ?? cmdOpts.dryRun),
+      }
+      await withErrorHandling(handleTrashPurge, getOutputOptions(globalOpts).format)(
+        globalOpts,
+        purgeOpts
+      )
+    })
+
+  trash.addHelpText(
+    "after",
+    [
+      "",
+      "Examples:",
+      "  opencode-manager trash list",
+      "  opencode-manager trash restore 20260101-120000-a1b2c3",
+      "  opencode-manager trash purge --older-than 30d --dry-run",
+      "  opencode-manager trash purge --older-than 30d --yes --db ~/.local/share/opencode/opencode.db",
+    ].join("\n")
+  )
+}
+
+/**
+ * Handle the trash list command.
+ */
+async function handleTrashList(globalOpts: GlobalOptions): Promise<void> {
+  // Create data provider based on global options (JSONL or SQLite backend)
+  const provider = createProviderFromGlobalOptions(globalOpts)
+
+  let entries = await provider.listTrash()
+
+  // Apply limit
+  if (globalOpts.limit && entries.length > globalOpts.limit) {
+    entries = entries.slice(0, globalOpts.limit)
+  }
+
+  printTrashOutput(entries, getOutputOptions(globalOpts))
+}
+
+/**
+ * Handle the trash restore command.
+ *
+ * Exit codes:
+ * - 0: Success
+ * - 1: Restore failed (e.g. restored IDs exist again)
+ * - 2: Usage error (ID prefix matches several entries)
+ * - 3: Trash entry not found
+ */
+async function handleTrashRestore(
+  globalOpts: GlobalOptions,
+  restoreOpts: TrashRestoreOptions
+): Promise<void> {
+  const provider = createProviderFromGlobalOptions(globalOpts)
+
+  // Resolve the entry first so lookup problems get their own exit codes
+  const entries = await provider.listTrash()
+  const matches = entries.filter((entry) => entry.id.startsWith(restoreOpts.trashId))
+  if (matches.length === 0) {
+    throw new NotFoundError(`Trash entry not found: ${restoreOpts.trashId}`)
+  }
+  if (matches.length > 1 && !matches.some((entry) => entry.id === restoreOpts.trashId)) {
+    throw new UsageError(
+      `Multiple trash entries match prefix '${restoreOpts.trashId}': ${matches
+        .map((entry) => entry.id)
+        .join(", ")}`
+    )
+  }
+
+  const { entry, restored } = await provider.restoreTrash(restoreOpts.trashId)
+
+  printSuccessOutput(
+    `Restored ${entry.resourceType}(s) ${entry.resourceIds.join(", ")} from trash ${entry.id}`,
+    { trashId: entry.id, resourceType: entry.resourceType, resourceIds: entry.resourceIds, restored },
+    getOutputOptions(globalOpts).format
+  )
+}
+
+/**
+ * Handle the trash purge command.
+ *
+ * Exit codes:
+ * - 0: Success (including when there is nothing to purge)
+ * - 2: Usage error (--yes not provided, invalid --older-than)
+ */
+async function handleTrashPurge(
+  globalOpts: GlobalOptions,
+  purgeOpts: TrashPurgeCommandOptions
+): Promise<void> {
+  const olderThanMs = parseDuration(purgeOpts.olderThan, "--older-than")
+  const outputOpts = getOutputOptions(globalOpts)
+
+  const provider = createProviderFromGlobalOptions(globalOpts)
+
+  if (purgeOpts.dryRun) {
+    const expired = await provider.purgeTrash({ olderThanMs, dryRun: true })
+    const dryRunResult = createDryRunResult(expired.map((entry) => entry.path), "delete", "trash entry", expired.length)
+    printDryRunOutput(dryRunResult, outputOpts.format)
+    return
+  }
+
+  // Require confirmation for destructive operation
+  requireConfirmation(purgeOpts.yes, "Trash purge")
+
+  const purged = await provider.purgeTrash({ olderThanMs })
+
+  printSuccessOutput(
+    `Purged ${purged.length} trash entr${purged.length === 1 ? "y" : "ies"}`,
+    { count: purged.length, purged: purged.map((entry) => entry.id) },
+    outputOpts.format
+  )
+}
@@ -31,13 +31,22 @@ export function registerTUICommand(parent: Command): void {
     .action(async function (this: Command) {
       const globalOpts = parseGlobalOptions(collectOptions(this))
       const { launchTUI } = await import("../../tui/index")
-      const backend = globalOpts.experimentalSqlite || globalOpts.dbPath ? "sqlite" : "jsonl"
+      const backend = globalOpts.merged
+        ? "merged"
+        : globalOpts.experimentalSqlite || globalOpts.dbPath
+        ? "sqlite"
+        : "jsonl"
       await launchTUI({
         root: globalOpts.root,
         backend,
         dbPath: globalOpts.dbPath,
         sqliteStrict: globalOpts.sqliteStrict,
+        jsonlStrict: globalOpts.jsonlStrict,
         forceWrite: globalOpts.forceWrite,
+        cache: globalOpts.cache,
+        concurrency: globalOpts.concurrency,
+        snapshot: globalOpts.snapshot,
+        store: globalOpts.store,
       })
     })
 }
@@ -10,8 +10,10 @@
  * - 2: Usage error (e.g., missing --yes for destructive operations)
  * - 3: Missing resource (e.g., invalid project/session ID)
  * - 4: File operation failure (e.g., backup failed, delete failed)
+ * - 5: Budget exceeded (tokens check)
  */
 
+import { MalformedRecordError } from "../lib/opencode-data"
 import { formatErrorOutput, type OutputFormat } from "./output"
 
 // ========================
@@ -32,6 +34,8 @@ export const ExitCode = {
   NOT_FOUND: 3,
   /** File operation failure (e.g., backup failed, delete failed) */
   FILE_ERROR: 4,
+  /** Usage over a configured budget (tokens check) */
+  BUDGET_EXCEEDED: 5,
 } as const
 
 export type ExitCodeValue = (typeof ExitCode)[keyof typeof ExitCode]
@@ -92,6 +96,17 @@ export class FileOperationError extends CLIError {
   }
 }
 
+/**
+ * Budget exceeded error (exit code 5).
+ * Thrown by `tokens check` after its report when usage is over a budget.
+ */
+export class BudgetExceededError extends CLIError {
+  constructor(message: string) {
+    super(message, ExitCode.BUDGET_EXCEEDED)
+    this.name = "BudgetExceededError"
+  }
+}
+
 // ========================
 // Exit Helpers
 // ========================
@@ -186,6 +201,11 @@ export function handleError(
     exitWithCLIError(error, format)
   }
 
+  // --jsonl-strict: a file the loaders would have skipped fails the command
+  if (error instanceof MalformedRecordError) {
+    exitWithCLIError(new CLIError(error.message), format)
+  }
+
   if (error instanceof Error) {
     exitWithError(error.message, ExitCode.ERROR, format)
   }
@@ -5,7 +5,17 @@
  * Supports column definitions, truncation, and alignment.
  */
 
-import type { AggregateTokenSummary, ChatMessage, ChatRole, ChatSearchResult, ProjectRecord, ProjectState, SessionRecord, TokenBreakdown, TokenSummary } from "../../lib/opencode-data"
+import type { AggregateTokenSummary, ChatMessage, ChatRole, ChatSearchResult, CostBreakdown, DoctorCheck, DoctorIssue, DoctorReport, GroupedTokenSummary, OrphanRecord, ProjectRecord, ProjectState, SessionRecord, TokenBreakdown, TokenGroup, TokenSummary, TokenTimeline, TokenTimelineRow } from "../../lib/opencode-data"
+import { countDoctorIssues } from "../../lib/opencode-data"
+import { addCostBreakdown, emptyCostBreakdown } from "../../lib/pricing"
+import type { BudgetReport, BudgetStatus } from "../../lib/budgets"
+import type { IndexCacheStats } from "../../lib/opencode-data-cache"
+import { describeStoreLocation, type ConfigSetting, type NamedStore } from "../../lib/config"
+import type { StoreDiffReport, StoreDifference } from "../../lib/opencode-data-diff"
+import type { SessionTreeRow } from "../../lib/opencode-data-tree"
+import type { MigrationResult, MigrationTable, MigrationTableStats } from "../../lib/opencode-data-migrate"
+import type { TrashEntry } from "../../lib/opencode-data-trash"
+import type { BackupEntry, BackupRestoreItem, BackupRestoreResult } from "../backup"
 
 // ========================
 // Column Definition Types
@@ -394,14 +404,82 @@ export const sessionListColumnsCompact: ColumnDefinition<SessionRecord>[] = [
 ]
 
 /**
- * Format a sessions list as a table.
+ * Extra columns for sessions enriched with message stats (`sessions list --stats`).
+ *
+ * Columns: Model, Agent, Msgs, Turns, Cost, Last Activity
+ */
+export const sessionStatsColumns: ColumnDefinition<SessionRecord>[] = [
+  {
+    header: "Model",
+    width: 24,
+    align: "left",
+    accessor: (row) => formatRankedNames(row.stats?.models),
+  },
+  {
+    header: "Agent",
+    width: 12,
+    align: "left",
+    accessor: (row) => formatRankedNames(row.stats?.agents),
+  },
+  {
+    header: "Msgs",
+    width: 5,
+    align: "right",
+    accessor: (row) => row.stats?.messageCount,
+  },
+  {
+    header: "Turns",
+    width: 5,
+    align: "right",
+    accessor: (row) => row.stats?.userTurns,
+  },
+  {
+    header: "Cost",
+    width: 9,
+    align: "right",
+    accessor: (row) => row.stats?.cost,
+    format: (val) => (typeof val === "number" ? formatCost(val) : ""),
+  },
+  {
+    header: "Last Activity",
+    width: 16,
+    align: "left",
+    accessor: (row) => row.stats?.lastMessageAt,
+    format: (val) => formatDateForTable(val as Date | null | undefined),
+  },
+]
+
+/**
+ * The most used name, with a count of the others ("gpt-4o +1").
+ */
+function formatRankedNames(names: string[] | undefined): string {
+  if (!names || names.length === 0) {
+    return ""
+  }
+  return names.length === 1 ? names[0] : `${names[0]} +${names.length - 1}`
+}
+
+/**
+ * Format a cost in USD ("$0.42"; amounts under a cent keep 4 decimals).
+ */
+export function formatCost(value: number): string {
+  if (value > 0 && value < 0.01) {
+    return `$${value.toFixed(4)}`
+  }
+  return `$${value.toFixed(2)}`
+}
+
+/**
+ * Format a sessions list as a table. Stats columns are added when the
+ * sessions were enriched.
  */
 export function formatSessionsTable(
   sessions: SessionRecord[],
   options?: TableFormatOptions & { compact?: boolean }
 ): string {
   const columns = options?.compact ? sessionListColumnsCompact : sessionListColumns
-  return formatTable(sessions, columns, options)
+  const withStats = sessions.some((session) => session.stats)
+  return formatTable(sessions, withStats ? [...columns, ...sessionStatsColumns] : columns, options)
 }
 
 /**
@@ -414,6 +492,59 @@ export function printSessionsTable(
   console.log(formatSessionsTable(sessions, options))
 }
 
+// ========================
+// Session Tree Columns
+// ========================
+
+/**
+ * Column definitions for `sessions tree` output. Titles are indented by depth.
+ *
+ * Columns: Title, Session ID, Children, Project ID, Updated
+ */
+export const sessionTreeColumns: ColumnDefinition<SessionTreeRow>[] = [
+  {
+    header: "Title",
+    width: 48,
+    align: "left",
+    accessor: (row) => `${row.depth > 0 ? "  ".repeat(row.depth - 1) + "└ " : ""}${row.title || "(no title)"}`,
+  },
+  {
+    header: "Session ID",
+    width: 24,
+    align: "left",
+    accessor: (row) => row.sessionId,
+  },
+  {
+    header: "Children",
+    width: 8,
+    align: "right",
+    accessor: (row) => row.descendantCount,
+  },
+  {
+    header: "Project ID",
+    width: 24,
+    align: "left",
+    accessor: (row) => row.projectId,
+  },
+  {
+    header: "Updated",
+    width: 16,
+    align: "left",
+    accessor: (row) => row.updatedAt,
+    format: (val) => formatDateForTable(val as Date | null | undefined),
+  },
+]
+
+/**
+ * Format a session tree as a table.
+ */
+export function formatSessionTreeTable(
+  rows: SessionTreeRow[],
+  options?: TableFormatOptions
+): string {
+  return formatTable(rows, sessionTreeColumns, options)
+}
+
 // ========================
 // Chat List Columns
 // ========================
@@ -652,16 +783,32 @@ export function printTokenBreakdownTable(
   console.log(formatTokenBreakdownTable(breakdown, options))
 }
 
+/**
+ * Format a CostBreakdown as summary lines: the total split into recorded and
+ * estimated cost, plus a note for messages that could not be priced.
+ */
+export function formatCostBreakdown(cost: CostBreakdown): string {
+  const lines = [
+    `Cost: ${formatCost(cost.total)} (recorded ${formatCost(cost.recorded)}, estimated ${formatCost(cost.estimated)})`,
+  ]
+  if (cost.unpricedMessages > 0) {
+    lines.push(`Note: ${cost.unpricedMessages} message(s) without a recorded cost or a configured price`)
+  }
+  return lines.join("\n")
+}
+
 /**
  * Format a TokenSummary for display.
- * Returns a table for known summaries, or a message for unknown.
+ * Returns a table (plus cost, when computed) for known summaries, or a
+ * message for unknown.
  */
 export function formatTokenSummary(
   summary: TokenSummary,
   options?: TableFormatOptions
 ): string {
   if (summary.kind === "known") {
-    return formatTokenBreakdownTable(summary.tokens, options)
+    const table = formatTokenBreakdownTable(summary.tokens, options)
+    return summary.cost ? `${table}\n\n${formatCostBreakdown(summary.cost)}` : table
   }
   // Unknown summary - return reason message
   switch (summary.reason) {
@@ -696,7 +843,7 @@ export interface AggregateTokenRow {
 
 /**
  * Format an AggregateTokenSummary as a detailed summary.
- * Includes breakdown table plus metadata about unknown sessions.
+ * Includes breakdown table, cost and metadata about unknown sessions.
  */
 export function formatAggregateTokenSummary(
   summary: AggregateTokenSummary,
@@ -711,6 +858,10 @@ export function formatAggregateTokenSummary(
 
   if (summary.total.kind === "known") {
     lines.push(formatTokenBreakdownTable(summary.total.tokens, options))
+    if (summary.cost) {
+      lines.push("")
+      lines.push(formatCostBreakdown(summary.cost))
+    }
   } else {
     lines.push(formatTokenSummary(summary.total, options))
   }
@@ -734,6 +885,248 @@ export function printAggregateTokenSummary(
   console.log(formatAggregateTokenSummary(summary, options))
 }
 
+/**
+ * Token columns of a grouped summary; the first column names the group.
+ * Percentages are shares of the summed total.
+ */
+function tokenGroupColumns(summary: GroupedTokenSummary): ColumnDefinition<TokenGroup>[] {
+  const tokenColumn = (header: string, field: keyof TokenBreakdown, width = 11): ColumnDefinition<TokenGroup> => ({
+    header,
+    width,
+    align: "right",
+    accessor: (row) => row.tokens[field],
+    format: (val) => formatLargeNumber(val as number),
+  })
+  return [
+    {
+      header: summary.by === "model" ? "Model" : summary.by === "provider" ? "Provider" : "Agent",
+      width: 32,
+      align: "left",
+      accessor: (row) => row.key,
+    },
+    {
+      header: "Msgs",
+      width: 6,
+      align: "right",
+      accessor: (row) => row.messages,
+    },
+    tokenColumn("Input", "input"),
+    tokenColumn("Output", "output"),
+    tokenColumn("Reasoning", "reasoning"),
+    tokenColumn("Cache Read", "cacheRead"),
+    tokenColumn("Cache Write", "cacheWrite"),
+    tokenColumn("Total", "total"),
+    {
+      header: "%",
+      width: 7,
+      align: "right",
+      accessor: (row) => (summary.total.total > 0 ? (row.tokens.total / summary.total.total) * 100 : 0),
+      format: (val) => formatPercentage(val as number),
+    },
+    {
+      header: "Cost",
+      width: 10,
+      align: "right",
+      accessor: (row) => row.cost.total,
+      format: (val) => formatCost(val as number),
+    },
+  ]
+}
+
+/**
+ * Format a GroupedTokenSummary: one row per model, provider or agent, with
+ * notes for estimated costs and unknown sessions.
+ */
+export function formatGroupedTokenSummary(
+  summary: GroupedTokenSummary,
+  options?: TableFormatOptions & { label?: string }
+): string {
+  const lines: string[] = []
+  const label = `${options?.label ?? "Token Summary"} by ${summary.by}`
+
+  lines.push(label)
+  lines.push("=".repeat(label.length))
+  lines.push("")
+
+  if (summary.groups.length === 0) {
+    lines.push("[No token data]")
+  } else {
+    lines.push(formatTable(summary.groups, tokenGroupColumns(summary), options))
+    const cost = summary.groups.reduce((total, group) => addCostBreakdown(total, group.cost), emptyCostBreakdown())
+    lines.push("")
+    lines.push(formatCostBreakdown(cost))
+  }
+
+  if (summary.unknownSessions > 0) {
+    lines.push("")
+    lines.push(`Note: ${summary.unknownSessions} session(s) with unavailable token data`)
+  }
+
+  return lines.join("\n")
+}
+
+/** Width of the bar of the busiest period in a timeline */
+const TIMELINE_BAR_WIDTH = 30
+
+/**
+ * Columns of a token timeline. The bar is scaled to the busiest period.
+ */
+function tokenTimelineColumns(timeline: TokenTimeline): ColumnDefinition<TokenTimelineRow>[] {
+  const max = Math.max(0, ...timeline.rows.map((row) => row.tokens.total))
+  return [
+    {
+      header: timeline.bucket === "day" ? "Day" : timeline.bucket === "week" ? "Week" : "Month",
+      width: 10,
+      align: "left",
+      accessor: (row) => row.period,
+    },
+    {
+      header: "Msgs",
+      width: 6,
+      align: "right",
+      accessor: (row) => row.messages,
+    },
+    {
+      header: "Input",
+      width: 11,
+      align: "right",
+      accessor: (row) => row.tokens.input,
+      format: (val) => formatLargeNumber(val as number),
+    },
+    {
+      header: "Output",
+      width: 11,
+      align: "right",
+      accessor: (row) => row.tokens.output,
+      format: (val) => formatLargeNumber(val as number),
+    },
+    {
+      header: "Total",
+      width: 11,
+      align: "right",
+      accessor: (row) => row.tokens.total,
+      format: (val) => formatLargeNumber(val as number),
+    },
+    {
+      header: "Cost",
+      width: 10,
+      align: "right",
+      accessor: (row) => row.cost.total,
+      format: (val) => formatCost(val as number),
+    },
+    {
+      header: "",
+      width: TIMELINE_BAR_WIDTH,
+      align: "left",
+      // Any usage gets at least one block so small periods stay visible
+      accessor: (row) =>
+        max > 0 && row.tokens.total > 0
+          ? "█".repeat(Math.max(1, Math.round((row.tokens.total / max) * TIMELINE_BAR_WIDTH)))
+          : "",
+    },
+  ]
+}
+
+/**
+ * Format a TokenTimeline: one row per period with a bar chart of total
+ * tokens, then the overall cost and notes for left-out data.
+ */
+export function formatTokenTimeline(
+  timeline: TokenTimeline,
+  options?: TableFormatOptions & { label?: string }
+): string {
+  const lines: string[] = []
+  const label = `${options?.label ?? "Token Summary"} by ${timeline.bucket}`
+
+  lines.push(label)
+  lines.push("=".repeat(label.length))
+  lines.push("")
+
+  if (timeline.rows.length === 0) {
+    lines.push("[No token data]")
+  } else {
+    lines.push(formatTable(timeline.rows, tokenTimelineColumns(timeline), options))
+    lines.push("")
+    lines.push(`Total: ${formatLargeNumber(timeline.total.total)} tokens in ${timeline.rows.reduce((count, row) => count + row.messages, 0)} message(s)`)
+    lines.push(formatCostBreakdown(timeline.cost))
+  }
+
+  if (timeline.undatedMessages > 0) {
+    lines.push("")
+    lines.push(`Note: ${timeline.undatedMessages} message(s) without a creation time`)
+  }
+  if (timeline.unknownSessions > 0) {
+    lines.push("")
+    lines.push(`Note: ${timeline.unknownSessions} session(s) with unavailable token data`)
+  }
+
+  return lines.join("\n")
+}
+
+/**
+ * Columns of a budget report. Usage is shown against the limit; a dash
+ * marks a limit the budget does not set.
+ */
+const budgetStatusColumns: ColumnDefinition<BudgetStatus>[] = [
+  {
+    header: "Budget",
+    width: 20,
+    align: "left",
+    accessor: (row) => row.budget,
+  },
+  {
+    header: "Scope",
+    width: 28,
+    align: "left",
+    accessor: (row) => `${row.store ? `${row.store}: ` : ""}${row.project ?? "all projects"}`,
+  },
+  {
+    header: "Period",
+    width: 10,
+    align: "left",
+    accessor: (row) => row.periodLabel,
+  },
+  {
+    header: "Tokens",
+    width: 19,
+    align: "right",
+    accessor: (row) => (row.tokenLimit === null ? "-" : `${formatLargeNumber(row.tokens)} / ${formatLargeNumber(row.tokenLimit)}`),
+  },
+  {
+    header: "Cost",
+    width: 19,
+    align: "right",
+    accessor: (row) => (row.costLimit === null ? "-" : `${formatCost(row.cost)} / ${formatCost(row.costLimit)}`),
+  },
+  {
+    header: "Used",
+    width: 7,
+    align: "right",
+    accessor: (row) => row.used * 100,
+    format: (val) => formatPercentage(val as number),
+  },
+  {
+    header: "Status",
+    width: 6,
+    align: "left",
+    accessor: (row) => (row.exceeded ? "OVER" : "ok"),
+  },
+]
+
+/**
+ * Format a BudgetReport: one row per budget target, then how many are over.
+ */
+export function formatBudgetReport(report: BudgetReport, options?: TableFormatOptions): string {
+  if (report.statuses.length === 0) {
+    return "[No budgets configured]"
+  }
+  const summary =
+    report.exceeded > 0
+      ? `${report.exceeded} of ${report.statuses.length} budget check(s) exceeded`
+      : `All ${report.statuses.length} budget check(s) within limits`
+  return `${formatTable(report.statuses, budgetStatusColumns, options)}\n\n${summary}`
+}
+
 // ========================
 // Chat Search Results Columns
 // ========================
@@ -835,3 +1228,655 @@ export function printChatSearchTable(
 ): void {
   console.log(formatChatSearchTable(results, options))
 }
+
+// ========================
+// Orphans List Columns
+// ========================
+
+/**
+ * Indexed orphan record for display.
+ */
+export type IndexedOrphanRecord = OrphanRecord & { index: number }
+
+/**
+ * Format a byte count with KB/MB/GB suffix.
+ */
+export function formatByteSize(bytes: number | null | undefined): string {
+  if (bytes === null || bytes === undefined) {
+    return "-"
+  }
+  if (bytes >= 1024 ** 3) {
+    return `${(bytes / 1024 ** 3).toFixed(2)} GB`
+  }
+  if (bytes >= 1024 ** 2) {
+    return `${(bytes / 1024 ** 2).toFixed(1)} MB`
+  }
+  if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`
+  }
+  return `${bytes} B`
+}
+
+/**
+ * Column definitions for orphans list output.
+ *
+ * Columns: #, Kind, ID, Missing Parent, Items, Size, Path
+ */
+export const orphanListColumns: ColumnDefinition<IndexedOrphanRecord>[] = [
+  {
+    header: "#",
+    width: 4,
+    align: "right",
+    accessor: (row) => row.index,
+  },
+  {
+    header: "Kind",
+    width: 7,
+    align: "left",
+    accessor: (row) => row.kind,
+  },
+  {
+    header: "ID",
+    width: 24,
+    align: "left",
+    accessor: (row) => row.id,
+  },
+  {
+    header: "Missing Parent",
+    width: 24,
+    align: "left",
+    accessor: (row) => row.parentId,
+  },
+  {
+    header: "Items",
+    width: 6,
+    align: "right",
+    accessor: (row) => row.itemCount,
+  },
+  {
+    header: "Size",
+    width: 9,
+    align: "right",
+    accessor: (row) => row.sizeBytes,
+    format: (val) => formatByteSize(val as number | null),
+  },
+  {
+    header: "Path",
+    width: 50,
+    align: "left",
+    accessor: (row) => row.path,
+  },
+]
+
+/**
+ * Format an orphans list as a table.
+ * Orphans are expected to have an index property added.
+ */
+export function formatOrphansTable(
+  orphans: IndexedOrphanRecord[],
+  options?: TableFormatOptions
+): string {
+  return formatTable(orphans, orphanListColumns, options)
+}
+
+// ========================
+// Trash List Columns
+// ========================
+
+/**
+ * Indexed trash entry for display.
+ */
+export type IndexedTrashEntry = TrashEntry & { index: number }
+
+/**
+ * Column definitions for trash list output.
+ *
+ * Columns: #, Trash ID, Deleted, Type, Resources, Items, Command
+ */
+export const trashListColumns: ColumnDefinition<IndexedTrashEntry>[] = [
+  {
+    header: "#",
+    width: 4,
+    align: "right",
+    accessor: (row) => row.index,
+  },
+  {
+    header: "Trash ID",
+    width: 22,
+    align: "left",
+    accessor: (row) => row.id,
+  },
+  {
+    header: "Deleted",
+    width: 16,
+    align: "left",
+    accessor: (row) => new Date(row.deletedAt),
+    format: (val) => formatDateForTable(val as Date),
+  },
+  {
+    header: "Type",
+    width: 8,
+    align: "left",
+    accessor: (row) => row.resourceType,
+  },
+  {
+    header: "Resources",
+    width: 30,
+    align: "left",
+    accessor: (row) => row.resourceIds.join(", "),
+  },
+  {
+    header: "Items",
+    width: 6,
+    align: "right",
+    accessor: (row) => row.items.length,
+  },
+  {
+    header: "Command",
+    width: 40,
+    align: "left",
+    accessor: (row) => row.command,
+  },
+]
+
+/**
+ * Format a trash list as a table.
+ * Entries are expected to have an index property added.
+ */
+export function formatTrashTable(
+  entries: IndexedTrashEntry[],
+  options?: TableFormatOptions
+): string {
+  return formatTable(entries, trashListColumns, options)
+}
+
+// ========================
+// Backup Columns
+// ========================
+
+/**
+ * Indexed backup entry for display.
+ */
+export type IndexedBackupEntry = BackupEntry & { index: number }
+
+/**
+ * Column definitions for backup list output.
+ *
+ * Columns: #, Backup, Created, Backend, Format, Items, Command
+ */
+export const backupListColumns: ColumnDefinition<IndexedBackupEntry>[] = [
+  {
+    header: "#",
+    width: 4,
+    align: "right",
+    accessor: (row) => row.index,
+  },
+  {
+    header: "Backup",
+    width: 40,
+    align: "left",
+    accessor: (row) => row.path,
+  },
+  {
+    header: "Created",
+    width: 16,
+    align: "left",
+    accessor: (row) => new Date(row.createdAt),
+    format: (val) => formatDateForTable(val as Date),
+  },
+  {
+    header: "Backend",
+    width: 7,
+    align: "left",
+    accessor: (row) => row.backend,
+  },
+  {
+    header: "Format",
+    width: 9,
+    align: "left",
+    accessor: (row) => (row.encrypted ? "encrypted" : row.format),
+  },
+  {
+    header: "Items",
+    width: 6,
+    align: "right",
+    accessor: (row) => row.items.length,
+  },
+  {
+    header: "Command",
+    width: 40,
+    align: "left",
+    accessor: (row) => row.command,
+  },
+]
+
+/**
+ * Format a backup list as a table.
+ * Entries are expected to have an index property added.
+ */
+export function formatBackupListTable(
+  entries: IndexedBackupEntry[],
+  options?: TableFormatOptions
+): string {
+  return formatTable(entries, backupListColumns, options)
+}
+
+/**
+ * Column definitions for backup restore output.
+ *
+ * Columns: Action, Target
+ */
+export const backupRestoreColumns: ColumnDefinition<BackupRestoreItem>[] = [
+  {
+    header: "Action",
+    width: 9,
+    align: "left",
+    accessor: (row) => row.action,
+  },
+  {
+    header: "Target",
+    width: 80,
+    align: "left",
+    accessor: (row) => row.target,
+  },
+]
+
+/**
+ * Format a backup restore result: one row per item plus a summary line.
+ */
+export function formatBackupRestoreTable(
+  result: BackupRestoreResult,
+  options?: TableFormatOptions
+): string {
+  const lines = [formatTable(result.items, backupRestoreColumns, options), ""]
+
+  if (result.conflicts.length > 0) {
+    lines.push(`Conflicts: ${result.conflicts.length} item(s) differ from the backup (use --force to overwrite)`)
+  }
+
+  if (result.dryRun) {
+    lines.push(`[DRY RUN] Nothing restored from ${result.backupDir}`)
+  } else if (result.conflicts.length === 0) {
+    lines.push(`Restored ${result.restored.length} item(s) from ${result.backupDir}`)
+  }
+
+  return lines.join("\n")
+}
+
+// ========================
+// Migration Summary Columns
+// ========================
+
+/**
+ * One row of the migration summary (per table).
+ */
+export type MigrationSummaryRow = MigrationTableStats & {
+  table: MigrationTable
+  verified: string
+}
+
+/**
+ * Column definitions for migration summary output.
+ *
+ * Columns: Table, Source, Inserted, Skipped, Overwritten, Verified
+ */
+export const migrationSummaryColumns: ColumnDefinition<MigrationSummaryRow>[] = [
+  {
+    header: "Table",
+    width: 8,
+    align: "left",
+    accessor: (row) => row.table,
+  },
+  {
+    header: "Source",
+    width: 8,
+    align: "right",
+    accessor: (row) => row.source,
+  },
+  {
+    header: "Inserted",
+    width: 8,
+    align: "right",
+    accessor: (row) => row.inserted,
+  },
+  {
+    header: "Skipped",
+    width: 8,
+    align: "right",
+    accessor: (row) => row.skipped,
+  },
+  {
+    header: "Overwritten",
+    width: 11,
+    align: "right",
+    accessor: (row) => row.overwritten,
+  },
+  {
+    header: "Verified",
+    width: 12,
+    align: "left",
+    accessor: (row) => row.verified,
+  },
+]
+
+/**
+ * Convert a migration result into per-table summary rows.
+ */
+export function migrationResultToRows(result: MigrationResult): MigrationSummaryRow[] {
+  return (Object.keys(result.tables) as MigrationTable[]).map((table) => {
+    const counts = result.verification?.counts[table]
+    return {
+      table,
+      ...result.tables[table],
+      verified: counts ? `${counts.actual}/${counts.expected}` : "-",
+    }
+  })
+}
+
+/**
+ * Format a migration result as a per-table summary followed by
+ * conflict and verification status lines.
+ */
+export function formatMigrationTable(
+  result: MigrationResult,
+  options?: TableFormatOptions
+): string {
+  const lines = [formatTable(migrationResultToRows(result), migrationSummaryColumns, options), ""]
+
+  if (result.conflicts.length > 0) {
+    lines.push(`Conflicts: ${result.conflicts.length} existing ID(s) (--on-conflict ${result.onConflict})`)
+  }
+
+  if (result.warnings.length > 0) {
+    lines.push(`Warnings: ${result.warnings.length}`)
+    lines.push(...result.warnings.map((warning) => `  - ${warning}`))
+  }
+
+  if (result.dryRun) {
+    lines.push(`[DRY RUN] Nothing written to ${result.target}`)
+  } else if (result.verification?.ok) {
+    lines.push(`Verification passed: counts and token totals match (${result.target})`)
+  } else if (result.verification) {
+    lines.push("Verification FAILED:")
+    lines.push(...result.verification.mismatches.map((mismatch) => `  - ${mismatch}`))
+  }
+
+  return lines.join("\n")
+}
+
+// ========================
+// Doctor Formatters
+// ========================
+
+/**
+ * Order in which doctor report sections are printed.
+ */
+const DOCTOR_CHECK_ORDER: DoctorCheck[] = [
+  "sqlite-integrity",
+  "sqlite-schema",
+  "json",
+  "session-project",
+  "part-message",
+  "message-parent",
+  "timestamp",
+]
+
+/**
+ * Column definitions for doctor issues within one check section.
+ *
+ * Columns: Severity, Path, Message
+ */
+export const doctorIssueColumns: ColumnDefinition<DoctorIssue>[] = [
+  {
+    header: "Severity",
+    width: 8,
+    align: "left",
+    accessor: (row) => row.severity,
+  },
+  {
+    header: "Path",
+    width: 50,
+    align: "left",
+    accessor: (row) => row.path,
+  },
+  {
+    header: "Message",
+    width: 60,
+    align: "left",
+    accessor: (row) => row.message,
+  },
+]
+
+/**
+ * Format a doctor report as one section per failed check, followed by a
+ * summary line.
+ */
+export function formatDoctorTable(
+  report: DoctorReport,
+  options?: TableFormatOptions
+): string {
+  const { scanned } = report
+  const lines = [
+    `Checked ${report.backend} store: ${report.location}`,
+    `Scanned ${scanned.project} project(s), ${scanned.session} session(s), ${scanned.message} message(s), ${scanned.part} part(s)`,
+  ]
+
+  for (const check of DOCTOR_CHECK_ORDER) {
+    const issues = report.issues.filter((issue) => issue.check === check)
+    if (issues.length > 0) {
+      lines.push("", `${check} (${issues.length})`, formatTable(issues, doctorIssueColumns, options))
+    }
+  }
+
+  const counts = countDoctorIssues(report.issues)
+  lines.push(
+    "",
+    report.issues.length === 0
+      ? "No problems found"
+      : `Found ${counts.errors} error(s) and ${counts.warnings} warning(s)`
+  )
+  return lines.join("\n")
+}
+
+// ========================
+// Store Diff Formatters
+// ========================
+
+/**
+ * Column definitions for store differences.
+ */
+export const storeDiffColumns: ColumnDefinition<StoreDifference>[] = [
+  {
+    header: "Difference",
+    width: 10,
+    align: "left",
+    accessor: (row) => row.kind,
+  },
+  {
+    header: "ID",
+    width: 30,
+    align: "left",
+    accessor: (row) => row.id,
+  },
+  {
+    header: "Left",
+    width: 40,
+    align: "left",
+    accessor: (row) => row.left,
+  },
+  {
+    header: "Right",
+    width: 40,
+    align: "left",
+    accessor: (row) => row.right,
+  },
+]
+
+/**
+ * Format a store diff report as one section per table with differences,
+ * followed by a summary line.
+ */
+export function formatStoreDiffTable(
+  report: StoreDiffReport,
+  options?: TableFormatOptions
+): string {
+  const { compared } = report
+  const lines = [
+    `Left:  ${report.left.backend} ${report.left.location}`,
+    `Right: ${report.right.backend} ${report.right.location}`,
+    `Compared ${compared.project} project(s), ${compared.session} session(s), ${compared.message} message(s), ${compared.part} part(s) present on both sides`,
+  ]
+
+  for (const table of Object.keys(compared) as MigrationTable[]) {
+    const differences = report.differences.filter((difference) => difference.table === table)
+    if (differences.length > 0) {
+      lines.push("", `${table} (${differences.length})`, formatTable(differences, storeDiffColumns, options))
+    }
+  }
+
+  lines.push(
+    "",
+    report.differences.length === 0
+      ? "Stores match"
+      : `Found ${report.differences.length} difference(s)`
+  )
+  return lines.join("\n")
+}
+
+// ========================
+// Cache Stats Formatters
+// ========================
+
+/**
+ * Column definitions for per-store cache entry counts.
+ */
+export const cacheStoreColumns: ColumnDefinition<IndexCacheStats["stores"][number]>[] = [
+  {
+    header: "Entries",
+    width: 8,
+    align: "right",
+    accessor: (row) => row.entries,
+  },
+  {
+    header: "Store",
+    width: 80,
+    align: "left",
+    accessor: (row) => row.store,
+  },
+]
+
+/**
+ * Format index cache stats: file, entries per kind, then entries per store.
+ */
+export function formatCacheStatsTable(
+  stats: IndexCacheStats,
+  options?: TableFormatOptions
+): string {
+  if (!stats.exists) {
+    return `Cache: ${stats.path} (not created yet)`
+  }
+  const kinds = Object.entries(stats.entries)
+    .map(([kind, count]) => `${count} ${kind}`)
+    .join(", ")
+  const lines = [
+    `Cache: ${stats.path} (${formatByteSize(stats.sizeBytes)})`,
+    `Entries: ${kinds}`,
+  ]
+  if (stats.stores.length > 0) {
+    lines.push("", formatTable(stats.stores, cacheStoreColumns, options))
+  }
+  return lines.join("\n")
+}
+
+// ========================
+// Config Formatters
+// ========================
+
+/**
+ * Render a setting's value for display ("-" when unset).
+ */
+export function formatConfigValue(value: ConfigSetting["value"]): string {
+  return value === null ? "-" : String(value)
+}
+
+/**
+ * Column definitions for config settings.
+ *
+ * Columns: Key, Value, Source
+ */
+export const configSettingColumns: ColumnDefinition<ConfigSetting>[] = [
+  {
+    header: "Key",
+    width: 16,
+    align: "left",
+    accessor: (row) => row.key,
+  },
+  {
+    header: "Value",
+    width: 60,
+    align: "left",
+    accessor: (row) => formatConfigValue(row.value),
+  },
+  {
+    header: "Source",
+    width: 7,
+    align: "left",
+    accessor: (row) => row.source,
+  },
+]
+
+/**
+ * Format config settings as a table.
+ */
+export function formatConfigSettingsTable(
+  settings: ConfigSetting[],
+  options?: TableFormatOptions
+): string {
+  return formatTable(settings, configSettingColumns, options)
+}
+
+// ========================
+// Store Registry Formatters
+// ========================
+
+/**
+ * Column definitions for the store registry.
+ *
+ * Columns: Name, Backend, Strict, Location
+ */
+export const storeListColumns: ColumnDefinition<NamedStore>[] = [
+  {
+    header: "Name",
+    width: 16,
+    align: "left",
+    accessor: (row) => row.name,
+  },
+  {
+    header: "Backend",
+    width: 7,
+    align: "left",
+    accessor: (row) => row.backend,
+  },
+  {
+    header: "Strict",
+    width: 6,
+    align: "left",
+    accessor: (row) => (row.strict ? "yes" : "no"),
+  },
+  {
+    header: "Location",
+    width: 80,
+    align: "left",
+    accessor: (row) => describeStoreLocation(row),
+  },
+]
+
+/**
+ * Format the store registry as a table.
+ */
+export function formatStoreListTable(
+  stores: NamedStore[],
+  options?: TableFormatOptions
+): string {
+  return formatTable(stores, storeListColumns, options)
+}
@@ -2,18 +2,37 @@
  * CLI entrypoint module.
  *
  * Provides Commander-based CLI with subcommands for projects, sessions,
- * chat, and tokens. Global options are defined here and passed to
+ * chat, tokens, and maintenance. Global options are defined here and passed to
  * subcommand handlers.
  */
 
 import { Command, type OptionValues } from "commander"
 import { resolve } from "node:path"
+import {
+  CONFIG_KEY_NAMES,
+  ConfigError,
+  loadUserConfig,
+  resolveSetting,
+  resolveStore,
+  type ConfigKey,
+} from "../lib/config"
 import { DEFAULT_ROOT } from "../lib/opencode-data"
+import { configureIndexCache, DEFAULT_CACHE_PATH } from "../lib/opencode-data-cache"
+import { configurePricing } from "../lib/pricing"
+import { DEFAULT_IO_CONCURRENCY, setIoConcurrency } from "../lib/worker-pool"
 import { registerProjectsCommands } from "./commands/projects"
 import { registerSessionsCommands } from "./commands/sessions"
 import { registerChatCommands } from "./commands/chat"
 import { registerTokensCommands } from "./commands/tokens"
+import { registerMaintenanceCommands } from "./commands/maintenance"
+import { registerStoreCommands } from "./commands/store"
+import { registerTrashCommands } from "./commands/trash"
+import { registerBackupCommands } from "./commands/backup"
+import { registerDoctorCommand } from "./commands/doctor"
+import { registerCacheCommands } from "./commands/cache"
+import { registerConfigCommands } from "./commands/config"
 import { registerTUICommand } from "./commands/tui"
+import { handleError, UsageError } from "./errors"
 
 /**
  * Collect all options from a command and its ancestors.
@@ -51,18 +70,35 @@ export interface GlobalOptions {
   clipboard: boolean
   /** Directory for backup copies before deletion */
   backupDir?: string
+  /** Write backups as a single .tar.gz file */
+  backupArchive: boolean
+  /** Encrypt backup archives with a passphrase (implies backupArchive) */
+  backupEncrypt: boolean
   /** Use SQLite database instead of JSONL files (experimental) */
   experimentalSqlite: boolean
   /** Path to SQLite database (implies --experimental-sqlite) */
   dbPath?: string
+  /** Read the JSONL store and the SQLite database together */
+  merged: boolean
   /** Fail fast on any SQLite error or malformed data */
   sqliteStrict: boolean
+  /** Fail instead of skipping malformed JSONL files */
+  jsonlStrict: boolean
   /** Wait for SQLite write locks to clear before failing */
   forceWrite: boolean
+  /** Read and update the persistent index cache */
+  cache: boolean
+  /** Maximum number of JSONL files read in parallel */
+  concurrency: number
+  /** Read SQLite data from a temporary consistent copy */
+  snapshot: boolean
+  /** Name of a store from the config file's store registry */
+  store?: string
 }
 
 /**
- * Default global options.
+ * Built-in global options, used when neither a flag, an environment variable
+ * nor the config file sets a value.
  */
 export const DEFAULT_OPTIONS: GlobalOptions = {
   root: DEFAULT_ROOT,
@@ -74,10 +110,18 @@ export const DEFAULT_OPTIONS: GlobalOptions = {
   quiet: false,
   clipboard: false,
   backupDir: undefined,
+  backupArchive: false,
+  backupEncrypt: false,
   experimentalSqlite: false,
   dbPath: undefined,
+  merged: false,
   sqliteStrict: false,
+  jsonlStrict: false,
   forceWrite: false,
+  cache: true,
+  concurrency: DEFAULT_IO_CONCURRENCY,
+  snapshot: false,
+  store: undefined,
 }
 
 /**
@@ -121,6 +165,16 @@ function createProgram(): Command {
     .option("-q, --quiet", "Suppress non-essential output", DEFAULT_OPTIONS.quiet)
     .option("-c, --clipboard", "Copy output to clipboard", DEFAULT_OPTIONS.clipboard)
     .option("--backup-dir <path>", "Directory for backup copies before deletion")
+    .option(
+      "--backup-archive",
+      "Write backups as a single .tar.gz file instead of a directory",
+      DEFAULT_OPTIONS.backupArchive
+    )
+    .option(
+      "--backup-encrypt",
+      "Encrypt backup archives with AES-256-GCM (implies --backup-archive; passphrase from OPENCODE_MANAGER_BACKUP_PASSPHRASE or prompt)",
+      DEFAULT_OPTIONS.backupEncrypt
+    )
     .option(
       "--experimental-sqlite",
       "Use SQLite database instead of JSONL files (experimental; schema may change)",
@@ -130,16 +184,63 @@ function createProgram(): Command {
       "--db <path>",
       "Path to SQLite database (implies --experimental-sqlite). Default: ~/.local/share/opencode/opencode.db"
     )
+    .option(
+      "--merged",
+      "Read the JSONL store (--root) and the SQLite database (--db or default) together",
+      DEFAULT_OPTIONS.merged
+    )
     .option(
       "--sqlite-strict",
       "Fail on any SQLite warning or malformed data (no partial results)",
       DEFAULT_OPTIONS.sqliteStrict
     )
+    .option(
+      "--jsonl-strict",
+      "Fail on malformed JSONL files instead of skipping them with a warning",
+      DEFAULT_OPTIONS.jsonlStrict
+    )
     .option(
       "--force-write",
       "Wait for SQLite write locks to clear before failing",
       DEFAULT_OPTIONS.forceWrite
     )
+    .option("--no-cache", "Bypass the persistent index cache (see `cache stats`)")
+    .option(
+      "--snapshot",
+      "Read SQLite data from a consistent temporary copy so the live database is never locked (writes are refused)",
+      DEFAULT_OPTIONS.snapshot
+    )
+    .option(
+      "--store <name>",
+      "Use a named store from the config file (sets the backend, --root/--db and strictness; see `store list`)"
+    )
+    .option(
+      "--concurrency <n>",
+      "Maximum number of JSONL files read in parallel (1 reads them one at a time)",
+      String(DEFAULT_OPTIONS.concurrency)
+    )
+    // Fill in defaults from the environment and config file, then configure the
+    // index cache and I/O pool before any command touches the store (also
+    // rejects an unknown --store before any handler runs)
+    .hook("preAction", (rootCommand, actionCommand) => {
+      let opts = collectOptions(actionCommand)
+      try {
+        try {
+          applyConfiguredDefaults(rootCommand)
+        } catch (error) {
+          // `config` commands must keep working while the config file is broken
+          if (actionCommand.parent?.name() !== "config") {
+            throw error
+          }
+        }
+        opts = collectOptions(actionCommand)
+        const { cache, concurrency } = parseGlobalOptions(opts)
+        configureIndexCache(cache ? DEFAULT_CACHE_PATH : null)
+        setIoConcurrency(concurrency)
+      } catch (error) {
+        handleError(error, validateFormat(String(opts.format ?? DEFAULT_OPTIONS.format)))
+      }
+    })
 
   // Projects subcommand group
   registerProjectsCommands(program)
@@ -153,20 +254,119 @@ function createProgram(): Command {
   // Tokens subcommand group
   registerTokensCommands(program)
 
+  // Maintenance subcommand group
+  registerMaintenanceCommands(program)
+
+  // Store subcommand group
+  registerStoreCommands(program)
+
+  // Trash subcommand group
+  registerTrashCommands(program)
+
+  // Backup subcommand group
+  registerBackupCommands(program)
+
+  // Store health check
+  registerDoctorCommand(program)
+
+  // Index cache subcommand group
+  registerCacheCommands(program)
+
+  // Config file subcommand group
+  registerConfigCommands(program)
+
   // TUI subcommand to explicitly launch TUI from CLI
   registerTUICommand(program)
 
   return program
 }
 
+/**
+ * Flags that choose which store is read. When any of them is given on the
+ * command line, the configured `backend`, `store` and `dbPath` are ignored so
+ * the flags are never mixed with a different configured backend.
+ */
+const STORAGE_FLAGS = ["root", "db", "experimentalSqlite", "merged", "store"]
+
+/**
+ * Commander attribute for each setting that maps one-to-one onto a global option.
+ */
+function optionAttribute(key: ConfigKey): string {
+  return key === "dbPath" ? "db" : key
+}
+
+/**
+ * Apply environment variables and config file settings to every global option
+ * that was not given on the command line, so precedence is
+ * flag > environment variable > config file > built-in default. Also loads the
+ * configured pricing table.
+ *
+ * @throws UsageError if the config file or an environment variable is invalid.
+ */
+function applyConfiguredDefaults(program: Command): void {
+  let config
+  try {
+    config = loadUserConfig()
+  } catch (error) {
+    throw error instanceof ConfigError ? new UsageError(error.message) : error
+  }
+  configurePricing(config.pricing)
+  const fromCli = (attribute: string) => program.getOptionValueSource(attribute) === "cli"
+  const setting = (key: ConfigKey) => {
+    try {
+      return resolveSetting(key, config)
+    } catch (error) {
+      throw error instanceof ConfigError ? new UsageError(error.message) : error
+    }
+  }
+
+  for (const key of CONFIG_KEY_NAMES) {
+    if (key.startsWith("tui.") || key === "backend" || key === "dbPath" || key === "store") {
+      continue
+    }
+    const resolved = setting(key)
+    if (resolved && !fromCli(optionAttribute(key))) {
+      program.setOptionValueWithSource(optionAttribute(key), resolved.value, resolved.source)
+    }
+  }
+
+  if (STORAGE_FLAGS.some(fromCli)) {
+    return
+  }
+  const store = setting("store")
+  if (store) {
+    program.setOptionValueWithSource("store", store.value, store.source)
+    return
+  }
+  const backend = setting("backend")
+  if (backend?.value === "sqlite") {
+    program.setOptionValueWithSource("experimentalSqlite", true, backend.source)
+  } else if (backend?.value === "merged") {
+    program.setOptionValueWithSource("merged", true, backend.source)
+  }
+  // A configured database only applies to the backends that read one
+  const dbPath = setting("dbPath")
+  if (dbPath && backend && backend.value !== "jsonl") {
+    program.setOptionValueWithSource("db", dbPath.value, dbPath.source)
+  }
+}
+
 /**
  * Parse global options from Commander's parsed options object.
  * Resolves paths and converts types as needed.
  */
 export function parseGlobalOptions(opts: Record<string, unknown>): GlobalOptions {
-  // --db implies --experimental-sqlite
+  // --store replaces the backend flags, --root and --db with the registry entry
+  const store = opts.store ? String(opts.store) : undefined
+  if (store) {
+    opts = { ...opts, ...storeOptions(store, opts) }
+  }
+  // --db implies --experimental-sqlite (unless --merged reads both stores)
   const dbPath = opts.db ? resolve(String(opts.db)) : undefined
-  const experimentalSqlite = Boolean(opts.experimentalSqlite) || dbPath !== undefined
+  const merged = Boolean(opts.merged ?? DEFAULT_OPTIONS.merged)
+  const experimentalSqlite = !merged && (Boolean(opts.experimentalSqlite) || dbPath !== undefined)
+  // --backup-encrypt implies --backup-archive
+  const backupEncrypt = Boolean(opts.backupEncrypt ?? DEFAULT_OPTIONS.backupEncrypt)
 
   return {
     root: resolve(String(opts.root ?? DEFAULT_OPTIONS.root)),
@@ -178,10 +378,39 @@ export function parseGlobalOptions(opts: Record<string, unknown>): GlobalOptions
     quiet: Boolean(opts.quiet ?? DEFAULT_OPTIONS.quiet),
     clipboard: Boolean(opts.clipboard ?? DEFAULT_OPTIONS.clipboard),
     backupDir: opts.backupDir ? resolve(String(opts.backupDir)) : undefined,
+    backupArchive: Boolean(opts.backupArchive ?? DEFAULT_OPTIONS.backupArchive) || backupEncrypt,
+    backupEncrypt,
     experimentalSqlite,
     dbPath,
+    merged,
     sqliteStrict: Boolean(opts.sqliteStrict ?? DEFAULT_OPTIONS.sqliteStrict),
+    jsonlStrict: Boolean(opts.jsonlStrict ?? DEFAULT_OPTIONS.jsonlStrict),
     forceWrite: Boolean(opts.forceWrite ?? DEFAULT_OPTIONS.forceWrite),
+    cache: Boolean(opts.cache ?? DEFAULT_OPTIONS.cache),
+    concurrency: validateConcurrency(String(opts.concurrency ?? DEFAULT_OPTIONS.concurrency)),
+    snapshot: Boolean(opts.snapshot ?? DEFAULT_OPTIONS.snapshot),
+    store,
+  }
+}
+
+/**
+ * Commander-style options for a named store. Strictness adds to
+ * --sqlite-strict/--jsonl-strict rather than replacing them.
+ */
+function storeOptions(name: string, opts: Record<string, unknown>): Record<string, unknown> {
+  let store
+  try {
+    store = resolveStore(name)
+  } catch (error) {
+    throw error instanceof ConfigError ? new UsageError(error.message) : error
+  }
+  return {
+    root: store.root,
+    db: store.backend === "jsonl" ? undefined : store.dbPath,
+    experimentalSqlite: store.backend === "sqlite",
+    merged: store.backend === "merged",
+    sqliteStrict: Boolean(opts.sqliteStrict) || store.strict,
+    jsonlStrict: Boolean(opts.jsonlStrict) || store.strict,
   }
 }
 
@@ -199,6 +428,14 @@ function validateSort(sort: string): GlobalOptions["sort"] {
   return DEFAULT_OPTIONS.sort
 }
 
+function validateConcurrency(concurrency: string): number {
+  const parsed = Number(concurrency)
+  if (Number.isInteger(parsed) && parsed >= 1) {
+    return parsed
+  }
+  return DEFAULT_OPTIONS.concurrency
+}
+
 /**
  * Run the CLI with the given arguments.
  * This is the main entry point called from opencode-manager.ts.
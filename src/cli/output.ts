@@ -13,10 +13,24 @@ import type {
   AggregateTokenSummary,
   ChatMessage,
   ChatSearchResult,
+  DoctorReport,
+  GroupedTokenSummary,
+  OrphanRecord,
   ProjectRecord,
   SessionRecord,
   TokenSummary,
+  TokenTimeline,
 } from "../lib/opencode-data"
+import type { BudgetReport } from "../lib/budgets"
+import type { ConfigSetting, NamedStore } from "../lib/config"
+import type { IndexCacheStats } from "../lib/opencode-data-cache"
+import type { StoreDiffReport } from "../lib/opencode-data-diff"
+import type { SessionTreeRow } from "../lib/opencode-data-tree"
+import type { MigrationResult } from "../lib/opencode-data-migrate"
+import type { TrashEntry } from "../lib/opencode-data-trash"
+import type { BackupEntry, BackupRestoreResult } from "./backup"
+import { countDoctorIssues } from "../lib/opencode-data"
+import { countStoreDifferences } from "../lib/opencode-data-diff"
 
 // Import formatters
 import {
@@ -34,11 +48,26 @@ import {
 import { formatNdjson, printNdjson } from "./formatters/ndjson"
 import {
   formatAggregateTokenSummary,
+  formatBackupListTable,
+  formatBackupRestoreTable,
+  formatBudgetReport,
+  formatCacheStatsTable,
   formatChatSearchTable,
   formatChatTable,
+  formatConfigSettingsTable,
+  formatDoctorTable,
+  formatGroupedTokenSummary,
+  formatMigrationTable,
+  formatOrphansTable,
   formatProjectsTable,
+  formatSessionTreeTable,
   formatSessionsTable,
+  formatStoreDiffTable,
+  formatStoreListTable,
   formatTokenSummary,
+  formatTokenTimeline,
+  formatTrashTable,
+  migrationResultToRows,
   printAggregateTokenSummary,
   printChatSearchTable,
   printChatTable,
@@ -248,6 +277,43 @@ export function printSessionsOutput(
   console.log(formatSessionsOutput(sessions, options))
 }
 
+/**
+ * Format a session tree (depth-first rows) for output.
+ */
+export function formatSessionTreeOutput(
+  rows: SessionTreeRow[],
+  options: OutputOptions
+): string {
+  switch (options.format) {
+    case "json":
+      return formatJsonArraySuccess(rows, options.meta, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(rows)
+    case "table":
+      return formatSessionTreeTable(rows)
+    default:
+      const _exhaustive: never = options.format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print a session tree to stdout.
+ */
+export function printSessionTreeOutput(
+  rows: SessionTreeRow[],
+  options: OutputOptions
+): void {
+  if (options.quiet && options.format === "table") {
+    const roots = rows.filter((row) => row.depth === 0).length
+    console.log(`${rows.length} session(s) in ${roots} tree(s)`)
+    return
+  }
+  console.log(formatSessionTreeOutput(rows, options))
+}
+
 // ========================
 // Chat Output
 // ========================
@@ -448,6 +514,475 @@ export function printAggregateTokensOutput(
   console.log(formatAggregateTokensOutput(summary, format, label))
 }
 
+/**
+ * Format grouped token summary for output. NDJSON emits one line per group.
+ */
+export function formatGroupedTokensOutput(
+  summary: GroupedTokenSummary,
+  format: OutputFormat,
+  label?: string
+): string {
+  switch (format) {
+    case "json":
+      return formatJsonSuccess(summary, undefined, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(summary.groups.map((group) => ({ by: summary.by, ...group })))
+    case "table":
+      return formatGroupedTokenSummary(summary, { label })
+    default:
+      const _exhaustive: never = format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print grouped token summary to stdout.
+ */
+export function printGroupedTokensOutput(
+  summary: GroupedTokenSummary,
+  format: OutputFormat,
+  label?: string
+): void {
+  console.log(formatGroupedTokensOutput(summary, format, label))
+}
+
+/**
+ * Format a token timeline for output. NDJSON emits one line per period.
+ */
+export function formatTokenTimelineOutput(
+  timeline: TokenTimeline,
+  format: OutputFormat,
+  label?: string
+): string {
+  switch (format) {
+    case "json":
+      return formatJsonSuccess(timeline, undefined, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(timeline.rows.map((row) => ({ bucket: timeline.bucket, ...row })))
+    case "table":
+      return formatTokenTimeline(timeline, { label })
+    default:
+      const _exhaustive: never = format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print a token timeline to stdout.
+ */
+export function printTokenTimelineOutput(
+  timeline: TokenTimeline,
+  format: OutputFormat,
+  label?: string
+): void {
+  console.log(formatTokenTimelineOutput(timeline, format, label))
+}
+
+/**
+ * Format a budget report for output. NDJSON emits one line per budget target.
+ */
+export function formatBudgetReportOutput(report: BudgetReport, format: OutputFormat): string {
+  switch (format) {
+    case "json":
+      return formatJsonSuccess(report, undefined, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(report.statuses)
+    case "table":
+      return formatBudgetReport(report)
+    default:
+      const _exhaustive: never = format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print a budget report to stdout.
+ */
+export function printBudgetReportOutput(report: BudgetReport, format: OutputFormat): void {
+  console.log(formatBudgetReportOutput(report, format))
+}
+
+// ========================
+// Orphans Output
+// ========================
+
+/**
+ * Format orphans list for output.
+ */
+export function formatOrphansOutput(
+  orphans: OrphanRecord[],
+  options: OutputOptions
+): string {
+  switch (options.format) {
+    case "json":
+      return formatJsonArraySuccess(orphans, options.meta, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(orphans)
+    case "table":
+      return formatOrphansTable(orphans.map((orphan, i) => ({ ...orphan, index: i + 1 })))
+    default:
+      const _exhaustive: never = options.format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print orphans list to stdout.
+ */
+export function printOrphansOutput(
+  orphans: OrphanRecord[],
+  options: OutputOptions
+): void {
+  if (options.quiet && options.format === "table") {
+    console.log(`${orphans.length} orphan(s)`)
+    return
+  }
+  console.log(formatOrphansOutput(orphans, options))
+}
+
+// ========================
+// Trash Output
+// ========================
+
+/**
+ * Format trash entries for output.
+ */
+export function formatTrashOutput(
+  entries: TrashEntry[],
+  options: OutputOptions
+): string {
+  switch (options.format) {
+    case "json":
+      return formatJsonArraySuccess(entries, options.meta, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(entries)
+    case "table":
+      return formatTrashTable(entries.map((entry, i) => ({ ...entry, index: i + 1 })))
+    default:
+      const _exhaustive: never = options.format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print trash entries to stdout.
+ */
+export function printTrashOutput(
+  entries: TrashEntry[],
+  options: OutputOptions
+): void {
+  if (options.quiet && options.format === "table") {
+    console.log(`${entries.length} trash entr${entries.length === 1 ? "y" : "ies"}`)
+    return
+  }
+  console.log(formatTrashOutput(entries, options))
+}
+
+// ========================
+// Backup Output
+// ========================
+
+/**
+ * Format a backup list for output.
+ */
+export function formatBackupListOutput(
+  entries: BackupEntry[],
+  options: OutputOptions
+): string {
+  switch (options.format) {
+    case "json":
+      return formatJsonArraySuccess(entries, options.meta, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(entries)
+    case "table":
+      return formatBackupListTable(entries.map((entry, i) => ({ ...entry, index: i + 1 })))
+    default:
+      const _exhaustive: never = options.format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print a backup list to stdout.
+ */
+export function printBackupListOutput(
+  entries: BackupEntry[],
+  options: OutputOptions
+): void {
+  if (options.quiet && options.format === "table") {
+    console.log(`${entries.length} backup(s)`)
+    return
+  }
+  console.log(formatBackupListOutput(entries, options))
+}
+
+/**
+ * Format a backup restore result for output.
+ * NDJSON emits one line per item.
+ */
+export function formatBackupRestoreOutput(
+  result: BackupRestoreResult,
+  format: OutputFormat
+): string {
+  switch (format) {
+    case "json":
+      return formatJsonSuccess(result, undefined, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(result.items)
+    case "table":
+      return formatBackupRestoreTable(result)
+    default:
+      const _exhaustive: never = format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print a backup restore result to stdout.
+ */
+export function printBackupRestoreOutput(
+  result: BackupRestoreResult,
+  format: OutputFormat
+): void {
+  console.log(formatBackupRestoreOutput(result, format))
+}
+
+// ========================
+// Migration Output
+// ========================
+
+/**
+ * Format a store migration result for output.
+ * NDJSON emits one line per table.
+ */
+export function formatMigrationOutput(
+  result: MigrationResult,
+  format: OutputFormat
+): string {
+  switch (format) {
+    case "json":
+      return formatJsonSuccess(result, undefined, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(migrationResultToRows(result))
+    case "table":
+      return formatMigrationTable(result)
+    default:
+      const _exhaustive: never = format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print a store migration result to stdout.
+ */
+export function printMigrationOutput(
+  result: MigrationResult,
+  format: OutputFormat
+): void {
+  console.log(formatMigrationOutput(result, format))
+}
+
+// ========================
+// Doctor Output
+// ========================
+
+/**
+ * Format a doctor report for output.
+ * JSON adds error/warning counts; NDJSON emits one line per issue.
+ */
+export function formatDoctorOutput(
+  report: DoctorReport,
+  format: OutputFormat
+): string {
+  switch (format) {
+    case "json":
+      return formatJsonSuccess({ ...report, ...countDoctorIssues(report.issues) }, undefined, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(report.issues)
+    case "table":
+      return formatDoctorTable(report)
+    default:
+      const _exhaustive: never = format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print a doctor report to stdout.
+ */
+export function printDoctorOutput(
+  report: DoctorReport,
+  format: OutputFormat
+): void {
+  console.log(formatDoctorOutput(report, format))
+}
+
+// ========================
+// Store Diff Output
+// ========================
+
+/**
+ * Format a store diff report for output.
+ * JSON adds per-table difference counts; NDJSON emits one line per difference.
+ */
+export function formatStoreDiffOutput(
+  report: StoreDiffReport,
+  format: OutputFormat
+): string {
+  switch (format) {
+    case "json":
+      return formatJsonSuccess({ ...report, byTable: countStoreDifferences(report.differences) }, undefined, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(report.differences)
+    case "table":
+      return formatStoreDiffTable(report)
+    default:
+      const _exhaustive: never = format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print a store diff report to stdout.
+ */
+export function printStoreDiffOutput(
+  report: StoreDiffReport,
+  format: OutputFormat
+): void {
+  console.log(formatStoreDiffOutput(report, format))
+}
+
+// ========================
+// Cache Stats Output
+// ========================
+
+/**
+ * Format index cache stats for output.
+ * NDJSON emits one line per store.
+ */
+export function formatCacheStatsOutput(
+  stats: IndexCacheStats,
+  format: OutputFormat
+): string {
+  switch (format) {
+    case "json":
+      return formatJsonSuccess(stats, undefined, { pretty: process.stdout.isTTY })
+    case "ndjson":
+      return formatNdjson(stats.stores)
+    case "table":
+      return formatCacheStatsTable(stats)
+    default:
+      const _exhaustive: never = format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print index cache stats to stdout.
+ */
+export function printCacheStatsOutput(
+  stats: IndexCacheStats,
+  format: OutputFormat
+): void {
+  console.log(formatCacheStatsOutput(stats, format))
+}
+
+// ========================
+// Config Output
+// ========================
+
+/**
+ * Format config settings for output.
+ */
+export function formatConfigSettingsOutput(
+  settings: ConfigSetting[],
+  options: OutputOptions
+): string {
+  switch (options.format) {
+    case "json":
+      return formatJsonArraySuccess(settings, options.meta, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(settings)
+    case "table":
+      return formatConfigSettingsTable(settings)
+    default:
+      const _exhaustive: never = options.format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print config settings to stdout.
+ */
+export function printConfigSettingsOutput(
+  settings: ConfigSetting[],
+  options: OutputOptions
+): void {
+  console.log(formatConfigSettingsOutput(settings, options))
+}
+
+// ========================
+// Store Registry Output
+// ========================
+
+/**
+ * Format the store registry for output.
+ */
+export function formatStoreListOutput(
+  stores: NamedStore[],
+  options: OutputOptions
+): string {
+  switch (options.format) {
+    case "json":
+      return formatJsonArraySuccess(stores, options.meta, {
+        pretty: process.stdout.isTTY,
+      })
+    case "ndjson":
+      return formatNdjson(stores)
+    case "table":
+      return formatStoreListTable(stores)
+    default:
+      const _exhaustive: never = options.format
+      throw new Error(`Unknown format: ${_exhaustive}`)
+  }
+}
+
+/**
+ * Print the store registry to stdout.
+ */
+export function printStoreListOutput(
+  stores: NamedStore[],
+  options: OutputOptions
+): void {
+  if (options.quiet && options.format === "table") {
+    console.log(`${stores.length} store(s)`)
+    return
+  }
+  console.log(formatStoreListOutput(stores, options))
+}
+
 // ========================
 // Error Output
 // ========================
@@ -535,8 +1070,8 @@ export interface DryRunResult {
   paths: string[]
   /** Operation that would be performed */
   operation: "delete" | "backup" | "move" | "copy"
-  /** Resource type (project, session) */
-  resourceType: "project" | "session"
+  /** Resource type (project, session, orphan, trash entry) */
+  resourceType: "project" | "session" | "orphan" | "trash entry"
   /** Count of items affected */
   count: number
 }
@@ -608,18 +1143,21 @@ export function printDryRunOutput(
  * @param paths - List of file paths
  * @param operation - The operation being performed
  * @param resourceType - The type of resource
+ * @param count - Number of resources affected (defaults to paths.length,
+ *   override when one resource spans several files)
  * @returns DryRunResult object
  */
 export function createDryRunResult(
   paths: string[],
   operation: DryRunResult["operation"],
-  resourceType: DryRunResult["resourceType"]
+  resourceType: DryRunResult["resourceType"],
+  count: number = paths.length
 ): DryRunResult {
   return {
     paths,
     operation,
     resourceType,
-    count: paths.length,
+    count,
   }
 }
 
@@ -645,17 +1183,34 @@ export { formatNdjson, printNdjson } from "./formatters/ndjson"
 
 export {
   formatAggregateTokenSummary,
+  formatBackupListTable,
+  formatBackupRestoreTable,
+  formatBudgetReport,
+  formatCacheStatsTable,
   formatChatSearchTable,
   formatChatTable,
+  formatConfigSettingsTable,
+  formatDoctorTable,
+  formatGroupedTokenSummary,
+  formatMigrationTable,
+  formatOrphansTable,
   formatProjectsTable,
+  formatSessionTreeTable,
   formatSessionsTable,
+  formatStoreDiffTable,
+  formatStoreListTable,
   formatTokenSummary,
+  formatTokenTimeline,
+  formatTrashTable,
   printAggregateTokenSummary,
   printChatSearchTable,
   printChatTable,
   printProjectsTable,
   printSessionsTable,
   printTokenSummary,
+  type IndexedBackupEntry,
   type IndexedChatSearchResult,
+  type IndexedOrphanRecord,
+  type IndexedTrashEntry,
   type TableFormatOptions,
 } from "./formatters/table"
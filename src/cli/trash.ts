@@ -0,0 +1,52 @@
+/**
+ * CLI trash utilities module.
+ *
+ * Provides helpers shared by the delete commands (which move data into the
+ * trash by default) and the trash subcommands.
+ */
+
+import type { TrashContext } from "../lib/opencode-data-trash"
+import { UsageError } from "./errors"
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Build the trash context for a CLI delete, recording the invoked command.
+ */
+export function createTrashContext(argv: string[] = process.argv.slice(2)): TrashContext {
+  return { command: ["opencode-manager", ...argv].join(" ") }
+}
+
+/**
+ * Append a restore hint to a delete success message when data went to the trash.
+ *
+ * @example
+ * formatDeletedMessage("Deleted session: abc", "20260101-120000-a1b2c3")
+ * // "Deleted session: abc (moved to trash 20260101-120000-a1b2c3; restore with: opencode-manager trash restore 20260101-120000-a1b2c3)"
+ */
+export function formatDeletedMessage(message: string, trashId?: string): string {
+  if (!trashId) {
+    return message
+  }
+  return `${message} (moved to trash ${trashId}; restore with: opencode-manager trash restore ${trashId})`
+}
+
+/**
+ * Parse a duration such as "30m", "12h", "7d" or "2w" into milliseconds.
+ *
+ * @throws UsageError if the duration is malformed
+ */
+export function parseDuration(value: string, flag: string): number {
+  const match = /^(\d+)([mhdw])$/.exec(value.trim())
+  if (!match) {
+    throw new UsageError(
+      `Invalid ${flag} "${value}". Use a number followed by m, h, d or w (e.g. 7d).`
+    )
+  }
+  return Number(match[1]) * DURATION_UNITS_MS[match[2]]
+}
@@ -0,0 +1,193 @@
+/**
+ * Usage budgets.
+ *
+ * A budget from the config file caps the tokens and/or cost (USD) used in the
+ * current day, week or month (UTC periods, as in `tokens timeline`) by a whole
+ * store, one project, or each project on its own (`"project": "*"`):
+ *
+ * ```json
+ * {
+ *   "team-weekly": { "period": "week", "tokens": 5000000, "project": "*" },
+ *   "monthly-spend": { "period": "month", "cost": 200 },
+ *   "work-store": { "period": "month", "tokens": 100000000, "store": "work" }
+ * }
+ * ```
+ *
+ * A budget with `store` is checked against that registered store; without
+ * one, it applies to whichever store is being checked.
+ */
+import { nextTimelineBucket, timelineBucketLabel, timelineBucketStart, type SessionRecord, type TimelineBucket } from "./opencode-data"
+import type { DataProvider } from "./opencode-data-provider"
+
+// ========================
+// Types
+// ========================
+
+export interface Budget {
+  period: TimelineBucket
+  /** Maximum tokens per period */
+  tokens?: number
+  /** Maximum cost per period in USD (recorded plus estimated) */
+  cost?: number
+  /** Project ID, or "*" for a separate budget per project; unset for the whole store */
+  project?: string
+  /** Registered store the budget belongs to */
+  store?: string
+}
+
+/** Budgets keyed by name */
+export type BudgetTable = Record<string, Budget>
+
+/**
+ * Usage of one budget target (a store or a project) in the current period.
+ */
+export interface BudgetStatus {
+  budget: string
+  period: TimelineBucket
+  /** `2024-01-31`, `2024-W05` or `2024-01` */
+  periodLabel: string
+  start: Date
+  end: Date
+  store: string | null
+  /** null for a whole-store budget */
+  project: string | null
+  tokens: number
+  cost: number
+  tokenLimit: number | null
+  costLimit: number | null
+  /** Largest share of a limit used; above 1 when exceeded */
+  used: number
+  exceeded: boolean
+}
+
+export interface BudgetReport {
+  /** Time whose periods were checked */
+  at: Date
+  statuses: BudgetStatus[]
+  /** Number of statuses over a limit */
+  exceeded: number
+}
+
+// ========================
+// Constants
+// ========================
+
+export const BUDGET_FIELDS: readonly (keyof Budget)[] = ["period", "tokens", "cost", "project", "store"]
+
+/** `project` value that gives every project its own budget */
+export const EACH_PROJECT = "*"
+
+// ========================
+// Evaluation
+// ========================
+
+/**
+ * Budgets that apply to a store: those without `store` and those naming it.
+ * `storeName` is null for a store given by path rather than by name.
+ */
+export function budgetsForStore(budgets: BudgetTable, storeName: string | null): BudgetTable {
+  return Object.fromEntries(
+    Object.entries(budgets).filter(([, budget]) => budget.store === undefined || budget.store === storeName)
+  )
+}
+
+/**
+ * Sessions of each budget target, keyed by project ID (null for the store).
+ */
+function budgetTargets(budget: Budget, sessions: readonly SessionRecord[]): Map<string | null, SessionRecord[]> {
+  if (budget.project === undefined) {
+    return new Map([[null, [...sessions]]])
+  }
+  if (budget.project !== EACH_PROJECT) {
+    return new Map([[budget.project, sessions.filter((session) => session.projectId === budget.project)]])
+  }
+  const targets = new Map<string | null, SessionRecord[]>()
+  for (const session of [...sessions].sort((a, b) => a.projectId.localeCompare(b.projectId))) {
+    const group = targets.get(session.projectId) ?? []
+    group.push(session)
+    targets.set(session.projectId, group)
+  }
+  return targets
+}
+
+/**
+ * Sessions that can have usage at or after `start`. A session last updated
+ * before the period began has no messages in it, so its messages need not
+ * be read.
+ */
+function sessionsActiveSince(sessions: readonly SessionRecord[], start: Date): SessionRecord[] {
+  return sessions.filter((session) => {
+    const lastActive = session.updatedAt ?? session.createdAt
+    return !lastActive || lastActive.getTime() >= start.getTime()
+  })
+}
+
+/**
+ * Check one budget against the period that contains `at`. Returns a status
+ * per target: one for a store or project budget, one per project with
+ * sessions for `"project": "*"`.
+ */
+export async function evaluateBudget(
+  name: string,
+  budget: Budget,
+  provider: DataProvider,
+  sessions: readonly SessionRecord[],
+  at: Date = new Date()
+): Promise<BudgetStatus[]> {
+  const start = timelineBucketStart(at, budget.period)
+  const end = nextTimelineBucket(start, budget.period)
+  const statuses: BudgetStatus[] = []
+  for (const [project, targetSessions] of budgetTargets(budget, sessions)) {
+    const activeSessions = sessionsActiveSince(targetSessions, start)
+    const timeline = activeSessions.length > 0
+      ? await provider.computeTokenTimeline(activeSessions, { bucket: budget.period, since: start, until: end })
+      : null
+    const tokens = timeline?.total.total ?? 0
+    const cost = timeline?.cost.total ?? 0
+    const shares = [
+      ...(budget.tokens !== undefined ? [tokens / budget.tokens] : []),
+      ...(budget.cost !== undefined ? [cost / budget.cost] : []),
+    ]
+    const used = Math.max(0, ...shares)
+    statuses.push({
+      budget: name,
+      period: budget.period,
+      periodLabel: timelineBucketLabel(start, budget.period),
+      start,
+      end,
+      store: budget.store ?? null,
+      project,
+      tokens,
+      cost,
+      tokenLimit: budget.tokens ?? null,
+      costLimit: budget.cost ?? null,
+      used,
+      exceeded: used > 1,
+    })
+  }
+  return statuses
+}
+
+/**
+ * Check every budget against the period that contains `at`. `providerFor`
+ * returns the store a budget is checked against; each store's sessions are
+ * loaded once, and only sessions updated during a period are read for it.
+ */
+export async function checkBudgets(
+  budgets: BudgetTable,
+  providerFor: (budget: Budget) => DataProvider,
+  at: Date = new Date()
+): Promise<BudgetReport> {
+  const sessionsByProvider = new Map<DataProvider, SessionRecord[]>()
+  const statuses: BudgetStatus[] = []
+  for (const [name, budget] of Object.entries(budgets)) {
+    const provider = providerFor(budget)
+    let sessions = sessionsByProvider.get(provider)
+    if (!sessions) {
+      sessions = await provider.loadSessionRecords()
+      sessionsByProvider.set(provider, sessions)
+    }
+    statuses.push(...(await evaluateBudget(name, budget, provider, sessions, at)))
+  }
+  return { at, statuses, exceeded: statuses.filter((status) => status.exceeded).length }
+}
@@ -0,0 +1,599 @@
+/**
+ * User configuration file.
+ *
+ * Read from `$XDG_CONFIG_HOME/opencode-manager/config.json` (or
+ * `~/.config/opencode-manager/config.json`). It holds:
+ * - `defaults`: default values for the CLI global options
+ * - `tui`: TUI preferences
+ * - `stores`: named stores, each with a backend, a location and strictness,
+ *   that `--store <name>` and the TUI store picker switch between
+ * - `pricing`: model prices (USD per million tokens) used to estimate the cost
+ *   of messages without a recorded cost (see ./pricing)
+ * - `budgets`: token and cost limits per day, week or month for a store or
+ *   its projects, checked by `tokens check` (see ./budgets)
+ *
+ * ```json
+ * {
+ *   "defaults": { "format": "json", "backupDir": "~/opencode-backups" },
+ *   "tui": { "showHelp": false },
+ *   "stores": {
+ *     "work": { "backend": "sqlite", "db": "~/work/opencode.db", "strict": true },
+ *     "laptop": { "backend": "jsonl", "root": "/mnt/laptop/opencode" }
+ *   },
+ *   "pricing": {
+ *     "anthropic/claude-sonnet-4": { "input": 3, "output": 15, "cacheRead": 0.3 }
+ *   },
+ *   "budgets": {
+ *     "monthly-spend": { "period": "month", "cost": 200 }
+ *   }
+ * }
+ * ```
+ *
+ * Settings are addressed by key (`format`, `tui.showHelp`). Each key can also
+ * be set with an `OPENCODE_MANAGER_*` environment variable, which takes
+ * precedence over the file. A missing file is an empty configuration.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { homedir } from "node:os"
+import { dirname, join, resolve } from "node:path"
+import { BUDGET_FIELDS, type Budget, type BudgetTable } from "./budgets"
+import { DEFAULT_ROOT, TIMELINE_BUCKETS, type TimelineBucket } from "./opencode-data"
+import { DEFAULT_SQLITE_PATH } from "./opencode-data-sqlite"
+import type { StorageBackend } from "./opencode-data-provider"
+import { PRICE_FIELDS, type ModelPrice, type PricingTable } from "./pricing"
+
+// ========================
+// Types
+// ========================
+
+/**
+ * A store registry entry as written in the config file.
+ */
+export interface StoreConfig {
+  backend: StorageBackend
+  /** JSONL store root (jsonl and merged). Defaults to DEFAULT_ROOT. */
+  root?: string
+  /** SQLite database path (sqlite and merged). Defaults to DEFAULT_SQLITE_PATH. */
+  db?: string
+  /** Fail on malformed data instead of skipping it with a warning */
+  strict?: boolean
+}
+
+export type ConfigValue = string | number | boolean
+
+/**
+ * How a setting's value is written and validated: free text, a path
+ * (`~` expanded, relative paths resolved), true/false, a positive integer,
+ * or one of a fixed set of words.
+ */
+type ConfigValueKind = "string" | "path" | "boolean" | "count" | readonly string[]
+
+interface ConfigKeyDefinition {
+  kind: ConfigValueKind
+  description: string
+}
+
+/**
+ * Every setting the config file accepts. Keys without a `tui.` prefix are
+ * defaults for the CLI global option of the same name (`dbPath` is `--db`,
+ * `backend` chooses between JSONL, `--experimental-sqlite` and `--merged`).
+ */
+export const CONFIG_KEYS = {
+  root: { kind: "path", description: "Root path to the OpenCode metadata store" },
+  format: { kind: ["json", "ndjson", "table"], description: "Output format" },
+  limit: { kind: "count", description: "Maximum number of records to return" },
+  sort: { kind: ["updated", "created"], description: "Sort order for list commands" },
+  yes: { kind: "boolean", description: "Skip confirmation prompts" },
+  dryRun: { kind: "boolean", description: "Show planned changes without executing" },
+  quiet: { kind: "boolean", description: "Suppress non-essential output" },
+  clipboard: { kind: "boolean", description: "Copy output to clipboard" },
+  backupDir: { kind: "path", description: "Directory for backup copies before deletion" },
+  backupArchive: { kind: "boolean", description: "Write backups as a single .tar.gz file" },
+  backupEncrypt: { kind: "boolean", description: "Encrypt backup archives" },
+  backend: { kind: ["jsonl", "sqlite", "merged"], description: "Storage backend" },
+  dbPath: { kind: "path", description: "Path to the SQLite database" },
+  sqliteStrict: { kind: "boolean", description: "Fail on any SQLite warning or malformed data" },
+  jsonlStrict: { kind: "boolean", description: "Fail on malformed JSONL files" },
+  forceWrite: { kind: "boolean", description: "Wait for SQLite write locks to clear" },
+  cache: { kind: "boolean", description: "Use the persistent index cache" },
+  concurrency: { kind: "count", description: "Maximum number of JSONL files read in parallel" },
+  snapshot: { kind: "boolean", description: "Read SQLite data from a temporary copy" },
+  store: { kind: "string", description: "Named store to use" },
+  "tui.showHelp": { kind: "boolean", description: "Show the help screen when the TUI starts" },
+  "tui.tab": { kind: ["projects", "sessions"], description: "Tab the TUI starts on" },
+  "tui.sessionSort": { kind: ["updated", "created"], description: "Initial sort order of the TUI sessions list" },
+} as const satisfies Record<string, ConfigKeyDefinition>
+
+export type ConfigKey = keyof typeof CONFIG_KEYS
+
+export const CONFIG_KEY_NAMES = Object.keys(CONFIG_KEYS) as ConfigKey[]
+
+export interface UserConfig {
+  /** Settings from the `defaults` and `tui` sections, by key */
+  settings: Partial<Record<ConfigKey, ConfigValue>>
+  stores: Record<string, StoreConfig>
+  pricing: PricingTable
+  budgets: BudgetTable
+}
+
+export interface TuiPreferences {
+  showHelp: boolean
+  tab: "projects" | "sessions"
+  sessionSort: "updated" | "created"
+}
+
+export const DEFAULT_TUI_PREFERENCES: TuiPreferences = {
+  showHelp: true,
+  tab: "projects",
+  sessionSort: "updated",
+}
+
+/**
+ * Where a setting's effective value came from.
+ */
+export type ConfigSource = "env" | "config"
+
+export interface ResolvedSetting {
+  value: ConfigValue
+  source: ConfigSource
+}
+
+/**
+ * A setting's effective value, as shown by `config get` and `config list`.
+ */
+export interface ConfigSetting {
+  key: ConfigKey
+  /** null when nothing sets it and there is no built-in default */
+  value: ConfigValue | null
+  source: ConfigSource | "default"
+  /** Environment variable that overrides the config file */
+  envVar: string
+}
+
+/**
+ * A registry entry with defaults applied and paths resolved.
+ */
+export interface NamedStore {
+  name: string
+  backend: StorageBackend
+  root: string
+  dbPath: string
+  strict: boolean
+}
+
+/**
+ * The config file is unreadable or invalid, or names an unknown store.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ConfigError"
+  }
+}
+
+// ========================
+// Constants
+// ========================
+
+export const DEFAULT_CONFIG_PATH = resolve(
+  process.env.XDG_CONFIG_HOME || join(homedir(), ".config"),
+  "opencode-manager",
+  "config.json"
+)
+
+const STORE_BACKENDS: readonly StorageBackend[] = ["jsonl", "sqlite", "merged"]
+
+const ENV_PREFIX = "OPENCODE_MANAGER_"
+
+// ========================
+// Loading
+// ========================
+
+/**
+ * Expand `~` and resolve relative paths against `baseDir` (the config file's
+ * directory for values read from the file).
+ */
+function expandConfigPath(rawPath: string, baseDir: string): string {
+  if (rawPath === "~" || rawPath.startsWith("~/")) {
+    return join(homedir(), rawPath.slice(1))
+  }
+  return resolve(baseDir, rawPath)
+}
+
+function parseStoreConfig(name: string, value: unknown, configPath: string): StoreConfig {
+  const fail = (reason: string) => new ConfigError(`Invalid store "${name}" in ${configPath}: ${reason}`)
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw fail("expected an object")
+  }
+  const entry = value as Record<string, unknown>
+  if (!STORE_BACKENDS.includes(entry.backend as StorageBackend)) {
+    throw fail(`backend must be one of ${STORE_BACKENDS.join(", ")}`)
+  }
+  for (const key of ["root", "db"] as const) {
+    if (entry[key] !== undefined && typeof entry[key] !== "string") {
+      throw fail(`${key} must be a string`)
+    }
+  }
+  if (entry.strict !== undefined && typeof entry.strict !== "boolean") {
+    throw fail("strict must be true or false")
+  }
+  return {
+    backend: entry.backend as StorageBackend,
+    root: entry.root === undefined ? undefined : expandConfigPath(entry.root as string, dirname(configPath)),
+    db: entry.db === undefined ? undefined : expandConfigPath(entry.db as string, dirname(configPath)),
+    strict: entry.strict as boolean | undefined,
+  }
+}
+
+function parseModelPrice(model: string, value: unknown, configPath: string): ModelPrice {
+  const fail = (reason: string) => new ConfigError(`Invalid price for "${model}" in ${configPath}: ${reason}`)
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw fail("expected an object")
+  }
+  const entry = value as Record<string, unknown>
+  for (const [field, amount] of Object.entries(entry)) {
+    if (!PRICE_FIELDS.includes(field as keyof ModelPrice)) {
+      throw fail(`unknown field "${field}" (expected ${PRICE_FIELDS.join(", ")})`)
+    }
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount < 0) {
+      throw fail(`${field} must be a non-negative number (USD per million tokens)`)
+    }
+  }
+  for (const field of ["input", "output"] as const) {
+    if (entry[field] === undefined) {
+      throw fail(`${field} is required`)
+    }
+  }
+  return entry as unknown as ModelPrice
+}
+
+function parseBudget(name: string, value: unknown, configPath: string, stores: Record<string, StoreConfig>): Budget {
+  const fail = (reason: string) => new ConfigError(`Invalid budget "${name}" in ${configPath}: ${reason}`)
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw fail("expected an object")
+  }
+  const entry = value as Record<string, unknown>
+  for (const field of Object.keys(entry)) {
+    if (!BUDGET_FIELDS.includes(field as keyof Budget)) {
+      throw fail(`unknown field "${field}" (expected ${BUDGET_FIELDS.join(", ")})`)
+    }
+  }
+  if (!TIMELINE_BUCKETS.includes(entry.period as TimelineBucket)) {
+    throw fail(`period must be one of ${TIMELINE_BUCKETS.join(", ")}`)
+  }
+  for (const field of ["tokens", "cost"] as const) {
+    const limit = entry[field]
+    if (limit !== undefined && (typeof limit !== "number" || !Number.isFinite(limit) || limit <= 0)) {
+      throw fail(`${field} must be a positive number`)
+    }
+  }
+  if (entry.tokens === undefined && entry.cost === undefined) {
+    throw fail("set tokens, cost or both")
+  }
+  for (const field of ["project", "store"] as const) {
+    if (entry[field] !== undefined && (typeof entry[field] !== "string" || entry[field].trim() === "")) {
+      throw fail(`${field} must be a non-empty string`)
+    }
+  }
+  if (entry.store !== undefined && !Object.hasOwn(stores, entry.store as string)) {
+    throw fail(`unknown store "${entry.store}"`)
+  }
+  return entry as unknown as Budget
+}
+
+// ========================
+// Settings
+// ========================
+
+/**
+ * Accept a setting key in camelCase (`backupDir`) or flag style (`backup-dir`).
+ *
+ * @throws ConfigError for an unknown key.
+ */
+export function normalizeConfigKey(name: string): ConfigKey {
+  const key = name.replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase())
+  if (!(key in CONFIG_KEYS)) {
+    throw new ConfigError(`Unknown config key "${name}". Known keys: ${CONFIG_KEY_NAMES.join(", ")}`)
+  }
+  return key as ConfigKey
+}
+
+/**
+ * Environment variable that overrides a setting:
+ * `backupDir` is OPENCODE_MANAGER_BACKUP_DIR, `tui.showHelp` is
+ * OPENCODE_MANAGER_TUI_SHOW_HELP.
+ */
+export function configEnvVar(key: ConfigKey): string {
+  return ENV_PREFIX + key.replace(/\./g, "_").replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase()
+}
+
+/**
+ * Describe the values a setting accepts, for help and error messages.
+ */
+export function describeConfigKind(key: ConfigKey): string {
+  const kind: ConfigValueKind = CONFIG_KEYS[key].kind
+  if (typeof kind !== "string") {
+    return kind.join(" | ")
+  }
+  return { string: "text", path: "path", boolean: "true | false", count: "positive integer" }[kind]
+}
+
+/**
+ * Parse a setting from text (an environment variable or `config set`).
+ * Relative paths are resolved against `baseDir`.
+ *
+ * @throws ConfigError if the text is not a valid value for the key.
+ */
+export function parseConfigValue(key: ConfigKey, raw: string, baseDir: string = process.cwd()): ConfigValue {
+  const kind: ConfigValueKind = CONFIG_KEYS[key].kind
+  const text = raw.trim()
+  const invalid = () => new ConfigError(`Invalid value "${raw}" for ${key}: expected ${describeConfigKind(key)}`)
+  switch (kind) {
+    case "string":
+      if (!text) throw invalid()
+      return text
+    case "path":
+      if (!text) throw invalid()
+      return expandConfigPath(text, baseDir)
+    case "boolean": {
+      const lowered = text.toLowerCase()
+      if (["true", "1", "yes", "on"].includes(lowered)) return true
+      if (["false", "0", "no", "off"].includes(lowered)) return false
+      throw invalid()
+    }
+    case "count": {
+      const parsed = Number(text)
+      if (!Number.isInteger(parsed) || parsed < 1) throw invalid()
+      return parsed
+    }
+    default:
+      if (!kind.includes(text)) throw invalid()
+      return text
+  }
+}
+
+/**
+ * Validate a setting as read from the JSON file.
+ */
+function checkConfigValue(key: ConfigKey, value: unknown, configPath: string): ConfigValue {
+  const kind: ConfigValueKind = CONFIG_KEYS[key].kind
+  const matches =
+    kind === "boolean" ? typeof value === "boolean"
+    : kind === "count" ? typeof value === "number" && Number.isInteger(value) && value >= 1
+    : typeof value === "string" && value.trim() !== "" && (typeof kind === "string" || kind.includes(value))
+  if (!matches) {
+    throw new ConfigError(`Invalid value ${JSON.stringify(value)} for ${key} in ${configPath}: expected ${describeConfigKind(key)}`)
+  }
+  return kind === "path" ? expandConfigPath(value as string, dirname(configPath)) : (value as ConfigValue)
+}
+
+/**
+ * Split a key into its file section and field: `format` lives in
+ * `defaults.format`, `tui.showHelp` in `tui.showHelp`.
+ */
+function configLocation(key: ConfigKey): [section: "defaults" | "tui", field: string] {
+  return key.startsWith("tui.") ? ["tui", key.slice(4)] : ["defaults", key]
+}
+
+// ========================
+// Loading
+// ========================
+
+function readConfigObject(configPath: string): Record<string, unknown> {
+  if (!existsSync(configPath)) {
+    return {}
+  }
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(configPath, "utf8"))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new ConfigError(`Failed to read config file ${configPath}: ${message}`)
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ConfigError(`Invalid config file ${configPath}: expected a JSON object`)
+  }
+  return raw as Record<string, unknown>
+}
+
+function readSection(raw: Record<string, unknown>, name: string, configPath: string): Record<string, unknown> {
+  const section = raw[name] ?? {}
+  if (typeof section !== "object" || Array.isArray(section) || section === null) {
+    throw new ConfigError(`Invalid config file ${configPath}: "${name}" must be an object`)
+  }
+  return section as Record<string, unknown>
+}
+
+/**
+ * Read the user config file. Paths in the result are absolute.
+ *
+ * @throws ConfigError if the file exists but is not valid.
+ */
+export function loadUserConfig(path: string = DEFAULT_CONFIG_PATH): UserConfig {
+  const configPath = resolve(path)
+  const raw = readConfigObject(configPath)
+
+  const settings: UserConfig["settings"] = {}
+  for (const sectionName of ["defaults", "tui"] as const) {
+    const prefix = sectionName === "tui" ? "tui." : ""
+    for (const [field, value] of Object.entries(readSection(raw, sectionName, configPath))) {
+      const key = `${prefix}${field}`
+      if (!(key in CONFIG_KEYS) || (sectionName === "defaults" && key.startsWith("tui."))) {
+        throw new ConfigError(`Unknown setting "${field}" in "${sectionName}" of ${configPath}`)
+      }
+      settings[key as ConfigKey] = checkConfigValue(key as ConfigKey, value, configPath)
+    }
+  }
+
+  const stores: Record<string, StoreConfig> = {}
+  for (const [name, value] of Object.entries(readSection(raw, "stores", configPath))) {
+    stores[name] = parseStoreConfig(name, value, configPath)
+  }
+
+  const pricing: PricingTable = {}
+  for (const [model, value] of Object.entries(readSection(raw, "pricing", configPath))) {
+    pricing[model] = parseModelPrice(model, value, configPath)
+  }
+
+  const budgets: BudgetTable = {}
+  for (const [name, value] of Object.entries(readSection(raw, "budgets", configPath))) {
+    budgets[name] = parseBudget(name, value, configPath, stores)
+  }
+  return { settings, stores, pricing, budgets }
+}
+
+/**
+ * Effective value of a setting from the environment or the config file
+ * (in that order), or undefined when neither sets it.
+ *
+ * @throws ConfigError if the environment variable is not a valid value.
+ */
+export function resolveSetting(
+  key: ConfigKey,
+  config: UserConfig = loadUserConfig(),
+  env: Record<string, string | undefined> = process.env
+): ResolvedSetting | undefined {
+  const envValue = env[configEnvVar(key)]
+  if (envValue !== undefined && envValue !== "") {
+    return { value: parseConfigValue(key, envValue), source: "env" }
+  }
+  const configValue = config.settings[key]
+  return configValue === undefined ? undefined : { value: configValue, source: "config" }
+}
+
+/**
+ * Every setting with its effective value. `defaults` holds the built-in
+ * values, which apply when neither the environment nor the file sets a key.
+ *
+ * @throws ConfigError if an environment variable is not a valid value.
+ */
+export function listSettings(
+  defaults: Partial<Record<ConfigKey, ConfigValue>>,
+  config: UserConfig = loadUserConfig(),
+  env: Record<string, string | undefined> = process.env
+): ConfigSetting[] {
+  return CONFIG_KEY_NAMES.map((key) => {
+    const resolved = resolveSetting(key, config, env)
+    return {
+      key,
+      value: resolved?.value ?? defaults[key] ?? null,
+      source: resolved?.source ?? "default",
+      envVar: configEnvVar(key),
+    }
+  })
+}
+
+/**
+ * TUI preferences from the environment and config file over the built-in defaults.
+ */
+export function resolveTuiPreferences(
+  config: UserConfig = loadUserConfig(),
+  env: Record<string, string | undefined> = process.env
+): TuiPreferences {
+  const preferences = { ...DEFAULT_TUI_PREFERENCES }
+  for (const field of Object.keys(preferences) as (keyof TuiPreferences)[]) {
+    const setting = resolveSetting(`tui.${field}`, config, env)
+    if (setting) {
+      ;(preferences as Record<string, ConfigValue>)[field] = setting.value
+    }
+  }
+  return preferences
+}
+
+// ========================
+// Writing
+// ========================
+
+function writeConfigObject(configPath: string, raw: Record<string, unknown>): void {
+  mkdirSync(dirname(configPath), { recursive: true })
+  writeFileSync(configPath, JSON.stringify(raw, null, 2) + "\n", "utf8")
+}
+
+/**
+ * Store a setting in the config file, keeping everything else in it.
+ * The value is validated first; relative paths are resolved against the
+ * current directory.
+ *
+ * @returns The value as written.
+ * @throws ConfigError if the value is invalid or the file cannot be parsed.
+ */
+export function setConfigValue(key: ConfigKey, raw: string, path: string = DEFAULT_CONFIG_PATH): ConfigValue {
+  const configPath = resolve(path)
+  const value = parseConfigValue(key, raw)
+  const config = readConfigObject(configPath)
+  const [sectionName, field] = configLocation(key)
+  config[sectionName] = { ...readSection(config, sectionName, configPath), [field]: value }
+  writeConfigObject(configPath, config)
+  return value
+}
+
+/**
+ * Remove a setting from the config file.
+ *
+ * @returns false if the file did not set it.
+ */
+export function unsetConfigValue(key: ConfigKey, path: string = DEFAULT_CONFIG_PATH): boolean {
+  const configPath = resolve(path)
+  const config = readConfigObject(configPath)
+  const [sectionName, field] = configLocation(key)
+  const section = readSection(config, sectionName, configPath)
+  if (!(field in section)) {
+    return false
+  }
+  const { [field]: _removed, ...rest } = section
+  config[sectionName] = rest
+  writeConfigObject(configPath, config)
+  return true
+}
+
+// ========================
+// Store Registry
+// ========================
+
+function toNamedStore(name: string, store: StoreConfig): NamedStore {
+  return {
+    name,
+    backend: store.backend,
+    root: store.root ?? DEFAULT_ROOT,
+    dbPath: store.db ?? DEFAULT_SQLITE_PATH,
+    strict: store.strict ?? false,
+  }
+}
+
+/**
+ * Where a store's data lives, in the form DataProvider.location uses.
+ */
+export function describeStoreLocation(store: NamedStore): string {
+  switch (store.backend) {
+    case "jsonl":
+      return store.root
+    case "sqlite":
+      return store.dbPath
+    case "merged":
+      return `${store.root} + ${store.dbPath}`
+  }
+}
+
+/**
+ * All registered stores, sorted by name.
+ */
+export function listStores(config: UserConfig = loadUserConfig()): NamedStore[] {
+  return Object.entries(config.stores)
+    .map(([name, store]) => toNamedStore(name, store))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Look up a registered store by name.
+ *
+ * @throws ConfigError if no store has that name.
+ */
+export function resolveStore(name: string, config: UserConfig = loadUserConfig()): NamedStore {
+  const store = Object.hasOwn(config.stores, name) ? config.stores[name] : undefined
+  if (!store) {
+    const known = Object.keys(config.stores).sort()
+    const hint = known.length > 0 ? `Known stores: ${known.join(", ")}` : `No stores are registered in ${DEFAULT_CONFIG_PATH}`
+    throw new ConfigError(`Unknown store "${name}". ${hint}`)
+  }
+  return toNamedStore(name, store)
+}
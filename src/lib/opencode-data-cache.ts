@@ -0,0 +1,332 @@
+/**
+ * Persistent on-disk index cache.
+ *
+ * Parsed project and session records, message indexes, token summaries and
+ * session stats are kept in a small SQLite file so later runs can skip
+ * re-reading and re-parsing unchanged data. Every entry carries a fingerprint:
+ * - JSONL project and session records: file mtime and size
+ * - JSONL message indexes: mtime and size of every message file
+ * - JSONL token summaries: session update time and mtime and size of every message file
+ * - SQLite token summaries and session stats: the session's `updated_at`
+ * Token summaries also carry the pricing table's hash, since they include
+ * estimated costs.
+ *
+ * A lookup with a different fingerprint is a miss, and the fresh value
+ * replaces the stale one. The cache is disabled until `configureIndexCache`
+ * is called, and any cache error disables it for the rest of the process:
+ * callers always fall back to reading the store.
+ */
+import { Database } from "bun:sqlite"
+import { existsSync, mkdirSync, promises as fs, statSync } from "node:fs"
+import { homedir } from "node:os"
+import { dirname, join, resolve } from "node:path"
+
+// ========================
+// Types
+// ========================
+
+export type IndexCacheKind = "project" | "session" | "messages" | "tokens" | "stats"
+
+export const INDEX_CACHE_KINDS: readonly IndexCacheKind[] = ["project", "session", "messages", "tokens", "stats"]
+
+export interface IndexCacheStats {
+  path: string
+  exists: boolean
+  sizeBytes: number
+  /** Entries per kind */
+  entries: Record<IndexCacheKind, number>
+  /** Stores (JSONL roots or database paths) with at least one entry */
+  stores: { store: string; entries: number }[]
+}
+
+export interface IndexCacheClearResult {
+  path: string
+  removed: boolean
+  sizeBytes: number
+}
+
+// ========================
+// Constants
+// ========================
+
+/**
+ * Bumped whenever the shape of a cached value changes; older cache files are
+ * emptied on open.
+ */
+const CACHE_SCHEMA_VERSION = 4
+
+export const DEFAULT_CACHE_PATH = resolve(
+  process.env.XDG_CACHE_HOME || join(homedir(), ".cache"),
+  "opencode-manager",
+  "index.db"
+)
+
+// ========================
+// Cache State
+// ========================
+
+interface CachedRow {
+  fingerprint: string
+  value: string
+}
+
+let cachePath: string | null = null
+let cacheDb: Database | null = null
+let pendingWrites: { kind: IndexCacheKind; store: string; key: string; fingerprint: string; value: string }[] = []
+let flushScheduled = false
+let exitHookInstalled = false
+
+// Bulk-loaded entries per kind and store, so a full listing costs one query
+const loaded = new Map<string, Map<string, CachedRow>>()
+
+function loadedKey(kind: IndexCacheKind, store: string): string {
+  return JSON.stringify([kind, store])
+}
+
+/**
+ * Turn the cache off for the rest of the process after an error.
+ */
+function disableCache(): void {
+  try {
+    cacheDb?.close()
+  } catch {
+    // Already unusable
+  }
+  cachePath = null
+  cacheDb = null
+  pendingWrites = []
+  loaded.clear()
+}
+
+function openCacheDatabase(path: string): Database {
+  mkdirSync(dirname(path), { recursive: true })
+  const db = new Database(path)
+  db.exec("PRAGMA journal_mode = WAL")
+  db.exec("PRAGMA synchronous = NORMAL")
+  db.exec("PRAGMA busy_timeout = 1000")
+  const { user_version } = db.query("PRAGMA user_version").get() as { user_version: number }
+  if (user_version !== CACHE_SCHEMA_VERSION) {
+    db.exec("DROP TABLE IF EXISTS entry")
+    db.exec(`PRAGMA user_version = ${CACHE_SCHEMA_VERSION}`)
+  }
+  db.exec(`CREATE TABLE IF NOT EXISTS entry (
+    kind TEXT NOT NULL,
+    store TEXT NOT NULL,
+    key TEXT NOT NULL,
+    fingerprint TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (kind, store, key)
+  )`)
+  return db
+}
+
+/**
+ * Open the cache database on first use.
+ */
+function getCacheDatabase(): Database | null {
+  if (cacheDb || !cachePath) {
+    return cacheDb
+  }
+  try {
+    cacheDb = openCacheDatabase(cachePath)
+  } catch {
+    disableCache()
+  }
+  return cacheDb
+}
+
+function scheduleFlush(): void {
+  if (!exitHookInstalled) {
+    exitHookInstalled = true
+    process.on("exit", flushIndexCache)
+  }
+  if (!flushScheduled) {
+    flushScheduled = true
+    setTimeout(flushIndexCache, 0).unref()
+  }
+}
+
+// ========================
+// Public API
+// ========================
+
+/**
+ * Enable the cache at the given path, or disable it with null.
+ * The database file is only created once an entry is read or written.
+ */
+export function configureIndexCache(path: string | null): void {
+  flushIndexCache()
+  disableCache()
+  cachePath = path === null ? null : resolve(path)
+}
+
+export function isIndexCacheEnabled(): boolean {
+  return cachePath !== null
+}
+
+/**
+ * Look up a cached value. Returns undefined on a miss, including when the
+ * stored fingerprint differs.
+ */
+export function readCacheEntry<T>(
+  kind: IndexCacheKind,
+  store: string,
+  key: string,
+  fingerprint: string
+): T | undefined {
+  const db = getCacheDatabase()
+  if (!db) {
+    return undefined
+  }
+  const id = loadedKey(kind, store)
+  let rows = loaded.get(id)
+  if (!rows) {
+    try {
+      const result = db
+        .query("SELECT key, fingerprint, value FROM entry WHERE kind = ? AND store = ?")
+        .all(kind, store) as { key: string; fingerprint: string; value: string }[]
+      rows = new Map(result.map((row) => [row.key, { fingerprint: row.fingerprint, value: row.value }]))
+    } catch {
+      disableCache()
+      return undefined
+    }
+    loaded.set(id, rows)
+  }
+  const row = rows.get(key)
+  if (!row || row.fingerprint !== fingerprint) {
+    return undefined
+  }
+  try {
+    return JSON.parse(row.value) as T
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Store a value. Writes are batched and committed in one transaction
+ * shortly after (or when the process exits).
+ */
+export function writeCacheEntry(
+  kind: IndexCacheKind,
+  store: string,
+  key: string,
+  fingerprint: string,
+  value: unknown
+): void {
+  if (!cachePath) {
+    return
+  }
+  const serialized = JSON.stringify(value)
+  loaded.get(loadedKey(kind, store))?.set(key, { fingerprint, value: serialized })
+  pendingWrites.push({ kind, store, key, fingerprint, value: serialized })
+  scheduleFlush()
+}
+
+/**
+ * Remove entries for keys that no longer exist in a fully scanned store.
+ */
+export function pruneCacheEntries(kind: IndexCacheKind, store: string, liveKeys: Set<string>): void {
+  const db = getCacheDatabase()
+  const rows = loaded.get(loadedKey(kind, store))
+  if (!db || !rows) {
+    return
+  }
+  const stale = [...rows.keys()].filter((key) => !liveKeys.has(key))
+  if (stale.length === 0) {
+    return
+  }
+  try {
+    const remove = db.prepare("DELETE FROM entry WHERE kind = ? AND store = ? AND key = ?")
+    db.transaction(() => {
+      for (const key of stale) {
+        remove.run(kind, store, key)
+        rows.delete(key)
+      }
+    })()
+  } catch {
+    disableCache()
+  }
+}
+
+/**
+ * Commit pending writes.
+ */
+export function flushIndexCache(): void {
+  flushScheduled = false
+  if (pendingWrites.length === 0) {
+    return
+  }
+  const db = getCacheDatabase()
+  const writes = pendingWrites
+  pendingWrites = []
+  if (!db) {
+    return
+  }
+  try {
+    const upsert = db.prepare(
+      "INSERT OR REPLACE INTO entry (kind, store, key, fingerprint, value) VALUES (?, ?, ?, ?, ?)"
+    )
+    db.transaction(() => {
+      for (const write of writes) {
+        upsert.run(write.kind, write.store, write.key, write.fingerprint, write.value)
+      }
+    })()
+  } catch {
+    disableCache()
+  }
+}
+
+/**
+ * Describe a cache file without enabling it.
+ */
+export function getIndexCacheStats(path: string = DEFAULT_CACHE_PATH): IndexCacheStats {
+  const resolved = resolve(path)
+  const entries = Object.fromEntries(INDEX_CACHE_KINDS.map((kind) => [kind, 0])) as Record<IndexCacheKind, number>
+  if (!existsSync(resolved)) {
+    return { path: resolved, exists: false, sizeBytes: 0, entries, stores: [] }
+  }
+
+  const db = new Database(resolved, { readonly: true })
+  try {
+    const hasTable = db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'entry'").get()
+    const byKind = hasTable
+      ? (db.query("SELECT kind, COUNT(*) AS count FROM entry GROUP BY kind").all() as { kind: string; count: number }[])
+      : []
+    for (const row of byKind) {
+      if (row.kind in entries) {
+        entries[row.kind as IndexCacheKind] = row.count
+      }
+    }
+    const stores = hasTable
+      ? (db.query("SELECT store, COUNT(*) AS entries FROM entry GROUP BY store ORDER BY entries DESC, store").all() as { store: string; entries: number }[])
+      : []
+    return { path: resolved, exists: true, sizeBytes: cacheFileSize(resolved), entries, stores }
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Delete a cache file (and its WAL side files).
+ */
+export async function clearIndexCache(path: string = DEFAULT_CACHE_PATH): Promise<IndexCacheClearResult> {
+  const resolved = resolve(path)
+  if (cachePath === resolved) {
+    // Drop pending writes and the open handle; the file is recreated on next use
+    disableCache()
+    cachePath = resolved
+  }
+  if (!existsSync(resolved)) {
+    return { path: resolved, removed: false, sizeBytes: 0 }
+  }
+  const sizeBytes = cacheFileSize(resolved)
+  for (const file of [resolved, `${resolved}-wal`, `${resolved}-shm`]) {
+    await fs.rm(file, { force: true })
+  }
+  return { path: resolved, removed: true, sizeBytes }
+}
+
+function cacheFileSize(path: string): number {
+  return [path, `${path}-wal`].reduce((sum, file) => (existsSync(file) ? sum + statSync(file).size : sum), 0)
+}
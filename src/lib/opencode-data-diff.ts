@@ -0,0 +1,211 @@
+/**
+ * Store comparison between two data providers.
+ *
+ * Compares a "left" and a "right" store (typically a JSONL root and a SQLite
+ * database, or two JSONL roots) record by record: projects, sessions,
+ * messages and parts present on only one side, title and timestamp
+ * mismatches, and per-session token totals.
+ *
+ * Messages are only compared for sessions present on both sides, and parts
+ * only for messages present on both sides; a session missing from one side
+ * is reported once rather than once per message and part.
+ */
+import type { DataProvider, StorageBackend } from "./opencode-data-provider"
+import type { TokenSummary } from "./opencode-data"
+import { MIGRATION_TABLES, type MigrationTable } from "./opencode-data-migrate"
+
+// ========================
+// Types
+// ========================
+
+/**
+ * Kind of difference between the two stores:
+ * - only-left / only-right: the record exists in one store only
+ * - title: session titles differ
+ * - created / updated: creation or update timestamps differ
+ * - tokens: session token totals differ
+ */
+export type StoreDiffKind = "only-left" | "only-right" | "title" | "created" | "updated" | "tokens"
+
+export interface StoreDifference {
+  table: MigrationTable
+  id: string
+  kind: StoreDiffKind
+  /** Session the record belongs to (messages and parts only) */
+  sessionId?: string
+  /** Left-side value (or a short description for only-left records) */
+  left: string | null
+  /** Right-side value (or a short description for only-right records) */
+  right: string | null
+}
+
+export interface StoreDiffSide {
+  backend: StorageBackend
+  location: string
+}
+
+export interface StoreDiffReport {
+  left: StoreDiffSide
+  right: StoreDiffSide
+  /** Records present on both sides, per table */
+  compared: Record<MigrationTable, number>
+  differences: StoreDifference[]
+}
+
+// ========================
+// Helpers
+// ========================
+
+function formatTime(date: Date | null): string | null {
+  return date ? date.toISOString() : null
+}
+
+function sameTime(a: Date | null, b: Date | null): boolean {
+  return (a?.getTime() ?? null) === (b?.getTime() ?? null)
+}
+
+function formatTokens(summary: TokenSummary): string {
+  return summary.kind === "known" ? String(summary.tokens.total) : `unknown (${summary.reason})`
+}
+
+/**
+ * Compare token totals only. Backends explain a missing total differently
+ * (no message files vs. no message rows), so any two unknowns are equal.
+ */
+function sameTokens(a: TokenSummary, b: TokenSummary): boolean {
+  if (a.kind === "known" && b.kind === "known") {
+    return a.tokens.total === b.tokens.total
+  }
+  return a.kind === b.kind
+}
+
+function indexBy<T>(records: T[], key: (record: T) => string): Map<string, T> {
+  return new Map(records.map((record) => [key(record), record]))
+}
+
+/**
+ * Walk the IDs of both sides in a stable order, reporting records present on
+ * one side only and returning the IDs present on both.
+ */
+function compareIds<T>(
+  table: MigrationTable,
+  left: Map<string, T>,
+  right: Map<string, T>,
+  describe: (record: T) => string,
+  differences: StoreDifference[],
+  sessionId?: string
+): string[] {
+  const shared: string[] = []
+  for (const [id, record] of left) {
+    if (right.has(id)) {
+      shared.push(id)
+    } else {
+      differences.push({ table, id, kind: "only-left", sessionId, left: describe(record), right: null })
+    }
+  }
+  for (const [id, record] of right) {
+    if (!left.has(id)) {
+      differences.push({ table, id, kind: "only-right", sessionId, left: null, right: describe(record) })
+    }
+  }
+  return shared
+}
+
+/**
+ * Count differences per table.
+ */
+export function countStoreDifferences(differences: StoreDifference[]): Record<MigrationTable, number> {
+  const counts = Object.fromEntries(MIGRATION_TABLES.map((table) => [table, 0])) as Record<MigrationTable, number>
+  for (const difference of differences) {
+    counts[difference.table]++
+  }
+  return counts
+}
+
+// ========================
+// Comparison
+// ========================
+
+/**
+ * Compare two stores record by record.
+ *
+ * Both providers are only read from. Token totals are computed through each
+ * provider, so they match what `tokens session` reports for either side.
+ */
+export async function diffStores(left: DataProvider, right: DataProvider): Promise<StoreDiffReport> {
+  const differences: StoreDifference[] = []
+  const compared = Object.fromEntries(MIGRATION_TABLES.map((table) => [table, 0])) as Record<MigrationTable, number>
+
+  // Projects
+  const leftProjects = indexBy(await left.loadProjectRecords(), (p) => p.projectId)
+  const rightProjects = indexBy(await right.loadProjectRecords(), (p) => p.projectId)
+  const sharedProjects = compareIds("project", leftProjects, rightProjects, (p) => p.worktree, differences)
+  compared.project = sharedProjects.length
+  for (const id of sharedProjects) {
+    const l = leftProjects.get(id)!
+    const r = rightProjects.get(id)!
+    if (!sameTime(l.createdAt, r.createdAt)) {
+      differences.push({ table: "project", id, kind: "created", left: formatTime(l.createdAt), right: formatTime(r.createdAt) })
+    }
+  }
+
+  // Sessions
+  const leftSessions = indexBy(await left.loadSessionRecords(), (s) => s.sessionId)
+  const rightSessions = indexBy(await right.loadSessionRecords(), (s) => s.sessionId)
+  const sharedSessions = compareIds("session", leftSessions, rightSessions, (s) => s.title, differences)
+  compared.session = sharedSessions.length
+
+  for (const sessionId of sharedSessions) {
+    const l = leftSessions.get(sessionId)!
+    const r = rightSessions.get(sessionId)!
+    const base = { table: "session" as const, id: sessionId }
+    if (l.title !== r.title) {
+      differences.push({ ...base, kind: "title", left: l.title, right: r.title })
+    }
+    if (!sameTime(l.createdAt, r.createdAt)) {
+      differences.push({ ...base, kind: "created", left: formatTime(l.createdAt), right: formatTime(r.createdAt) })
+    }
+    if (!sameTime(l.updatedAt, r.updatedAt)) {
+      differences.push({ ...base, kind: "updated", left: formatTime(l.updatedAt), right: formatTime(r.updatedAt) })
+    }
+    const leftTokens = await left.computeSessionTokenSummary(l)
+    const rightTokens = await right.computeSessionTokenSummary(r)
+    if (!sameTokens(leftTokens, rightTokens)) {
+      differences.push({ ...base, kind: "tokens", left: formatTokens(leftTokens), right: formatTokens(rightTokens) })
+    }
+
+    // Messages
+    const leftMessages = indexBy(await left.loadSessionChatIndex(sessionId), (m) => m.messageId)
+    const rightMessages = indexBy(await right.loadSessionChatIndex(sessionId), (m) => m.messageId)
+    const sharedMessages = compareIds("message", leftMessages, rightMessages, (m) => m.role, differences, sessionId)
+    compared.message += sharedMessages.length
+
+    for (const messageId of sharedMessages) {
+      const lm = leftMessages.get(messageId)!
+      const rm = rightMessages.get(messageId)!
+      if (!sameTime(lm.createdAt, rm.createdAt)) {
+        differences.push({
+          table: "message",
+          id: messageId,
+          kind: "created",
+          sessionId,
+          left: formatTime(lm.createdAt),
+          right: formatTime(rm.createdAt),
+        })
+      }
+
+      // Parts
+      const leftParts = indexBy(await left.loadMessageParts(messageId), (p) => p.partId)
+      const rightParts = indexBy(await right.loadMessageParts(messageId), (p) => p.partId)
+      const sharedParts = compareIds("part", leftParts, rightParts, (p) => p.type, differences, sessionId)
+      compared.part += sharedParts.length
+    }
+  }
+
+  return {
+    left: { backend: left.backend, location: left.location },
+    right: { backend: right.backend, location: right.location },
+    compared,
+    differences,
+  }
+}
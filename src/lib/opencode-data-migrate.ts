@@ -0,0 +1,825 @@
+/**
+ * Store migration between storage backends.
+ *
+ * Copies projects, sessions, messages and parts between a JSONL store and a
+ * SQLite database with the project/session/message/part schema the SQLite
+ * backend reads. The raw JSON payload of each record travels in the
+ * `data` column (SQLite) or the record file (JSONL), so no fields are lost
+ * in either direction.
+ *
+ * @experimental The SQLite schema may change with OpenCode releases.
+ */
+import { Database } from "bun:sqlite"
+import { existsSync, promises as fs } from "node:fs"
+import { basename, dirname, join, resolve } from "node:path"
+import type { AggregateTokenSummary, JsonlWarning, TokenBreakdown } from "./opencode-data"
+import {
+  clearTokenCache,
+  computeGlobalTokenSummary,
+  formatJsonlWarning,
+  loadMessagePartPaths,
+  loadMessageParts,
+  loadProjectRecords,
+  loadSessionChatIndex,
+  loadSessionMessagePaths,
+  loadSessionRecords,
+} from "./opencode-data"
+import { closeIfOwned, createSchema, inspectSchema, openDatabase } from "./opencode-data-sqlite"
+import { createProvider } from "./opencode-data-provider"
+
+// ========================
+// Types
+// ========================
+
+export type MigrationTable = "project" | "session" | "message" | "part"
+
+export const MIGRATION_TABLES: readonly MigrationTable[] = ["project", "session", "message", "part"]
+
+/**
+ * What to do when a record ID already exists in the target:
+ * - fail: abort the migration without writing anything (default)
+ * - skip: keep the existing record
+ * - overwrite: replace the existing record with the migrated one
+ */
+export type ConflictMode = "fail" | "skip" | "overwrite"
+
+export const CONFLICT_MODES: readonly ConflictMode[] = ["fail", "skip", "overwrite"]
+
+export interface MigrationTableStats {
+  /** Records found in the source store */
+  source: number
+  /** Records written as new rows/files */
+  inserted: number
+  /** Existing records replaced (overwrite mode) */
+  overwritten: number
+  /** Existing records kept (skip mode) */
+  skipped: number
+  /** Source records sharing an ID with an earlier source record (first one wins) */
+  duplicates: number
+}
+
+export interface MigrationConflict {
+  table: MigrationTable
+  id: string
+}
+
+export interface MigrationVerification {
+  ok: boolean
+  /** Distinct source IDs vs. records found in the target, per table */
+  counts: Record<MigrationTable, { expected: number; actual: number }>
+  /** Known-token totals computed from the source vs. the target */
+  tokens: {
+    expected: TokenBreakdown
+    actual: TokenBreakdown
+    expectedUnknownSessions: number
+    actualUnknownSessions: number
+    /** Sessions left out of the token comparison because some of their records were skipped */
+    excludedSessions: number
+  }
+  /** Human-readable description of every mismatch */
+  mismatches: string[]
+}
+
+export interface MigrationResult {
+  dryRun: boolean
+  source: string
+  target: string
+  onConflict: ConflictMode
+  tables: Record<MigrationTable, MigrationTableStats>
+  conflicts: MigrationConflict[]
+  /** Source records that could not be migrated verbatim (e.g. malformed JSON) */
+  warnings: string[]
+  /** Null for dry runs */
+  verification: MigrationVerification | null
+}
+
+export interface MigrationProgress {
+  sessionsDone: number
+  sessionsTotal: number
+  sessionId: string
+}
+
+interface MigrationOptionsBase {
+  onConflict?: ConflictMode
+  /** Report what would be written without touching the target */
+  dryRun?: boolean
+  /** Called after each session (with its messages and parts) is processed */
+  onProgress?: (progress: MigrationProgress) => void
+}
+
+export interface JsonlToSqliteOptions extends MigrationOptionsBase {
+  /** Root of the JSONL store to read */
+  root: string
+  /** SQLite database to write (created if missing) */
+  dbPath: string
+  /** Wait for SQLite write locks to clear before failing */
+  forceWrite?: boolean
+}
+
+export interface SqliteToJsonlOptions extends MigrationOptionsBase {
+  /** SQLite database to read */
+  dbPath: string
+  /** Root of the JSONL store to write (created if missing) */
+  root: string
+}
+
+// ========================
+// Helpers
+// ========================
+
+type Payload = Record<string, any>
+
+/**
+ * Tracks per-table stats, duplicate source IDs and target conflicts while
+ * records are visited, and decides what to do with each one.
+ */
+class MigrationTracker {
+  readonly tables = {} as Record<MigrationTable, MigrationTableStats>
+  readonly conflicts: MigrationConflict[] = []
+  readonly seen = {} as Record<MigrationTable, Set<string>>
+  /** Sessions with at least one skipped record; their tokens may legitimately differ */
+  readonly skippedSessions = new Set<string>()
+
+  constructor(private readonly onConflict: ConflictMode) {
+    for (const table of MIGRATION_TABLES) {
+      this.tables[table] = { source: 0, inserted: 0, overwritten: 0, skipped: 0, duplicates: 0 }
+      this.seen[table] = new Set()
+    }
+  }
+
+  /**
+   * Record a source record and return what to do with it:
+   * "write" it, "ignore" it, or report a "conflict" (fail mode).
+   */
+  admit(table: MigrationTable, id: string, exists: boolean, sessionId?: string | null): "write" | "ignore" | "conflict" {
+    const stats = this.tables[table]
+    stats.source += 1
+    if (this.seen[table].has(id)) {
+      stats.duplicates += 1
+      return "ignore"
+    }
+    this.seen[table].add(id)
+
+    if (!exists) {
+      stats.inserted += 1
+      return "write"
+    }
+
+    this.conflicts.push({ table, id })
+    if (this.onConflict === "fail") {
+      return "conflict"
+    }
+    if (this.onConflict === "skip") {
+      stats.skipped += 1
+      if (sessionId) {
+        this.skippedSessions.add(sessionId)
+      }
+      return "ignore"
+    }
+    stats.overwritten += 1
+    return "write"
+  }
+}
+
+function conflictError(table: MigrationTable, id: string, target: string): Error {
+  return new Error(
+    `Migration aborted: ${table} "${id}" already exists in ${target}. ` +
+      "Use --on-conflict skip or --on-conflict overwrite, or --dry-run to list all conflicts."
+  )
+}
+
+function schemaError(role: "Source" | "Target", schema: ReturnType<typeof inspectSchema>): Error | null {
+  const missing = [
+    ...schema.missingTables,
+    ...Object.entries(schema.missingColumns).flatMap(([table, columns]) =>
+      columns.map((column) => `${table}.${column}`)
+    ),
+  ]
+  if (missing.length === 0) {
+    return null
+  }
+  return new Error(`${role} SQLite schema is incompatible (missing: ${missing.join(", ")}).`)
+}
+
+async function readPayload(filePath: string): Promise<Payload | null> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, "utf8"))
+    return parsed && typeof parsed === "object" ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read the message or part payloads in one record directory, in filename
+ * order. Files that cannot be migrated go to `onWarning` instead.
+ */
+async function readRecordPayloads(
+  paths: string[] | null,
+  onWarning: (warning: JsonlWarning) => void
+): Promise<Payload[]> {
+  const payloads: Payload[] = []
+  const sorted = [...(paths ?? [])].sort((a, b) => basename(a).localeCompare(basename(b)))
+  for (const path of sorted) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(await fs.readFile(path, "utf8"))
+    } catch (error) {
+      onWarning({ path, reason: `unreadable or invalid JSON (${error instanceof Error ? error.message : String(error)})` })
+      continue
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      onWarning({ path, reason: "not a JSON object" })
+      continue
+    }
+    const payload = parsed as Payload
+    if (!payload.id) {
+      onWarning({ path, reason: "missing id" })
+      continue
+    }
+    payloads.push(payload)
+  }
+  return payloads
+}
+
+function asTimestamp(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null
+}
+
+function countRows(db: Database, table: MigrationTable, ids: Set<string>): number {
+  const all = Array.from(ids)
+  let count = 0
+  // Stay below SQLite's bound-parameter limit on older builds
+  for (let i = 0; i < all.length; i += 500) {
+    const batch = all.slice(i, i + 500)
+    const row = db
+      .query(`SELECT COUNT(*) as count FROM ${table} WHERE id IN (${batch.map(() => "?").join(", ")})`)
+      .get(...batch) as { count: number }
+    count += row.count
+  }
+  return count
+}
+
+const TOKEN_FIELDS: (keyof TokenBreakdown)[] = ["input", "output", "reasoning", "cacheRead", "cacheWrite", "total"]
+
+const EMPTY_BREAKDOWN: TokenBreakdown = { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0 }
+
+/**
+ * Build the verification report from target counts and token summaries.
+ */
+function buildVerification(
+  tracker: MigrationTracker,
+  actualCounts: Record<MigrationTable, number>,
+  expectedSummary: AggregateTokenSummary,
+  actualSummary: AggregateTokenSummary
+): MigrationVerification {
+  const mismatches: string[] = []
+
+  const counts = {} as MigrationVerification["counts"]
+  for (const table of MIGRATION_TABLES) {
+    const expected = tracker.seen[table].size
+    const actual = actualCounts[table]
+    counts[table] = { expected, actual }
+    if (expected !== actual) {
+      mismatches.push(`${table}: expected ${expected} record(s), found ${actual}`)
+    }
+  }
+
+  const expected = expectedSummary.knownOnly ?? EMPTY_BREAKDOWN
+  const actual = actualSummary.knownOnly ?? EMPTY_BREAKDOWN
+  const expectedUnknown = expectedSummary.unknownSessions ?? 0
+  const actualUnknown = actualSummary.unknownSessions ?? 0
+  for (const field of TOKEN_FIELDS) {
+    if (expected[field] !== actual[field]) {
+      mismatches.push(`tokens.${field}: expected ${expected[field]}, found ${actual[field]}`)
+    }
+  }
+  if (expectedUnknown !== actualUnknown) {
+    mismatches.push(`sessions with unknown tokens: expected ${expectedUnknown}, found ${actualUnknown}`)
+  }
+
+  return {
+    ok: mismatches.length === 0,
+    counts,
+    tokens: {
+      expected,
+      actual,
+      expectedUnknownSessions: expectedUnknown,
+      actualUnknownSessions: actualUnknown,
+      excludedSessions: tracker.skippedSessions.size,
+    },
+    mismatches,
+  }
+}
+
+/**
+ * Session IDs to include in the token comparison.
+ */
+function comparableSessions(tracker: MigrationTracker): Set<string> {
+  return new Set([...tracker.seen.session].filter((id) => !tracker.skippedSessions.has(id)))
+}
+
+/**
+ * Compute token totals for the given sessions through the SQLite provider.
+ */
+async function computeSqliteTokens(dbPath: string, sessionIds: Set<string>): Promise<AggregateTokenSummary> {
+  const provider = createProvider({ backend: "sqlite", dbPath, onWarning: () => {} })
+  const sessions = (await provider.loadSessionRecords()).filter((s) => sessionIds.has(s.sessionId))
+  return provider.computeGlobalTokenSummary(sessions)
+}
+
+// ========================
+// JSONL → SQLite
+// ========================
+
+/**
+ * Migrate a JSONL store into a SQLite database.
+ *
+ * All writes happen in a single transaction: a conflict in "fail" mode, or
+ * any write error, rolls the whole migration back. After committing, a
+ * verification pass compares per-table counts and token totals between the
+ * source store and the database.
+ *
+ * @throws Error if the target schema is incompatible, or on the first
+ *   conflict in "fail" mode (dry runs report conflicts instead).
+ */
+export async function migrateJsonlToSqlite(options: JsonlToSqliteOptions): Promise<MigrationResult> {
+  const root = resolve(options.root)
+  const dbPath = resolve(options.dbPath)
+  const onConflict = options.onConflict ?? "fail"
+  const dryRun = options.dryRun ?? false
+  const tracker = new MigrationTracker(onConflict)
+  const warnings: string[] = []
+  const onWarning = (warning: JsonlWarning) => warnings.push(formatJsonlWarning(warning))
+
+  const projects = await loadProjectRecords({ root, onWarning })
+  const sessions = await loadSessionRecords({ root, onWarning })
+
+  // A dry run never creates the database file
+  const db = dryRun && !existsSync(dbPath)
+    ? null
+    : openDatabase(dbPath, { readonly: dryRun, forceWrite: options.forceWrite })
+
+  try {
+    let presentTables = new Set<string>()
+    if (db) {
+      const schema = inspectSchema(db)
+      // Missing tables are created; missing columns on existing tables are not
+      const error = schemaError("Target", { missingTables: [], missingColumns: schema.missingColumns })
+      if (error) {
+        throw error
+      }
+      if (dryRun) {
+        presentTables = new Set(MIGRATION_TABLES.filter((t) => !schema.missingTables.includes(t)))
+      } else {
+        createSchema(db)
+        presentTables = new Set(MIGRATION_TABLES)
+      }
+    }
+
+    const existsStmt = new Map(
+      MIGRATION_TABLES.filter((table) => presentTables.has(table)).map((table) => [
+        table,
+        db!.prepare(`SELECT 1 FROM ${table} WHERE id = ?`),
+      ])
+    )
+    const insertStmt = new Map<MigrationTable, ReturnType<Database["prepare"]>>()
+    if (db && !dryRun) {
+      insertStmt.set("project", db.prepare("INSERT OR REPLACE INTO project (id, data) VALUES (?, ?)"))
+      insertStmt.set(
+        "session",
+        db.prepare(
+          "INSERT OR REPLACE INTO session (id, project_id, parent_id, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?, ?)"
+        )
+      )
+      insertStmt.set(
+        "message",
+        db.prepare("INSERT OR REPLACE INTO message (id, session_id, created_at, data) VALUES (?, ?, ?, ?)")
+      )
+      insertStmt.set(
+        "part",
+        db.prepare("INSERT OR REPLACE INTO part (id, message_id, session_id, data) VALUES (?, ?, ?, ?)")
+      )
+    }
+
+    const write = (
+      table: MigrationTable,
+      id: string,
+      sessionId: string | null,
+      values: (string | number | null)[]
+    ) => {
+      const exists = existsStmt.get(table)?.get(id) != null
+      const action = tracker.admit(table, id, exists, sessionId)
+      if (action === "conflict" && !dryRun) {
+        throw conflictError(table, id, dbPath)
+      }
+      if (action === "write") {
+        insertStmt.get(table)?.run(...values)
+      }
+    }
+
+    if (db && !dryRun) {
+      db.run(options.forceWrite ? "BEGIN IMMEDIATE" : "BEGIN TRANSACTION")
+    }
+
+    try {
+      for (const project of projects) {
+        const payload = (await readPayload(project.filePath)) ?? { id: project.projectId }
+        write("project", project.projectId, null, [project.projectId, JSON.stringify(payload)])
+      }
+
+      for (const [index, session] of sessions.entries()) {
+        const payload = (await readPayload(session.filePath)) ?? { id: session.sessionId }
+        write("session", session.sessionId, session.sessionId, [
+          session.sessionId,
+          session.projectId,
+          typeof payload.parentID === "string" ? payload.parentID : null,
+          asTimestamp(payload.time?.created),
+          asTimestamp(payload.time?.updated),
+          JSON.stringify(payload),
+        ])
+
+        const messagePaths = await loadSessionMessagePaths(session.sessionId, root)
+        for (const messagePayload of await readRecordPayloads(messagePaths, onWarning)) {
+          const messageId = String(messagePayload.id)
+          write("message", messageId, session.sessionId, [
+            messageId,
+            session.sessionId,
+            asTimestamp(messagePayload.time?.created),
+            JSON.stringify(messagePayload),
+          ])
+
+          const partPaths = await loadMessagePartPaths(messageId, root)
+          for (const partPayload of await readRecordPayloads(partPaths, onWarning)) {
+            const partId = String(partPayload.id)
+            write("part", partId, session.sessionId, [
+              partId,
+              messageId,
+              session.sessionId,
+              JSON.stringify(partPayload),
+            ])
+          }
+        }
+
+        options.onProgress?.({ sessionsDone: index + 1, sessionsTotal: sessions.length, sessionId: session.sessionId })
+      }
+
+      if (db && !dryRun) {
+        db.run("COMMIT")
+      }
+    } catch (error) {
+      if (db && !dryRun) {
+        try {
+          db.run("ROLLBACK")
+        } catch {
+          // Ignore rollback errors
+        }
+      }
+      throw error
+    }
+
+    const result: MigrationResult = {
+      dryRun,
+      source: root,
+      target: dbPath,
+      onConflict,
+      tables: tracker.tables,
+      conflicts: tracker.conflicts,
+      warnings,
+      verification: null,
+    }
+    if (!db || dryRun) {
+      return result
+    }
+
+    // Verification pass: every source ID must be present, and token totals must agree
+    const actualCounts = {} as Record<MigrationTable, number>
+    for (const table of MIGRATION_TABLES) {
+      actualCounts[table] = countRows(db, table, tracker.seen[table])
+    }
+    const tokenSessions = comparableSessions(tracker)
+    result.verification = buildVerification(
+      tracker,
+      actualCounts,
+      await computeGlobalTokenSummary(sessions.filter((s) => tokenSessions.has(s.sessionId)), root),
+      await computeSqliteTokens(dbPath, tokenSessions)
+    )
+    return result
+  } finally {
+    if (db) {
+      closeIfOwned(db, dbPath)
+    }
+  }
+}
+
+// ========================
+// SQLite → JSONL
+// ========================
+
+/**
+ * A record read from SQLite, placed at its JSONL location.
+ */
+interface ExportEntry {
+  table: MigrationTable
+  id: string
+  /** Owning session, when known (used to exclude skipped sessions from token checks) */
+  sessionId: string | null
+  /** Canonical JSONL path for a new record */
+  path: string
+  payload: Payload
+}
+
+interface SessionRow {
+  id: string
+  project_id: string | null
+  parent_id: string | null
+  created_at: number | null
+  updated_at: number | null
+  data: string | null
+}
+
+interface MessageRow {
+  id: string
+  session_id: string | null
+  created_at: number | null
+  data: string | null
+}
+
+interface PartRow {
+  id: string
+  message_id: string | null
+  session_id: string | null
+  data: string | null
+}
+
+/**
+ * Parse a `data` column into an object payload. Malformed JSON is reported
+ * as a warning and replaced by an empty payload rebuilt from the columns.
+ */
+function parseDataColumn(raw: string | null, table: MigrationTable, id: string, warnings: string[]): Payload {
+  if (!raw || raw.trim().length === 0) {
+    return {}
+  }
+  try {
+    const parsed = JSON.parse(raw)
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed
+    }
+  } catch {
+    // Fall through to the warning below
+  }
+  warnings.push(`Malformed JSON in ${table} row "${id}"; exported from columns only`)
+  return {}
+}
+
+/**
+ * Copy timestamp columns into `time`, without touching values the payload
+ * already has.
+ */
+function fillTime(payload: Payload, created: number | null, updated?: number | null): void {
+  const time = payload.time && typeof payload.time === "object" ? payload.time : {}
+  if (created !== null && time.created === undefined) {
+    time.created = created
+  }
+  if (updated !== undefined && updated !== null && time.updated === undefined) {
+    time.updated = updated
+  }
+  if (Object.keys(time).length > 0) {
+    payload.time = time
+  }
+}
+
+function* messageEntries(rows: MessageRow[], storage: string, warnings: string[]): Generator<ExportEntry> {
+  for (const row of rows) {
+    const payload = parseDataColumn(row.data, "message", row.id, warnings)
+    const sessionId = row.session_id ?? payload.sessionID ?? null
+    if (!sessionId) {
+      warnings.push(`message row "${row.id}" has no session; not exported`)
+      continue
+    }
+    payload.id ??= row.id
+    fillTime(payload, row.created_at)
+    yield {
+      table: "message",
+      id: row.id,
+      sessionId,
+      path: join(storage, "message", sessionId, `${row.id}.json`),
+      payload,
+    }
+  }
+}
+
+function* partEntries(rows: PartRow[], storage: string, warnings: string[]): Generator<ExportEntry> {
+  for (const row of rows) {
+    const payload = parseDataColumn(row.data, "part", row.id, warnings)
+    const messageId = row.message_id ?? payload.messageID ?? null
+    if (!messageId) {
+      warnings.push(`part row "${row.id}" has no message; not exported`)
+      continue
+    }
+    payload.id ??= row.id
+    yield {
+      table: "part",
+      id: row.id,
+      sessionId: row.session_id ?? payload.sessionID ?? null,
+      path: join(storage, "part", messageId, `${row.id}.json`),
+      payload,
+    }
+  }
+}
+
+/**
+ * Walk every row of the database in export order: projects, then each
+ * session followed by its messages and parts, then messages and parts whose
+ * session is missing from the session table.
+ */
+function* readSqliteEntries(
+  db: Database,
+  root: string,
+  warnings: string[],
+  onProgress?: (progress: MigrationProgress) => void
+): Generator<ExportEntry> {
+  const storage = join(root, "storage")
+
+  const projects = db.query("SELECT id, data FROM project ORDER BY id").all() as { id: string; data: string | null }[]
+  for (const row of projects) {
+    const payload = parseDataColumn(row.data, "project", row.id, warnings)
+    payload.id ??= row.id
+    yield { table: "project", id: row.id, sessionId: null, path: join(storage, "project", `${row.id}.json`), payload }
+  }
+
+  const sessions = db
+    .query("SELECT id, project_id, parent_id, created_at, updated_at, data FROM session ORDER BY id")
+    .all() as SessionRow[]
+  const messagesStmt = db.prepare("SELECT id, session_id, created_at, data FROM message WHERE session_id = ? ORDER BY id")
+  const partsStmt = db.prepare("SELECT id, message_id, session_id, data FROM part WHERE session_id = ? ORDER BY id")
+
+  for (const [index, row] of sessions.entries()) {
+    const payload = parseDataColumn(row.data, "session", row.id, warnings)
+    // Same precedence as the SQLite session loader: column first, then payload
+    const projectId = row.project_id ?? payload.projectID ?? payload.projectId ?? "global"
+    payload.id ??= row.id
+    if (row.parent_id) {
+      payload.parentID ??= row.parent_id
+    }
+    fillTime(payload, row.created_at, row.updated_at)
+    yield {
+      table: "session",
+      id: row.id,
+      sessionId: row.id,
+      path: join(storage, "session", projectId, `${row.id}.json`),
+      payload,
+    }
+
+    yield* messageEntries(messagesStmt.all(row.id) as MessageRow[], storage, warnings)
+    yield* partEntries(partsStmt.all(row.id) as PartRow[], storage, warnings)
+
+    onProgress?.({ sessionsDone: index + 1, sessionsTotal: sessions.length, sessionId: row.id })
+  }
+
+  yield* messageEntries(
+    db
+      .query(
+        "SELECT id, session_id, created_at, data FROM message WHERE session_id IS NULL OR session_id NOT IN (SELECT id FROM session) ORDER BY id"
+      )
+      .all() as MessageRow[],
+    storage,
+    warnings
+  )
+  yield* partEntries(
+    db
+      .query(
+        "SELECT id, message_id, session_id, data FROM part WHERE session_id IS NULL OR session_id NOT IN (SELECT id FROM session) ORDER BY id"
+      )
+      .all() as PartRow[],
+    storage,
+    warnings
+  )
+}
+
+/**
+ * Export a SQLite database into the JSONL store layout.
+ *
+ * Each row's `data` JSON becomes the record file. Fields that only live in
+ * columns (id, time, parentID) are filled in when the payload lacks them;
+ * project, session and message ownership is carried by the directory layout.
+ *
+ * New records are written to the canonical layout; in overwrite mode,
+ * existing project and session files are rewritten in place. In "fail"
+ * mode every conflict is detected before anything is written. After
+ * writing, a verification pass reloads the store through the JSONL loaders
+ * and compares per-table counts and token totals with the database.
+ *
+ * @throws Error if the database is missing or its schema is incompatible,
+ *   or on a conflict in "fail" mode (dry runs report conflicts instead).
+ */
+export async function migrateSqliteToJsonl(options: SqliteToJsonlOptions): Promise<MigrationResult> {
+  const root = resolve(options.root)
+  const dbPath = resolve(options.dbPath)
+  const onConflict = options.onConflict ?? "fail"
+  const dryRun = options.dryRun ?? false
+  const tracker = new MigrationTracker(onConflict)
+  const warnings: string[] = []
+
+  if (!existsSync(dbPath)) {
+    throw new Error(`SQLite database not found: ${dbPath}`)
+  }
+
+  const db = openDatabase(dbPath, { readonly: true })
+  try {
+    const error = schemaError("Source", inspectSchema(db))
+    if (error) {
+      throw error
+    }
+
+    const existingProjects = new Map((await loadProjectRecords({ root })).map((p) => [p.projectId, p.filePath]))
+    const existingSessions = new Map((await loadSessionRecords({ root })).map((s) => [s.sessionId, s.filePath]))
+    const locate = (entry: ExportEntry): string | undefined => {
+      switch (entry.table) {
+        case "project":
+          return existingProjects.get(entry.id)
+        case "session":
+          return existingSessions.get(entry.id)
+        default:
+          return existsSync(entry.path) ? entry.path : undefined
+      }
+    }
+
+    // Nothing is written unless the whole export is conflict-free
+    if (onConflict === "fail" && !dryRun) {
+      for (const entry of readSqliteEntries(db, root, [])) {
+        if (locate(entry)) {
+          throw conflictError(entry.table, entry.id, root)
+        }
+      }
+    }
+
+    const messageSessions = new Set<string>()
+    const partMessages = new Set<string>()
+    for (const entry of readSqliteEntries(db, root, warnings, options.onProgress)) {
+      // Directories to reload during verification
+      if (entry.table === "message") {
+        messageSessions.add(basename(dirname(entry.path)))
+      } else if (entry.table === "part") {
+        partMessages.add(basename(dirname(entry.path)))
+      }
+      const existing = locate(entry)
+      if (tracker.admit(entry.table, entry.id, existing !== undefined, entry.sessionId) !== "write") {
+        continue
+      }
+      if (!dryRun) {
+        const target = existing ?? entry.path
+        await fs.mkdir(dirname(target), { recursive: true })
+        // Trailing newline keeps snapshots clean under git diff
+        await fs.writeFile(target, `${JSON.stringify(entry.payload, null, 2)}\n`, "utf8")
+      }
+    }
+
+    const result: MigrationResult = {
+      dryRun,
+      source: dbPath,
+      target: root,
+      onConflict,
+      tables: tracker.tables,
+      conflicts: tracker.conflicts,
+      warnings,
+      verification: null,
+    }
+    if (dryRun) {
+      return result
+    }
+
+    // Verification pass: reload through the JSONL loaders
+    const countSeen = (table: MigrationTable, ids: Iterable<string>) =>
+      new Set([...ids].filter((id) => tracker.seen[table].has(id))).size
+
+    const sessions = await loadSessionRecords({ root })
+    const messageIds: string[] = []
+    for (const sessionId of messageSessions) {
+      messageIds.push(...(await loadSessionChatIndex(sessionId, root)).map((m) => m.messageId))
+    }
+    const partIds: string[] = []
+    for (const messageId of partMessages) {
+      partIds.push(...(await loadMessageParts(messageId, root)).map((p) => p.partId))
+    }
+    const actualCounts: Record<MigrationTable, number> = {
+      project: countSeen("project", (await loadProjectRecords({ root })).map((p) => p.projectId)),
+      session: countSeen("session", sessions.map((s) => s.sessionId)),
+      message: countSeen("message", messageIds),
+      part: countSeen("part", partIds),
+    }
+
+    // Rewritten files may keep their old timestamps, which key the token cache
+    clearTokenCache()
+    const tokenSessions = comparableSessions(tracker)
+    result.verification = buildVerification(
+      tracker,
+      actualCounts,
+      await computeSqliteTokens(dbPath, tokenSessions),
+      await computeGlobalTokenSummary(sessions.filter((s) => tokenSessions.has(s.sessionId)), root)
+    )
+    return result
+  } finally {
+    closeIfOwned(db, dbPath)
+  }
+}
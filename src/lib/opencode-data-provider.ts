@@ -30,9 +30,22 @@ import type {
   ChatPart,
   DeleteResult,
   DeleteOptions,
+  OrphanRecord,
+  RecordSource,
+  DoctorOptions,
+  DoctorReport,
+  JsonlReadOptions,
+  JsonlWarning,
   TokenSummary,
   AggregateTokenSummary,
+  GroupedTokenSummary,
+  TokenGroupBy,
+  TokenTimeline,
+  TokenTimelineOptions,
   ChatSearchResult,
+  ImportSessionOptions,
+  SessionExport,
+  SessionStats,
 } from "./opencode-data"
 import {
   DEFAULT_ROOT,
@@ -43,12 +56,27 @@ import {
   hydrateChatMessageParts,
   deleteProjectMetadata,
   deleteSessionMetadata,
+  findOrphans,
+  deleteOrphans,
+  diagnoseStore,
   updateSessionTitle,
   moveSession,
   copySession,
+  exportSession,
+  importSession,
   computeSessionTokenSummary,
+  computeSessionTokenSummaries,
   computeProjectTokenSummary,
   computeGlobalTokenSummary,
+  computeGroupedTokenSummary,
+  computeTokenTimeline,
+  groupTokenUsage,
+  bucketTokenUsage,
+  mergeGroupedTokenSummaries,
+  mergeTokenTimelines,
+  messageTokenUsage,
+  enrichSessionRecords,
+  summarizeSessionMessages,
   searchSessionsChat,
 } from "./opencode-data"
 import {
@@ -57,12 +85,48 @@ import {
   loadSessionRecordsSqlite,
   loadSessionChatIndexSqlite,
   loadMessagePartsSqlite,
+  loadTokenUsageSqlite,
+  loadSessionTokenSummariesSqlite,
   deleteSessionMetadataSqlite,
   deleteProjectMetadataSqlite,
+  findOrphansSqlite,
+  deleteOrphansSqlite,
+  diagnoseStoreSqlite,
+  restoreTrashRowsSqlite,
   updateSessionTitleSqlite,
   moveSessionSqlite,
   copySessionSqlite,
+  exportSessionSqlite,
+  importSessionSqlite,
 } from "./opencode-data-sqlite"
+import {
+  findTrashEntry,
+  listTrashEntries,
+  matchTrashEntry,
+  purgeTrashEntries,
+  readTrashRows,
+  removeTrashEntry,
+  restoreJsonlTrashEntry,
+  type TrashEntry,
+  type TrashPurgeOptions,
+  type TrashRestoreResult,
+} from "./opencode-data-trash"
+import { readCacheEntry, writeCacheEntry } from "./opencode-data-cache"
+import { addCostBreakdown, addMessageCost, emptyCostBreakdown, pricingFingerprint } from "./pricing"
+import {
+  createSharedWatcher,
+  watchJsonlStore,
+  watchSqliteStore,
+  type StoreChangeListener,
+  type StoreWatchOptions,
+} from "./opencode-data-watch"
+import {
+  formatSnapshotNote,
+  releaseSqliteSnapshot,
+  takeSqliteSnapshot,
+  type SqliteSnapshot,
+} from "./opencode-data-snapshot"
+import type { NamedStore } from "./config"
 
 // ========================
 // Types
@@ -71,7 +135,7 @@ import {
 /**
  * Storage backend type.
  */
-export type StorageBackend = "jsonl" | "sqlite"
+export type StorageBackend = "jsonl" | "sqlite" | "merged"
 
 /**
  * Options for creating a data provider.
@@ -84,14 +148,14 @@ export interface DataProviderOptions {
 
   /**
    * Root directory for JSONL storage.
-   * Required when backend is "jsonl".
+   * Required when backend is "jsonl" or "merged".
    * Defaults to DEFAULT_ROOT (~/.local/share/opencode).
    */
   root?: string
 
   /**
    * Path to SQLite database file.
-   * Required when backend is "sqlite".
+   * Required when backend is "sqlite" or "merged".
    * Defaults to DEFAULT_SQLITE_PATH (~/.local/share/opencode/opencode.db).
    */
   dbPath?: string
@@ -112,6 +176,32 @@ export interface DataProviderOptions {
    * Optional warning sink for SQLite warnings.
    */
   onWarning?: (warning: string) => void
+
+  /**
+   * Fail on the first JSONL file the loaders would skip.
+   * Only applies when backend is "jsonl".
+   */
+  jsonlStrict?: boolean
+
+  /**
+   * Optional sink for JSONL files the loaders skip.
+   * Only applies when backend is "jsonl".
+   */
+  onJsonlWarning?: (warning: JsonlWarning) => void
+
+  /**
+   * Serve SQLite reads from a temporary copy of the database instead of the
+   * live file (see takeSqliteSnapshot). Writes are refused except dry runs.
+   * Only applies when backend is "sqlite" or "merged".
+   */
+  snapshot?: boolean
+
+  /**
+   * Delay between change scans for `watch` (milliseconds): full fallback
+   * rescans for JSONL (default DEFAULT_JSONL_RESCAN_INTERVAL_MS),
+   * data_version polls for SQLite (default DEFAULT_WATCH_INTERVAL_MS).
+   */
+  watchIntervalMs?: number
 }
 
 /**
@@ -133,6 +223,37 @@ export interface DataProvider {
    */
   readonly backend: StorageBackend
 
+  /**
+   * Where the data lives: the store root (JSONL), the database file (SQLite),
+   * or both joined with " + " (merged).
+   */
+  readonly location: string
+
+  /**
+   * The SQLite snapshot reads are served from, or null when reading the
+   * live store.
+   */
+  readonly snapshot: SqliteSnapshot | null
+
+  /**
+   * Replace the snapshot with a fresh copy of the live database. Returns
+   * null and does nothing when the provider is not reading a snapshot.
+   */
+  retakeSnapshot(): Promise<SqliteSnapshot | null>
+
+  /**
+   * Delete the snapshot's temporary copy once the provider is no longer
+   * used. Reads then fail until the snapshot is retaken. Does nothing when
+   * the provider is not reading a snapshot.
+   */
+  releaseSnapshot(): void
+
+  /**
+   * The single-backend provider that stores a record. Writes and backups
+   * must go through it. Returns this provider unless it is merged.
+   */
+  ownerOf(record: { source?: RecordSource }): DataProvider
+
   /**
    * Load all project records.
    */
@@ -168,6 +289,39 @@ export interface DataProvider {
    */
   deleteSessionMetadata(records: SessionRecord[], options?: DeleteOptions): Promise<DeleteResult>
 
+  /**
+   * Scan for dangling data (sessions without a project, messages without a
+   * session, parts without a message).
+   */
+  findOrphans(): Promise<OrphanRecord[]>
+
+  /**
+   * Delete orphans returned by findOrphans.
+   */
+  deleteOrphans(orphans: OrphanRecord[], options?: DeleteOptions): Promise<DeleteResult>
+
+  /**
+   * Check the store for unparsable records, bad timestamps and inconsistent
+   * references (plus integrity and schema checks for SQLite).
+   */
+  diagnose(options?: DoctorOptions): Promise<DoctorReport>
+
+  /**
+   * List trash entries created by deletes from this store, newest first.
+   */
+  listTrash(): Promise<TrashEntry[]>
+
+  /**
+   * Put the data of a trash entry back and remove the entry.
+   * Accepts an exact trash ID or a unique prefix.
+   */
+  restoreTrash(trashId: string): Promise<TrashRestoreResult>
+
+  /**
+   * Permanently remove trash entries older than the given age.
+   */
+  purgeTrash(options: TrashPurgeOptions): Promise<TrashEntry[]>
+
   /**
    * Update session title.
    */
@@ -183,11 +337,28 @@ export interface DataProvider {
    */
   copySession(session: SessionRecord, targetProjectId: string): Promise<SessionRecord>
 
+  /**
+   * Read a session with its messages and parts, for importing into another
+   * provider (possibly a different backend).
+   */
+  exportSession(session: SessionRecord): Promise<SessionExport>
+
+  /**
+   * Write an exported session into a project as a new session with fresh IDs.
+   */
+  importSession(data: SessionExport, targetProjectId: string, options?: ImportSessionOptions): Promise<SessionRecord>
+
   /**
    * Compute token summary for a single session.
    */
   computeSessionTokenSummary(session: SessionRecord): Promise<TokenSummary>
 
+  /**
+   * Compute token summaries for many sessions at once, in the order given.
+   * Same results as computeSessionTokenSummary for each session.
+   */
+  computeSessionTokenSummaries(sessions: SessionRecord[]): Promise<TokenSummary[]>
+
   /**
    * Compute aggregate token summary for a project.
    */
@@ -198,6 +369,27 @@ export interface DataProvider {
    */
   computeGlobalTokenSummary(sessions: SessionRecord[]): Promise<AggregateTokenSummary>
 
+  /**
+   * Split the token usage of sessions by model, provider or agent of their
+   * assistant messages. Sessions without known token data are only counted.
+   */
+  computeGroupedTokenSummary(sessions: SessionRecord[], by: TokenGroupBy): Promise<GroupedTokenSummary>
+
+  /**
+   * Bucket the token usage of sessions by day, week or month of their
+   * assistant messages' creation time. Sessions without known token data are
+   * only counted.
+   */
+  computeTokenTimeline(sessions: SessionRecord[], options: TokenTimelineOptions): Promise<TokenTimeline>
+
+  /**
+   * Return copies of the sessions with `stats` (models, agents, message and
+   * turn counts, cost, last activity) filled in from their messages. This
+   * reads every session's messages, so plain listings skip it; results are
+   * cached per session.
+   */
+  enrichSessionRecords(sessions: SessionRecord[]): Promise<SessionRecord[]>
+
   /**
    * Search chat content across sessions.
    */
@@ -206,6 +398,13 @@ export interface DataProvider {
     query: string,
     options?: { maxResults?: number }
   ): Promise<ChatSearchResult[]>
+
+  /**
+   * Subscribe to project, session and message changes made by any process.
+   * Listeners of one provider share a single watcher. Returns a function
+   * that unsubscribes.
+   */
+  watch(listener: StoreChangeListener, options?: StoreWatchOptions): () => void
 }
 
 // ========================
@@ -215,38 +414,84 @@ export interface DataProvider {
 /**
  * Create a JSONL-backed data provider.
  */
-function createJsonlProvider(root: string): DataProvider {
+function createJsonlProvider(root: string, options?: JsonlReadOptions & { watchIntervalMs?: number }): DataProvider {
   const normalizedRoot = resolve(root)
+  const readOptions: JsonlReadOptions = {
+    strict: options?.strict,
+    onWarning: options?.onWarning,
+  }
+  const watch = createSharedWatcher((emit, onError) =>
+    watchJsonlStore(normalizedRoot, emit, onError, options?.watchIntervalMs)
+  )
 
   return {
     backend: "jsonl",
+    location: normalizedRoot,
+    snapshot: null,
+
+    async retakeSnapshot() {
+      return null
+    },
+
+    releaseSnapshot() {},
+
+    ownerOf() {
+      return this
+    },
 
     async loadProjectRecords() {
-      return loadProjectRecords({ root: normalizedRoot })
+      return loadProjectRecords({ ...readOptions, root: normalizedRoot })
     },
 
     async loadSessionRecords(options?: SessionLoadOptions) {
-      return loadSessionRecords({ root: normalizedRoot, projectId: options?.projectId })
+      return loadSessionRecords({ ...readOptions, root: normalizedRoot, projectId: options?.projectId })
     },
 
     async loadSessionChatIndex(sessionId: string) {
-      return loadSessionChatIndex(sessionId, normalizedRoot)
+      return loadSessionChatIndex(sessionId, normalizedRoot, readOptions)
     },
 
     async loadMessageParts(messageId: string) {
-      return loadMessageParts(messageId, normalizedRoot)
+      return loadMessageParts(messageId, normalizedRoot, readOptions)
     },
 
     async hydrateChatMessageParts(message: ChatMessage) {
-      return hydrateChatMessageParts(message, normalizedRoot)
+      return hydrateChatMessageParts(message, normalizedRoot, readOptions)
     },
 
     async deleteProjectMetadata(records: ProjectRecord[], options?: DeleteOptions) {
-      return deleteProjectMetadata(records, options)
+      return deleteProjectMetadata(records, { ...options, root: normalizedRoot }, readOptions)
     },
 
     async deleteSessionMetadata(records: SessionRecord[], options?: DeleteOptions) {
-      return deleteSessionMetadata(records, options)
+      return deleteSessionMetadata(records, { ...options, root: normalizedRoot })
+    },
+
+    async findOrphans() {
+      return findOrphans(normalizedRoot, readOptions)
+    },
+
+    async deleteOrphans(orphans: OrphanRecord[], options?: DeleteOptions) {
+      return deleteOrphans(orphans, { ...options, root: normalizedRoot })
+    },
+
+    async diagnose(options?: DoctorOptions) {
+      return diagnoseStore(normalizedRoot, options)
+    },
+
+    async listTrash() {
+      return listTrashEntries("jsonl", normalizedRoot)
+    },
+
+    async restoreTrash(trashId: string) {
+      const entry = await findTrashEntry("jsonl", normalizedRoot, trashId)
+      const restored = await restoreJsonlTrashEntry(entry)
+      await removeTrashEntry(entry)
+      return { entry, restored }
+    },
+
+    async purgeTrash(options: TrashPurgeOptions) {
+      return purgeTrashEntries("jsonl", normalizedRoot, options)
     },
 
     async updateSessionTitle(session: SessionRecord, newTitle: string) {
@@ -261,10 +506,22 @@ function createJsonlProvider(root: string): DataProvider {
       return copySession(session, targetProjectId, normalizedRoot)
     },
 
+    async exportSession(session: SessionRecord) {
+      return exportSession(session, normalizedRoot)
+    },
+
+    async importSession(data: SessionExport, targetProjectId: string, options?: ImportSessionOptions) {
+      return importSession(data, targetProjectId, normalizedRoot, options)
+    },
+
     async computeSessionTokenSummary(session: SessionRecord) {
       return computeSessionTokenSummary(session, normalizedRoot)
     },
 
+    async computeSessionTokenSummaries(sessions: SessionRecord[]) {
+      return computeSessionTokenSummaries(sessions, normalizedRoot)
+    },
+
     async computeProjectTokenSummary(projectId: string, sessions: SessionRecord[]) {
       return computeProjectTokenSummary(projectId, sessions, normalizedRoot)
     },
@@ -273,13 +530,27 @@ function createJsonlProvider(root: string): DataProvider {
       return computeGlobalTokenSummary(sessions, normalizedRoot)
     },
 
+    async computeGroupedTokenSummary(sessions: SessionRecord[], by: TokenGroupBy) {
+      return computeGroupedTokenSummary(sessions, by, normalizedRoot, readOptions)
+    },
+
+    async computeTokenTimeline(sessions: SessionRecord[], options: TokenTimelineOptions) {
+      return computeTokenTimeline(sessions, options, normalizedRoot, readOptions)
+    },
+
+    async enrichSessionRecords(sessions: SessionRecord[]) {
+      return enrichSessionRecords(sessions, normalizedRoot, readOptions)
+    },
+
     async searchSessionsChat(
       sessions: SessionRecord[],
       query: string,
       options?: { maxResults?: number }
     ) {
-      return searchSessionsChat(sessions, query, normalizedRoot, options)
+      return searchSessionsChat(sessions, query, normalizedRoot, { ...readOptions, ...options })
     },
+
+    watch,
   }
 }
 
@@ -324,26 +595,174 @@ async function hydrateChatMessagePartsSqlite(
   }
 }
 
+/**
+ * Sum token telemetry and cost from a session's assistant messages (SQLite version).
+ */
+async function computeSessionTokenSummarySqlite(
+  session: SessionRecord,
+  readOptions: { db: string; strict?: boolean; onWarning?: (warning: string) => void }
+): Promise<TokenSummary> {
+  const messages = await loadSessionChatIndexSqlite({
+    ...readOptions,
+    sessionId: session.sessionId,
+  })
+
+  if (messages.length === 0) {
+    return { kind: "unknown", reason: "no_messages" }
+  }
+
+  // Sum tokens from assistant messages
+  let totalInput = 0
+  let totalOutput = 0
+  let totalReasoning = 0
+  let totalCacheRead = 0
+  let totalCacheWrite = 0
+  const cost = emptyCostBreakdown()
+  let foundAnyAssistant = false
+
+  for (const message of messages) {
+    if (message.role !== "assistant") continue
+    foundAnyAssistant = true
+
+    if (!message.tokens) {
+      return { kind: "unknown", reason: "missing" }
+    }
+
+    totalInput += message.tokens.input
+    totalOutput += message.tokens.output
+    totalReasoning += message.tokens.reasoning
+    totalCacheRead += message.tokens.cacheRead
+    totalCacheWrite += message.tokens.cacheWrite
+    addMessageCost(cost, { ...message, tokens: message.tokens })
+  }
+
+  if (!foundAnyAssistant) {
+    return { kind: "unknown", reason: "no_messages" }
+  }
+
+  return {
+    kind: "known",
+    tokens: {
+      input: totalInput,
+      output: totalOutput,
+      reasoning: totalReasoning,
+      cacheRead: totalCacheRead,
+      cacheWrite: totalCacheWrite,
+      total: totalInput + totalOutput + totalReasoning + totalCacheRead + totalCacheWrite,
+    },
+    cost,
+  }
+}
+
+/**
+ * Token summaries of many sessions (SQLite version), in the order given.
+ * Summaries are kept in the index cache keyed by the session's updated_at and
+ * the pricing table. The misses are summed by one aggregate query; sessions
+ * it cannot summarize exactly are read from the chat index instead.
+ */
+async function computeSessionTokenSummariesSqlite(
+  sessions: SessionRecord[],
+  readOptions: { db: string; strict?: boolean; onWarning?: (warning: string) => void },
+  store: string
+): Promise<TokenSummary[]> {
+  const fingerprints = sessions.map(
+    (session) => `${session.updatedAt?.getTime() ?? session.createdAt?.getTime() ?? 0}:${pricingFingerprint()}`
+  )
+  const summaries = sessions.map((session, i) =>
+    readCacheEntry<TokenSummary>("tokens", store, session.sessionId, fingerprints[i])
+  )
+  const misses = sessions.filter((_, i) => !summaries[i])
+  if (misses.length === 0) {
+    return summaries as TokenSummary[]
+  }
+
+  const bulk = await loadSessionTokenSummariesSqlite({
+    ...readOptions,
+    sessionIds: [...new Set(misses.map((session) => session.sessionId))],
+  })
+  for (const [i, session] of sessions.entries()) {
+    if (summaries[i]) {
+      continue
+    }
+    const summary = bulk?.get(session.sessionId) ?? (await computeSessionTokenSummarySqlite(session, readOptions))
+    writeCacheEntry("tokens", store, session.sessionId, fingerprints[i], summary)
+    summaries[i] = summary
+  }
+  return summaries as TokenSummary[]
+}
+
 /**
  * Create a SQLite-backed data provider.
  */
 function createSqliteProvider(
   dbPath: string,
-  options?: { strict?: boolean; forceWrite?: boolean; onWarning?: (warning: string) => void }
+  options?: {
+    strict?: boolean
+    forceWrite?: boolean
+    onWarning?: (warning: string) => void
+    snapshot?: boolean
+    watchIntervalMs?: number
+  }
 ): DataProvider {
   const normalizedDbPath = resolve(dbPath)
+  let snapshot = options?.snapshot ? takeSqliteSnapshot(normalizedDbPath) : null
+  let released = false
+  // Reads follow the current snapshot; the cache and trash stay keyed by the live path
   const readOptions = {
-    db: normalizedDbPath,
+    get db() {
+      if (released) {
+        throw new Error(
+          `The snapshot of "${normalizedDbPath}" was released. Retake it or create a new provider to read again.`
+        )
+      }
+      return snapshot?.path ?? normalizedDbPath
+    },
     strict: options?.strict,
     onWarning: options?.onWarning,
   }
-  const writeOptions = {
-    ...readOptions,
-    forceWrite: options?.forceWrite,
+  // Snapshots are read-only; dry runs are served from the copy like other reads
+  const writeOptions = (dryRun?: boolean) => {
+    if (options?.snapshot && !dryRun) {
+      throw new Error("Cannot modify the database while reading a snapshot. Rerun without --snapshot.")
+    }
+    return { ...readOptions, forceWrite: options?.forceWrite }
   }
+  const watch = createSharedWatcher((emit, onError) =>
+    watchSqliteStore(normalizedDbPath, emit, onError, options?.watchIntervalMs)
+  )
 
   return {
     backend: "sqlite",
+    location: normalizedDbPath,
+
+    get snapshot() {
+      return snapshot
+    },
+
+    async retakeSnapshot() {
+      if (!options?.snapshot) {
+        return null
+      }
+      const next = takeSqliteSnapshot(normalizedDbPath)
+      if (snapshot) {
+        releaseSqliteSnapshot(snapshot)
+      }
+      snapshot = next
+      released = false
+      return next
+    },
+
+    releaseSnapshot() {
+      if (snapshot) {
+        releaseSqliteSnapshot(snapshot)
+        snapshot = null
+        released = true
+      }
+    },
+
+    ownerOf() {
+      return this
+    },
 
     async loadProjectRecords() {
       return loadProjectRecordsSqlite(readOptions)
@@ -371,22 +790,55 @@ function createSqliteProvider(
     async deleteProjectMetadata(records: ProjectRecord[], options?: DeleteOptions) {
       const projectIds = records.map(r => r.projectId)
       return deleteProjectMetadataSqlite(projectIds, {
-        ...writeOptions,
+        ...writeOptions(options?.dryRun),
         dryRun: options?.dryRun,
+        trash: options?.trash,
       })
     },
 
     async deleteSessionMetadata(records: SessionRecord[], options?: DeleteOptions) {
       const sessionIds = records.map(r => r.sessionId)
       return deleteSessionMetadataSqlite(sessionIds, {
-        ...writeOptions,
+        ...writeOptions(options?.dryRun),
         dryRun: options?.dryRun,
+        trash: options?.trash,
       })
     },
 
+    async findOrphans() {
+      return findOrphansSqlite(readOptions)
+    },
+
+    async deleteOrphans(orphans: OrphanRecord[], options?: DeleteOptions) {
+      return deleteOrphansSqlite(orphans, {
+        ...writeOptions(options?.dryRun),
+        dryRun: options?.dryRun,
+      })
+    },
+
+    async diagnose(options?: DoctorOptions) {
+      return diagnoseStoreSqlite({ ...readOptions, ...options })
+    },
+
+    async listTrash() {
+      return listTrashEntries("sqlite", normalizedDbPath)
+    },
+
+    async restoreTrash(trashId: string) {
+      const target = writeOptions()
+      const entry = await findTrashEntry("sqlite", normalizedDbPath, trashId)
+      const restored = await restoreTrashRowsSqlite(await readTrashRows(entry), target)
+      await removeTrashEntry(entry)
+      return { entry, restored }
+    },
+
+    async purgeTrash(options: TrashPurgeOptions) {
+      return purgeTrashEntries("sqlite", normalizedDbPath, options)
+    },
+
     async updateSessionTitle(session: SessionRecord, newTitle: string) {
       return updateSessionTitleSqlite({
-        ...writeOptions,
+        ...writeOptions(),
         sessionId: session.sessionId,
         newTitle,
       })
@@ -394,7 +846,7 @@ function createSqliteProvider(
 
     async moveSession(session: SessionRecord, targetProjectId: string) {
       return moveSessionSqlite({
-        ...writeOptions,
+        ...writeOptions(),
         sessionId: session.sessionId,
         targetProjectId,
       })
@@ -402,62 +854,29 @@ function createSqliteProvider(
 
     async copySession(session: SessionRecord, targetProjectId: string) {
       return copySessionSqlite({
-        ...writeOptions,
+        ...writeOptions(),
         sessionId: session.sessionId,
         targetProjectId,
       })
     },
 
-    // Token computation: Use SQLite data loading but same computation logic
-    async computeSessionTokenSummary(session: SessionRecord) {
-      // Load messages from SQLite
-      const messages = await loadSessionChatIndexSqlite({
-        ...readOptions,
-        sessionId: session.sessionId,
-      })
-
-      if (messages.length === 0) {
-        return { kind: "unknown", reason: "no_messages" } as const
-      }
-
-      // Sum tokens from assistant messages
-      let totalInput = 0
-      let totalOutput = 0
-      let totalReasoning = 0
-      let totalCacheRead = 0
-      let totalCacheWrite = 0
-      let foundAnyAssistant = false
-
-      for (const message of messages) {
-        if (message.role !== "assistant") continue
-        foundAnyAssistant = true
-
-        if (!message.tokens) {
-          return { kind: "unknown", reason: "missing" } as const
-        }
+    async exportSession(session: SessionRecord) {
+      return exportSessionSqlite({ ...readOptions, sessionId: session.sessionId })
+    },
 
-        totalInput += message.tokens.input
-        totalOutput += message.tokens.output
-        totalReasoning += message.tokens.reasoning
-        totalCacheRead += message.tokens.cacheRead
-        totalCacheWrite += message.tokens.cacheWrite
-      }
+    async importSession(data: SessionExport, targetProjectId: string, options?: ImportSessionOptions) {
+      return importSessionSqlite(data, { ...writeOptions(), targetProjectId, parentId: options?.parentId })
+    },
 
-      if (!foundAnyAssistant) {
-        return { kind: "unknown", reason: "no_messages" } as const
-      }
+    // Token computation: per-session summaries are summed in SQL for a whole
+    // session list at once, and project and global totals add them up.
+    async computeSessionTokenSummary(session: SessionRecord) {
+      const [summary] = await computeSessionTokenSummariesSqlite([session], readOptions, normalizedDbPath)
+      return summary
+    },
 
-      return {
-        kind: "known",
-        tokens: {
-          input: totalInput,
-          output: totalOutput,
-          reasoning: totalReasoning,
-          cacheRead: totalCacheRead,
-          cacheWrite: totalCacheWrite,
-          total: totalInput + totalOutput + totalReasoning + totalCacheRead + totalCacheWrite,
-        },
-      } as const
+    async computeSessionTokenSummaries(sessions: SessionRecord[]) {
+      return computeSessionTokenSummariesSqlite(sessions, readOptions, normalizedDbPath)
     },
 
     async computeProjectTokenSummary(projectId: string, sessions: SessionRecord[]) {
@@ -469,6 +888,56 @@ function createSqliteProvider(
       return computeAggregateSqlite(sessions, this)
     },
 
+    // Messages of sessions with known tokens are summed by one GROUP BY query;
+    // schemas that keep tokens outside the JSON fall back to the chat index.
+    async computeGroupedTokenSummary(sessions: SessionRecord[], by: TokenGroupBy) {
+      const summaries = await this.computeSessionTokenSummaries(sessions)
+      const known = sessions.filter((_, i) => summaries[i].kind === "known")
+      const unknownSessions = sessions.length - known.length
+      if (known.length === 0) {
+        return groupTokenUsage([], by, unknownSessions)
+      }
+      const usage = await loadTokenUsageSqlite({ ...readOptions, sessionIds: known.map((session) => session.sessionId) })
+      if (usage) {
+        return groupTokenUsage(usage, by, unknownSessions)
+      }
+      const perSession = await Promise.all(
+        known.map((session) => loadSessionChatIndexSqlite({ ...readOptions, sessionId: session.sessionId }))
+      )
+      return groupTokenUsage(perSession.flatMap(messageTokenUsage), by, unknownSessions)
+    },
+
+    // Bucketing needs each message's creation time, so this reads the chat index
+    async computeTokenTimeline(sessions: SessionRecord[], options: TokenTimelineOptions) {
+      const summaries = await this.computeSessionTokenSummaries(sessions)
+      const known = sessions.filter((_, i) => summaries[i].kind === "known")
+      const perSession = await Promise.all(
+        known.map((session) => loadSessionChatIndexSqlite({ ...readOptions, sessionId: session.sessionId }))
+      )
+      return bucketTokenUsage(perSession.flatMap(messageTokenUsage), options, sessions.length - known.length)
+    },
+
+    // Stats are kept in the index cache keyed by the session's updated_at, like token summaries
+    async enrichSessionRecords(sessions: SessionRecord[]) {
+      const enriched: SessionRecord[] = []
+      for (const session of sessions) {
+        const fingerprint = String(session.updatedAt?.getTime() ?? session.createdAt?.getTime() ?? 0)
+        const cached = readCacheEntry<CachedSessionStats>("stats", normalizedDbPath, session.sessionId, fingerprint)
+        let stats: SessionStats
+        if (cached) {
+          stats = { ...cached, lastMessageAt: cached.lastMessageAt === null ? null : new Date(cached.lastMessageAt) }
+        } else {
+          stats = summarizeSessionMessages(
+            await loadSessionChatIndexSqlite({ ...readOptions, sessionId: session.sessionId })
+          )
+          const entry: CachedSessionStats = { ...stats, lastMessageAt: stats.lastMessageAt?.getTime() ?? null }
+          writeCacheEntry("stats", normalizedDbPath, session.sessionId, fingerprint, entry)
+        }
+        enriched.push({ ...session, stats })
+      }
+      return enriched
+    },
+
     // Search: Use SQLite data loading but same search logic
     async searchSessionsChat(
       sessions: SessionRecord[],
@@ -536,11 +1005,22 @@ function createSqliteProvider(
 
       return results
     },
+
+    watch(listener: StoreChangeListener, watchOptions?: StoreWatchOptions) {
+      // A snapshot only changes when retaken, and the live database is left alone
+      return options?.snapshot ? () => {} : watch(listener, watchOptions)
+    },
   }
 }
 
 /**
- * Helper to compute aggregate token summary for SQLite provider.
+ * Session stats as stored in the index cache.
+ */
+type CachedSessionStats = Omit<SessionStats, "lastMessageAt"> & { lastMessageAt: number | null }
+
+/**
+ * Helper to compute aggregate token summary for the SQLite and merged
+ * providers, from per-session summaries fetched in one batch.
  */
 async function computeAggregateSqlite(
   sessions: SessionRecord[],
@@ -558,6 +1038,7 @@ async function computeAggregateSqlite(
         total: 0,
       },
       unknownSessions: 0,
+      cost: emptyCostBreakdown(),
     }
   }
 
@@ -569,10 +1050,10 @@ async function computeAggregateSqlite(
     cacheWrite: 0,
     total: 0,
   }
+  let cost = emptyCostBreakdown()
   let unknownSessions = 0
 
-  for (const session of sessions) {
-    const summary = await provider.computeSessionTokenSummary(session)
+  for (const summary of await provider.computeSessionTokenSummaries(sessions)) {
     if (summary.kind === "known") {
       knownOnly.input += summary.tokens.input
       knownOnly.output += summary.tokens.output
@@ -580,6 +1061,9 @@ async function computeAggregateSqlite(
       knownOnly.cacheRead += summary.tokens.cacheRead
       knownOnly.cacheWrite += summary.tokens.cacheWrite
       knownOnly.total += summary.tokens.total
+      if (summary.cost) {
+        cost = addCostBreakdown(cost, summary.cost)
+      }
     } else {
       unknownSessions += 1
     }
@@ -598,16 +1082,326 @@ async function computeAggregateSqlite(
         total: 0,
       },
       unknownSessions,
+      cost: emptyCostBreakdown(),
     }
   }
 
   return {
-    total: { kind: "known", tokens: { ...knownOnly } },
+    total: { kind: "known", tokens: { ...knownOnly }, cost: { ...cost } },
     knownOnly,
     unknownSessions,
+    cost,
   }
 }
 
+// ========================
+// Merged Provider Implementation
+// ========================
+
+function getRecordTime(date: Date | null | undefined): number {
+  return date?.getTime() ?? 0
+}
+
+function reindex<T extends { index: number }>(records: T[]): T[] {
+  return records.map((record, idx) => ({ ...record, index: idx + 1 }))
+}
+
+/**
+ * Union records from both stores, keeping one record per ID. The record with
+ * the newer timestamp wins; on a tie the SQLite record (the newer OpenCode
+ * format) wins.
+ */
+function mergeById<T>(
+  jsonlRecords: T[],
+  sqliteRecords: T[],
+  idOf: (record: T) => string,
+  timeOf: (record: T) => number
+): (T & { source: RecordSource })[] {
+  const merged = new Map<string, T & { source: RecordSource }>()
+  for (const record of jsonlRecords) {
+    merged.set(idOf(record), { ...record, source: "jsonl" })
+  }
+  for (const record of sqliteRecords) {
+    const existing = merged.get(idOf(record))
+    if (!existing || timeOf(record) >= timeOf(existing)) {
+      merged.set(idOf(record), { ...record, source: "sqlite" })
+    }
+  }
+  return [...merged.values()]
+}
+
+/**
+ * Combine the results of deletes routed to both stores. When both stores
+ * moved data into the trash, the first trash entry is reported.
+ */
+function combineDeleteResults(results: DeleteResult[]): DeleteResult {
+  return {
+    removed: results.flatMap((result) => result.removed),
+    failed: results.flatMap((result) => result.failed),
+    trashId: results.find((result) => result.trashId)?.trashId,
+  }
+}
+
+/**
+ * Create a provider that reads a JSONL store and a SQLite database together.
+ *
+ * Projects and sessions are unioned and deduped by ID (see mergeById); each
+ * record carries its `source`. Chat, token and write operations are routed
+ * to the store that owns the record.
+ */
+function createMergedProvider(jsonl: DataProvider, sqlite: DataProvider): DataProvider {
+  const owner = (record: { source?: RecordSource }) => (record.source === "sqlite" ? sqlite : jsonl)
+  const sessionOwners = new Map<string, DataProvider>()
+  const messageOwners = new Map<string, DataProvider>()
+
+  // Route to the store that owns a session, loading the session list on first use
+  const ownerOfSession = async (sessionId: string): Promise<DataProvider> => {
+    if (!sessionOwners.has(sessionId)) {
+      await merged.loadSessionRecords()
+    }
+    return sessionOwners.get(sessionId) ?? jsonl
+  }
+
+  // Split records by owning store, skipping stores with nothing to do
+  const partition = <T extends { source?: RecordSource }>(records: T[]): [DataProvider, T[]][] =>
+    ([jsonl, sqlite] as const)
+      .map((provider): [DataProvider, T[]] => [provider, records.filter((record) => owner(record) === provider)])
+      .filter(([, group]) => group.length > 0)
+
+  const annotate = <T>(record: T, provider: DataProvider): T & { source: RecordSource } => ({
+    ...record,
+    source: provider === sqlite ? "sqlite" : "jsonl",
+  })
+
+  const merged: DataProvider = {
+    backend: "merged",
+    location: `${jsonl.location} + ${sqlite.location}`,
+
+    get snapshot() {
+      return sqlite.snapshot
+    },
+
+    async retakeSnapshot() {
+      return sqlite.retakeSnapshot()
+    },
+
+    releaseSnapshot() {
+      sqlite.releaseSnapshot()
+    },
+
+    ownerOf(record: { source?: RecordSource }) {
+      return owner(record)
+    },
+
+    async loadProjectRecords() {
+      const [jsonlProjects, sqliteProjects] = await Promise.all([jsonl.loadProjectRecords(), sqlite.loadProjectRecords()])
+      const projects = mergeById(jsonlProjects, sqliteProjects, (p) => p.projectId, (p) => getRecordTime(p.createdAt))
+      projects.sort(
+        (a, b) => getRecordTime(b.createdAt) - getRecordTime(a.createdAt) || a.projectId.localeCompare(b.projectId)
+      )
+      return reindex(projects)
+    },
+
+    async loadSessionRecords(options?: SessionLoadOptions) {
+      const [jsonlSessions, sqliteSessions] = await Promise.all([
+        jsonl.loadSessionRecords(options),
+        sqlite.loadSessionRecords(options),
+      ])
+      const timeOf = (s: SessionRecord) => getRecordTime(s.updatedAt ?? s.createdAt)
+      const sessions = mergeById(jsonlSessions, sqliteSessions, (s) => s.sessionId, timeOf)
+      sessions.sort((a, b) => timeOf(b) - timeOf(a) || a.sessionId.localeCompare(b.sessionId))
+      for (const session of sessions) {
+        sessionOwners.set(session.sessionId, owner(session))
+      }
+      return reindex(sessions)
+    },
+
+    async loadSessionChatIndex(sessionId: string) {
+      const provider = await ownerOfSession(sessionId)
+      const messages = await provider.loadSessionChatIndex(sessionId)
+      for (const message of messages) {
+        messageOwners.set(message.messageId, provider)
+      }
+      return messages
+    },
+
+    async loadMessageParts(messageId: string) {
+      const provider = messageOwners.get(messageId)
+      if (provider) {
+        return provider.loadMessageParts(messageId)
+      }
+      const parts = await jsonl.loadMessageParts(messageId)
+      return parts.length > 0 ? parts : sqlite.loadMessageParts(messageId)
+    },
+
+    async hydrateChatMessageParts(message: ChatMessage) {
+      return (await ownerOfSession(message.sessionId)).hydrateChatMessageParts(message)
+    },
+
+    async deleteProjectMetadata(records: ProjectRecord[], options?: DeleteOptions) {
+      const results: DeleteResult[] = []
+      for (const [provider, group] of partition(records)) {
+        results.push(await provider.deleteProjectMetadata(group, options))
+      }
+      return combineDeleteResults(results)
+    },
+
+    async deleteSessionMetadata(records: SessionRecord[], options?: DeleteOptions) {
+      const results: DeleteResult[] = []
+      for (const [provider, group] of partition(records)) {
+        results.push(await provider.deleteSessionMetadata(group, options))
+      }
+      return combineDeleteResults(results)
+    },
+
+    async findOrphans() {
+      const [jsonlOrphans, sqliteOrphans] = await Promise.all([jsonl.findOrphans(), sqlite.findOrphans()])
+      return [
+        ...jsonlOrphans.map((orphan) => annotate(orphan, jsonl)),
+        ...sqliteOrphans.map((orphan) => annotate(orphan, sqlite)),
+      ]
+    },
+
+    async deleteOrphans(orphans: OrphanRecord[], options?: DeleteOptions) {
+      const results: DeleteResult[] = []
+      for (const [provider, group] of partition(orphans)) {
+        results.push(await provider.deleteOrphans(group, options))
+      }
+      return combineDeleteResults(results)
+    },
+
+    async diagnose(options?: DoctorOptions) {
+      const reports = [await jsonl.diagnose(options), await sqlite.diagnose(options)]
+      return {
+        backend: "merged",
+        location: merged.location,
+        scanned: {
+          project: reports[0].scanned.project + reports[1].scanned.project,
+          session: reports[0].scanned.session + reports[1].scanned.session,
+          message: reports[0].scanned.message + reports[1].scanned.message,
+          part: reports[0].scanned.part + reports[1].scanned.part,
+        },
+        issues: reports.flatMap((report) => report.issues),
+      }
+    },
+
+    async listTrash() {
+      const entries = [...(await jsonl.listTrash()), ...(await sqlite.listTrash())]
+      entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt) || b.id.localeCompare(a.id))
+      return entries
+    },
+
+    async restoreTrash(trashId: string) {
+      const entry = matchTrashEntry(await merged.listTrash(), trashId)
+      return (entry.backend === "sqlite" ? sqlite : jsonl).restoreTrash(entry.id)
+    },
+
+    async purgeTrash(options: TrashPurgeOptions) {
+      return [...(await jsonl.purgeTrash(options)), ...(await sqlite.purgeTrash(options))]
+    },
+
+    async updateSessionTitle(session: SessionRecord, newTitle: string) {
+      return owner(session).updateSessionTitle(session, newTitle)
+    },
+
+    async moveSession(session: SessionRecord, targetProjectId: string) {
+      const provider = owner(session)
+      return annotate(await provider.moveSession(session, targetProjectId), provider)
+    },
+
+    async copySession(session: SessionRecord, targetProjectId: string) {
+      const provider = owner(session)
+      const copy = annotate(await provider.copySession(session, targetProjectId), provider)
+      sessionOwners.set(copy.sessionId, provider)
+      return copy
+    },
+
+    async exportSession(session: SessionRecord) {
+      return owner(session).exportSession(session)
+    },
+
+    // Imports go to the store that owns the target project (JSONL if neither does)
+    async importSession(data: SessionExport, targetProjectId: string, options?: ImportSessionOptions) {
+      const project = (await merged.loadProjectRecords()).find((p) => p.projectId === targetProjectId)
+      const provider = project ? owner(project) : jsonl
+      const copy = annotate(await provider.importSession(data, targetProjectId, options), provider)
+      sessionOwners.set(copy.sessionId, provider)
+      return copy
+    },
+
+    async computeSessionTokenSummary(session: SessionRecord) {
+      return owner(session).computeSessionTokenSummary(session)
+    },
+
+    async computeSessionTokenSummaries(sessions: SessionRecord[]) {
+      const summaries = new Map<SessionRecord, TokenSummary>()
+      for (const [provider, group] of partition(sessions)) {
+        const results = await provider.computeSessionTokenSummaries(group)
+        group.forEach((session, i) => summaries.set(session, results[i]))
+      }
+      return sessions.map((session) => summaries.get(session) as TokenSummary)
+    },
+
+    async computeProjectTokenSummary(projectId: string, sessions: SessionRecord[]) {
+      return computeAggregateSqlite(sessions.filter((s) => s.projectId === projectId), merged)
+    },
+
+    async computeGlobalTokenSummary(sessions: SessionRecord[]) {
+      return computeAggregateSqlite(sessions, merged)
+    },
+
+    async computeGroupedTokenSummary(sessions: SessionRecord[], by: TokenGroupBy) {
+      const summaries: GroupedTokenSummary[] = []
+      for (const [provider, group] of partition(sessions)) {
+        summaries.push(await provider.computeGroupedTokenSummary(group, by))
+      }
+      return mergeGroupedTokenSummaries(summaries, by)
+    },
+
+    async computeTokenTimeline(sessions: SessionRecord[], options: TokenTimelineOptions) {
+      const timelines: TokenTimeline[] = []
+      for (const [provider, group] of partition(sessions)) {
+        timelines.push(await provider.computeTokenTimeline(group, options))
+      }
+      return mergeTokenTimelines(timelines, options)
+    },
+
+    async enrichSessionRecords(sessions: SessionRecord[]) {
+      const enriched = new Map<SessionRecord, SessionRecord>()
+      for (const [provider, group] of partition(sessions)) {
+        const results = await provider.enrichSessionRecords(group)
+        group.forEach((session, i) => enriched.set(session, results[i]))
+      }
+      return sessions.map((session) => enriched.get(session) ?? session)
+    },
+
+    async searchSessionsChat(
+      sessions: SessionRecord[],
+      query: string,
+      options?: { maxResults?: number }
+    ) {
+      const maxResults = options?.maxResults ?? 100
+      const results: ChatSearchResult[] = []
+      for (const [provider, group] of partition(sessions)) {
+        if (results.length >= maxResults) break
+        results.push(...(await provider.searchSessionsChat(group, query, { maxResults: maxResults - results.length })))
+      }
+      return results
+    },
+
+    watch(listener: StoreChangeListener, options?: StoreWatchOptions) {
+      const unsubscribes = [jsonl.watch(listener, options), sqlite.watch(listener, options)]
+      return () => {
+        for (const unsubscribe of unsubscribes) {
+          unsubscribe()
+        }
+      }
+    },
+  }
+
+  return merged
+}
+
 // ========================
 // Factory Function
 // ========================
@@ -629,30 +1423,45 @@ async function computeAggregateSqlite(
  *   backend: 'sqlite',
  *   dbPath: '~/.local/share/opencode/opencode.db'
  * })
+ *
+ * // Both stores at once
+ * const mergedProvider = createProvider({ backend: 'merged' })
  * ```
  */
 export function createProvider(options: DataProviderOptions = {}): DataProvider {
   const backend = options.backend ?? "jsonl"
 
   // Validate backend value
-  if (backend !== "jsonl" && backend !== "sqlite") {
+  if (backend !== "jsonl" && backend !== "sqlite" && backend !== "merged") {
     throw new Error(
-      `Invalid storage backend: "${backend}". Must be "jsonl" or "sqlite".`
+      `Invalid storage backend: "${backend}". Must be "jsonl", "sqlite" or "merged".`
     )
   }
 
-  if (backend === "sqlite") {
-    const dbPath = options.dbPath ?? DEFAULT_SQLITE_PATH
-    return createSqliteProvider(dbPath, {
+  const sqliteProvider = () =>
+    createSqliteProvider(options.dbPath ?? DEFAULT_SQLITE_PATH, {
       strict: options.sqliteStrict,
       forceWrite: options.forceWrite,
       onWarning: options.onWarning,
+      snapshot: options.snapshot,
+      watchIntervalMs: options.watchIntervalMs,
+    })
+  const jsonlProvider = () =>
+    createJsonlProvider(options.root ?? DEFAULT_ROOT, {
+      strict: options.jsonlStrict,
+      onWarning: options.onJsonlWarning,
+      watchIntervalMs: options.watchIntervalMs,
     })
+
+  if (backend === "sqlite") {
+    return sqliteProvider()
+  }
+  if (backend === "merged") {
+    return createMergedProvider(jsonlProvider(), sqliteProvider())
   }
 
   // JSONL backend (default)
-  const root = options.root ?? DEFAULT_ROOT
-  return createJsonlProvider(root)
+  return jsonlProvider()
 }
 
 function getLatestJsonlSessionTime(root: string): number | null {
@@ -735,24 +1544,70 @@ function getLatestSqliteSessionTime(dbPath: string): number | null {
  * Create a data provider from CLI global options.
  *
  * This is a convenience function for CLI commands to create a provider
- * based on the parsed global options (experimentalSqlite, dbPath, root).
+ * based on the parsed global options (merged, experimentalSqlite, dbPath, root, jsonlStrict).
+ * `merged` reads the JSONL root and the database (default path unless dbPath is set) together.
+ * With `snapshot`, SQLite reads come from a temporary copy and the time it was
+ * taken is written to stderr unless `quiet` is set.
  *
  * @param globalOptions - Parsed CLI global options.
  * @returns A DataProvider instance.
  */
 export function createProviderFromGlobalOptions(globalOptions: {
+  merged?: boolean
   experimentalSqlite?: boolean
   dbPath?: string
   root?: string
   sqliteStrict?: boolean
+  jsonlStrict?: boolean
   forceWrite?: boolean
+  snapshot?: boolean
+  quiet?: boolean
 }): DataProvider {
+  const provider = resolveProviderFromGlobalOptions(globalOptions)
+  if (provider.snapshot && !globalOptions.quiet) {
+    console.error(formatSnapshotNote(provider.snapshot))
+  }
+  return provider
+}
+
+/**
+ * Create a data provider for a named store from the config file's registry.
+ * The store's strictness applies to both backends.
+ */
+export function createProviderForStore(
+  store: NamedStore,
+  options?: Pick<DataProviderOptions, "forceWrite" | "snapshot" | "onWarning" | "onJsonlWarning" | "watchIntervalMs">
+): DataProvider {
+  return createProvider({
+    ...options,
+    backend: store.backend,
+    root: store.root,
+    dbPath: store.dbPath,
+    sqliteStrict: store.strict,
+    jsonlStrict: store.strict,
+  })
+}
+
+function resolveProviderFromGlobalOptions(globalOptions: Parameters<typeof createProviderFromGlobalOptions>[0]): DataProvider {
+  if (globalOptions.merged) {
+    return createProvider({
+      backend: "merged",
+      root: globalOptions.root,
+      dbPath: globalOptions.dbPath,
+      sqliteStrict: globalOptions.sqliteStrict,
+      jsonlStrict: globalOptions.jsonlStrict,
+      forceWrite: globalOptions.forceWrite,
+      snapshot: globalOptions.snapshot,
+    })
+  }
+
   if (globalOptions.experimentalSqlite || globalOptions.dbPath) {
     return createProvider({
       backend: "sqlite",
       dbPath: globalOptions.dbPath,
       sqliteStrict: globalOptions.sqliteStrict,
       forceWrite: globalOptions.forceWrite,
+      snapshot: globalOptions.snapshot,
     })
   }
 
@@ -765,6 +1620,7 @@ export function createProviderFromGlobalOptions(globalOptions: {
       return createProvider({
         backend: "sqlite",
         dbPath,
+        snapshot: globalOptions.snapshot,
       })
     }
   }
@@ -772,5 +1628,6 @@ export function createProviderFromGlobalOptions(globalOptions: {
   return createProvider({
     backend: "jsonl",
     root,
+    jsonlStrict: globalOptions.jsonlStrict,
   })
 }
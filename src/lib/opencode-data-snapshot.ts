@@ -0,0 +1,120 @@
+/**
+ * Read snapshots of a SQLite database.
+ *
+ * `VACUUM INTO` copies the database from a single read transaction, so the
+ * copy is consistent and, in WAL mode, never blocks OpenCode's writers. Reads
+ * served from the copy cannot hit SQLITE_BUSY no matter how long they run.
+ *
+ * Snapshots live in the system temp directory. Callers release them when
+ * done. Exit and signal (SIGINT, SIGTERM, SIGHUP) hooks only catch what a CLI
+ * run leaves behind: they do not fire under Bun's test runner, so tests and
+ * long-lived callers must release every snapshot they take.
+ */
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { dirname, join, resolve } from "node:path"
+import { openDatabase } from "./opencode-data-sqlite"
+
+// ========================
+// Types
+// ========================
+
+export interface SqliteSnapshot {
+  /** The live database the snapshot was copied from */
+  sourcePath: string
+  /** The temporary copy reads are served from */
+  path: string
+  takenAt: Date
+}
+
+// ========================
+// Constants
+// ========================
+
+/**
+ * How long to wait for a writer's lock while starting the copy (milliseconds).
+ * Only rollback-journal databases can block readers at all.
+ */
+const SNAPSHOT_BUSY_TIMEOUT_MS = 5000
+
+const CLEANUP_SIGNALS: readonly NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"]
+
+// ========================
+// Snapshot Lifecycle
+// ========================
+
+const liveSnapshotDirs = new Set<string>()
+let exitHookInstalled = false
+
+function removeSnapshotDir(dir: string): void {
+  rmSync(dir, { recursive: true, force: true })
+  liveSnapshotDirs.delete(dir)
+}
+
+function removeAllSnapshotDirs(): void {
+  for (const snapshotDir of [...liveSnapshotDirs]) {
+    removeSnapshotDir(snapshotDir)
+  }
+}
+
+/**
+ * Clean up on exit and on termination signals. A signal nobody else handles
+ * is re-raised after cleanup so the process still stops the default way.
+ */
+function installExitHooks(): void {
+  process.on("exit", removeAllSnapshotDirs)
+  for (const signal of CLEANUP_SIGNALS) {
+    const onSignal = () => {
+      removeAllSnapshotDirs()
+      process.removeListener(signal, onSignal)
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal)
+      }
+    }
+    process.on(signal, onSignal)
+  }
+}
+
+/**
+ * Copy a database into a new temporary snapshot.
+ *
+ * @throws Error if the database cannot be opened or copied.
+ */
+export function takeSqliteSnapshot(dbPath: string): SqliteSnapshot {
+  const sourcePath = resolve(dbPath)
+  const db = openDatabase(sourcePath)
+  const dir = mkdtempSync(join(tmpdir(), "opencode-manager-snapshot-"))
+  liveSnapshotDirs.add(dir)
+  if (!exitHookInstalled) {
+    exitHookInstalled = true
+    installExitHooks()
+  }
+
+  const path = join(dir, "opencode.db")
+  try {
+    db.exec(`PRAGMA busy_timeout = ${SNAPSHOT_BUSY_TIMEOUT_MS}`)
+    const takenAt = new Date()
+    db.query("VACUUM INTO ?").run(path)
+    return { sourcePath, path, takenAt }
+  } catch (error) {
+    removeSnapshotDir(dir)
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Failed to snapshot SQLite database at "${sourcePath}": ${message}`)
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Delete a snapshot's temporary copy.
+ */
+export function releaseSqliteSnapshot(snapshot: SqliteSnapshot): void {
+  removeSnapshotDir(dirname(snapshot.path))
+}
+
+/**
+ * One-line description of a snapshot for status output.
+ */
+export function formatSnapshotNote(snapshot: SqliteSnapshot): string {
+  return `Reading SQLite snapshot of ${snapshot.sourcePath} taken at ${snapshot.takenAt.toISOString()}`
+}
@@ -6,7 +6,7 @@
  *
  * @experimental This module is experimental and may change.
  */
-import { Database } from "bun:sqlite"
+import { Database, type SQLQueryBindings } from "bun:sqlite"
 import { homedir } from "node:os"
 import { join, resolve } from "node:path"
 import { promises as fs, constants } from "node:fs"
@@ -21,7 +21,18 @@ import type {
   PartType,
   DeleteResult,
   DeleteOptions,
+  OrphanRecord,
+  DoctorIssue,
+  DoctorOptions,
+  DoctorReport,
+  SessionExport,
+  TokenSummary,
+  TokenUsage,
+  CostBreakdown,
 } from "./opencode-data"
+import { describeTimestampIssue, parseMessageDetails } from "./opencode-data"
+import { addBulkMessageCost, emptyCostBreakdown } from "./pricing"
+import { removeTrashEntry, getTrashRoot, writeSqliteTrashEntry, type TrashContext } from "./opencode-data-trash"
 
 // ========================
 // Constants
@@ -54,6 +65,37 @@ const SQLITE_REQUIRED_COLUMNS = {
   part: ["id", "message_id", "session_id", "data"],
 } as const
 
+/**
+ * DDL for the required schema, used when creating a database from scratch
+ * (e.g. migrating a JSONL store). Mirrors SQLITE_REQUIRED_COLUMNS.
+ */
+const SQLITE_SCHEMA_DDL: Record<keyof typeof SQLITE_REQUIRED_COLUMNS, string> = {
+  project: `CREATE TABLE IF NOT EXISTS project (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  )`,
+  session: `CREATE TABLE IF NOT EXISTS session (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    parent_id TEXT,
+    created_at INTEGER,
+    updated_at INTEGER,
+    data TEXT NOT NULL
+  )`,
+  message: `CREATE TABLE IF NOT EXISTS message (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    created_at INTEGER,
+    data TEXT NOT NULL
+  )`,
+  part: `CREATE TABLE IF NOT EXISTS part (
+    id TEXT PRIMARY KEY,
+    message_id TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  )`,
+}
+
 // ========================
 // Types
 // ========================
@@ -499,6 +541,30 @@ export function validateSchema(
   return result.ok
 }
 
+/**
+ * Report which required tables/columns are missing, without warning or throwing.
+ */
+export function inspectSchema(db: Database): {
+  missingTables: string[]
+  missingColumns: Record<string, string[]>
+} {
+  const { missingTables, missingColumns } = validateSchemaForTables(
+    db,
+    buildSchemaRequirements(["project", "session", "message", "part"])
+  )
+  return { missingTables, missingColumns }
+}
+
+/**
+ * Create any missing OpenCode tables using the required schema.
+ * Existing tables are left untouched; check them with validateSchema.
+ */
+export function createSchema(db: Database): void {
+  for (const ddl of Object.values(SQLITE_SCHEMA_DDL)) {
+    db.run(ddl)
+  }
+}
+
 // ========================
 // Project Loading
 // ========================
@@ -828,6 +894,7 @@ export async function loadSessionRecordsSqlite(
         version,
         createdAt,
         updatedAt,
+        parentId: row.parent_id || data.parentID || undefined,
       })
     }
   } finally {
@@ -1110,6 +1177,7 @@ export async function loadSessionChatIndexSqlite(
         createdAt,
         parentId: row.parent_id ?? data.parentID,
         tokens,
+        ...parseMessageDetails(data),
         parts: null,
         previewText: "[loading...]",
         totalChars: null,
@@ -1133,6 +1201,350 @@ export async function loadSessionChatIndexSqlite(
   return messages
 }
 
+// ========================
+// Token Usage Aggregation
+// ========================
+
+/**
+ * Options for summing token usage in SQL.
+ */
+export interface SqliteTokenUsageOptions extends SqliteLoadOptions {
+  /** Sessions whose assistant messages are summed */
+  sessionIds: string[]
+}
+
+/**
+ * Raw row structure of the token usage aggregate.
+ */
+interface TokenUsageRow {
+  provider_id: string | null
+  model_id: string | null
+  agent: string | null
+  messages: number
+  input: number
+  output: number
+  reasoning: number
+  cache_read: number
+  cache_write: number
+  recorded: number
+  unrecorded_input: number
+  unrecorded_output: number
+  unrecorded_reasoning: number
+  unrecorded_cache_read: number
+  unrecorded_cache_write: number
+  unrecorded_messages: number
+}
+
+const TOKEN_USAGE_FIELDS = [
+  ["input", "$.tokens.input"],
+  ["output", "$.tokens.output"],
+  ["reasoning", "$.tokens.reasoning"],
+  ["cache_read", "$.tokens.cache.read"],
+  ["cache_write", "$.tokens.cache.write"],
+] as const
+
+/** Columns that keep tokens outside the message JSON */
+const SEPARATE_TOKEN_COLUMNS = [
+  "tokens", "token_data", "token_json", "input_tokens", "tokens_input", "input", "output_tokens", "tokens_output",
+  "output", "reasoning_tokens", "tokens_reasoning", "reasoning", "cache_read", "cacheRead", "tokens_cache_read",
+  "cache_write", "cacheWrite", "tokens_cache_write",
+]
+
+/** A non-blank string in the message JSON, like parseMessageDetails */
+const jsonTextSql = (path: string) =>
+  `CASE WHEN json_type(doc, '${path}') = 'text' AND trim(json_extract(doc, '${path}'), ' ' || char(9, 10, 13)) <> '' THEN json_extract(doc, '${path}') END`
+
+/** A non-negative number in the message JSON, else 0, like parseMessageTokens */
+const jsonCountSql = (path: string) =>
+  `CASE WHEN json_type(doc, '${path}') IN ('integer', 'real') AND json_extract(doc, '${path}') >= 0 THEN json_extract(doc, '${path}') ELSE 0 END`
+
+/** A token count parseMessageTokens accepts: a non-negative number */
+const jsonTokenCountValidSql = (path: string) =>
+  `(json_type(doc, '${path}') IN ('integer', 'real') AND json_extract(doc, '${path}') >= 0)`
+
+/** The message role: the role column when it holds text, else the JSON role */
+const messageRoleSql = (roleColumn: string | null) =>
+  roleColumn
+    ? "CASE WHEN typeof(role_column) = 'text' THEN role_column ELSE json_extract(doc, '$.role') END"
+    : "json_extract(doc, '$.role')"
+
+/** The recorded cost of an assistant message above 0, else 0, like parseMessageDetails and addMessageCost */
+const RECORDED_COST_SQL =
+  "CASE WHEN json_extract(doc, '$.role') = 'assistant' AND json_type(doc, '$.cost') IN ('integer', 'real') AND json_extract(doc, '$.cost') > 0 THEN json_extract(doc, '$.cost') ELSE 0 END"
+
+function tokenBreakdownFromRow(row: Omit<TokenUsageRow, "agent">, prefix: "" | "unrecorded_"): TokenBreakdown {
+  const breakdown: TokenBreakdown = {
+    input: row[`${prefix}input`] ?? 0,
+    output: row[`${prefix}output`] ?? 0,
+    reasoning: row[`${prefix}reasoning`] ?? 0,
+    cacheRead: row[`${prefix}cache_read`] ?? 0,
+    cacheWrite: row[`${prefix}cache_write`] ?? 0,
+    total: 0,
+  }
+  breakdown.total = breakdown.input + breakdown.output + breakdown.reasoning + breakdown.cacheRead + breakdown.cacheWrite
+  return breakdown
+}
+
+/**
+ * Sum the tokens and cost of the sessions' assistant messages in SQL, with
+ * one `GROUP BY` over provider, model and agent read from the message JSON.
+ *
+ * Tokens are only read from the JSON `data` column here. Returns null when
+ * the message table keeps them elsewhere (separate token columns) so the
+ * caller can sum the chat index instead.
+ */
+export async function loadTokenUsageSqlite(options: SqliteTokenUsageOptions): Promise<TokenUsage[] | null> {
+  const db = openDatabase(options.db)
+  try {
+    const columns = ensureTableColumns(db, "message", [], options, "loadTokenUsage")
+    if (!columns) {
+      return []
+    }
+    const sessionIdColumn = pickColumn(columns, ["session_id", "sessionId"])
+    const dataColumn = pickColumn(columns, ["data", "metadata", "payload", "json"])
+    const roleColumn = pickColumn(columns, ["role", "type"])
+    const tokenColumns = pickColumn(columns, SEPARATE_TOKEN_COLUMNS)
+    if (!sessionIdColumn || !dataColumn || tokenColumns) {
+      return null
+    }
+
+    const role = messageRoleSql(roleColumn)
+    const tokenSum = TOKEN_USAGE_FIELDS.map(([name]) => name).join(" + ")
+
+    const sql = `
+      WITH assistant AS (
+        SELECT
+          COALESCE(${jsonTextSql("$.providerID")}, ${jsonTextSql("$.model.providerID")}) AS provider_id,
+          COALESCE(${jsonTextSql("$.modelID")}, ${jsonTextSql("$.model.modelID")}) AS model_id,
+          COALESCE(${jsonTextSql("$.agent")}, ${jsonTextSql("$.mode")}) AS agent,
+          ${TOKEN_USAGE_FIELDS.map(([name, path]) => `${jsonCountSql(path)} AS ${name}`).join(",\n          ")},
+          ${RECORDED_COST_SQL} AS recorded
+        FROM (
+          SELECT CASE WHEN json_valid(${dataColumn}) THEN ${dataColumn} END AS doc, ${roleColumn ?? "NULL"} AS role_column
+          FROM message
+          WHERE ${sessionIdColumn} IN (SELECT value FROM json_each(?))
+        )
+        WHERE doc IS NOT NULL AND ${role} = 'assistant'
+      )
+      SELECT
+        provider_id, model_id, agent,
+        COUNT(*) AS messages,
+        ${TOKEN_USAGE_FIELDS.map(([name]) => `SUM(${name}) AS ${name}`).join(", ")},
+        SUM(recorded) AS recorded,
+        ${TOKEN_USAGE_FIELDS.map(([name]) => `SUM(CASE WHEN recorded > 0 THEN 0 ELSE ${name} END) AS unrecorded_${name}`).join(", ")},
+        SUM(CASE WHEN recorded > 0 THEN 0 WHEN ${tokenSum} > 0 THEN 1 ELSE 0 END) AS unrecorded_messages
+      FROM assistant
+      GROUP BY provider_id, model_id, agent`
+
+    let rows: TokenUsageRow[]
+    try {
+      rows = db.query(sql).all(JSON.stringify(options.sessionIds)) as TokenUsageRow[]
+    } catch (error) {
+      const message = formatSqliteErrorMessage(error, "Failed to sum token usage from message table", {
+        forceWrite: options.forceWrite,
+        allowForceWrite: false,
+      })
+      if (isSqliteBusyError(error) || options.strict) {
+        throw new Error(message)
+      }
+      warnSqlite(options, message)
+      return null
+    }
+
+    return rows.map((row) => {
+      const providerId = row.provider_id ?? undefined
+      const modelId = row.model_id ?? undefined
+      const cost = emptyCostBreakdown()
+      addBulkMessageCost(cost, {
+        providerId,
+        modelId,
+        recorded: row.recorded ?? 0,
+        unrecordedTokens: tokenBreakdownFromRow(row, "unrecorded_"),
+        unrecordedMessages: row.unrecorded_messages ?? 0,
+      })
+      return {
+        providerId,
+        modelId,
+        agent: row.agent ?? undefined,
+        messages: row.messages,
+        tokens: tokenBreakdownFromRow(row, ""),
+        cost,
+      }
+    })
+  } finally {
+    closeIfOwned(db, options.db)
+  }
+}
+
+/**
+ * Options for summarizing the tokens of many sessions in SQL.
+ */
+export interface SqliteSessionTokenSummaryOptions extends SqliteLoadOptions {
+  /** Sessions to summarize */
+  sessionIds: string[]
+}
+
+/**
+ * Raw row structure of the per-session token aggregate.
+ */
+interface SessionTokenRow extends Omit<TokenUsageRow, "agent"> {
+  session_id: string
+  /** Rows whose JSON does not parse */
+  malformed: number
+  assistants: number
+  /** Assistant messages without token data */
+  missing: number
+}
+
+/**
+ * Summarize the tokens and cost of many sessions with one aggregate query,
+ * grouped by session, provider and model. Each summary matches what the
+ * chat index gives for the session, including the `unknown` reason.
+ *
+ * Sessions with malformed message JSON are left out of the map, so the
+ * caller reads them from the chat index (which reports or rejects the bad
+ * rows). Returns null when the message table cannot be summarized in SQL
+ * (tokens outside the JSON, unusual schema, query error); callers fall back
+ * to the chat index for every session, which reports the problem.
+ */
+export async function loadSessionTokenSummariesSqlite(
+  options: SqliteSessionTokenSummaryOptions
+): Promise<Map<string, TokenSummary> | null> {
+  const db = openDatabase(options.db)
+  try {
+    let columnNames: string[] | null
+    try {
+      columnNames = getTableColumns(db, "message")
+    } catch (error) {
+      if (isSqliteBusyError(error)) {
+        throw new Error(formatSqliteErrorMessage(error, "Failed to read SQLite schema", { forceWrite: options.forceWrite }))
+      }
+      return null
+    }
+    if (!columnNames) {
+      return null
+    }
+    const columns = new Set(columnNames)
+    const idColumn = pickColumn(columns, ["id", "message_id"])
+    const sessionIdColumn = pickColumn(columns, ["session_id", "sessionId"])
+    const dataColumn = pickColumn(columns, ["data", "metadata", "payload", "json"])
+    const roleColumn = pickColumn(columns, ["role", "type"])
+    if (!idColumn || !sessionIdColumn || !dataColumn || pickColumn(columns, SEPARATE_TOKEN_COLUMNS)) {
+      return null
+    }
+
+    const whitespace = "' ' || char(9, 10, 13)"
+    const hasTokens = TOKEN_USAGE_FIELDS.map(([, path]) => jsonTokenCountValidSql(path)).join(" OR ")
+    const tokenSum = TOKEN_USAGE_FIELDS.map(([name]) => name).join(" + ")
+
+    // Rows without an ID are skipped and blank JSON reads as {}, like the chat index
+    const sql = `
+      WITH message_doc AS (
+        SELECT
+          ${sessionIdColumn} AS session_id,
+          CASE
+            WHEN ${dataColumn} IS NULL OR trim(${dataColumn}, ${whitespace}) = '' THEN '{}'
+            WHEN json_valid(${dataColumn}) THEN ${dataColumn}
+          END AS doc,
+          ${roleColumn ?? "NULL"} AS role_column
+        FROM message
+        WHERE ${sessionIdColumn} IN (SELECT value FROM json_each(?))
+          AND ${idColumn} IS NOT NULL AND ${idColumn} <> ''
+          AND NOT (typeof(${idColumn}) IN ('integer', 'real') AND ${idColumn} = 0)
+      ),
+      classified AS (
+        SELECT
+          session_id, doc,
+          CASE WHEN doc IS NULL THEN 1 ELSE 0 END AS malformed,
+          CASE WHEN doc IS NOT NULL AND ${messageRoleSql(roleColumn)} = 'assistant' THEN 1 ELSE 0 END AS assistant,
+          CASE WHEN doc IS NOT NULL AND (${hasTokens}) THEN 1 ELSE 0 END AS has_tokens
+        FROM message_doc
+      ),
+      counted AS (
+        SELECT
+          session_id, malformed, assistant, assistant * has_tokens AS counted,
+          CASE WHEN assistant * has_tokens = 1 THEN COALESCE(${jsonTextSql("$.providerID")}, ${jsonTextSql("$.model.providerID")}) END AS provider_id,
+          CASE WHEN assistant * has_tokens = 1 THEN COALESCE(${jsonTextSql("$.modelID")}, ${jsonTextSql("$.model.modelID")}) END AS model_id,
+          ${TOKEN_USAGE_FIELDS.map(([name, path]) => `CASE WHEN assistant * has_tokens = 1 THEN ${jsonCountSql(path)} ELSE 0 END AS ${name}`).join(",\n          ")},
+          CASE WHEN assistant * has_tokens = 1 THEN ${RECORDED_COST_SQL} ELSE 0 END AS recorded
+        FROM classified
+      )
+      SELECT
+        session_id, provider_id, model_id,
+        COUNT(*) AS messages,
+        SUM(malformed) AS malformed,
+        SUM(assistant) AS assistants,
+        SUM(assistant - counted) AS missing,
+        ${TOKEN_USAGE_FIELDS.map(([name]) => `SUM(${name}) AS ${name}`).join(", ")},
+        SUM(recorded) AS recorded,
+        ${TOKEN_USAGE_FIELDS.map(([name]) => `SUM(CASE WHEN recorded > 0 THEN 0 ELSE ${name} END) AS unrecorded_${name}`).join(", ")},
+        SUM(CASE WHEN recorded > 0 THEN 0 WHEN ${tokenSum} > 0 THEN 1 ELSE 0 END) AS unrecorded_messages
+      FROM counted
+      GROUP BY session_id, provider_id, model_id`
+
+    let rows: SessionTokenRow[]
+    try {
+      rows = db.query(sql).all(JSON.stringify(options.sessionIds)) as SessionTokenRow[]
+    } catch (error) {
+      if (isSqliteBusyError(error)) {
+        throw new Error(formatSqliteErrorMessage(error, "Failed to summarize tokens from message table", { forceWrite: options.forceWrite }))
+      }
+      return null
+    }
+
+    const sessions = new Map<string, { malformed: number; assistants: number; missing: number; tokens: TokenBreakdown; cost: CostBreakdown }>()
+    for (const row of rows) {
+      let entry = sessions.get(row.session_id)
+      if (!entry) {
+        entry = {
+          malformed: 0,
+          assistants: 0,
+          missing: 0,
+          tokens: { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+          cost: emptyCostBreakdown(),
+        }
+        sessions.set(row.session_id, entry)
+      }
+      entry.malformed += row.malformed
+      entry.assistants += row.assistants
+      entry.missing += row.missing
+      const tokens = tokenBreakdownFromRow(row, "")
+      entry.tokens.input += tokens.input
+      entry.tokens.output += tokens.output
+      entry.tokens.reasoning += tokens.reasoning
+      entry.tokens.cacheRead += tokens.cacheRead
+      entry.tokens.cacheWrite += tokens.cacheWrite
+      entry.tokens.total += tokens.total
+      addBulkMessageCost(entry.cost, {
+        providerId: row.provider_id ?? undefined,
+        modelId: row.model_id ?? undefined,
+        recorded: row.recorded ?? 0,
+        unrecordedTokens: tokenBreakdownFromRow(row, "unrecorded_"),
+        unrecordedMessages: row.unrecorded_messages ?? 0,
+      })
+    }
+
+    const summaries = new Map<string, TokenSummary>()
+    for (const sessionId of options.sessionIds) {
+      const entry = sessions.get(sessionId)
+      if (!entry) {
+        summaries.set(sessionId, { kind: "unknown", reason: "no_messages" })
+      } else if (entry.malformed > 0) {
+        continue
+      } else if (entry.missing > 0) {
+        summaries.set(sessionId, { kind: "unknown", reason: "missing" })
+      } else if (entry.assistants === 0) {
+        summaries.set(sessionId, { kind: "unknown", reason: "no_messages" })
+      } else {
+        summaries.set(sessionId, { kind: "known", tokens: entry.tokens, cost: entry.cost })
+      }
+    }
+    return summaries
+  } finally {
+    closeIfOwned(db, options.db)
+  }
+}
+
 // ========================
 // Message Parts Loading
 // ========================
@@ -1385,6 +1797,10 @@ export interface SqliteDeleteSessionOptions extends SqliteLoadOptions {
    * If true, report what would be deleted without actually deleting.
    */
   dryRun?: boolean
+  /**
+   * Save the deleted rows into the trash area before committing.
+   */
+  trash?: TrashContext
 }
 
 /**
@@ -1415,6 +1831,7 @@ export async function deleteSessionMetadataSqlite(
   // For dry-run, we don't need write access
   const removed: string[] = []
   const failed: { path: string; error?: string }[] = []
+  let trashId: string | undefined
   const needsWrite = !options.dryRun
   let db: Database | undefined
 
@@ -1577,6 +1994,17 @@ export async function deleteSessionMetadataSqlite(
         messageIds = messageRows.map(r => r.id)
       }
 
+      // Capture full rows before deleting them so the trash entry can restore them
+      const trashRows = options.trash
+        ? {
+            session: selectRowsIn(db, "session", sessionIdColumn, sessionIds),
+            message: selectRowsIn(db, "message", messageSessionIdColumn, sessionIds),
+            part: partSessionIdColumn
+              ? selectRowsIn(db, "part", partSessionIdColumn, sessionIds)
+              : selectRowsIn(db, "part", partMessageIdColumn!, messageIds),
+          }
+        : null
+
       // Delete parts first (child of message, also references session_id directly)
       if (partSessionIdColumn) {
         const deleteParts = db.prepare(
@@ -1610,7 +2038,17 @@ export async function deleteSessionMetadataSqlite(
         `DELETE FROM session WHERE ${sessionIdColumn} IN (${placeholders})`
       )
       deleteSessions.run(...sessionIds)
-      
+
+      if (trashRows && existingIds.size > 0) {
+        trashId = await writeSqliteTrashEntry(
+          databasePath(db),
+          options.trash!,
+          "session",
+          sessionIds.filter((id) => existingIds.has(id)),
+          trashRows
+        )
+      }
+
       db.run("COMMIT")
       
       // Report results
@@ -1632,6 +2070,10 @@ export async function deleteSessionMetadataSqlite(
       } catch {
         // Ignore rollback errors
       }
+      if (trashId) {
+        await removeTrashEntry({ path: join(getTrashRoot("sqlite", databasePath(db)), trashId) })
+        trashId = undefined
+      }
       
       // Report all sessions as failed
       const message = formatSqliteErrorMessage(error, "SQLite delete failed", options)
@@ -1652,7 +2094,7 @@ export async function deleteSessionMetadataSqlite(
     }
   }
 
-  return { removed, failed }
+  return trashId ? { removed, failed, trashId } : { removed, failed }
 }
 
 /**
@@ -1663,6 +2105,10 @@ export interface SqliteDeleteProjectOptions extends SqliteLoadOptions {
    * If true, report what would be deleted without actually deleting.
    */
   dryRun?: boolean
+  /**
+   * Save the deleted rows into the trash area before committing.
+   */
+  trash?: TrashContext
 }
 
 /**
@@ -1695,6 +2141,7 @@ export async function deleteProjectMetadataSqlite(
   // For dry-run, we don't need write access
   const removed: string[] = []
   const failed: { path: string; error?: string }[] = []
+  let trashId: string | undefined
   const needsWrite = !options.dryRun
   let db: Database | undefined
 
@@ -1879,6 +2326,18 @@ export async function deleteProjectMetadataSqlite(
         messageIds = messageRows.map(r => r.id)
       }
 
+      // Capture full rows before deleting them so the trash entry can restore them
+      const trashRows = options.trash
+        ? {
+            project: selectRowsIn(db, "project", projectIdColumn, projectIds),
+            session: selectRowsIn(db, "session", sessionProjectIdColumn, projectIds),
+            message: selectRowsIn(db, "message", messageSessionIdColumn, sessionIds),
+            part: partSessionIdColumn
+              ? selectRowsIn(db, "part", partSessionIdColumn, sessionIds)
+              : selectRowsIn(db, "part", partMessageIdColumn!, messageIds),
+          }
+        : null
+
       // Delete parts first (child of message, also references session_id directly)
       if (sessionIds.length > 0) {
         if (partSessionIdColumn) {
@@ -1920,7 +2379,17 @@ export async function deleteProjectMetadataSqlite(
         `DELETE FROM project WHERE ${projectIdColumn} IN (${placeholders})`
       )
       deleteProjects.run(...projectIds)
-      
+
+      if (trashRows && existingIds.size > 0) {
+        trashId = await writeSqliteTrashEntry(
+          databasePath(db),
+          options.trash!,
+          "project",
+          projectIds.filter((id) => existingIds.has(id)),
+          trashRows
+        )
+      }
+
       db.run("COMMIT")
       
       // Report results
@@ -1942,6 +2411,10 @@ export async function deleteProjectMetadataSqlite(
       } catch {
         // Ignore rollback errors
       }
+      if (trashId) {
+        await removeTrashEntry({ path: join(getTrashRoot("sqlite", databasePath(db)), trashId) })
+        trashId = undefined
+      }
       
       // Report all projects as failed
       const message = formatSqliteErrorMessage(error, "SQLite delete failed", options)
@@ -1962,7 +2435,7 @@ export async function deleteProjectMetadataSqlite(
     }
   }
 
-  return { removed, failed }
+  return trashId ? { removed, failed, trashId } : { removed, failed }
 }
 
 // ========================
@@ -2284,11 +2757,12 @@ export async function copySessionSqlite(
     const newSessionId = generateId("session")
     const now = Date.now()
 
-    // Update session data for the copy
+    // Update session data for the copy (a standalone session, like the row)
     const newSessionData: SessionData = {
       ...sessionData,
       id: newSessionId,
       projectID: options.targetProjectId,
+      parentID: undefined,
       time: {
         ...sessionData.time,
         created: now,
@@ -2468,3 +2942,853 @@ export async function copySessionSqlite(
     closeIfOwned(db, options.db)
   }
 }
+
+/**
+ * Options for exporting a session from SQLite.
+ */
+export interface SqliteExportSessionOptions extends SqliteLoadOptions {
+  /**
+   * The session ID to export.
+   */
+  sessionId: string
+}
+
+/**
+ * Options for importing a session into SQLite.
+ */
+export interface SqliteImportSessionOptions extends SqliteLoadOptions {
+  /**
+   * The project ID the new session belongs to.
+   */
+  targetProjectId: string
+  /**
+   * Parent of the new session (see ImportSessionOptions).
+   */
+  parentId?: string
+}
+
+/**
+ * Parse a row's JSON data column, warning (or throwing in strict mode) and
+ * returning null when it is malformed.
+ */
+function parseRowData<T>(
+  row: { id: string | null; data?: string | null },
+  table: string,
+  options: SqliteLoadOptions
+): T | null {
+  try {
+    return JSON.parse(row.data ?? "{}") as T
+  } catch (error) {
+    const message = formatSqliteErrorMessage(error, `Malformed JSON in ${table} row "${row.id}"`, options)
+    if (options.strict) {
+      throw new Error(message)
+    }
+    warnSqlite(options, message)
+    return null
+  }
+}
+
+/**
+ * Read a session with all of its messages and parts as raw payloads, for
+ * writing into another store (see importSessionSqlite and importSession).
+ *
+ * Row columns take precedence over the JSON data column for IDs, so the
+ * payloads are self-describing. Malformed rows are skipped with a warning.
+ *
+ * @throws Error if the session is not found.
+ */
+export async function exportSessionSqlite(options: SqliteExportSessionOptions): Promise<SessionExport> {
+  const db = openDatabase(options.db)
+
+  try {
+    const schemaMessage = getSchemaIssueMessage(
+      db,
+      buildSchemaRequirements(["session", "message", "part"]),
+      "exportSession"
+    )
+    if (schemaMessage) {
+      warnSqlite(options, schemaMessage)
+      throw new Error(schemaMessage)
+    }
+
+    let sessionRow: SessionRow | null = null
+    let messageRows: MessageRow[] = []
+    let partRows: PartRow[] = []
+    try {
+      sessionRow = db.query(
+        "SELECT id, project_id, parent_id, created_at, updated_at, data FROM session WHERE id = ?"
+      ).get(options.sessionId) as SessionRow | null
+      messageRows = db.query(
+        "SELECT id, session_id, created_at, data FROM message WHERE session_id = ? ORDER BY created_at ASC"
+      ).all(options.sessionId) as MessageRow[]
+      partRows = db.query(
+        "SELECT id, message_id, session_id, data FROM part WHERE session_id = ?"
+      ).all(options.sessionId) as PartRow[]
+    } catch (error) {
+      throw new Error(formatSqliteErrorMessage(error, "Failed to read session for export", options))
+    }
+
+    if (!sessionRow) {
+      throw new Error(`Session not found: ${options.sessionId}`)
+    }
+    // A malformed session row cannot be exported at all
+    const sessionData = parseRowData<SessionData>(sessionRow, "session", { ...options, strict: true }) as SessionData
+
+    const partsByMessage = new Map<string, Record<string, any>[]>()
+    for (const partRow of partRows) {
+      const partData = partRow.id ? parseRowData<PartData>(partRow, "part", options) : null
+      if (!partData || !partRow.message_id) {
+        continue
+      }
+      const parts = partsByMessage.get(partRow.message_id) ?? []
+      parts.push({ ...partData, id: partRow.id, messageID: partRow.message_id })
+      partsByMessage.set(partRow.message_id, parts)
+    }
+
+    const messages: SessionExport["messages"] = []
+    for (const msgRow of messageRows) {
+      const msgData = msgRow.id ? parseRowData<MessageData>(msgRow, "message", options) : null
+      if (!msgData || !msgRow.id) {
+        continue
+      }
+      const createdAt = parseTimestamp(msgRow.created_at)?.getTime()
+      messages.push({
+        payload: {
+          ...msgData,
+          id: msgRow.id,
+          sessionID: options.sessionId,
+          time: { ...msgData.time, created: msgData.time?.created ?? createdAt ?? undefined },
+        },
+        parts: partsByMessage.get(msgRow.id) ?? [],
+      })
+    }
+
+    return {
+      session: {
+        ...sessionData,
+        id: options.sessionId,
+        projectID: sessionRow.project_id ?? sessionData.projectID ?? sessionData.projectId,
+        parentID: sessionRow.parent_id || sessionData.parentID || undefined,
+      },
+      messages,
+    }
+  } finally {
+    closeIfOwned(db, options.db)
+  }
+}
+
+/**
+ * Write an exported session into a project as a new session.
+ *
+ * Mirrors copySessionSqlite: the session, every message and every part get
+ * fresh IDs, references are remapped, and all rows are inserted in one
+ * transaction.
+ *
+ * @returns The new SessionRecord.
+ */
+export async function importSessionSqlite(
+  data: SessionExport,
+  options: SqliteImportSessionOptions
+): Promise<SessionRecord> {
+  const db = openDatabase(options.db, { readonly: false, forceWrite: options.forceWrite })
+
+  try {
+    const schemaMessage = getSchemaIssueMessage(
+      db,
+      buildSchemaRequirements(["session", "message", "part"]),
+      "importSession"
+    )
+    if (schemaMessage) {
+      warnSqlite(options, schemaMessage)
+      throw new Error(schemaMessage)
+    }
+
+    const newSessionId = generateId("session")
+    const now = Date.now()
+    const newSessionData: SessionData = {
+      ...data.session,
+      id: newSessionId,
+      projectID: options.targetProjectId,
+      parentID: options.parentId,
+      time: {
+        ...data.session.time,
+        created: now,
+        updated: now,
+      },
+    }
+
+    // Create ID mapping for messages (old ID -> new ID)
+    const messageIdMap = new Map<string, string>()
+    for (const message of data.messages) {
+      messageIdMap.set(String(message.payload.id), generateId("msg"))
+    }
+
+    try {
+      db.run(options.forceWrite ? "BEGIN IMMEDIATE" : "BEGIN TRANSACTION")
+    } catch (error) {
+      throw new Error(formatSqliteErrorMessage(error, "Failed to start SQLite transaction", options))
+    }
+
+    try {
+      db.prepare(
+        "INSERT INTO session (id, project_id, parent_id, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?, ?)"
+      ).run(newSessionId, options.targetProjectId, options.parentId ?? null, now, now, JSON.stringify(newSessionData))
+
+      const insertMessageStmt = db.prepare(
+        "INSERT INTO message (id, session_id, created_at, data) VALUES (?, ?, ?, ?)"
+      )
+      const insertPartStmt = db.prepare(
+        "INSERT INTO part (id, message_id, session_id, data) VALUES (?, ?, ?, ?)"
+      )
+      for (const message of data.messages) {
+        const newMessageId = messageIdMap.get(String(message.payload.id))!
+        const newMsgData: MessageData = {
+          ...message.payload,
+          id: newMessageId,
+          sessionID: newSessionId,
+        }
+        if (typeof newMsgData.parentID === "string" && messageIdMap.has(newMsgData.parentID)) {
+          newMsgData.parentID = messageIdMap.get(newMsgData.parentID)
+        }
+        const createdAt = typeof newMsgData.time?.created === "number" ? newMsgData.time.created : null
+        insertMessageStmt.run(newMessageId, newSessionId, createdAt, JSON.stringify(newMsgData))
+
+        for (const part of message.parts) {
+          const newPartId = generateId("part")
+          const newPartData: PartData = {
+            ...part,
+            id: newPartId,
+            messageID: newMessageId,
+            sessionID: newSessionId,
+          }
+          insertPartStmt.run(newPartId, newMessageId, newSessionId, JSON.stringify(newPartData))
+        }
+      }
+
+      db.run("COMMIT")
+    } catch (err) {
+      db.run("ROLLBACK")
+      throw err
+    }
+
+    return {
+      index: 1,
+      filePath: `sqlite:session:${newSessionId}`,
+      sessionId: newSessionId,
+      projectId: options.targetProjectId,
+      directory: expandUserPath(newSessionData.directory) ?? "",
+      title: typeof newSessionData.title === "string" ? newSessionData.title : "",
+      version: typeof newSessionData.version === "string" ? newSessionData.version : "",
+      createdAt: new Date(now),
+      updatedAt: new Date(now),
+      parentId: options.parentId,
+    }
+  } catch (error) {
+    if (isSqliteBusyError(error)) {
+      throw new Error(
+        formatBusyErrorMessage("SQLite database is locked", { forceWrite: options.forceWrite })
+      )
+    }
+    throw error instanceof Error ? error : new Error(String(error))
+  } finally {
+    closeIfOwned(db, options.db)
+  }
+}
+
+// ========================
+// Orphan Operations
+// ========================
+
+/**
+ * Maximum number of bound parameters per IN (...) clause.
+ * Stays well below SQLite's SQLITE_MAX_VARIABLE_NUMBER on older builds.
+ */
+const SQLITE_IN_CHUNK_SIZE = 500
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Select full rows whose column matches any of the values (chunked).
+ */
+function selectRowsIn(
+  db: Database,
+  table: string,
+  column: string,
+  values: string[]
+): Record<string, unknown>[] {
+  const rows: Record<string, unknown>[] = []
+  for (const batch of chunk(values, SQLITE_IN_CHUNK_SIZE)) {
+    const placeholders = batch.map(() => "?").join(", ")
+    rows.push(
+      ...(db.query(`SELECT * FROM ${table} WHERE ${column} IN (${placeholders})`).all(...batch) as Record<string, unknown>[])
+    )
+  }
+  return rows
+}
+
+/**
+ * File path of an open database (used to place its trash area).
+ */
+function databasePath(db: Database): string {
+  return resolve(db.filename)
+}
+
+/**
+ * Find dangling rows in the SQLite database.
+ *
+ * Reports:
+ * - sessions whose project_id has no project row
+ * - messages whose session_id has no session row
+ * - parts whose message_id has no message row, or whose message is itself orphaned
+ *
+ * @param options - Database connection options.
+ * @returns Orphan records with `sqlite:<table>:<id>` paths (one per row).
+ */
+export async function findOrphansSqlite(options: SqliteLoadOptions): Promise<OrphanRecord[]> {
+  const db = openDatabase(options.db)
+
+  try {
+    const schemaMessage = getSchemaIssueMessage(
+      db,
+      buildSchemaRequirements(["project", "session", "message", "part"]),
+      "findOrphans"
+    )
+    if (schemaMessage) {
+      if (options.strict) {
+        throw new Error(schemaMessage)
+      }
+      warnSqlite(options, schemaMessage)
+      return []
+    }
+
+    let sessionRows: { id: string; parent: string }[]
+    let messageRows: { id: string; parent: string }[]
+    let partRows: { id: string; parent: string }[]
+    try {
+      sessionRows = db.query(
+        `SELECT id, project_id as parent FROM session
+         WHERE project_id IS NOT NULL AND project_id NOT IN (SELECT id FROM project)
+         ORDER BY id`
+      ).all() as { id: string; parent: string }[]
+      messageRows = db.query(
+        `SELECT id, session_id as parent FROM message
+         WHERE session_id IS NOT NULL AND session_id NOT IN (SELECT id FROM session)
+         ORDER BY id`
+      ).all() as { id: string; parent: string }[]
+      partRows = db.query(
+        `SELECT id, message_id as parent FROM part
+         WHERE message_id IS NOT NULL AND message_id NOT IN (
+           SELECT id FROM message WHERE session_id IN (SELECT id FROM session)
+         )
+         ORDER BY id`
+      ).all() as { id: string; parent: string }[]
+    } catch (error) {
+      const message = formatSqliteErrorMessage(error, "Failed to scan SQLite for orphans", {
+        forceWrite: options.forceWrite,
+        allowForceWrite: false,
+      })
+      if (isSqliteBusyError(error) || options.strict) {
+        throw new Error(message)
+      }
+      warnSqlite(options, message)
+      return []
+    }
+
+    const toOrphans = (kind: OrphanRecord["kind"], rows: { id: string; parent: string }[]): OrphanRecord[] =>
+      rows.map((row) => ({
+        kind,
+        id: String(row.id),
+        parentId: String(row.parent),
+        path: `sqlite:${kind}:${row.id}`,
+        itemCount: 1,
+        sizeBytes: null,
+      }))
+
+    return [
+      ...toOrphans("session", sessionRows),
+      ...toOrphans("message", messageRows),
+      ...toOrphans("part", partRows),
+    ]
+  } finally {
+    closeIfOwned(db, options.db)
+  }
+}
+
+/**
+ * Options for deleting orphaned rows from SQLite.
+ */
+export interface SqliteDeleteOrphansOptions extends SqliteLoadOptions {
+  /**
+   * If true, report what would be deleted without actually deleting.
+   */
+  dryRun?: boolean
+}
+
+/**
+ * Delete orphaned rows found by findOrphansSqlite in a single transaction.
+ *
+ * Orphaned sessions are deleted together with their messages and parts.
+ * If any statement fails, the whole cleanup is rolled back and every orphan
+ * is reported as failed.
+ *
+ * @param orphans - Orphan records to delete.
+ * @param options - Database connection options and dry-run flag.
+ * @returns DeleteResult with removed `sqlite:<table>:<id>` paths.
+ */
+export async function deleteOrphansSqlite(
+  orphans: OrphanRecord[],
+  options: SqliteDeleteOrphansOptions
+): Promise<DeleteResult> {
+  if (orphans.length === 0) {
+    return { removed: [], failed: [] }
+  }
+  if (options.dryRun) {
+    return { removed: orphans.map((orphan) => orphan.path), failed: [] }
+  }
+
+  const idsOf = (kind: OrphanRecord["kind"]) =>
+    orphans.filter((orphan) => orphan.kind === kind).map((orphan) => orphan.id)
+  const sessionIds = idsOf("session")
+  const messageIds = idsOf("message")
+  const partIds = idsOf("part")
+
+  const db = openDatabase(options.db, { readonly: false, forceWrite: options.forceWrite })
+
+  try {
+    const schemaMessage = getSchemaIssueMessage(
+      db,
+      buildSchemaRequirements(["session", "message", "part"]),
+      "deleteOrphans"
+    )
+    if (schemaMessage) {
+      if (options.strict) {
+        throw new Error(schemaMessage)
+      }
+      warnSqlite(options, schemaMessage)
+      return { removed: [], failed: orphans.map((orphan) => ({ path: orphan.path, error: schemaMessage })) }
+    }
+
+    const run = (sql: (placeholders: string) => string, ids: string[]) => {
+      for (const batch of chunk(ids, SQLITE_IN_CHUNK_SIZE)) {
+        db.prepare(sql(batch.map(() => "?").join(", "))).run(...batch)
+      }
+    }
+
+    try {
+      db.run(options.forceWrite ? "BEGIN IMMEDIATE" : "BEGIN TRANSACTION")
+      // Children first: parts, then messages, then sessions
+      run((p) => `DELETE FROM part WHERE session_id IN (${p})`, sessionIds)
+      run((p) => `DELETE FROM message WHERE session_id IN (${p})`, sessionIds)
+      run((p) => `DELETE FROM session WHERE id IN (${p})`, sessionIds)
+      run((p) => `DELETE FROM part WHERE id IN (${p})`, partIds)
+      run((p) => `DELETE FROM message WHERE id IN (${p})`, messageIds)
+      db.run("COMMIT")
+    } catch (error) {
+      try {
+        db.run("ROLLBACK")
+      } catch {
+        // Ignore rollback errors
+      }
+      const message = formatSqliteErrorMessage(error, "SQLite orphan cleanup failed", options)
+      if (options.strict) {
+        throw new Error(message)
+      }
+      return { removed: [], failed: orphans.map((orphan) => ({ path: orphan.path, error: message })) }
+    }
+
+    return { removed: orphans.map((orphan) => orphan.path), failed: [] }
+  } finally {
+    closeIfOwned(db, options.db)
+  }
+}
+
+// ========================
+// Doctor Operations
+// ========================
+
+/**
+ * Check a SQLite store for corruption and data the loaders would misread.
+ *
+ * Runs `PRAGMA integrity_check` and the required-schema checks, then scans
+ * every row for unparsable `data` JSON, missing or future timestamps,
+ * assistant messages whose parentID is not a message of the same session,
+ * parts whose messageID disagrees with message_id, and sessions whose
+ * projectID disagrees with project_id.
+ *
+ * Content checks are skipped when the schema is incomplete.
+ */
+export async function diagnoseStoreSqlite(
+  options: SqliteLoadOptions & DoctorOptions
+): Promise<DoctorReport> {
+  const db = openDatabase(options.db)
+  const now = options.now ?? new Date()
+  const issues: DoctorIssue[] = []
+  const scanned = { project: 0, session: 0, message: 0, part: 0 }
+  const report = (): DoctorReport => ({ backend: "sqlite", location: databasePath(db), scanned, issues })
+
+  try {
+    let integrityRows: { integrity_check: string }[]
+    try {
+      integrityRows = db.query("PRAGMA integrity_check").all() as { integrity_check: string }[]
+    } catch (error) {
+      throw new Error(formatSqliteErrorMessage(error, "Failed to run SQLite integrity check", { allowForceWrite: false }))
+    }
+    for (const row of integrityRows) {
+      if (row.integrity_check !== "ok") {
+        issues.push({ check: "sqlite-integrity", severity: "error", path: "sqlite:integrity", message: row.integrity_check })
+      }
+    }
+
+    const schema = inspectSchema(db)
+    for (const table of schema.missingTables) {
+      issues.push({ check: "sqlite-schema", severity: "error", path: `sqlite:${table}`, message: `Missing table: ${table}` })
+    }
+    for (const [table, columns] of Object.entries(schema.missingColumns)) {
+      issues.push({
+        check: "sqlite-schema",
+        severity: "error",
+        path: `sqlite:${table}`,
+        message: `Missing columns: ${columns.map((column) => `${table}.${column}`).join(", ")}`,
+      })
+    }
+    if (schema.missingTables.length > 0 || Object.keys(schema.missingColumns).length > 0) {
+      return report()
+    }
+
+    const parseData = (table: string, row: { id: string; data: string | null }): any | null => {
+      try {
+        return JSON.parse(row.data ?? "")
+      } catch (error) {
+        issues.push({
+          check: "json",
+          severity: "error",
+          path: `sqlite:${table}:${row.id}`,
+          message: `Unparsable data JSON: ${error instanceof Error ? error.message : String(error)}`,
+        })
+        return null
+      }
+    }
+    const checkTimestamps = (path: string, fields: Record<string, unknown>) => {
+      for (const [field, value] of Object.entries(fields)) {
+        const message = describeTimestampIssue(parseTimestamp(value)?.getTime(), field, now)
+        if (message) {
+          issues.push({ check: "timestamp", severity: "warning", path, message })
+        }
+      }
+    }
+
+    for (const row of db.query("SELECT id, data FROM project").iterate() as Iterable<{ id: string; data: string | null }>) {
+      scanned.project++
+      const data = parseData("project", row)
+      if (data) {
+        checkTimestamps(`sqlite:project:${row.id}`, { "time.created": data?.time?.created })
+      }
+    }
+
+    for (const row of db
+      .query("SELECT id, project_id, created_at, updated_at, data FROM session")
+      .iterate() as Iterable<{ id: string; project_id: string; created_at: unknown; updated_at: unknown; data: string | null }>) {
+      scanned.session++
+      const data = parseData("session", row)
+      if (!data) {
+        continue
+      }
+      const path = `sqlite:session:${row.id}`
+      checkTimestamps(path, {
+        "time.created": row.created_at ?? data?.time?.created,
+        "time.updated": row.updated_at ?? data?.time?.updated,
+      })
+      if (data.projectID !== undefined && String(data.projectID) !== String(row.project_id)) {
+        issues.push({
+          check: "session-project",
+          severity: "error",
+          path,
+          message: `projectID ${data.projectID} does not match project_id ${row.project_id}`,
+        })
+      }
+    }
+
+    const messageIds = new Map<string, Set<string>>()
+    const assistants: { id: string; sessionId: string; parentId: string }[] = []
+    for (const row of db
+      .query("SELECT id, session_id, created_at, data FROM message")
+      .iterate() as Iterable<{ id: string; session_id: string; created_at: unknown; data: string | null }>) {
+      scanned.message++
+      const sessionId = String(row.session_id)
+      if (!messageIds.has(sessionId)) {
+        messageIds.set(sessionId, new Set())
+      }
+      messageIds.get(sessionId)!.add(String(row.id))
+      const data = parseData("message", row)
+      if (!data) {
+        continue
+      }
+      checkTimestamps(`sqlite:message:${row.id}`, { "time.created": row.created_at ?? data?.time?.created })
+      if (data.role === "assistant" && data.parentID) {
+        assistants.push({ id: String(row.id), sessionId, parentId: String(data.parentID) })
+      }
+    }
+    for (const message of assistants) {
+      if (!messageIds.get(message.sessionId)?.has(message.parentId)) {
+        issues.push({
+          check: "message-parent",
+          severity: "warning",
+          path: `sqlite:message:${message.id}`,
+          message: `parentID ${message.parentId} is not a message of session ${message.sessionId}`,
+        })
+      }
+    }
+
+    for (const row of db
+      .query("SELECT id, message_id, data FROM part")
+      .iterate() as Iterable<{ id: string; message_id: string; data: string | null }>) {
+      scanned.part++
+      const data = parseData("part", row)
+      if (data?.messageID !== undefined && String(data.messageID) !== String(row.message_id)) {
+        issues.push({
+          check: "part-message",
+          severity: "error",
+          path: `sqlite:part:${row.id}`,
+          message: `messageID ${data.messageID} does not match message_id ${row.message_id}`,
+        })
+      }
+    }
+
+    return report()
+  } finally {
+    closeIfOwned(db, options.db)
+  }
+}
+
+// ========================
+// Row Snapshot Operations
+// ========================
+
+/**
+ * Records whose rows (and descendants) should be captured, by table.
+ */
+export interface SqliteRowTargets {
+  project?: string[]
+  session?: string[]
+  message?: string[]
+  part?: string[]
+}
+
+/** Full rows keyed by table name, parent tables first */
+export type SqliteRowSnapshot = Record<string, Record<string, unknown>[]>
+
+/** Tables a row snapshot may hold */
+const SNAPSHOT_TABLES = new Set(["project", "session", "message", "part"])
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+/**
+ * Check a table and columns read from a trash or backup snapshot against the
+ * live schema, and quote them for SQL. Snapshot files can be edited, so their
+ * names are never interpolated unchecked.
+ *
+ * @throws Error for a table outside project/session/message/part or a column
+ *   the live table does not have
+ */
+function snapshotTableSql(db: Database, table: string, columns: string[] = []): { table: string; columns: string[] } {
+  if (!SNAPSHOT_TABLES.has(table)) {
+    throw new Error(`Snapshot contains unknown table "${table}"`)
+  }
+  const live = new Set(getTableColumns(db, table) ?? [])
+  for (const column of columns) {
+    if (!live.has(column)) {
+      throw new Error(`Snapshot column "${table}.${column}" does not exist in the database`)
+    }
+  }
+  return { table: quoteIdentifier(table), columns: columns.map(quoteIdentifier) }
+}
+
+/**
+ * State of a snapshot row compared with the live database.
+ * - missing: no row with this ID exists
+ * - unchanged: a row with identical values exists
+ * - changed: a row with this ID exists but differs
+ */
+export type SqliteRowState = "missing" | "unchanged" | "changed"
+
+export interface SqliteRowComparison {
+  table: string
+  id: string
+  /** `sqlite:<table>:<id>` virtual path */
+  path: string
+  state: SqliteRowState
+}
+
+/**
+ * Options for writing snapshot rows back into SQLite.
+ */
+export interface SqliteWriteRowsOptions extends SqliteLoadOptions {
+  /** Replace rows whose ID already exists instead of failing */
+  replace?: boolean
+}
+
+/**
+ * Options for restoring trashed rows into SQLite.
+ */
+export interface SqliteRestoreRowsOptions extends SqliteLoadOptions {}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return Buffer.from(a).equals(Buffer.from(b))
+  }
+  return a === b
+}
+
+/**
+ * Capture the full rows a cascading delete of the targets would remove:
+ * projects with their sessions, sessions with their messages and parts,
+ * messages with their parts.
+ *
+ * @returns Rows keyed by table (parents first); tables with no rows are omitted
+ */
+export async function selectCascadeRowsSqlite(
+  targets: SqliteRowTargets,
+  options: SqliteLoadOptions
+): Promise<SqliteRowSnapshot> {
+  const db = openDatabase(options.db)
+  try {
+    const schemaMessage = getSchemaIssueMessage(
+      db,
+      buildSchemaRequirements(["project", "session", "message", "part"]),
+      "selectCascadeRows"
+    )
+    if (schemaMessage) {
+      throw new Error(schemaMessage)
+    }
+
+    const idsOf = (rows: Record<string, unknown>[]) => rows.map((row) => String(row.id))
+    const unique = (rows: Record<string, unknown>[]) =>
+      Array.from(new Map(rows.map((row) => [String(row.id), row])).values())
+
+    const projects = selectRowsIn(db, "project", "id", targets.project ?? [])
+    const sessions = unique([
+      ...selectRowsIn(db, "session", "id", targets.session ?? []),
+      ...selectRowsIn(db, "session", "project_id", idsOf(projects)),
+    ])
+    const messages = unique([
+      ...selectRowsIn(db, "message", "id", targets.message ?? []),
+      ...selectRowsIn(db, "message", "session_id", idsOf(sessions)),
+    ])
+    const parts = unique([
+      ...selectRowsIn(db, "part", "id", targets.part ?? []),
+      ...selectRowsIn(db, "part", "message_id", idsOf(messages)),
+      ...selectRowsIn(db, "part", "session_id", idsOf(sessions)),
+    ])
+
+    const snapshot: SqliteRowSnapshot = {}
+    for (const [table, rows] of [["project", projects], ["session", sessions], ["message", messages], ["part", parts]] as const) {
+      if (rows.length > 0) {
+        snapshot[table] = rows
+      }
+    }
+    return snapshot
+  } finally {
+    closeIfOwned(db, options.db)
+  }
+}
+
+/**
+ * Compare snapshot rows with the rows currently stored under the same IDs.
+ */
+export async function compareRowsSqlite(
+  rows: SqliteRowSnapshot,
+  options: SqliteLoadOptions
+): Promise<SqliteRowComparison[]> {
+  const db = openDatabase(options.db)
+  try {
+    const comparisons: SqliteRowComparison[] = []
+    for (const [table, tableRows] of Object.entries(rows)) {
+      const select = db.prepare(`SELECT * FROM ${snapshotTableSql(db, table).table} WHERE id = ?`)
+      for (const row of tableRows) {
+        const id = String(row.id)
+        const current = select.get(id) as Record<string, unknown> | null
+        const state: SqliteRowState = !current
+          ? "missing"
+          : Object.keys(row).every((column) => sameValue(row[column], current[column]))
+            ? "unchanged"
+            : "changed"
+        comparisons.push({ table, id, path: `sqlite:${table}:${id}`, state })
+      }
+    }
+    return comparisons
+  } finally {
+    closeIfOwned(db, options.db)
+  }
+}
+
+/**
+ * Insert snapshot rows in a single transaction (tables in the order given).
+ *
+ * @returns `sqlite:<table>:<id>` virtual paths of the written rows
+ * @throws Error if an insert fails (for example on an existing ID without `replace`)
+ */
+export async function writeRowsSqlite(
+  rows: SqliteRowSnapshot,
+  options: SqliteWriteRowsOptions
+): Promise<string[]> {
+  const db = openDatabase(options.db, { readonly: false, forceWrite: options.forceWrite })
+  try {
+    const written: string[] = []
+    db.run(options.forceWrite ? "BEGIN IMMEDIATE" : "BEGIN TRANSACTION")
+    try {
+      const verb = options.replace ? "INSERT OR REPLACE" : "INSERT"
+      for (const [table, tableRows] of Object.entries(rows)) {
+        const checked = snapshotTableSql(db, table, [...new Set(tableRows.flatMap((row) => Object.keys(row)))])
+        for (const row of tableRows) {
+          const columns = Object.keys(row)
+          db.prepare(
+            `${verb} INTO ${checked.table} (${columns.map(quoteIdentifier).join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`
+          ).run(...columns.map((column) => row[column] as SQLQueryBindings))
+          written.push(`sqlite:${table}:${row.id}`)
+        }
+      }
+      db.run("COMMIT")
+    } catch (error) {
+      try {
+        db.run("ROLLBACK")
+      } catch {
+        // Ignore rollback errors
+      }
+      throw new Error(formatSqliteErrorMessage(error, "SQLite restore failed", options))
+    }
+    return written
+  } finally {
+    closeIfOwned(db, options.db)
+  }
+}
+
+/**
+ * Re-insert rows saved in a trash entry, in a single transaction.
+ *
+ * Tables are restored in the order given (parents first). Nothing is
+ * restored if any row ID exists again.
+ *
+ * @param rows - Full rows keyed by table name (see readTrashRows)
+ * @returns `sqlite:<table>:<id>` virtual paths of the restored rows
+ * @throws Error if a row already exists or an insert fails
+ */
+export async function restoreTrashRowsSqlite(
+  rows: SqliteRowSnapshot,
+  options: SqliteRestoreRowsOptions
+): Promise<string[]> {
+  const occupied = (await compareRowsSqlite(rows, options))
+    .filter((row) => row.state !== "missing")
+    .map((row) => row.path)
+  if (occupied.length > 0) {
+    throw new Error(`${occupied.length} row(s) already exist: ${occupied.join(", ")}`)
+  }
+  return writeRowsSqlite(rows, options)
+}
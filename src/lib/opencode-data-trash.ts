@@ -0,0 +1,410 @@
+/**
+ * Trash area for deleted metadata.
+ *
+ * Instead of removing data permanently, deletes can move it into a trash
+ * area next to the store:
+ * - JSONL: `<root>/trash/<trashId>/files/<path relative to root>`
+ * - SQLite: `<db directory>/trash/<trashId>/rows.json`
+ *
+ * Every entry has a `manifest.json` recording where the data came from,
+ * when it was deleted and by which command, so it can be listed, restored
+ * or purged later.
+ */
+import { randomBytes } from "node:crypto"
+import { existsSync, promises as fs } from "node:fs"
+import { dirname, isAbsolute, join, relative, resolve } from "node:path"
+
+// ========================
+// Types
+// ========================
+
+export type TrashBackend = "jsonl" | "sqlite"
+
+/**
+ * What the user deleted (the cascade to sessions/messages/parts is recorded
+ * in the entry's items).
+ */
+export type TrashResourceType = "project" | "session"
+
+/**
+ * Passed with a delete to move data into the trash instead of removing it.
+ */
+export interface TrashContext {
+  /** Command that triggered the delete, recorded in the manifest */
+  command: string
+}
+
+/**
+ * One trashed file (JSONL) or row (SQLite).
+ */
+export type TrashItem =
+  | { kind: "file"; originalPath: string; trashPath: string }
+  | { kind: "row"; table: string; id: string }
+
+export interface TrashManifest {
+  id: string
+  backend: TrashBackend
+  /** Store root (JSONL) or database path (SQLite) the data was deleted from */
+  source: string
+  /** ISO timestamp */
+  deletedAt: string
+  command: string
+  resourceType: TrashResourceType
+  /** IDs of the deleted projects or sessions */
+  resourceIds: string[]
+  items: TrashItem[]
+}
+
+/**
+ * A trash entry as listed to users.
+ */
+export interface TrashEntry extends TrashManifest {
+  /** Directory holding the manifest and trashed data */
+  path: string
+}
+
+export interface TrashRestoreResult {
+  entry: TrashEntry
+  /** Restored file paths (JSONL) or `sqlite:<table>:<id>` virtual paths */
+  restored: string[]
+}
+
+export interface TrashPurgeOptions {
+  /** Only purge entries deleted more than this many milliseconds ago */
+  olderThanMs: number
+  /** Reference time (defaults to now) */
+  now?: Date
+  /** Report entries without removing them */
+  dryRun?: boolean
+}
+
+/** Row values as stored in rows.json (BLOBs are base64-encoded) */
+type StoredRow = Record<string, unknown>
+
+/** Parent tables first, so restored rows satisfy foreign keys */
+const SQLITE_RESTORE_ORDER = ["project", "session", "message", "part"]
+
+const MANIFEST_FILE = "manifest.json"
+const ROWS_FILE = "rows.json"
+const FILES_DIR = "files"
+
+// ========================
+// Helpers
+// ========================
+
+/**
+ * Directory holding trash entries for a store.
+ */
+export function getTrashRoot(backend: TrashBackend, location: string): string {
+  const normalized = resolve(location)
+  return backend === "jsonl" ? join(normalized, "trash") : join(dirname(normalized), "trash")
+}
+
+/**
+ * Sortable, filesystem-safe ID: `YYYYMMDD-HHMMSS-<random>` (UTC).
+ */
+export function createTrashId(date: Date = new Date()): string {
+  const stamp = date.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15)
+  return `${stamp}-${randomBytes(3).toString("hex")}`
+}
+
+async function writeManifest(entryDir: string, manifest: TrashManifest): Promise<void> {
+  await fs.writeFile(join(entryDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2), "utf8")
+}
+
+function encodeRow(row: Record<string, unknown>): StoredRow {
+  const stored: StoredRow = {}
+  for (const [key, value] of Object.entries(row)) {
+    stored[key] = value instanceof Uint8Array ? { $blob: Buffer.from(value).toString("base64") } : value
+  }
+  return stored
+}
+
+function decodeValue(value: unknown): unknown {
+  if (value && typeof value === "object" && typeof (value as { $blob?: unknown }).$blob === "string") {
+    return Buffer.from((value as { $blob: string }).$blob, "base64")
+  }
+  return value
+}
+
+/**
+ * Encode SQLite rows (keyed by table) as JSON-safe values; BLOBs become
+ * `{ $blob: <base64> }`.
+ */
+export function encodeRows(rows: Record<string, Record<string, unknown>[]>): Record<string, StoredRow[]> {
+  const stored: Record<string, StoredRow[]> = {}
+  for (const [table, tableRows] of Object.entries(rows)) {
+    stored[table] = tableRows.map(encodeRow)
+  }
+  return stored
+}
+
+/**
+ * Decode rows written by encodeRows, ordering tables parents first.
+ */
+export function decodeRows(stored: Record<string, StoredRow[]>): Record<string, Record<string, unknown>[]> {
+  const rows: Record<string, Record<string, unknown>[]> = {}
+  const tables = Object.keys(stored).sort(
+    (a, b) => SQLITE_RESTORE_ORDER.indexOf(a) - SQLITE_RESTORE_ORDER.indexOf(b)
+  )
+  for (const table of tables) {
+    rows[table] = stored[table].map((row) =>
+      Object.fromEntries(Object.entries(row).map(([key, value]) => [key, decodeValue(value)]))
+    )
+  }
+  return rows
+}
+
+// ========================
+// Writing
+// ========================
+
+/**
+ * Collects files moved into a single JSONL trash entry.
+ */
+export interface JsonlTrashWriter {
+  readonly id: string
+  /** Move a file or directory under the store root into the entry */
+  move(path: string): Promise<void>
+  /**
+   * Write the manifest. Entries that received no files are removed and
+   * null is returned.
+   */
+  commit(resourceIds: string[]): Promise<string | null>
+}
+
+/**
+ * Start a JSONL trash entry. Files keep their path relative to the store
+ * root, so restoring puts them back exactly where they were.
+ */
+export function createJsonlTrashWriter(
+  root: string,
+  context: TrashContext,
+  resourceType: TrashResourceType
+): JsonlTrashWriter {
+  const normalizedRoot = resolve(root)
+  const id = createTrashId()
+  const entryDir = join(getTrashRoot("jsonl", normalizedRoot), id)
+  const deletedAt = new Date().toISOString()
+  const items: TrashItem[] = []
+
+  return {
+    id,
+
+    async move(path: string) {
+      const relativePath = relative(normalizedRoot, resolve(path))
+      if (relativePath.startsWith("..") || isAbsolute(relativePath)) {
+        throw new Error(`Cannot trash ${path}: outside of store root ${normalizedRoot}`)
+      }
+      const trashPath = join(FILES_DIR, relativePath)
+      const destination = join(entryDir, trashPath)
+      await fs.mkdir(dirname(destination), { recursive: true })
+      await fs.rename(path, destination)
+      items.push({ kind: "file", originalPath: resolve(path), trashPath })
+    },
+
+    async commit(resourceIds: string[]) {
+      if (items.length === 0) {
+        await fs.rm(entryDir, { recursive: true, force: true })
+        return null
+      }
+      await writeManifest(entryDir, {
+        id,
+        backend: "jsonl",
+        source: normalizedRoot,
+        deletedAt,
+        command: context.command,
+        resourceType,
+        resourceIds,
+        items,
+      })
+      return id
+    },
+  }
+}
+
+/**
+ * Write deleted SQLite rows into a new trash entry.
+ *
+ * Call this inside the delete transaction, before COMMIT, so a failure to
+ * write the trash entry rolls the delete back.
+ *
+ * @param rows - Full rows keyed by table name
+ * @returns The trash entry ID
+ */
+export async function writeSqliteTrashEntry(
+  dbPath: string,
+  context: TrashContext,
+  resourceType: TrashResourceType,
+  resourceIds: string[],
+  rows: Record<string, Record<string, unknown>[]>
+): Promise<string> {
+  const source = resolve(dbPath)
+  const id = createTrashId()
+  const entryDir = join(getTrashRoot("sqlite", source), id)
+  const items: TrashItem[] = []
+  const stored = encodeRows(rows)
+
+  for (const [table, tableRows] of Object.entries(rows)) {
+    for (const row of tableRows) {
+      items.push({ kind: "row", table, id: String(row.id ?? "") })
+    }
+  }
+
+  await fs.mkdir(entryDir, { recursive: true })
+  try {
+    await fs.writeFile(join(entryDir, ROWS_FILE), JSON.stringify(stored, null, 2), "utf8")
+    await writeManifest(entryDir, {
+      id,
+      backend: "sqlite",
+      source,
+      deletedAt: new Date().toISOString(),
+      command: context.command,
+      resourceType,
+      resourceIds,
+      items,
+    })
+  } catch (error) {
+    await fs.rm(entryDir, { recursive: true, force: true })
+    throw error
+  }
+  return id
+}
+
+// ========================
+// Listing
+// ========================
+
+/**
+ * List trash entries for a store, newest first.
+ * Entries with an unreadable manifest or from another store are ignored.
+ */
+export async function listTrashEntries(backend: TrashBackend, location: string): Promise<TrashEntry[]> {
+  const source = resolve(location)
+  const trashRoot = getTrashRoot(backend, source)
+  let names: string[]
+  try {
+    names = (await fs.readdir(trashRoot, { withFileTypes: true }))
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+  } catch {
+    return []
+  }
+
+  const entries: TrashEntry[] = []
+  for (const name of names) {
+    const path = join(trashRoot, name)
+    try {
+      const manifest = JSON.parse(await fs.readFile(join(path, MANIFEST_FILE), "utf8")) as TrashManifest
+      if (manifest.backend === backend && manifest.source === source) {
+        entries.push({ ...manifest, path })
+      }
+    } catch {
+      // Not a trash entry (or still being written)
+    }
+  }
+
+  entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt) || b.id.localeCompare(a.id))
+  return entries
+}
+
+/**
+ * Find a trash entry by exact ID or unique ID prefix.
+ *
+ * @throws Error if no entry or several entries match
+ */
+export async function findTrashEntry(backend: TrashBackend, location: string, trashId: string): Promise<TrashEntry> {
+  return matchTrashEntry(await listTrashEntries(backend, location), trashId)
+}
+
+/**
+ * Pick the entry with the given trash ID, or the only entry whose ID starts with it.
+ */
+export function matchTrashEntry(entries: TrashEntry[], trashId: string): TrashEntry {
+  const exact = entries.find((entry) => entry.id === trashId)
+  if (exact) {
+    return exact
+  }
+  const matches = entries.filter((entry) => entry.id.startsWith(trashId))
+  if (matches.length === 1) {
+    return matches[0]
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `Multiple trash entries match prefix '${trashId}': ${matches.map((entry) => entry.id).join(", ")}`
+    )
+  }
+  throw new Error(`Trash entry not found: ${trashId}`)
+}
+
+// ========================
+// Restore
+// ========================
+
+/**
+ * Move trashed JSONL files back to their original paths.
+ *
+ * Nothing is restored if any original path is occupied again.
+ *
+ * @returns The restored paths
+ */
+export async function restoreJsonlTrashEntry(entry: TrashEntry): Promise<string[]> {
+  const files = entry.items.filter((item): item is Extract<TrashItem, { kind: "file" }> => item.kind === "file")
+  const occupied = files.filter((item) => existsSync(item.originalPath))
+  if (occupied.length > 0) {
+    throw new Error(
+      `Cannot restore ${entry.id}: ${occupied.length} path(s) already exist: ${occupied
+        .map((item) => item.originalPath)
+        .join(", ")}`
+    )
+  }
+
+  const restored: string[] = []
+  for (const item of files) {
+    await fs.mkdir(dirname(item.originalPath), { recursive: true })
+    await fs.rename(join(entry.path, item.trashPath), item.originalPath)
+    restored.push(item.originalPath)
+  }
+  return restored
+}
+
+/**
+ * Read the rows of a SQLite trash entry, keyed by table, parent tables first.
+ */
+export async function readTrashRows(entry: TrashEntry): Promise<Record<string, Record<string, unknown>[]>> {
+  const stored = JSON.parse(await fs.readFile(join(entry.path, ROWS_FILE), "utf8")) as Record<string, StoredRow[]>
+  return decodeRows(stored)
+}
+
+/**
+ * Remove an entry from the trash (after restoring it).
+ */
+export async function removeTrashEntry(entry: Pick<TrashEntry, "path">): Promise<void> {
+  await fs.rm(entry.path, { recursive: true, force: true })
+}
+
+// ========================
+// Purge
+// ========================
+
+/**
+ * Permanently remove trash entries older than the given age.
+ *
+ * @returns The purged (or, for dry runs, purgeable) entries
+ */
+export async function purgeTrashEntries(
+  backend: TrashBackend,
+  location: string,
+  options: TrashPurgeOptions
+): Promise<TrashEntry[]> {
+  const cutoff = (options.now ?? new Date()).getTime() - options.olderThanMs
+  const expired = (await listTrashEntries(backend, location)).filter(
+    (entry) => new Date(entry.deletedAt).getTime() <= cutoff
+  )
+  if (!options.dryRun) {
+    for (const entry of expired) {
+      await fs.rm(entry.path, { recursive: true, force: true })
+    }
+  }
+  return expired
+}
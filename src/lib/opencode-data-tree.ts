@@ -0,0 +1,189 @@
+/**
+ * Parent/child session hierarchy.
+ *
+ * OpenCode runs subagents (the `task` tool) in child sessions whose
+ * `parentId` points at the session that started them. These helpers build the
+ * tree from a flat session list, and expand a selection to whole subtrees for
+ * cascading deletes, moves, copies and token rollups.
+ *
+ * Sessions whose parent is not in the list (deleted, or filtered out by
+ * project) are treated as roots.
+ */
+import type { SessionRecord } from "./opencode-data"
+import type { DataProvider } from "./opencode-data-provider"
+
+// ========================
+// Types
+// ========================
+
+export interface SessionTreeNode {
+  session: SessionRecord
+  children: SessionTreeNode[]
+}
+
+/**
+ * A session in depth-first tree order, as listed by `sessions tree`.
+ */
+export interface SessionTreeRow extends SessionRecord {
+  /** 0 for roots, 1 for their children, ... */
+  depth: number
+  /** Number of direct children */
+  childCount: number
+  /** Number of children, grandchildren, ... */
+  descendantCount: number
+}
+
+// ========================
+// Tree Building
+// ========================
+
+function groupChildren(sessions: readonly SessionRecord[]): Map<string, SessionRecord[]> {
+  const ids = new Set(sessions.map((session) => session.sessionId))
+  const children = new Map<string, SessionRecord[]>()
+  for (const session of sessions) {
+    if (session.parentId && session.parentId !== session.sessionId && ids.has(session.parentId)) {
+      const siblings = children.get(session.parentId) ?? []
+      siblings.push(session)
+      children.set(session.parentId, siblings)
+    }
+  }
+  return children
+}
+
+/**
+ * Arrange sessions into trees. Roots and siblings keep their order in
+ * `sessions`. Every session appears exactly once, even when parent links form
+ * a cycle (the first session of the cycle becomes a root).
+ */
+export function buildSessionTree(sessions: readonly SessionRecord[]): SessionTreeNode[] {
+  const children = groupChildren(sessions)
+  const ids = new Set(sessions.map((session) => session.sessionId))
+  const placed = new Set<string>()
+
+  const build = (session: SessionRecord): SessionTreeNode => {
+    placed.add(session.sessionId)
+    const childNodes = (children.get(session.sessionId) ?? [])
+      .filter((child) => !placed.has(child.sessionId))
+      .map(build)
+    return { session, children: childNodes }
+  }
+
+  const roots = sessions
+    .filter((session) => !session.parentId || session.parentId === session.sessionId || !ids.has(session.parentId))
+    .map(build)
+  // Sessions only reachable through a cycle
+  for (const session of sessions) {
+    if (!placed.has(session.sessionId)) {
+      roots.push(build(session))
+    }
+  }
+  return roots
+}
+
+function countDescendants(node: SessionTreeNode): number {
+  return node.children.reduce((total, child) => total + 1 + countDescendants(child), 0)
+}
+
+/**
+ * List tree nodes depth-first. Children of sessions in `collapsed` are left out.
+ */
+export function flattenSessionTree(
+  nodes: readonly SessionTreeNode[],
+  collapsed: ReadonlySet<string> = new Set()
+): SessionTreeRow[] {
+  const rows: SessionTreeRow[] = []
+  const visit = (node: SessionTreeNode, depth: number) => {
+    rows.push({
+      ...node.session,
+      depth,
+      childCount: node.children.length,
+      descendantCount: countDescendants(node),
+    })
+    if (!collapsed.has(node.session.sessionId)) {
+      for (const child of node.children) {
+        visit(child, depth + 1)
+      }
+    }
+  }
+  for (const node of nodes) {
+    visit(node, 0)
+  }
+  return rows
+}
+
+// ========================
+// Subtrees
+// ========================
+
+/**
+ * All descendants of a session, each parent before its children.
+ * The session itself is not included.
+ */
+export function collectDescendants(sessionId: string, sessions: readonly SessionRecord[]): SessionRecord[] {
+  const children = groupChildren(sessions)
+  const seen = new Set([sessionId])
+  const descendants: SessionRecord[] = []
+  const queue = [sessionId]
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift() as string) ?? []) {
+      if (!seen.has(child.sessionId)) {
+        seen.add(child.sessionId)
+        descendants.push(child)
+        queue.push(child.sessionId)
+      }
+    }
+  }
+  return descendants
+}
+
+/**
+ * The selected sessions plus all of their descendants, without duplicates.
+ * Every parent comes before its children, so the result can be copied in order.
+ */
+export function expandWithDescendants(
+  selected: readonly SessionRecord[],
+  sessions: readonly SessionRecord[]
+): SessionRecord[] {
+  const seen = new Set<string>()
+  const expanded: SessionRecord[] = []
+  for (const session of selected) {
+    for (const member of [session, ...collectDescendants(session.sessionId, sessions)]) {
+      if (!seen.has(member.sessionId)) {
+        seen.add(member.sessionId)
+        expanded.push(member)
+      }
+    }
+  }
+  return expanded
+}
+
+// ========================
+// Cascading Copy
+// ========================
+
+/**
+ * Copy sessions into a project of `target` (which may be `source`), keeping
+ * their parent/child links: a copied child points at its parent's copy.
+ * Sessions whose parent is not copied become standalone sessions.
+ *
+ * `sessions` must list every parent before its children
+ * (see expandWithDescendants). Stops at the first failure.
+ *
+ * @returns The new records, in the order of `sessions`.
+ */
+export async function copySessionTree(
+  source: DataProvider,
+  target: DataProvider,
+  sessions: readonly SessionRecord[],
+  targetProjectId: string
+): Promise<SessionRecord[]> {
+  const copyIds = new Map<string, string>()
+  const copies: SessionRecord[] = []
+  for (const session of sessions) {
+    const parentId = session.parentId ? copyIds.get(session.parentId) : undefined
+    const copy = await target.importSession(await source.exportSession(session), targetProjectId, { parentId })
+    copyIds.set(session.sessionId, copy.sessionId)
+    copies.push(copy)
+  }
+  return copies
+}
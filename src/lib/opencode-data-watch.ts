@@ -0,0 +1,581 @@
+/**
+ * Change notifications for opencode stores.
+ *
+ * Watchers keep a snapshot of project and session IDs and emit typed events
+ * for what changed between two scans:
+ * - JSONL: an `fs.watch` event rescans the directory it came from. Not every
+ *   platform reports in-place rewrites of an existing file, so the whole
+ *   store is also rescanned every `intervalMs` (30 seconds by default).
+ * - SQLite: `PRAGMA data_version` is polled every `intervalMs`; the tables
+ *   are only re-read when another connection has committed.
+ *
+ * Only messages created after the watcher started are reported as appended,
+ * so rewrites of older message files do not show up as new messages.
+ */
+import { watch as watchPath, promises as fs, type FSWatcher } from "node:fs"
+import { join, resolve } from "node:path"
+import type { Database } from "bun:sqlite"
+import {
+  loadProjectRecordsSqlite,
+  loadSessionChatIndexSqlite,
+  loadSessionRecordsSqlite,
+  openDatabase,
+} from "./opencode-data-sqlite"
+
+// ========================
+// Types
+// ========================
+
+export type StoreChangeEvent =
+  | { type: "project-added"; projectId: string }
+  | { type: "project-removed"; projectId: string }
+  | { type: "session-created"; sessionId: string; projectId: string }
+  | { type: "session-updated"; sessionId: string; projectId: string }
+  | { type: "session-deleted"; sessionId: string; projectId: string }
+  | { type: "message-appended"; sessionId: string; messageId: string }
+
+export type StoreChangeListener = (event: StoreChangeEvent) => void
+
+export interface StoreWatchOptions {
+  /** Called when a scan fails or a listener throws; the watcher keeps running */
+  onError?: (error: Error) => void
+}
+
+/**
+ * Start watching a store. Returns a function that stops the watcher.
+ */
+export type StoreWatcherStart = (
+  emit: StoreChangeListener,
+  onError: (error: Error) => void
+) => () => void
+
+// ========================
+// Constants
+// ========================
+
+/**
+ * Default delay between data_version polls (SQLite), and between rescans of
+ * JSONL directories that could not be watched.
+ */
+export const DEFAULT_WATCH_INTERVAL_MS = 1000
+
+/**
+ * Default delay between full rescans of a JSONL store, a fallback for
+ * changes fs.watch did not report.
+ */
+export const DEFAULT_JSONL_RESCAN_INTERVAL_MS = 30_000
+
+/**
+ * Delay used to coalesce bursts of fs.watch events into one rescan.
+ */
+const WATCH_DEBOUNCE_MS = 50
+
+const RESERVED_SESSION_DIRS = new Set(["message", "part"])
+const PROJECT_BUCKETS = ["project", "sessions"] as const
+
+// ========================
+// Helpers
+// ========================
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
+
+async function readDirNames(dir: string, options: { directories?: boolean } = {}): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true })
+    return entries
+      .filter((entry) => (options.directories ? entry.isDirectory() : entry.isFile() && entry.name.endsWith(".json")))
+      .map((entry) => entry.name)
+  } catch {
+    return []
+  }
+}
+
+interface SessionSnapshot {
+  projectId: string
+  version: number
+}
+
+/**
+ * Compare two session snapshots, emitting created, updated and deleted events.
+ * Returns the IDs of sessions that were created or updated.
+ */
+function diffSessions(
+  previous: Map<string, SessionSnapshot>,
+  next: Map<string, SessionSnapshot>,
+  emit: StoreChangeListener
+): string[] {
+  const changed: string[] = []
+  for (const [sessionId, session] of next) {
+    const before = previous.get(sessionId)
+    if (!before) {
+      emit({ type: "session-created", sessionId, projectId: session.projectId })
+      changed.push(sessionId)
+    } else if (before.version !== session.version || before.projectId !== session.projectId) {
+      emit({ type: "session-updated", sessionId, projectId: session.projectId })
+      changed.push(sessionId)
+    }
+  }
+  for (const [sessionId, session] of previous) {
+    if (!next.has(sessionId)) {
+      emit({ type: "session-deleted", sessionId, projectId: session.projectId })
+    }
+  }
+  return changed
+}
+
+function diffProjects(previous: Set<string>, next: Set<string>, emit: StoreChangeListener): void {
+  for (const projectId of next) {
+    if (!previous.has(projectId)) {
+      emit({ type: "project-added", projectId })
+    }
+  }
+  for (const projectId of previous) {
+    if (!next.has(projectId)) {
+      emit({ type: "project-removed", projectId })
+    }
+  }
+}
+
+/**
+ * Share one watcher between all listeners of a provider.
+ *
+ * The watcher starts with the first listener and stops when the last one
+ * unsubscribes. A listener that throws is reported to its own onError and
+ * does not keep the others from being called.
+ */
+export function createSharedWatcher(
+  start: StoreWatcherStart
+): (listener: StoreChangeListener, options?: StoreWatchOptions) => () => void {
+  const subscribers = new Set<{ listener: StoreChangeListener; onError?: (error: Error) => void }>()
+  let stop: (() => void) | null = null
+
+  const emit = (event: StoreChangeEvent) => {
+    for (const subscriber of [...subscribers]) {
+      try {
+        subscriber.listener(event)
+      } catch (error) {
+        subscriber.onError?.(toError(error))
+      }
+    }
+  }
+  const fail = (error: Error) => {
+    for (const subscriber of [...subscribers]) {
+      subscriber.onError?.(error)
+    }
+  }
+
+  return (listener, options) => {
+    const subscriber = { listener, onError: options?.onError }
+    subscribers.add(subscriber)
+    if (!stop) {
+      stop = start(emit, fail)
+    }
+    return () => {
+      subscribers.delete(subscriber)
+      if (subscribers.size === 0 && stop) {
+        stop()
+        stop = null
+      }
+    }
+  }
+}
+
+// ========================
+// JSONL Watcher
+// ========================
+
+/**
+ * What a watched directory holds, so an fs.watch event only rescans that part
+ * of the store.
+ */
+type WatchTarget =
+  | { kind: "projects" }
+  | { kind: "sessions" }
+  | { kind: "project-sessions"; projectId: string }
+  | { kind: "messages"; sessionId: string }
+
+/**
+ * Watch a JSONL store root.
+ *
+ * Project buckets and session directories are always watched. Message
+ * directories (in `storage/message` or the legacy `storage/session/message`)
+ * are only watched for sessions created or updated since the watcher started,
+ * which keeps the number of watches bounded on large stores.
+ *
+ * An fs.watch event rescans only the directory it came from. The whole store
+ * is rescanned every `intervalMs` as a fallback for changes fs.watch missed;
+ * directories that could not be watched are rescanned every
+ * DEFAULT_WATCH_INTERVAL_MS instead.
+ */
+export function watchJsonlStore(
+  root: string,
+  emit: StoreChangeListener,
+  onError: (error: Error) => void,
+  intervalMs: number = DEFAULT_JSONL_RESCAN_INTERVAL_MS
+): () => void {
+  const storage = join(resolve(root), "storage")
+  const since = Date.now()
+  const watchers = new Map<string, FSWatcher>()
+  // Directories that exist but could not be watched
+  const unwatched = new Map<string, WatchTarget>()
+  // Directories with events since the last scan
+  const dirty = new Map<string, WatchTarget>()
+  let projects: Set<string> | null = null
+  let sessions: Map<string, SessionSnapshot> | null = null
+  // Messages already seen per active session
+  const activeSessions = new Map<string, Set<string>>()
+  let closed = false
+  let scanning = false
+  let rescanRequested = false
+  let fullScanRequested = true
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null
+
+  // Directories seen by the current full scan; watches on the others are closed after it
+  let wanted = new Set<string>()
+
+  const ensureWatch = (dir: string, target: WatchTarget) => {
+    wanted.add(dir)
+    if (closed || watchers.has(dir)) {
+      return
+    }
+    try {
+      const watcher = watchPath(dir, () => {
+        dirty.set(dir, target)
+        schedule()
+      })
+      // The directory went away (e.g. its session was deleted)
+      watcher.on("error", () => {
+        watcher.close()
+        watchers.delete(dir)
+      })
+      watchers.set(dir, watcher)
+      unwatched.delete(dir)
+    } catch (error) {
+      // A directory that does not exist yet is retried by the next scan
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        unwatched.set(dir, target)
+      }
+    }
+  }
+
+  const scanProjects = async (): Promise<Set<string>> => {
+    const next = new Set<string>()
+    for (const bucket of PROJECT_BUCKETS) {
+      const dir = join(storage, bucket)
+      ensureWatch(dir, { kind: "projects" })
+      for (const name of await readDirNames(dir)) {
+        next.add(name.replace(/\.json$/i, ""))
+      }
+    }
+    return next
+  }
+
+  const scanProjectSessions = async (projectId: string, into: Map<string, SessionSnapshot>) => {
+    const projectDir = join(storage, "session", projectId)
+    ensureWatch(projectDir, { kind: "project-sessions", projectId })
+    for (const name of await readDirNames(projectDir)) {
+      try {
+        const stat = await fs.stat(join(projectDir, name))
+        into.set(name.replace(/\.json$/i, ""), { projectId, version: stat.mtimeMs + stat.size })
+      } catch {
+        // Removed between readdir and stat
+      }
+    }
+  }
+
+  const listProjectDirs = async (): Promise<string[]> => {
+    const sessionRoot = join(storage, "session")
+    ensureWatch(sessionRoot, { kind: "sessions" })
+    const names = await readDirNames(sessionRoot, { directories: true })
+    return names.filter((name) => !RESERVED_SESSION_DIRS.has(name))
+  }
+
+  const scanSessions = async (): Promise<Map<string, SessionSnapshot>> => {
+    const next = new Map<string, SessionSnapshot>()
+    for (const projectId of await listProjectDirs()) {
+      await scanProjectSessions(projectId, next)
+    }
+    return next
+  }
+
+  /**
+   * Rescan only the project directories that changed (or appeared or went
+   * away when the session root itself changed).
+   */
+  const rescanSessions = async (
+    previous: Map<string, SessionSnapshot>,
+    changes: WatchTarget[]
+  ): Promise<Map<string, SessionSnapshot>> => {
+    const changedProjects = new Set<string>()
+    for (const change of changes) {
+      if (change.kind === "project-sessions") {
+        changedProjects.add(change.projectId)
+      }
+    }
+    if (changes.some((change) => change.kind === "sessions")) {
+      const known = new Set([...previous.values()].map((session) => session.projectId))
+      const current = new Set(await listProjectDirs())
+      for (const projectId of new Set([...known, ...current])) {
+        if (known.has(projectId) !== current.has(projectId)) {
+          changedProjects.add(projectId)
+        }
+      }
+    }
+    if (changedProjects.size === 0) {
+      return previous
+    }
+    const next = new Map([...previous].filter(([, session]) => !changedProjects.has(session.projectId)))
+    for (const projectId of changedProjects) {
+      await scanProjectSessions(projectId, next)
+    }
+    return next
+  }
+
+  const scanMessages = async (sessionId: string, seen: Set<string>) => {
+    for (const dir of [join(storage, "message", sessionId), join(storage, "session", "message", sessionId)]) {
+      ensureWatch(dir, { kind: "messages", sessionId })
+      for (const name of await readDirNames(dir)) {
+        const messageId = name.replace(/\.json$/i, "")
+        if (seen.has(messageId)) {
+          continue
+        }
+        try {
+          const filePath = join(dir, name)
+          const stat = await fs.stat(filePath)
+          if (stat.mtimeMs < since) {
+            seen.add(messageId)
+            continue
+          }
+          const payload = JSON.parse(await fs.readFile(filePath, "utf8"))
+          seen.add(messageId)
+          const created = payload?.time?.created
+          if (typeof created !== "number" || created >= since) {
+            emit({ type: "message-appended", sessionId, messageId })
+          }
+        } catch {
+          // Partially written file; picked up on the next scan
+        }
+      }
+    }
+  }
+
+  const scan = async (full: boolean) => {
+    const changes = [...dirty.values()]
+    dirty.clear()
+    if (full) {
+      wanted = new Set()
+    }
+    const nextProjects =
+      full || !projects || changes.some((change) => change.kind === "projects") ? await scanProjects() : projects
+    const nextSessions = full || !sessions ? await scanSessions() : await rescanSessions(sessions, changes)
+    if (closed) {
+      return
+    }
+    // Sessions whose messages may have changed
+    const touched = new Set<string>()
+    if (projects && sessions) {
+      diffProjects(projects, nextProjects, emit)
+      for (const sessionId of diffSessions(sessions, nextSessions, emit)) {
+        if (!activeSessions.has(sessionId)) {
+          activeSessions.set(sessionId, new Set())
+        }
+        touched.add(sessionId)
+      }
+    }
+    projects = nextProjects
+    sessions = nextSessions
+    for (const change of changes) {
+      if (change.kind === "messages") {
+        touched.add(change.sessionId)
+      }
+    }
+
+    for (const [sessionId, seen] of activeSessions) {
+      if (!nextSessions.has(sessionId)) {
+        activeSessions.delete(sessionId)
+        continue
+      }
+      if (full || touched.has(sessionId)) {
+        await scanMessages(sessionId, seen)
+      }
+    }
+
+    if (full) {
+      for (const [dir, watcher] of watchers) {
+        if (!wanted.has(dir)) {
+          watcher.close()
+          watchers.delete(dir)
+        }
+      }
+      for (const dir of unwatched.keys()) {
+        if (!wanted.has(dir)) {
+          unwatched.delete(dir)
+        }
+      }
+    }
+  }
+
+  const run = async () => {
+    if (scanning) {
+      rescanRequested = true
+      return
+    }
+    scanning = true
+    try {
+      do {
+        rescanRequested = false
+        const full = fullScanRequested
+        fullScanRequested = false
+        await scan(full)
+      } while ((rescanRequested || fullScanRequested || dirty.size > 0) && !closed)
+    } catch (error) {
+      onError(toError(error))
+    } finally {
+      scanning = false
+    }
+  }
+
+  function schedule() {
+    if (closed || debounceTimer) {
+      return
+    }
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null
+      void run()
+    }, WATCH_DEBOUNCE_MS)
+  }
+
+  void run()
+  const fallback = setInterval(() => {
+    fullScanRequested = true
+    schedule()
+  }, intervalMs)
+  const pollUnwatched = setInterval(() => {
+    if (unwatched.size > 0) {
+      for (const [dir, target] of unwatched) {
+        dirty.set(dir, target)
+      }
+      schedule()
+    }
+  }, Math.min(intervalMs, DEFAULT_WATCH_INTERVAL_MS))
+
+  return () => {
+    closed = true
+    clearInterval(fallback)
+    clearInterval(pollUnwatched)
+    if (debounceTimer) {
+      clearTimeout(debounceTimer)
+    }
+    for (const watcher of watchers.values()) {
+      watcher.close()
+    }
+    watchers.clear()
+  }
+}
+
+// ========================
+// SQLite Watcher
+// ========================
+
+/**
+ * Watch a SQLite database by polling `PRAGMA data_version`.
+ *
+ * The watcher keeps its own read-only connection. A database that cannot be
+ * opened is reported once per distinct error and retried on every poll.
+ */
+export function watchSqliteStore(
+  dbPath: string,
+  emit: StoreChangeListener,
+  onError: (error: Error) => void,
+  intervalMs: number = DEFAULT_WATCH_INTERVAL_MS
+): () => void {
+  const since = Date.now()
+  const reported = new Set<string>()
+  const quiet = { onWarning: () => {} }
+  let db: Database | null = null
+  let dataVersion: number | null = null
+  let projects: Set<string> | null = null
+  let sessions: Map<string, SessionSnapshot> | null = null
+  let lastError: string | null = null
+  let closed = false
+  let polling = false
+
+  const scan = async (connection: Database) => {
+    const projectRecords = await loadProjectRecordsSqlite({ db: connection, ...quiet })
+    const sessionRecords = await loadSessionRecordsSqlite({ db: connection, ...quiet })
+    const nextProjects = new Set(projectRecords.map((project) => project.projectId))
+    const nextSessions = new Map<string, SessionSnapshot>(
+      sessionRecords.map((session) => [
+        session.sessionId,
+        {
+          projectId: session.projectId,
+          version: session.updatedAt?.getTime() ?? session.createdAt?.getTime() ?? 0,
+        },
+      ])
+    )
+    if (closed) {
+      return
+    }
+    if (projects && sessions) {
+      diffProjects(projects, nextProjects, emit)
+      for (const sessionId of diffSessions(sessions, nextSessions, emit)) {
+        const messages = await loadSessionChatIndexSqlite({ db: connection, sessionId, ...quiet })
+        for (const message of messages) {
+          const created = message.createdAt?.getTime() ?? null
+          if (!reported.has(message.messageId) && (created === null || created >= since)) {
+            reported.add(message.messageId)
+            emit({ type: "message-appended", sessionId, messageId: message.messageId })
+          }
+        }
+      }
+    }
+    projects = nextProjects
+    sessions = nextSessions
+  }
+
+  const poll = async () => {
+    if (closed || polling) {
+      return
+    }
+    polling = true
+    try {
+      db ??= openDatabase(dbPath)
+      const row = db.query("PRAGMA data_version").get() as { data_version: number }
+      if (row.data_version !== dataVersion) {
+        dataVersion = row.data_version
+        await scan(db)
+      }
+      lastError = null
+    } catch (error) {
+      const failure = toError(error)
+      if (failure.message !== lastError) {
+        lastError = failure.message
+        onError(failure)
+      }
+      db?.close()
+      db = null
+      dataVersion = null
+    } finally {
+      polling = false
+      if (closed) {
+        db?.close()
+        db = null
+      }
+    }
+  }
+
+  void poll()
+  const interval = setInterval(() => void poll(), intervalMs)
+
+  return () => {
+    closed = true
+    clearInterval(interval)
+    // An in-flight poll closes the connection when it finishes
+    if (!polling) {
+      db?.close()
+      db = null
+    }
+  }
+}
@@ -1,6 +1,17 @@
+import { createHash } from "node:crypto"
 import { constants, promises as fs } from "node:fs"
-import { dirname, join, resolve } from "node:path"
+import { basename, dirname, join, resolve } from "node:path"
 import { homedir } from "node:os"
+import { createJsonlTrashWriter, type JsonlTrashWriter, type TrashContext, type TrashResourceType } from "./opencode-data-trash"
+import {
+  isIndexCacheEnabled,
+  pruneCacheEntries,
+  readCacheEntry,
+  writeCacheEntry,
+  type IndexCacheKind,
+} from "./opencode-data-cache"
+import { getIoPool } from "./worker-pool"
+import { addCostBreakdown, addMessageCost, emptyCostBreakdown, pricingFingerprint } from "./pricing"
 
 export type ProjectState = "present" | "missing" | "unknown"
 
@@ -17,14 +28,116 @@ export type TokenBreakdown = {
   total: number
 }
 
+/**
+ * Cost in USD. `recorded` comes from the `cost` OpenCode stores on assistant
+ * messages, `estimated` from the pricing table for messages without one.
+ */
+export type CostBreakdown = {
+  recorded: number
+  estimated: number
+  total: number
+  /** Assistant messages with tokens but neither a recorded cost nor a price */
+  unpricedMessages: number
+}
+
 export type TokenSummary =
-  | { kind: "known"; tokens: TokenBreakdown }
+  | { kind: "known"; tokens: TokenBreakdown; cost?: CostBreakdown }
   | { kind: "unknown"; reason: "missing" | "parse_error" | "no_messages" }
 
 export type AggregateTokenSummary = {
   total: TokenSummary
   knownOnly?: TokenBreakdown
   unknownSessions?: number
+  /** Cost of the sessions with known tokens */
+  cost?: CostBreakdown
+}
+
+export type TokenGroupBy = "model" | "provider" | "agent"
+
+export const TOKEN_GROUP_BYS: readonly TokenGroupBy[] = ["model", "provider", "agent"]
+
+/**
+ * Token usage of the assistant messages that share a model, provider or agent.
+ */
+export type TokenGroup = {
+  /** `provider/model`, provider or agent; "unknown" when messages do not record it */
+  key: string
+  messages: number
+  tokens: TokenBreakdown
+  cost: CostBreakdown
+}
+
+/**
+ * Token usage of sessions split by model, provider or agent. Like the
+ * aggregate summaries, only sessions with known token data are included.
+ */
+export type GroupedTokenSummary = {
+  by: TokenGroupBy
+  /** Largest total first */
+  groups: TokenGroup[]
+  /** Sum of all groups */
+  total: TokenBreakdown
+  unknownSessions: number
+}
+
+/**
+ * Tokens and cost of one or more assistant messages with the same provider,
+ * model and agent, before grouping.
+ */
+export type TokenUsage = {
+  providerId?: string
+  modelId?: string
+  agent?: string
+  /** Creation time of a single message; not set on rows summed in bulk */
+  createdAt?: Date | null
+  messages: number
+  tokens: TokenBreakdown
+  cost: CostBreakdown
+}
+
+export type TimelineBucket = "day" | "week" | "month"
+
+export const TIMELINE_BUCKETS: readonly TimelineBucket[] = ["day", "week", "month"]
+
+export interface TokenTimelineOptions {
+  bucket: TimelineBucket
+  /** Only messages created at or after this time */
+  since?: Date
+  /** Only messages created before this time */
+  until?: Date
+}
+
+/**
+ * Token usage of the assistant messages created in one day, week or month.
+ */
+export type TokenTimelineRow = {
+  /** `2024-01-31`, ISO week `2024-W05` or `2024-01` (UTC) */
+  period: string
+  start: Date
+  /** Start of the next period */
+  end: Date
+  messages: number
+  tokens: TokenBreakdown
+  cost: CostBreakdown
+}
+
+/**
+ * Token usage of sessions bucketed by message creation time. Rows are
+ * oldest first and contiguous: periods without messages are included with
+ * zero usage. Like the aggregate summaries, only sessions with known token
+ * data are included.
+ */
+export type TokenTimeline = {
+  bucket: TimelineBucket
+  since: Date | null
+  until: Date | null
+  rows: TokenTimelineRow[]
+  /** Sum of all rows */
+  total: TokenBreakdown
+  cost: CostBreakdown
+  unknownSessions: number
+  /** Messages left out because they have no creation time */
+  undatedMessages: number
 }
 
 // ========================
@@ -51,6 +164,10 @@ export interface ChatMessage {
   createdAt: Date | null
   parentId?: string         // for threading (assistant → user)
   tokens?: TokenBreakdown   // only on assistant messages
+  providerId?: string       // provider and model that answered (assistant) or were asked (user)
+  modelId?: string
+  agent?: string            // agent (`mode` in older versions) that handled the message
+  cost?: number             // recorded cost in USD, only on assistant messages
 
   // Parts are loaded lazily for performance.
   parts: ChatPart[] | null
@@ -60,6 +177,12 @@ export interface ChatMessage {
   totalChars: number | null // null until parts load
 }
 
+/**
+ * Store a record was loaded from. Only set by the merged provider, which
+ * reads a JSONL store and a SQLite database together.
+ */
+export type RecordSource = "jsonl" | "sqlite"
+
 export interface ProjectRecord {
   index: number
   bucket: ProjectBucket
@@ -69,6 +192,7 @@ export interface ProjectRecord {
   vcs: string | null
   createdAt: Date | null
   state: ProjectState
+  source?: RecordSource
 }
 
 export interface SessionRecord {
@@ -81,13 +205,72 @@ export interface SessionRecord {
   version: string
   createdAt: Date | null
   updatedAt: Date | null
+  /** Session that started this one (subagent `task` sessions), if any */
+  parentId?: string
+  /** Message-derived details, only set by DataProvider.enrichSessionRecords */
+  stats?: SessionStats
+  source?: RecordSource
+}
+
+/**
+ * Details of a session derived from its messages (see summarizeSessionMessages).
+ */
+export interface SessionStats {
+  /** `provider/model` of the assistant messages, most used first */
+  models: string[]
+  /** Agents of the assistant messages, most used first */
+  agents: string[]
+  messageCount: number
+  /** Number of user messages */
+  userTurns: number
+  /** Sum of the cost recorded on assistant messages (USD) */
+  cost: number
+  /** Creation time of the newest message */
+  lastMessageAt: Date | null
 }
 
 export const DEFAULT_ROOT = join(homedir(), ".local", "share", "opencode")
 const PROJECT_BUCKETS = ["project", "sessions"] as const
 type ProjectBucket = (typeof PROJECT_BUCKETS)[number]
 
-export interface LoadOptions {
+/**
+ * A file the JSONL loaders skipped instead of returning.
+ */
+export interface JsonlWarning {
+  /** Absolute path of the skipped file */
+  path: string
+  /** Why the file was skipped (unreadable, invalid JSON, missing id, ...) */
+  reason: string
+}
+
+/**
+ * Strict/warning behaviour for the JSONL loaders, mirroring the SQLite
+ * `strict` and `onWarning` load options.
+ */
+export interface JsonlReadOptions {
+  /**
+   * If true, throw a MalformedRecordError on the first file that would be skipped.
+   * Default behavior is to warn and continue.
+   */
+  strict?: boolean
+  /**
+   * Optional sink for skipped files.
+   * Defaults to console.warn when not provided.
+   */
+  onWarning?: (warning: JsonlWarning) => void
+}
+
+/**
+ * Thrown by the JSONL loaders in strict mode instead of skipping a file.
+ */
+export class MalformedRecordError extends Error {
+  constructor(public readonly warning: JsonlWarning) {
+    super(`Malformed record ${warning.path}: ${warning.reason}`)
+    this.name = "MalformedRecordError"
+  }
+}
+
+export interface LoadOptions extends JsonlReadOptions {
   root?: string
 }
 
@@ -97,13 +280,100 @@ export interface SessionLoadOptions extends LoadOptions {
 
 export interface DeleteOptions {
   dryRun?: boolean
+  /**
+   * Store root used to locate related message/part files.
+   * Derived from each record's filePath when omitted.
+   */
+  root?: string
+  /**
+   * Move deleted data into the trash area instead of removing it
+   * permanently. Ignored for dry runs.
+   */
+  trash?: TrashContext
 }
 
 export interface DeleteResult {
   removed: string[]
   failed: { path: string; error?: string }[]
+  /** Trash entry holding the deleted data (only for trash deletes that removed something) */
+  trashId?: string
 }
 
+/**
+ * Kind of dangling data found by an orphan scan:
+ * - session: session whose project record no longer exists
+ * - message: message data whose session no longer exists
+ * - part: part data whose message no longer exists
+ */
+export type OrphanKind = "session" | "message" | "part"
+
+export interface OrphanRecord {
+  kind: OrphanKind
+  /** Session ID, message directory/row ID, or part directory/row ID */
+  id: string
+  /** ID of the missing parent (project, session, or message) */
+  parentId: string
+  /** File or directory path (JSONL), or `sqlite:<table>:<id>` (SQLite) */
+  path: string
+  /** Number of files or rows covered by this entry */
+  itemCount: number
+  /** Size on disk in bytes (JSONL only) */
+  sizeBytes: number | null
+  source?: RecordSource
+}
+
+/**
+ * Checks run by the store doctor:
+ * - json: file or row data that does not parse as JSON
+ * - timestamp: creation/update time missing or in the future
+ * - message-parent: assistant message whose parentID does not resolve
+ * - part-message: part whose messageID disagrees with its directory/row
+ * - session-project: session whose projectID disagrees with its folder/row
+ * - sqlite-integrity: `PRAGMA integrity_check` failures (SQLite only)
+ * - sqlite-schema: missing required tables/columns (SQLite only)
+ */
+export type DoctorCheck =
+  | "json"
+  | "timestamp"
+  | "message-parent"
+  | "part-message"
+  | "session-project"
+  | "sqlite-integrity"
+  | "sqlite-schema"
+
+export type DoctorSeverity = "error" | "warning"
+
+export interface DoctorIssue {
+  check: DoctorCheck
+  severity: DoctorSeverity
+  /** File path (JSONL), or `sqlite:<table>:<id>` (SQLite) */
+  path: string
+  message: string
+}
+
+export interface DoctorReport {
+  backend: "jsonl" | "sqlite" | "merged"
+  /** Store root (JSONL), database path (SQLite), or both (merged) */
+  location: string
+  /** Number of records examined per kind */
+  scanned: { project: number; session: number; message: number; part: number }
+  issues: DoctorIssue[]
+}
+
+export interface DoctorOptions {
+  /** Reference time for future timestamps (defaults to now) */
+  now?: Date
+}
+
+export interface DoctorIssueCounts {
+  errors: number
+  warnings: number
+  byCheck: Partial<Record<DoctorCheck, number>>
+}
+
+/** Clock skew allowed before a timestamp counts as in the future */
+const DOCTOR_FUTURE_SKEW_MS = 60_000
+
 const BUCKET_SORT = new Map(PROJECT_BUCKETS.map((bucket, idx) => [bucket, idx]))
 
 function expandUserPath(rawPath?: string): string | null {
@@ -145,6 +415,97 @@ async function readJsonFile<T>(filePath: string): Promise<T | null> {
   }
 }
 
+/**
+ * Format a skipped-file warning as a single line.
+ */
+export function formatJsonlWarning(warning: JsonlWarning): string {
+  return `Skipped ${warning.path}: ${warning.reason}`
+}
+
+/**
+ * Report a file the loaders are about to skip: throw in strict mode,
+ * otherwise hand the warning to the sink.
+ */
+function warnJsonl(options: JsonlReadOptions | undefined, path: string, reason: string): void {
+  const warning: JsonlWarning = { path, reason }
+  if (options?.strict) {
+    throw new MalformedRecordError(warning)
+  }
+  if (options?.onWarning) {
+    options.onWarning(warning)
+    return
+  }
+  console.warn(`Warning: ${formatJsonlWarning(warning)}`)
+}
+
+/**
+ * Read a JSON object for one of the loaders, reporting why it cannot be
+ * used instead of silently returning null.
+ */
+async function readJsonRecord<T>(filePath: string, options: JsonlReadOptions | undefined): Promise<T | null> {
+  let raw: string
+  try {
+    raw = await fs.readFile(filePath, "utf8")
+  } catch (error) {
+    warnJsonl(options, filePath, `unreadable (${error instanceof Error ? error.message : String(error)})`)
+    return null
+  }
+  let payload: unknown
+  try {
+    payload = JSON.parse(raw)
+  } catch (error) {
+    warnJsonl(options, filePath, `invalid JSON (${error instanceof Error ? error.message : String(error)})`)
+    return null
+  }
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    warnJsonl(options, filePath, "not a JSON object")
+    return null
+  }
+  return payload as T
+}
+
+/**
+ * Fingerprint a file for the index cache: mtime plus size.
+ */
+async function statFingerprint(path: string): Promise<string | null> {
+  try {
+    const stat = await fs.stat(path)
+    return `${stat.mtimeMs}:${stat.size}`
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read a record file through the index cache. `parse` maps the payload to
+ * the plain, JSON-serializable fields worth caching; unchanged files skip
+ * the read and parse entirely.
+ */
+async function readCachedRecord<T>(
+  kind: IndexCacheKind,
+  root: string,
+  filePath: string,
+  options: JsonlReadOptions | undefined,
+  parse: (payload: any) => T
+): Promise<T | null> {
+  const fingerprint = isIndexCacheEnabled() ? await statFingerprint(filePath) : null
+  if (fingerprint) {
+    const cached = readCacheEntry<T>(kind, root, filePath, fingerprint)
+    if (cached) {
+      return cached
+    }
+  }
+  const payload = await readJsonRecord<any>(filePath, options)
+  if (!payload) {
+    return null
+  }
+  const fields = parse(payload)
+  if (fingerprint) {
+    writeCacheEntry(kind, root, filePath, fingerprint, fields)
+  }
+  return fields
+}
+
 function msToDate(ms?: number | null): Date | null {
   if (typeof ms !== "number" || Number.isNaN(ms)) {
     return null
@@ -183,7 +544,7 @@ export function formatDisplayPath(path: string, options?: { fullPath?: boolean }
 
 export async function loadProjectRecords(options: LoadOptions = {}): Promise<ProjectRecord[]> {
   const root = resolve(options.root ?? DEFAULT_ROOT)
-  const records: ProjectRecord[] = []
+  const files: { bucket: ProjectBucket; entry: string; filePath: string }[] = []
 
   for (const bucket of PROJECT_BUCKETS) {
     const bucketDir = join(root, "storage", bucket)
@@ -192,30 +553,37 @@ export async function loadProjectRecords(options: LoadOptions = {}): Promise<Pro
     }
     const entries = await fs.readdir(bucketDir)
     for (const entry of entries) {
-      if (!entry.endsWith(".json")) {
-        continue
-      }
-      const filePath = join(bucketDir, entry)
-      const payload = await readJsonFile<any>(filePath)
-      if (!payload) {
-        continue
+      if (entry.endsWith(".json")) {
+        files.push({ bucket, entry, filePath: join(bucketDir, entry) })
       }
-      const createdAt = msToDate(payload?.time?.created)
-      const worktree = expandUserPath(payload?.worktree ?? undefined)
-      const state = await computeState(worktree)
-      records.push({
-        index: 0,
-        bucket,
-        filePath,
-        projectId: String(payload?.id ?? entry.replace(/\.json$/i, "")),
-        worktree: worktree ?? "",
-        vcs: typeof payload?.vcs === "string" ? payload.vcs : null,
-        createdAt,
-        state,
-      })
     }
   }
 
+  const loaded = await getIoPool().map(files, async ({ bucket, entry, filePath }): Promise<ProjectRecord | null> => {
+    const fields = await readCachedRecord("project", root, filePath, options, (payload) => ({
+      projectId: String(payload?.id ?? entry.replace(/\.json$/i, "")),
+      worktree: expandUserPath(payload?.worktree ?? undefined) ?? "",
+      vcs: typeof payload?.vcs === "string" ? payload.vcs : null,
+      createdAt: msToDate(payload?.time?.created)?.getTime() ?? null,
+    }))
+    if (!fields) {
+      return null
+    }
+    // State depends on the worktree on disk, so it is never cached
+    const state = await computeState(fields.worktree || null)
+    return {
+      index: 0,
+      bucket,
+      filePath,
+      ...fields,
+      createdAt: msToDate(fields.createdAt),
+      state,
+    }
+  })
+  const records = loaded.filter((record): record is ProjectRecord => record !== null)
+  const seenPaths = new Set(files.map((file) => file.filePath))
+  pruneCacheEntries("project", root, seenPaths)
+
   records.sort((a, b) => {
     const dateDelta = compareDates(a.createdAt, b.createdAt)
     if (dateDelta !== 0) {
@@ -240,49 +608,51 @@ export async function loadSessionRecords(options: SessionLoadOptions = {}): Prom
   }
 
   const projectDirs = await fs.readdir(sessionRoot, { withFileTypes: true })
-  const sessions: SessionRecord[] = []
 
   // Some older OpenCode layouts may store message/part data under `storage/session/*`.
   // Avoid treating those as project IDs when loading sessions.
   const reservedSessionDirs = new Set(["message", "part"])
 
-  for (const dirent of projectDirs) {
-    if (!dirent.isDirectory()) {
-      continue
-    }
-    const currentProjectId = dirent.name
-    if (reservedSessionDirs.has(currentProjectId)) {
-      continue
-    }
-    if (options.projectId && options.projectId !== currentProjectId) {
-      continue
+  const projectIds = projectDirs
+    .filter((dirent) => dirent.isDirectory() && !reservedSessionDirs.has(dirent.name))
+    .map((dirent) => dirent.name)
+    .filter((projectId) => !options.projectId || options.projectId === projectId)
+
+  const listings = await getIoPool().map(projectIds, (projectId) => fs.readdir(join(sessionRoot, projectId)))
+  const files = projectIds.flatMap((currentProjectId, idx) =>
+    listings[idx]
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => ({ currentProjectId, file, filePath: join(sessionRoot, currentProjectId, file) }))
+  )
+
+  const loaded = await getIoPool().map(files, async ({ currentProjectId, file, filePath }): Promise<SessionRecord | null> => {
+    const fields = await readCachedRecord("session", root, filePath, options, (payload) => ({
+      sessionId: String(payload?.id ?? file.replace(/\.json$/i, "")),
+      projectId: String(payload?.projectID ?? currentProjectId),
+      directory: expandUserPath(payload?.directory ?? undefined) ?? "",
+      title: typeof payload?.title === "string" ? payload.title : "",
+      version: typeof payload?.version === "string" ? payload.version : "",
+      createdAt: msToDate(payload?.time?.created)?.getTime() ?? null,
+      updatedAt: msToDate(payload?.time?.updated)?.getTime() ?? null,
+      parentId: typeof payload?.parentID === "string" && payload.parentID ? payload.parentID : undefined,
+    }))
+    if (!fields) {
+      return null
     }
-    const projectDir = join(sessionRoot, dirent.name)
-    const files = await fs.readdir(projectDir)
-    for (const file of files) {
-      if (!file.endsWith(".json")) {
-        continue
-      }
-      const filePath = join(projectDir, file)
-      const payload = await readJsonFile<any>(filePath)
-      if (!payload) {
-        continue
-      }
-      const createdAt = msToDate(payload?.time?.created)
-      const updatedAt = msToDate(payload?.time?.updated)
-      const directory = expandUserPath(payload?.directory ?? undefined)
-      sessions.push({
-        index: 0,
-        filePath,
-        sessionId: String(payload?.id ?? file.replace(/\.json$/i, "")),
-        projectId: String(payload?.projectID ?? currentProjectId),
-        directory: directory ?? "",
-        title: typeof payload?.title === "string" ? payload.title : "",
-        version: typeof payload?.version === "string" ? payload.version : "",
-        createdAt,
-        updatedAt,
-      })
+    return {
+      index: 0,
+      filePath,
+      ...fields,
+      createdAt: msToDate(fields.createdAt),
+      updatedAt: msToDate(fields.updatedAt),
     }
+  })
+  const sessions = loaded.filter((session): session is SessionRecord => session !== null)
+  const seenPaths = new Set(files.map((entry) => entry.filePath))
+
+  // Only a full scan knows which cached sessions are gone
+  if (!options.projectId) {
+    pruneCacheEntries("session", root, seenPaths)
   }
 
   sessions.sort((a, b) => {
@@ -296,48 +666,583 @@ export async function loadSessionRecords(options: SessionLoadOptions = {}): Prom
   return withIndex(sessions)
 }
 
+async function listFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true })
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => join(dir, entry.name))
+      .sort()
+  } catch {
+    return []
+  }
+}
+
+/**
+ * List every message and part file that belongs to a session.
+ *
+ * Covers both the primary (`storage/message`, `storage/part`) and legacy
+ * (`storage/session/message`, `storage/session/part`) layouts. Part files are
+ * listed before the message file they belong to, so deleting in order removes
+ * children first.
+ */
+export async function listSessionDataPaths(sessionId: string, root: string = DEFAULT_ROOT): Promise<string[]> {
+  const normalizedRoot = resolve(root)
+  const paths: string[] = []
+  const messageDirs = [
+    join(normalizedRoot, 'storage', 'message', sessionId),
+    join(normalizedRoot, 'storage', 'session', 'message', sessionId),
+  ]
+
+  for (const messageDir of messageDirs) {
+    for (const msgPath of await listFiles(messageDir)) {
+      if (msgPath.endsWith('.json')) {
+        // Unparsable message files still own the part directory named after them
+        const payload = await readJsonFile<{ id?: unknown }>(msgPath)
+        const messageId = payload?.id ? String(payload.id) : basename(msgPath, '.json')
+        paths.push(...(await listFiles(join(normalizedRoot, 'storage', 'part', messageId))))
+        paths.push(...(await listFiles(join(normalizedRoot, 'storage', 'session', 'part', messageId))))
+      }
+      paths.push(msgPath)
+    }
+  }
+
+  return paths
+}
+
+/**
+ * Derive the store root from a JSONL record path:
+ * `<root>/storage/<bucket>/<file>` for projects,
+ * `<root>/storage/session/<projectId>/<file>` for sessions.
+ */
+function rootFromRecordPath(filePath: string, depth: number): string {
+  return resolve(dirname(filePath), ...Array<string>(depth).fill('..'))
+}
+
+/**
+ * Removes one file: unlinks it, or moves it into a trash entry.
+ */
+type RemoveFile = (path: string) => Promise<void>
+
+const unlinkFile: RemoveFile = (path) => fs.unlink(path)
+
+/**
+ * Hands out the file remover for each store root touched by one delete call
+ * and, in trash mode, commits the resulting trash entries.
+ */
+function createRemovers(options: DeleteOptions, resourceType: TrashResourceType) {
+  const writers = new Map<string, JsonlTrashWriter>()
+  const trash = options.dryRun ? undefined : options.trash
+
+  return {
+    forRoot(root: string): RemoveFile {
+      if (!trash) {
+        return unlinkFile
+      }
+      let writer = writers.get(root)
+      if (!writer) {
+        writer = createJsonlTrashWriter(root, trash, resourceType)
+        writers.set(root, writer)
+      }
+      return (path) => writer.move(path)
+    },
+
+    async commit(result: DeleteResult, resourceIds: string[]): Promise<DeleteResult> {
+      for (const writer of writers.values()) {
+        const trashId = await writer.commit(resourceIds)
+        if (trashId && !result.trashId) {
+          result.trashId = trashId
+        }
+      }
+      return result
+    },
+  }
+}
+
+async function unlinkAll(paths: string[], remove: RemoveFile = unlinkFile): Promise<DeleteResult> {
+  const removed: string[] = []
+  const failed: { path: string; error?: string }[] = []
+  for (const path of paths) {
+    try {
+      await remove(path)
+      removed.push(path)
+    } catch (error) {
+      failed.push({ path, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+  return { removed, failed }
+}
+
+/**
+ * Remove message/part directories left empty after their files were unlinked.
+ */
+async function pruneEmptyDirectories(paths: string[]): Promise<void> {
+  const dirs = Array.from(new Set(paths.map((path) => dirname(path))))
+  // Deepest first, so nested legacy directories are handled before parents
+  dirs.sort((a, b) => b.length - a.length)
+  for (const dir of dirs) {
+    await fs.rmdir(dir).catch(() => {})
+  }
+}
+
+/**
+ * Delete project metadata files along with every session stored under the
+ * project (see deleteSessionMetadata for the per-session cascade).
+ *
+ * A project file is only removed once all of its sessions were deleted, so a
+ * partial failure can be retried. With `trash`, everything removed by the
+ * call goes into a single trash entry.
+ */
 export async function deleteProjectMetadata(
   records: ProjectRecord[],
   options: DeleteOptions = {},
+  readOptions: JsonlReadOptions = {},
 ): Promise<DeleteResult> {
   const removed: string[] = []
   const failed: { path: string; error?: string }[] = []
+  const removers = createRemovers(options, 'project')
   for (const record of records) {
+    const root = options.root ?? rootFromRecordPath(record.filePath, 2)
+    const sessions = await loadSessionRecords({ ...readOptions, root, projectId: record.projectId })
     if (options.dryRun) {
       removed.push(record.filePath)
+      const sessionResult = await deleteSessionMetadata(sessions, { dryRun: true, root })
+      removed.push(...sessionResult.removed)
+      continue
+    }
+    const remove = removers.forRoot(root)
+    const sessionResult: DeleteResult = { removed: [], failed: [] }
+    for (const session of sessions) {
+      const result = await deleteSessionFiles(session.sessionId, session.filePath, root, false, remove)
+      sessionResult.removed.push(...result.removed)
+      sessionResult.failed.push(...result.failed)
+    }
+    removed.push(...sessionResult.removed)
+    failed.push(...sessionResult.failed)
+    if (sessionResult.failed.length > 0) {
+      failed.push({
+        path: record.filePath,
+        error: `Skipped: ${sessionResult.failed.length} related file(s) could not be deleted`,
+      })
       continue
     }
     try {
-      await fs.unlink(record.filePath)
+      await remove(record.filePath)
       removed.push(record.filePath)
     } catch (error) {
       failed.push({ path: record.filePath, error: error instanceof Error ? error.message : String(error) })
     }
   }
-  return { removed, failed }
+  const removedPaths = new Set(removed)
+  return removers.commit(
+    { removed, failed },
+    records.filter((record) => removedPaths.has(record.filePath)).map((record) => record.projectId),
+  )
 }
 
+/**
+ * Delete a single session file after its messages and parts.
+ */
+async function deleteSessionFiles(
+  sessionId: string,
+  filePath: string,
+  root: string,
+  dryRun?: boolean,
+  remove: RemoveFile = unlinkFile,
+): Promise<DeleteResult> {
+  const dataPaths = await listSessionDataPaths(sessionId, root)
+  if (dryRun) {
+    return { removed: [filePath, ...dataPaths], failed: [] }
+  }
+  const result = await unlinkAll(dataPaths, remove)
+  await pruneEmptyDirectories(result.removed)
+  if (result.failed.length > 0) {
+    result.failed.push({
+      path: filePath,
+      error: `Skipped: ${result.failed.length} related file(s) could not be deleted`,
+    })
+    return result
+  }
+  try {
+    await remove(filePath)
+    result.removed.push(filePath)
+  } catch (error) {
+    result.failed.push({ path: filePath, error: error instanceof Error ? error.message : String(error) })
+  }
+  return result
+}
+
+/**
+ * Delete session metadata files along with their messages and parts.
+ *
+ * Every removed or failed file is reported individually. The session file
+ * itself is only removed once all of its messages and parts were deleted, so
+ * a partial failure leaves the session listed and can be retried. With
+ * `trash`, everything removed by the call goes into a single trash entry.
+ */
 export async function deleteSessionMetadata(
   records: SessionRecord[],
   options: DeleteOptions = {},
 ): Promise<DeleteResult> {
   const removed: string[] = []
   const failed: { path: string; error?: string }[] = []
+  const removers = createRemovers(options, 'session')
   for (const session of records) {
+    const root = options.root ?? rootFromRecordPath(session.filePath, 3)
+    const result = await deleteSessionFiles(
+      session.sessionId,
+      session.filePath,
+      root,
+      options.dryRun,
+      removers.forRoot(root),
+    )
+    removed.push(...result.removed)
+    failed.push(...result.failed)
+  }
+  const removedPaths = new Set(removed)
+  return removers.commit(
+    { removed, failed },
+    records.filter((record) => removedPaths.has(record.filePath)).map((record) => record.sessionId),
+  )
+}
+
+async function listDirectories(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true })
+    return entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort()
+  } catch {
+    return []
+  }
+}
+
+async function pathSize(path: string): Promise<number> {
+  try {
+    const stat = await fs.stat(path)
+    if (!stat.isDirectory()) {
+      return stat.size
+    }
+    let total = 0
+    for (const entry of await fs.readdir(path)) {
+      total += await pathSize(join(path, entry))
+    }
+    return total
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * Collect record IDs from `*.json` files, using both the payload `id` and the
+ * file name so unparsable records still count as present.
+ */
+async function collectRecordIds(files: string[], ids: Set<string>): Promise<void> {
+  for (const file of files) {
+    if (!file.endsWith('.json')) {
+      continue
+    }
+    ids.add(basename(file, '.json'))
+    const payload = await readJsonFile<{ id?: unknown }>(file)
+    if (payload?.id) {
+      ids.add(String(payload.id))
+    }
+  }
+}
+
+/**
+ * Scan a JSONL store for dangling data.
+ *
+ * Reports sessions whose project record is gone, message directories whose
+ * session is gone, and part directories whose message is gone (including
+ * parts that only belong to orphaned message directories). Both the primary
+ * and legacy message/part layouts are scanned.
+ */
+export async function findOrphans(
+  root: string = DEFAULT_ROOT,
+  readOptions: JsonlReadOptions = {}
+): Promise<OrphanRecord[]> {
+  const normalizedRoot = resolve(root)
+  const storage = join(normalizedRoot, 'storage')
+  const orphans: OrphanRecord[] = []
+
+  const projectIds = new Set<string>()
+  for (const bucket of PROJECT_BUCKETS) {
+    await collectRecordIds(await listFiles(join(storage, bucket)), projectIds)
+  }
+
+  const sessionIds = new Set<string>()
+  for (const projectDir of await listDirectories(join(storage, 'session'))) {
+    if (projectDir === 'message' || projectDir === 'part') {
+      continue
+    }
+    await collectRecordIds(await listFiles(join(storage, 'session', projectDir)), sessionIds)
+  }
+
+  const sessions = await loadSessionRecords({ ...readOptions, root: normalizedRoot })
+  for (const session of sessions) {
+    if (projectIds.has(session.projectId)) {
+      continue
+    }
+    orphans.push({
+      kind: 'session',
+      id: session.sessionId,
+      parentId: session.projectId,
+      path: session.filePath,
+      itemCount: 1,
+      sizeBytes: await pathSize(session.filePath),
+    })
+  }
+
+  const messageIds = new Set<string>()
+  for (const messageRoot of [join(storage, 'message'), join(storage, 'session', 'message')]) {
+    for (const sessionId of await listDirectories(messageRoot)) {
+      const dir = join(messageRoot, sessionId)
+      const files = await listFiles(dir)
+      if (sessionIds.has(sessionId)) {
+        await collectRecordIds(files, messageIds)
+        continue
+      }
+      orphans.push({
+        kind: 'message',
+        id: sessionId,
+        parentId: sessionId,
+        path: dir,
+        itemCount: files.length,
+        sizeBytes: await pathSize(dir),
+      })
+    }
+  }
+
+  for (const partRoot of [join(storage, 'part'), join(storage, 'session', 'part')]) {
+    for (const messageId of await listDirectories(partRoot)) {
+      if (messageIds.has(messageId)) {
+        continue
+      }
+      const dir = join(partRoot, messageId)
+      orphans.push({
+        kind: 'part',
+        id: messageId,
+        parentId: messageId,
+        path: dir,
+        itemCount: (await listFiles(dir)).length,
+        sizeBytes: await pathSize(dir),
+      })
+    }
+  }
+
+  return orphans
+}
+
+/**
+ * Delete orphans found by findOrphans.
+ *
+ * Message and part directories are removed recursively. Orphaned sessions
+ * are deleted together with their messages and parts, as in
+ * deleteSessionMetadata.
+ */
+export async function deleteOrphans(
+  orphans: OrphanRecord[],
+  options: DeleteOptions = {},
+): Promise<DeleteResult> {
+  const removed: string[] = []
+  const failed: { path: string; error?: string }[] = []
+  for (const orphan of orphans) {
+    if (orphan.kind === 'session') {
+      const root = options.root ?? rootFromRecordPath(orphan.path, 3)
+      const result = await deleteSessionFiles(orphan.id, orphan.path, root, options.dryRun)
+      removed.push(...result.removed)
+      failed.push(...result.failed)
+      continue
+    }
     if (options.dryRun) {
-      removed.push(session.filePath)
+      removed.push(orphan.path)
       continue
     }
     try {
-      await fs.unlink(session.filePath)
-      removed.push(session.filePath)
+      await fs.rm(orphan.path, { recursive: true })
+      removed.push(orphan.path)
     } catch (error) {
-      failed.push({ path: session.filePath, error: error instanceof Error ? error.message : String(error) })
+      failed.push({ path: orphan.path, error: error instanceof Error ? error.message : String(error) })
     }
   }
   return { removed, failed }
 }
 
+/**
+ * Describe what is wrong with a millisecond timestamp, or return null when
+ * it is present and not in the future.
+ */
+export function describeTimestampIssue(value: unknown, field: string, now: Date): string | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return `${field} is missing`
+  }
+  if (value > now.getTime() + DOCTOR_FUTURE_SKEW_MS) {
+    return `${field} is in the future (${new Date(value).toISOString()})`
+  }
+  return null
+}
+
+/**
+ * Count doctor issues by severity and by check.
+ */
+export function countDoctorIssues(issues: DoctorIssue[]): DoctorIssueCounts {
+  const counts: DoctorIssueCounts = { errors: 0, warnings: 0, byCheck: {} }
+  for (const issue of issues) {
+    if (issue.severity === 'error') {
+      counts.errors++
+    } else {
+      counts.warnings++
+    }
+    counts.byCheck[issue.check] = (counts.byCheck[issue.check] ?? 0) + 1
+  }
+  return counts
+}
+
+/**
+ * Read and parse a JSON file, recording unparsable files as doctor issues.
+ */
+async function readDoctorJson(filePath: string, issues: DoctorIssue[]): Promise<any | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'))
+  } catch (error) {
+    issues.push({
+      check: 'json',
+      severity: 'error',
+      path: filePath,
+      message: `Unparsable JSON: ${error instanceof Error ? error.message : String(error)}`,
+    })
+    return null
+  }
+}
+
+function pushTimestampIssues(
+  issues: DoctorIssue[],
+  path: string,
+  fields: Record<string, unknown>,
+  now: Date,
+): void {
+  for (const [field, value] of Object.entries(fields)) {
+    const message = describeTimestampIssue(value, field, now)
+    if (message) {
+      issues.push({ check: 'timestamp', severity: 'warning', path, message })
+    }
+  }
+}
+
+/**
+ * Check a JSONL store for data the loaders would silently skip or misread.
+ *
+ * Reports unparsable JSON files, missing or future timestamps, assistant
+ * messages whose parentID is not a message of the same session, parts whose
+ * messageID disagrees with their directory, and sessions whose projectID
+ * disagrees with their folder. Both primary and legacy layouts are scanned.
+ */
+export async function diagnoseStore(
+  root: string = DEFAULT_ROOT,
+  options: DoctorOptions = {},
+): Promise<DoctorReport> {
+  const normalizedRoot = resolve(root)
+  const storage = join(normalizedRoot, 'storage')
+  const now = options.now ?? new Date()
+  const issues: DoctorIssue[] = []
+  const scanned = { project: 0, session: 0, message: 0, part: 0 }
+
+  for (const bucket of PROJECT_BUCKETS) {
+    for (const file of await listFiles(join(storage, bucket))) {
+      if (!file.endsWith('.json')) {
+        continue
+      }
+      scanned.project++
+      const payload = await readDoctorJson(file, issues)
+      if (payload) {
+        pushTimestampIssues(issues, file, { 'time.created': payload?.time?.created }, now)
+      }
+    }
+  }
+
+  for (const projectDir of await listDirectories(join(storage, 'session'))) {
+    if (projectDir === 'message' || projectDir === 'part') {
+      continue
+    }
+    for (const file of await listFiles(join(storage, 'session', projectDir))) {
+      if (!file.endsWith('.json')) {
+        continue
+      }
+      scanned.session++
+      const payload = await readDoctorJson(file, issues)
+      if (!payload) {
+        continue
+      }
+      pushTimestampIssues(issues, file, { 'time.created': payload?.time?.created, 'time.updated': payload?.time?.updated }, now)
+      if (payload.projectID !== undefined && String(payload.projectID) !== projectDir) {
+        issues.push({
+          check: 'session-project',
+          severity: 'error',
+          path: file,
+          message: `projectID ${payload.projectID} does not match folder ${projectDir}`,
+        })
+      }
+    }
+  }
+
+  for (const messageRoot of [join(storage, 'message'), join(storage, 'session', 'message')]) {
+    for (const sessionId of await listDirectories(messageRoot)) {
+      const messages: { file: string; payload: any }[] = []
+      const ids = new Set<string>()
+      for (const file of await listFiles(join(messageRoot, sessionId))) {
+        if (!file.endsWith('.json')) {
+          continue
+        }
+        scanned.message++
+        ids.add(basename(file, '.json'))
+        const payload = await readDoctorJson(file, issues)
+        if (!payload) {
+          continue
+        }
+        if (payload.id) {
+          ids.add(String(payload.id))
+        }
+        messages.push({ file, payload })
+        pushTimestampIssues(issues, file, { 'time.created': payload?.time?.created }, now)
+      }
+      for (const { file, payload } of messages) {
+        if (payload.role === 'assistant' && payload.parentID && !ids.has(String(payload.parentID))) {
+          issues.push({
+            check: 'message-parent',
+            severity: 'warning',
+            path: file,
+            message: `parentID ${payload.parentID} is not a message of session ${sessionId}`,
+          })
+        }
+      }
+    }
+  }
+
+  for (const partRoot of [join(storage, 'part'), join(storage, 'session', 'part')]) {
+    for (const messageId of await listDirectories(partRoot)) {
+      for (const file of await listFiles(join(partRoot, messageId))) {
+        if (!file.endsWith('.json')) {
+          continue
+        }
+        scanned.part++
+        const payload = await readDoctorJson(file, issues)
+        if (payload?.messageID !== undefined && String(payload.messageID) !== messageId) {
+          issues.push({
+            check: 'part-message',
+            severity: 'error',
+            path: file,
+            message: `messageID ${payload.messageID} does not match directory ${messageId}`,
+          })
+        }
+      }
+    }
+  }
+
+  return { backend: 'jsonl', location: normalizedRoot, scanned, issues }
+}
+
 export function filterProjectsByState(records: ProjectRecord[], state: ProjectState): ProjectRecord[] {
   return records.filter((record) => record.state === state)
 }
@@ -384,33 +1289,144 @@ export async function updateSessionTitle(filePath: string, newTitle: string): Pr
   await fs.writeFile(filePath, JSON.stringify(payload, null, 2), 'utf8')
 }
 
-export async function copySession(
+/**
+ * Generate a new unique ID with a given prefix.
+ * Format: {prefix}_{timestamp}_{random}
+ */
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * A session with its messages and parts as raw payloads, as read from one
+ * store for writing into another. IDs are the source store's; importers
+ * assign fresh ones.
+ */
+export interface SessionExport {
+  session: Record<string, any>
+  messages: { payload: Record<string, any>; parts: Record<string, any>[] }[]
+}
+
+/**
+ * Options for importing an exported session.
+ */
+export interface ImportSessionOptions {
+  /**
+   * Parent of the new session. Imported sessions are standalone unless this
+   * is set, since the source's parent usually does not exist in the target.
+   */
+  parentId?: string
+}
+
+/**
+ * Read a session with all of its messages and parts.
+ * Malformed message and part files are skipped (consistent with the loaders).
+ */
+export async function exportSession(
   session: SessionRecord,
-  targetProjectId: string,
   root: string = DEFAULT_ROOT
-): Promise<SessionRecord> {
+): Promise<SessionExport> {
+  const normalizedRoot = resolve(root)
   const payload = await readJsonFile<any>(session.filePath)
   if (!payload) {
     throw new Error(`Session file not found: ${session.filePath}`)
   }
 
-  // Generate new session ID
-  const newSessionId = `session_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+  const messagePaths = (await loadSessionMessagePaths(session.sessionId, normalizedRoot)) ?? []
+  const messages: SessionExport["messages"] = []
+  for (const msgPath of messagePaths) {
+    const msgPayload = await readJsonFile<any>(msgPath)
+    if (!msgPayload || !msgPayload.id) {
+      continue
+    }
+    const parts: Record<string, any>[] = []
+    const partPaths = (await loadMessagePartPaths(String(msgPayload.id), normalizedRoot)) ?? []
+    for (const partPath of partPaths) {
+      const partPayload = await readJsonFile<any>(partPath)
+      if (partPayload && partPayload.id) {
+        parts.push(partPayload)
+      }
+    }
+    messages.push({ payload: msgPayload, parts })
+  }
 
-  // Update payload for new session
-  payload.id = newSessionId
-  payload.projectID = targetProjectId
-  payload.time = payload.time || {}
-  payload.time.created = Date.now()
-  payload.time.updated = Date.now()
+  return { session: { ...payload, id: payload.id ?? session.sessionId }, messages }
+}
 
-  // Ensure target directory exists
-  const targetDir = join(root, 'storage', 'session', targetProjectId)
-  await ensureDirectory(join(targetDir, 'dummy'))
+/**
+ * Write an exported session into a project as a new session.
+ *
+ * Every message and part gets a fresh ID; `sessionID`, `messageID` and
+ * `parentID` references are rewritten to point at the copies. Copies are
+ * always written to the primary `storage/message` and `storage/part` layout.
+ * The session file is written last, and everything written so far is removed
+ * if any write fails, so a failed import never shows up as a partial session.
+ */
+export async function importSession(
+  data: SessionExport,
+  targetProjectId: string,
+  root: string = DEFAULT_ROOT,
+  options: ImportSessionOptions = {}
+): Promise<SessionRecord> {
+  const normalizedRoot = resolve(root)
+  const newSessionId = generateId("session")
+  const now = Date.now()
+  const payload: Record<string, any> = {
+    ...data.session,
+    id: newSessionId,
+    projectID: targetProjectId,
+    parentID: options.parentId,
+    time: { ...data.session.time, created: now, updated: now },
+  }
+
+  // Create ID mapping for messages (old ID -> new ID)
+  const messages = data.messages.map((message) => ({ ...message, newId: generateId("msg") }))
+  const messageIdMap = new Map(messages.map((m) => [String(m.payload.id), m.newId]))
 
-  // Write new session file
+  const targetDir = join(normalizedRoot, 'storage', 'session', targetProjectId)
   const targetPath = join(targetDir, `${newSessionId}.json`)
-  await fs.writeFile(targetPath, JSON.stringify(payload, null, 2), 'utf8')
+  const messageDir = join(normalizedRoot, 'storage', 'message', newSessionId)
+  const createdPaths: string[] = []
+
+  try {
+    if (messages.length > 0) {
+      createdPaths.push(messageDir)
+      await fs.mkdir(messageDir, { recursive: true })
+    }
+
+    for (const message of messages) {
+      const msgPayload: Record<string, any> = { ...message.payload, id: message.newId, sessionID: newSessionId }
+      if (typeof msgPayload.parentID === "string" && messageIdMap.has(msgPayload.parentID)) {
+        msgPayload.parentID = messageIdMap.get(msgPayload.parentID)
+      }
+      await fs.writeFile(join(messageDir, `${message.newId}.json`), JSON.stringify(msgPayload, null, 2), 'utf8')
+
+      if (message.parts.length === 0) {
+        continue
+      }
+      const partDir = join(normalizedRoot, 'storage', 'part', message.newId)
+      createdPaths.push(partDir)
+      await fs.mkdir(partDir, { recursive: true })
+      for (const part of message.parts) {
+        const newPartId = generateId("part")
+        const partPayload = { ...part, id: newPartId, messageID: message.newId, sessionID: newSessionId }
+        await fs.writeFile(join(partDir, `${newPartId}.json`), JSON.stringify(partPayload, null, 2), 'utf8')
+      }
+    }
+
+    // Ensure target directory exists
+    await ensureDirectory(targetPath)
+
+    // Write new session file last so a partial copy is never listed
+    createdPaths.push(targetPath)
+    await fs.writeFile(targetPath, JSON.stringify(payload, null, 2), 'utf8')
+  } catch (error) {
+    // Roll back everything written for the copy
+    for (const path of createdPaths.reverse()) {
+      await fs.rm(path, { recursive: true, force: true }).catch(() => {})
+    }
+    throw error
+  }
 
   // Return new session record
   return {
@@ -418,14 +1434,27 @@ export async function copySession(
     filePath: targetPath,
     sessionId: newSessionId,
     projectId: targetProjectId,
-    directory: session.directory,
-    title: session.title,
-    version: session.version,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    directory: expandUserPath(payload.directory ?? undefined) ?? "",
+    title: typeof payload.title === "string" ? payload.title : "",
+    version: typeof payload.version === "string" ? payload.version : "",
+    createdAt: new Date(now),
+    updatedAt: new Date(now),
+    parentId: options.parentId,
   }
 }
 
+/**
+ * Copy a session to another project in the same store, including its
+ * messages and parts (see importSession).
+ */
+export async function copySession(
+  session: SessionRecord,
+  targetProjectId: string,
+  root: string = DEFAULT_ROOT
+): Promise<SessionRecord> {
+  return importSession(await exportSession(session, root), targetProjectId, root)
+}
+
 export async function moveSession(
   session: SessionRecord,
   targetProjectId: string,
@@ -514,16 +1543,21 @@ export async function moveSessions(
 // Token Aggregation
 // ========================
 
-// Cache: key includes root+project+session+updatedAtMs to avoid collisions.
+// Cache: key includes root+project+session+updatedAtMs to avoid collisions,
+// and the pricing table since summaries include estimated costs.
 const tokenCache = new Map<string, TokenSummary>()
 
 function getCacheKey(session: SessionRecord, root: string): string {
   const updatedMs = session.updatedAt?.getTime() ?? session.createdAt?.getTime() ?? 0
-  return JSON.stringify([root, session.projectId, session.sessionId, updatedMs])
+  return JSON.stringify([root, session.projectId, session.sessionId, updatedMs, pricingFingerprint()])
 }
 
+/**
+ * Forget token summaries and session stats computed by this process.
+ */
 export function clearTokenCache(): void {
   tokenCache.clear()
+  statsCache.clear()
 }
 
 function emptyBreakdown(): TokenBreakdown {
@@ -561,6 +1595,9 @@ interface MessageTokens {
 interface MessagePayload {
   role?: string
   tokens?: MessageTokens | null
+  providerID?: string
+  modelID?: string
+  cost?: number
 }
 
 function asTokenNumber(value: unknown): number | null {
@@ -629,6 +1666,21 @@ export async function loadSessionMessagePaths(sessionId: string, root: string):
   return null
 }
 
+/**
+ * Fingerprint a session's token summary for the index cache: the session's
+ * update time plus the mtime and size of every message file, so rewriting a
+ * file in place is noticed too. Null if a message file cannot be stat'ed.
+ */
+async function sessionMessagesFingerprint(session: SessionRecord, root: string): Promise<string | null> {
+  const updatedMs = session.updatedAt?.getTime() ?? session.createdAt?.getTime() ?? 0
+  const messagePaths = await loadSessionMessagePaths(session.sessionId, root)
+  if (messagePaths === null) {
+    return `${updatedMs}:none`
+  }
+  const fingerprint = await filesFingerprint(messagePaths)
+  return fingerprint === null ? null : `${updatedMs}:${fingerprint}`
+}
+
 export async function computeSessionTokenSummary(
   session: SessionRecord,
   root: string = DEFAULT_ROOT
@@ -640,28 +1692,45 @@ export async function computeSessionTokenSummary(
     return cached
   }
 
-  const messagePaths = await loadSessionMessagePaths(session.sessionId, normalizedRoot)
+  const messagesFingerprint = isIndexCacheEnabled() ? await sessionMessagesFingerprint(session, normalizedRoot) : null
+  const fingerprint = messagesFingerprint === null ? null : `${messagesFingerprint}:${pricingFingerprint()}`
+  const persisted = fingerprint
+    ? readCacheEntry<TokenSummary>("tokens", normalizedRoot, session.sessionId, fingerprint)
+    : undefined
+  if (persisted) {
+    tokenCache.set(cacheKey, persisted)
+    return persisted
+  }
+
+  const result = await readSessionTokenSummary(session, normalizedRoot)
+  tokenCache.set(cacheKey, result)
+  if (fingerprint) {
+    writeCacheEntry("tokens", normalizedRoot, session.sessionId, fingerprint, result)
+  }
+  return result
+}
+
+/**
+ * Sum token telemetry and cost from a session's message files.
+ */
+async function readSessionTokenSummary(session: SessionRecord, root: string): Promise<TokenSummary> {
+  const messagePaths = await loadSessionMessagePaths(session.sessionId, root)
   if (messagePaths === null) {
-    const result: TokenSummary = { kind: 'unknown', reason: 'missing' }
-    tokenCache.set(cacheKey, result)
-    return result
+    return { kind: 'unknown', reason: 'missing' }
   }
 
   if (messagePaths.length === 0) {
-    const result: TokenSummary = { kind: 'unknown', reason: 'no_messages' }
-    tokenCache.set(cacheKey, result)
-    return result
+    return { kind: 'unknown', reason: 'no_messages' }
   }
 
   const breakdown = emptyBreakdown()
+  const cost = emptyCostBreakdown()
   let foundAnyAssistant = false
 
   for (const msgPath of messagePaths) {
     const payload = await readJsonFile<MessagePayload>(msgPath)
     if (!payload) {
-      const result: TokenSummary = { kind: "unknown", reason: "parse_error" }
-      tokenCache.set(cacheKey, result)
-      return result
+      return { kind: "unknown", reason: "parse_error" }
     }
 
     // Only sum assistant messages (they have token telemetry)
@@ -673,9 +1742,7 @@ export async function computeSessionTokenSummary(
 
     const msgTokens = parseMessageTokens(payload.tokens)
     if (!msgTokens) {
-      const result: TokenSummary = { kind: "unknown", reason: "missing" }
-      tokenCache.set(cacheKey, result)
-      return result
+      return { kind: "unknown", reason: "missing" }
     }
 
     breakdown.input += msgTokens.input
@@ -683,20 +1750,28 @@ export async function computeSessionTokenSummary(
     breakdown.reasoning += msgTokens.reasoning
     breakdown.cacheRead += msgTokens.cacheRead
     breakdown.cacheWrite += msgTokens.cacheWrite
+    addMessageCost(cost, { tokens: msgTokens, ...parseMessageDetails(payload) })
   }
 
   if (!foundAnyAssistant) {
-    const result: TokenSummary = { kind: "unknown", reason: "no_messages" }
-    tokenCache.set(cacheKey, result)
-    return result
+    return { kind: "unknown", reason: "no_messages" }
   }
 
   // Compute total
   breakdown.total = breakdown.input + breakdown.output + breakdown.reasoning + breakdown.cacheRead + breakdown.cacheWrite
 
-  const result: TokenSummary = { kind: "known", tokens: breakdown }
-  tokenCache.set(cacheKey, result)
-  return result
+  return { kind: "known", tokens: breakdown, cost }
+}
+
+/**
+ * Compute token summaries of many sessions, in the order given.
+ */
+export async function computeSessionTokenSummaries(
+  sessions: SessionRecord[],
+  root: string = DEFAULT_ROOT
+): Promise<TokenSummary[]> {
+  const normalizedRoot = resolve(root)
+  return getIoPool().map(sessions, (session) => computeSessionTokenSummary(session, normalizedRoot))
 }
 
 export async function computeProjectTokenSummary(
@@ -724,16 +1799,17 @@ async function computeAggregateTokenSummary(
       total: { kind: 'unknown', reason: 'no_messages' },
       knownOnly: emptyBreakdown(),
       unknownSessions: 0,
+      cost: emptyCostBreakdown(),
     }
   }
 
   const knownOnly = emptyBreakdown()
+  let cost = emptyCostBreakdown()
   let unknownSessions = 0
 
-  const normalizedRoot = resolve(root)
+  const summaries = await computeSessionTokenSummaries(sessions, root)
 
-  for (const session of sessions) {
-    const summary = await computeSessionTokenSummary(session, normalizedRoot)
+  for (const summary of summaries) {
     if (summary.kind === "known") {
       knownOnly.input += summary.tokens.input
       knownOnly.output += summary.tokens.output
@@ -741,6 +1817,9 @@ async function computeAggregateTokenSummary(
       knownOnly.cacheRead += summary.tokens.cacheRead
       knownOnly.cacheWrite += summary.tokens.cacheWrite
       knownOnly.total += summary.tokens.total
+      if (summary.cost) {
+        cost = addCostBreakdown(cost, summary.cost)
+      }
     } else {
       unknownSessions += 1
     }
@@ -755,15 +1834,397 @@ async function computeAggregateTokenSummary(
       total: { kind: 'unknown', reason: 'missing' },
       knownOnly: emptyBreakdown(),
       unknownSessions,
+      cost: emptyCostBreakdown(),
     }
   }
 
   // Otherwise, total is the known aggregate (even if some sessions are unknown)
   return {
-    total: { kind: 'known', tokens: { ...knownOnly } },
+    total: { kind: 'known', tokens: { ...knownOnly }, cost: { ...cost } },
     knownOnly,
     unknownSessions,
+    cost,
+  }
+}
+
+// ========================
+// Token Grouping
+// ========================
+
+/**
+ * Name of the group a message belongs to. Models are qualified with their
+ * provider, as in session stats.
+ */
+export function tokenGroupKey(message: Pick<TokenUsage, "providerId" | "modelId" | "agent">, by: TokenGroupBy): string {
+  switch (by) {
+    case "model":
+      if (!message.modelId) {
+        return "unknown"
+      }
+      return message.providerId ? `${message.providerId}/${message.modelId}` : message.modelId
+    case "provider":
+      return message.providerId ?? "unknown"
+    case "agent":
+      return message.agent ?? "unknown"
+  }
+}
+
+/**
+ * Per-message usage of a session's assistant messages.
+ */
+export function messageTokenUsage(messages: readonly ChatMessage[]): TokenUsage[] {
+  return messages.flatMap((message) => {
+    if (message.role !== "assistant" || !message.tokens) {
+      return []
+    }
+    const cost = emptyCostBreakdown()
+    addMessageCost(cost, { ...message, tokens: message.tokens })
+    return [{
+      providerId: message.providerId,
+      modelId: message.modelId,
+      agent: message.agent,
+      createdAt: message.createdAt,
+      messages: 1,
+      tokens: message.tokens,
+      cost,
+    }]
+  })
+}
+
+function mergeTokenGroups(by: TokenGroupBy, groups: Iterable<TokenGroup>, unknownSessions: number): GroupedTokenSummary {
+  const merged = new Map<string, TokenGroup>()
+  let total = emptyBreakdown()
+  for (const group of groups) {
+    const existing = merged.get(group.key)
+    merged.set(
+      group.key,
+      existing
+        ? {
+            key: group.key,
+            messages: existing.messages + group.messages,
+            tokens: addBreakdown(existing.tokens, group.tokens),
+            cost: addCostBreakdown(existing.cost, group.cost),
+          }
+        : { ...group, tokens: { ...group.tokens }, cost: { ...group.cost } }
+    )
+    total = addBreakdown(total, group.tokens)
+  }
+  const sorted = [...merged.values()].sort((a, b) => b.tokens.total - a.tokens.total || a.key.localeCompare(b.key))
+  return { by, groups: sorted, total, unknownSessions }
+}
+
+/**
+ * Group usage rows by model, provider or agent.
+ */
+export function groupTokenUsage(usage: Iterable<TokenUsage>, by: TokenGroupBy, unknownSessions = 0): GroupedTokenSummary {
+  const groups: TokenGroup[] = []
+  for (const row of usage) {
+    groups.push({ key: tokenGroupKey(row, by), messages: row.messages, tokens: row.tokens, cost: row.cost })
+  }
+  return mergeTokenGroups(by, groups, unknownSessions)
+}
+
+/**
+ * Combine grouped summaries of disjoint session sets (e.g. the two halves of
+ * a merged store).
+ */
+export function mergeGroupedTokenSummaries(summaries: readonly GroupedTokenSummary[], by: TokenGroupBy): GroupedTokenSummary {
+  return mergeTokenGroups(
+    by,
+    summaries.flatMap((summary) => summary.groups),
+    summaries.reduce((count, summary) => count + summary.unknownSessions, 0)
+  )
+}
+
+/**
+ * Split the token usage of sessions by model, provider or agent. Sessions
+ * without known token data are counted in `unknownSessions`, so the groups add
+ * up to the aggregate summary's `knownOnly` tokens.
+ */
+export async function computeGroupedTokenSummary(
+  sessions: SessionRecord[],
+  by: TokenGroupBy,
+  root: string = DEFAULT_ROOT,
+  options: JsonlReadOptions = {}
+): Promise<GroupedTokenSummary> {
+  const normalizedRoot = resolve(root)
+  const perSession = await getIoPool().map(sessions, async (session) => {
+    const summary = await computeSessionTokenSummary(session, normalizedRoot)
+    if (summary.kind !== "known") {
+      return null
+    }
+    return messageTokenUsage(await loadSessionChatIndex(session.sessionId, normalizedRoot, options))
+  })
+  const unknownSessions = perSession.filter((usage) => usage === null).length
+  return groupTokenUsage(perSession.flatMap((usage) => usage ?? []), by, unknownSessions)
+}
+
+// ========================
+// Token Timeline
+// ========================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Start of the UTC day, ISO week (Monday) or month that contains `date`.
+ */
+export function timelineBucketStart(date: Date, bucket: TimelineBucket): Date {
+  switch (bucket) {
+    case "day":
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+    case "week": {
+      const day = timelineBucketStart(date, "day")
+      return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS)
+    }
+    case "month":
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+  }
+}
+
+/**
+ * Start of the period after the one starting at `start`.
+ */
+export function nextTimelineBucket(start: Date, bucket: TimelineBucket): Date {
+  switch (bucket) {
+    case "day":
+      return new Date(start.getTime() + DAY_MS)
+    case "week":
+      return new Date(start.getTime() + 7 * DAY_MS)
+    case "month":
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1))
+  }
+}
+
+/**
+ * Label of the period starting at `start`: `2024-01-31`, `2024-W05` or `2024-01`.
+ * Weeks are numbered like ISO 8601, so early January may belong to the
+ * previous year's last week.
+ */
+export function timelineBucketLabel(start: Date, bucket: TimelineBucket): string {
+  switch (bucket) {
+    case "day":
+      return start.toISOString().slice(0, 10)
+    case "week": {
+      // The ISO year is the year of the week's Thursday; week 1 holds January 4th
+      const year = new Date(start.getTime() + 3 * DAY_MS).getUTCFullYear()
+      const firstWeek = timelineBucketStart(new Date(Date.UTC(year, 0, 4)), "week")
+      const week = Math.round((start.getTime() - firstWeek.getTime()) / (7 * DAY_MS)) + 1
+      return `${year}-W${String(week).padStart(2, "0")}`
+    }
+    case "month":
+      return start.toISOString().slice(0, 7)
+  }
+}
+
+/**
+ * Merge rows into a contiguous timeline. Without rows, the range comes from
+ * `since` and `until` alone (all zero rows), or is empty if either is unset.
+ */
+function buildTokenTimeline(
+  options: TokenTimelineOptions,
+  rows: Iterable<TokenTimelineRow>,
+  unknownSessions: number,
+  undatedMessages: number
+): TokenTimeline {
+  const { bucket } = options
+  const merged = new Map<number, TokenTimelineRow>()
+  let total = emptyBreakdown()
+  let cost = emptyCostBreakdown()
+  for (const row of rows) {
+    const existing = merged.get(row.start.getTime())
+    merged.set(
+      row.start.getTime(),
+      existing
+        ? {
+            ...existing,
+            messages: existing.messages + row.messages,
+            tokens: addBreakdown(existing.tokens, row.tokens),
+            cost: addCostBreakdown(existing.cost, row.cost),
+          }
+        : { ...row, tokens: { ...row.tokens }, cost: { ...row.cost } }
+    )
+    total = addBreakdown(total, row.tokens)
+    cost = addCostBreakdown(cost, row.cost)
+  }
+
+  const starts = [...merged.keys()]
+  const first = options.since
+    ? timelineBucketStart(options.since, bucket).getTime()
+    : starts.length > 0 ? Math.min(...starts) : null
+  const last = options.until
+    ? timelineBucketStart(new Date(options.until.getTime() - 1), bucket).getTime()
+    : starts.length > 0 ? Math.max(...starts) : null
+
+  const filled: TokenTimelineRow[] = []
+  if (first !== null && last !== null) {
+    for (let start = new Date(first); start.getTime() <= last; start = nextTimelineBucket(start, bucket)) {
+      filled.push(
+        merged.get(start.getTime()) ?? {
+          period: timelineBucketLabel(start, bucket),
+          start,
+          end: nextTimelineBucket(start, bucket),
+          messages: 0,
+          tokens: emptyBreakdown(),
+          cost: emptyCostBreakdown(),
+        }
+      )
+    }
+  }
+
+  return {
+    bucket,
+    since: options.since ?? null,
+    until: options.until ?? null,
+    rows: filled,
+    total,
+    cost,
+    unknownSessions,
+    undatedMessages,
+  }
+}
+
+/**
+ * Bucket per-message usage by creation time. Messages outside `since` and
+ * `until` are skipped; messages without a creation time are only counted.
+ */
+export function bucketTokenUsage(
+  usage: Iterable<TokenUsage>,
+  options: TokenTimelineOptions,
+  unknownSessions = 0
+): TokenTimeline {
+  const rows: TokenTimelineRow[] = []
+  let undatedMessages = 0
+  for (const row of usage) {
+    if (!row.createdAt) {
+      undatedMessages += row.messages
+      continue
+    }
+    if ((options.since && row.createdAt < options.since) || (options.until && row.createdAt >= options.until)) {
+      continue
+    }
+    const start = timelineBucketStart(row.createdAt, options.bucket)
+    rows.push({
+      period: timelineBucketLabel(start, options.bucket),
+      start,
+      end: nextTimelineBucket(start, options.bucket),
+      messages: row.messages,
+      tokens: row.tokens,
+      cost: row.cost,
+    })
+  }
+  return buildTokenTimeline(options, rows, unknownSessions, undatedMessages)
+}
+
+/**
+ * Combine timelines of disjoint session sets (e.g. the two halves of a
+ * merged store) that were built with the same options.
+ */
+export function mergeTokenTimelines(timelines: readonly TokenTimeline[], options: TokenTimelineOptions): TokenTimeline {
+  return buildTokenTimeline(
+    options,
+    timelines.flatMap((timeline) => timeline.rows),
+    timelines.reduce((count, timeline) => count + timeline.unknownSessions, 0),
+    timelines.reduce((count, timeline) => count + timeline.undatedMessages, 0)
+  )
+}
+
+/**
+ * Bucket the token usage of sessions by the creation time of their assistant
+ * messages. Sessions without known token data are counted in
+ * `unknownSessions`, as in grouped summaries.
+ */
+export async function computeTokenTimeline(
+  sessions: SessionRecord[],
+  options: TokenTimelineOptions,
+  root: string = DEFAULT_ROOT,
+  readOptions: JsonlReadOptions = {}
+): Promise<TokenTimeline> {
+  const normalizedRoot = resolve(root)
+  const perSession = await getIoPool().map(sessions, async (session) => {
+    const summary = await computeSessionTokenSummary(session, normalizedRoot)
+    if (summary.kind !== "known") {
+      return null
+    }
+    return messageTokenUsage(await loadSessionChatIndex(session.sessionId, normalizedRoot, readOptions))
+  })
+  const unknownSessions = perSession.filter((usage) => usage === null).length
+  return bucketTokenUsage(perSession.flatMap((usage) => usage ?? []), options, unknownSessions)
+}
+
+// ========================
+// Session Stats
+// ========================
+
+// Cache: keyed like tokenCache; message indexes are also kept in the index cache.
+const statsCache = new Map<string, SessionStats>()
+
+/**
+ * Names ordered by how often they occur, ties alphabetically.
+ */
+function rankByCount(names: string[]): string[] {
+  const counts = new Map<string, number>()
+  for (const name of names) {
+    counts.set(name, (counts.get(name) ?? 0) + 1)
+  }
+  return [...counts.keys()].sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0) || a.localeCompare(b))
+}
+
+/**
+ * Derive session details from a message index. Models, agents and cost come
+ * from assistant messages; user messages only count as turns.
+ */
+export function summarizeSessionMessages(messages: readonly ChatMessage[]): SessionStats {
+  const assistant = messages.filter((message) => message.role === "assistant")
+  let lastMessageAt: Date | null = null
+  for (const message of messages) {
+    if (message.createdAt && (!lastMessageAt || message.createdAt > lastMessageAt)) {
+      lastMessageAt = message.createdAt
+    }
   }
+  return {
+    models: rankByCount(
+      assistant.flatMap((message) =>
+        message.modelId ? [message.providerId ? `${message.providerId}/${message.modelId}` : message.modelId] : []
+      )
+    ),
+    agents: rankByCount(assistant.flatMap((message) => (message.agent ? [message.agent] : []))),
+    messageCount: messages.length,
+    userTurns: messages.filter((message) => message.role === "user").length,
+    cost: assistant.reduce((total, message) => total + (message.cost ?? 0), 0),
+    lastMessageAt,
+  }
+}
+
+export async function computeSessionStats(
+  session: SessionRecord,
+  root: string = DEFAULT_ROOT,
+  options: JsonlReadOptions = {}
+): Promise<SessionStats> {
+  const normalizedRoot = resolve(root)
+  const cacheKey = getCacheKey(session, normalizedRoot)
+  const cached = statsCache.get(cacheKey)
+  if (cached) {
+    return cached
+  }
+  const stats = summarizeSessionMessages(await loadSessionChatIndex(session.sessionId, normalizedRoot, options))
+  statsCache.set(cacheKey, stats)
+  return stats
+}
+
+/**
+ * Return copies of the sessions with `stats` set, reading message indexes
+ * through the shared I/O pool.
+ */
+export async function enrichSessionRecords(
+  sessions: SessionRecord[],
+  root: string = DEFAULT_ROOT,
+  options: JsonlReadOptions = {}
+): Promise<SessionRecord[]> {
+  const normalizedRoot = resolve(root)
+  return getIoPool().map(sessions, async (session) => ({
+    ...session,
+    stats: await computeSessionStats(session, normalizedRoot, options),
+  }))
 }
 
 // ========================
@@ -873,13 +2334,74 @@ interface RawMessagePayload {
   tokens?: MessageTokens | null
 }
 
+/**
+ * Message index entry as stored in the index cache.
+ */
+interface CachedChatMessage {
+  messageId: string
+  role: ChatRole
+  createdAt: number | null
+  parentId?: string
+  tokens?: TokenBreakdown
+  providerId?: string
+  modelId?: string
+  agent?: string
+  cost?: number
+}
+
+type MessageDetails = Pick<ChatMessage, "providerId" | "modelId" | "agent" | "cost">
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim().length > 0 ? value : undefined
+
+/**
+ * Read the model, agent and cost of a message payload (JSONL file or SQLite
+ * `data` column). Assistant messages carry `providerID`/`modelID`, user
+ * messages a `model` object; older versions call the agent `mode`.
+ */
+export function parseMessageDetails(payload: unknown): MessageDetails {
+  if (!payload || typeof payload !== "object") {
+    return {}
+  }
+  const data = payload as Record<string, any>
+  const model = data.model && typeof data.model === "object" ? data.model : {}
+  const details: MessageDetails = {}
+  const providerId = nonEmptyString(data.providerID) ?? nonEmptyString(model.providerID)
+  const modelId = nonEmptyString(data.modelID) ?? nonEmptyString(model.modelID)
+  const agent = nonEmptyString(data.agent) ?? nonEmptyString(data.mode)
+  if (providerId) details.providerId = providerId
+  if (modelId) details.modelId = modelId
+  if (agent) details.agent = agent
+  if (data.role === "assistant" && typeof data.cost === "number" && Number.isFinite(data.cost) && data.cost >= 0) {
+    details.cost = data.cost
+  }
+  return details
+}
+
+/**
+ * Fingerprint a set of files for the index cache: every path with its
+ * mtime and size, hashed. Null if any file cannot be stat'ed.
+ */
+async function filesFingerprint(paths: string[]): Promise<string | null> {
+  const hash = createHash("sha1")
+  for (const path of [...paths].sort()) {
+    const fingerprint = await statFingerprint(path)
+    if (!fingerprint) {
+      return null
+    }
+    hash.update(`${path}\0${fingerprint}\0`)
+  }
+  return hash.digest("hex")
+}
+
 /**
  * Load chat message index for a session (metadata only, no parts).
  * Returns an array of ChatMessage stubs with parts set to null.
  */
 export async function loadSessionChatIndex(
   sessionId: string,
-  root: string = DEFAULT_ROOT
+  root: string = DEFAULT_ROOT,
+  options: JsonlReadOptions = {}
 ): Promise<ChatMessage[]> {
   const normalizedRoot = resolve(root)
   const messagePaths = await loadSessionMessagePaths(sessionId, normalizedRoot)
@@ -888,12 +2410,30 @@ export async function loadSessionChatIndex(
     return []
   }
 
+  const fingerprint = isIndexCacheEnabled() ? await filesFingerprint(messagePaths) : null
+  const cached = fingerprint
+    ? readCacheEntry<CachedChatMessage[]>("messages", normalizedRoot, sessionId, fingerprint)
+    : undefined
+  if (cached) {
+    return cached.map((message) => ({
+      sessionId,
+      ...message,
+      createdAt: msToDate(message.createdAt),
+      parts: null,
+      previewText: "[loading...]",
+      totalChars: null,
+    }))
+  }
+
   const messages: ChatMessage[] = []
 
   for (const msgPath of messagePaths) {
-    const payload = await readJsonFile<RawMessagePayload>(msgPath)
-    if (!payload || !payload.id) {
-      // Skip malformed entries
+    const payload = await readJsonRecord<RawMessagePayload>(msgPath, options)
+    if (!payload) {
+      continue
+    }
+    if (!payload.id) {
+      warnJsonl(options, msgPath, "missing id")
       continue
     }
 
@@ -920,6 +2460,7 @@ export async function loadSessionChatIndex(
       createdAt,
       parentId: payload.parentID,
       tokens,
+      ...parseMessageDetails(payload),
       parts: null,
       previewText: "[loading...]",
       totalChars: null,
@@ -936,6 +2477,22 @@ export async function loadSessionChatIndex(
     return a.messageId.localeCompare(b.messageId)
   })
 
+  // Skipped files must be reported again next time, so only cache complete indexes
+  if (fingerprint && messages.length === messagePaths.length) {
+    const entries: CachedChatMessage[] = messages.map((message) => ({
+      messageId: message.messageId,
+      role: message.role,
+      createdAt: message.createdAt?.getTime() ?? null,
+      parentId: message.parentId,
+      tokens: message.tokens,
+      providerId: message.providerId,
+      modelId: message.modelId,
+      agent: message.agent,
+      cost: message.cost,
+    }))
+    writeCacheEntry("messages", normalizedRoot, sessionId, fingerprint, entries)
+  }
+
   return messages
 }
 
@@ -944,7 +2501,8 @@ export async function loadSessionChatIndex(
  */
 export async function loadMessageParts(
   messageId: string,
-  root: string = DEFAULT_ROOT
+  root: string = DEFAULT_ROOT,
+  options: JsonlReadOptions = {}
 ): Promise<ChatPart[]> {
   const normalizedRoot = resolve(root)
   const partPaths = await loadMessagePartPaths(messageId, normalizedRoot)
@@ -963,35 +2521,33 @@ export async function loadMessageParts(
   })
 
   for (const partPath of sortedPaths) {
-    try {
-      const raw = await readJsonFile<Record<string, unknown>>(partPath)
-      if (!raw || !raw.id) {
-        // Skip malformed part files
-        continue
-      }
-
-      const partId = typeof raw.id === "string" ? raw.id : String(raw.id)
-      const typeRaw = typeof raw.type === "string" ? raw.type : "unknown"
-      const type: PartType =
-        typeRaw === "text" ? "text" :
-        typeRaw === "subtask" ? "subtask" :
-        typeRaw === "tool" ? "tool" :
-        "unknown"
-
-      const extracted = extractPartContent(raw)
-
-      parts.push({
-        partId,
-        messageId,
-        type,
-        text: extracted.text,
-        toolName: extracted.toolName,
-        toolStatus: extracted.toolStatus,
-      })
-    } catch {
-      // Skip files that fail to parse
+    const raw = await readJsonRecord<Record<string, unknown>>(partPath, options)
+    if (!raw) {
+      continue
+    }
+    if (!raw.id) {
+      warnJsonl(options, partPath, "missing id")
       continue
     }
+
+    const partId = typeof raw.id === "string" ? raw.id : String(raw.id)
+    const typeRaw = typeof raw.type === "string" ? raw.type : "unknown"
+    const type: PartType =
+      typeRaw === "text" ? "text" :
+      typeRaw === "subtask" ? "subtask" :
+      typeRaw === "tool" ? "tool" :
+      "unknown"
+
+    const extracted = extractPartContent(raw)
+
+    parts.push({
+      partId,
+      messageId,
+      type,
+      text: extracted.text,
+      toolName: extracted.toolName,
+      toolStatus: extracted.toolStatus,
+    })
   }
 
   return parts
@@ -1004,9 +2560,10 @@ const PREVIEW_CHARS = 200
  */
 export async function hydrateChatMessageParts(
   message: ChatMessage,
-  root: string = DEFAULT_ROOT
+  root: string = DEFAULT_ROOT,
+  options: JsonlReadOptions = {}
 ): Promise<ChatMessage> {
-  const parts = await loadMessageParts(message.messageId, root)
+  const parts = await loadMessageParts(message.messageId, root, options)
 
   // Combine all part texts for total chars and preview
   const combinedText = parts.map(p => p.text).join('\n\n')
@@ -1049,11 +2606,67 @@ export interface ChatSearchResult {
  * Search across all chat content in specified sessions.
  * Returns matching messages with context snippets.
  */
+/**
+ * Search one session's chat content, returning at most `maxResults` matches
+ * (one per message).
+ */
+async function searchSessionChat(
+  session: SessionRecord,
+  queryLower: string,
+  queryLength: number,
+  root: string,
+  maxResults: number,
+  options: JsonlReadOptions
+): Promise<ChatSearchResult[]> {
+  const results: ChatSearchResult[] = []
+
+  // Load messages for this session
+  const messages = await loadSessionChatIndex(session.sessionId, root, options)
+
+  for (const message of messages) {
+    if (results.length >= maxResults) break
+
+    // Load parts to search content
+    const parts = await loadMessageParts(message.messageId, root, options)
+
+    for (const part of parts) {
+      const textLower = part.text.toLowerCase()
+      const matchIndex = textLower.indexOf(queryLower)
+
+      if (matchIndex !== -1) {
+        // Create a snippet around the match
+        const snippetStart = Math.max(0, matchIndex - 50)
+        const snippetEnd = Math.min(part.text.length, matchIndex + queryLength + 50)
+        let snippet = part.text.slice(snippetStart, snippetEnd)
+        if (snippetStart > 0) snippet = "..." + snippet
+        if (snippetEnd < part.text.length) snippet = snippet + "..."
+
+        results.push({
+          sessionId: session.sessionId,
+          sessionTitle: session.title || session.sessionId,
+          projectId: session.projectId,
+          messageId: message.messageId,
+          role: message.role,
+          matchedText: snippet.replace(/\n/g, ' '),
+          fullText: part.text,
+          partType: part.type,
+          createdAt: message.createdAt,
+        })
+
+        // Only one result per message to avoid duplicates
+        break
+      }
+    }
+  }
+
+  return results
+}
+
 export async function searchSessionsChat(
   sessions: SessionRecord[],
   query: string,
   root: string = DEFAULT_ROOT,
-  options: { maxResults?: number } = {}
+  options: { maxResults?: number } & JsonlReadOptions = {}
 ): Promise<ChatSearchResult[]> {
   const normalizedRoot = resolve(root)
   const queryLower = query.toLowerCase().trim()
@@ -1064,48 +2677,16 @@ export async function searchSessionsChat(
     return results
   }
 
-  for (const session of sessions) {
-    if (results.length >= maxResults) break
-
-    // Load messages for this session
-    const messages = await loadSessionChatIndex(session.sessionId, normalizedRoot)
-
-    for (const message of messages) {
-      if (results.length >= maxResults) break
-
-      // Load parts to search content
-      const parts = await loadMessageParts(message.messageId, normalizedRoot)
-
-      for (const part of parts) {
-        if (results.length >= maxResults) break
-
-        const textLower = part.text.toLowerCase()
-        const matchIndex = textLower.indexOf(queryLower)
-
-        if (matchIndex !== -1) {
-          // Create a snippet around the match
-          const snippetStart = Math.max(0, matchIndex - 50)
-          const snippetEnd = Math.min(part.text.length, matchIndex + query.length + 50)
-          let snippet = part.text.slice(snippetStart, snippetEnd)
-          if (snippetStart > 0) snippet = "..." + snippet
-          if (snippetEnd < part.text.length) snippet = snippet + "..."
-
-          results.push({
-            sessionId: session.sessionId,
-            sessionTitle: session.title || session.sessionId,
-            projectId: session.projectId,
-            messageId: message.messageId,
-            role: message.role,
-            matchedText: snippet.replace(/\n/g, ' '),
-            fullText: part.text,
-            partType: part.type,
-            createdAt: message.createdAt,
-          })
-
-          // Only one result per message to avoid duplicates
-          break
-        }
-      }
+  // Search a window of sessions at a time; results keep session order and
+  // later windows are skipped once enough matches are found
+  const pool = getIoPool()
+  for (let start = 0; start < sessions.length && results.length < maxResults; start += pool.concurrency) {
+    const window = sessions.slice(start, start + pool.concurrency)
+    const matches = await pool.map(window, (session) =>
+      searchSessionChat(session, queryLower, query.length, normalizedRoot, maxResults, options)
+    )
+    for (const sessionMatches of matches) {
+      results.push(...sessionMatches.slice(0, maxResults - results.length))
     }
   }
 
@@ -0,0 +1,181 @@
+/**
+ * Cost accounting for token usage.
+ *
+ * OpenCode records a `cost` (USD) on assistant messages, but it is 0 or
+ * missing for providers it has no price for. A local pricing table from the
+ * config file fills those gaps with an estimate, so every cost is reported as
+ * recorded (from the message) or estimated (from the table).
+ *
+ * Prices are USD per million tokens, keyed by `providerID/modelID` or by the
+ * bare `modelID` (the provider-qualified key wins):
+ *
+ * ```json
+ * {
+ *   "anthropic/claude-sonnet-4": { "input": 3, "output": 15, "cacheRead": 0.3, "cacheWrite": 3.75 },
+ *   "gpt-4o": { "input": 2.5, "output": 10 }
+ * }
+ * ```
+ */
+import { createHash } from "node:crypto"
+import type { CostBreakdown, TokenBreakdown } from "./opencode-data"
+
+// ========================
+// Types
+// ========================
+
+/**
+ * Price of one model in USD per million tokens. Reasoning tokens default to
+ * the output price, cache reads and writes to the input price.
+ */
+export interface ModelPrice {
+  input: number
+  output: number
+  reasoning?: number
+  cacheRead?: number
+  cacheWrite?: number
+}
+
+/** Prices keyed by `providerID/modelID` or `modelID` */
+export type PricingTable = Record<string, ModelPrice>
+
+/**
+ * The parts of a message that determine its cost.
+ */
+export interface MessageCostInput {
+  tokens: TokenBreakdown
+  providerId?: string
+  modelId?: string
+  /** Cost recorded on the message, if any */
+  cost?: number
+}
+
+// ========================
+// Constants
+// ========================
+
+export const PRICE_FIELDS: readonly (keyof ModelPrice)[] = ["input", "output", "reasoning", "cacheRead", "cacheWrite"]
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000
+
+// ========================
+// Configuration
+// ========================
+
+let pricing: PricingTable = {}
+let fingerprint = "none"
+
+/**
+ * Set the pricing table used for cost estimates in this process.
+ */
+export function configurePricing(table: PricingTable = {}): void {
+  pricing = { ...table }
+  const keys = Object.keys(pricing).sort()
+  fingerprint =
+    keys.length === 0
+      ? "none"
+      : createHash("sha1")
+          .update(JSON.stringify(keys.map((key) => [key, PRICE_FIELDS.map((field) => pricing[key][field] ?? null)])))
+          .digest("hex")
+          .slice(0, 12)
+}
+
+export function getPricing(): PricingTable {
+  return pricing
+}
+
+/**
+ * Short hash of the pricing table, for cache keys of values that include
+ * estimated costs. "none" when the table is empty.
+ */
+export function pricingFingerprint(): string {
+  return fingerprint
+}
+
+// ========================
+// Estimation
+// ========================
+
+/**
+ * Look up the price of a model: `providerID/modelID` first, then `modelID`.
+ */
+export function findModelPrice(providerId: string | undefined, modelId: string | undefined): ModelPrice | undefined {
+  if (!modelId) {
+    return undefined
+  }
+  if (providerId && Object.hasOwn(pricing, `${providerId}/${modelId}`)) {
+    return pricing[`${providerId}/${modelId}`]
+  }
+  return Object.hasOwn(pricing, modelId) ? pricing[modelId] : undefined
+}
+
+/**
+ * Cost of a token breakdown in USD at the given price.
+ */
+export function estimateTokenCost(tokens: TokenBreakdown, price: ModelPrice): number {
+  return (
+    (tokens.input * price.input +
+      tokens.output * price.output +
+      tokens.reasoning * (price.reasoning ?? price.output) +
+      tokens.cacheRead * (price.cacheRead ?? price.input) +
+      tokens.cacheWrite * (price.cacheWrite ?? price.input)) /
+    TOKENS_PER_PRICE_UNIT
+  )
+}
+
+export function emptyCostBreakdown(): CostBreakdown {
+  return { recorded: 0, estimated: 0, total: 0, unpricedMessages: 0 }
+}
+
+/**
+ * Add one assistant message to a cost breakdown. A recorded cost above 0 is
+ * used as is; otherwise the cost is estimated from the pricing table. Messages
+ * with tokens but no price are counted as unpriced.
+ */
+export function addMessageCost(breakdown: CostBreakdown, message: MessageCostInput): void {
+  if (message.cost !== undefined && message.cost > 0) {
+    breakdown.recorded += message.cost
+  } else {
+    const price = findModelPrice(message.providerId, message.modelId)
+    if (price) {
+      breakdown.estimated += estimateTokenCost(message.tokens, price)
+    } else if (message.tokens.total > 0) {
+      breakdown.unpricedMessages += 1
+    }
+  }
+  breakdown.total = breakdown.recorded + breakdown.estimated
+}
+
+/**
+ * Add assistant messages of one model that were summed in bulk (e.g. by a
+ * SQL aggregate). `recorded` is the sum of their recorded costs above 0;
+ * `unrecordedTokens` and `unrecordedMessages` cover the messages without one,
+ * counting only messages with tokens. Same result as adding them one by one.
+ */
+export function addBulkMessageCost(
+  breakdown: CostBreakdown,
+  bulk: {
+    providerId?: string
+    modelId?: string
+    recorded: number
+    unrecordedTokens: TokenBreakdown
+    unrecordedMessages: number
+  }
+): void {
+  breakdown.recorded += bulk.recorded
+  const price = findModelPrice(bulk.providerId, bulk.modelId)
+  if (price) {
+    breakdown.estimated += estimateTokenCost(bulk.unrecordedTokens, price)
+  } else {
+    breakdown.unpricedMessages += bulk.unrecordedMessages
+  }
+  breakdown.total = breakdown.recorded + breakdown.estimated
+}
+
+export function addCostBreakdown(a: CostBreakdown, b: CostBreakdown): CostBreakdown {
+  return {
+    recorded: a.recorded + b.recorded,
+    estimated: a.estimated + b.estimated,
+    total: a.total + b.total,
+    unpricedMessages: a.unpricedMessages + b.unpricedMessages,
+  }
+}
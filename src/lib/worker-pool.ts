@@ -0,0 +1,109 @@
+/**
+ * Concurrency-limited worker pool for file I/O.
+ *
+ * The JSONL loaders read one file per record, which is slow when every read
+ * is awaited in turn (especially on network home directories). They share a
+ * single pool so the total number of in-flight reads stays bounded no matter
+ * how many loaders run at once, while results keep their input order.
+ */
+
+/**
+ * Default number of tasks the shared I/O pool runs at once.
+ */
+export const DEFAULT_IO_CONCURRENCY = 16
+
+export interface WorkerPool {
+  /** Maximum number of tasks running at once */
+  readonly concurrency: number
+  /**
+   * Run `fn` over every item with at most `concurrency` tasks in flight
+   * (shared with other calls on the same pool). Results are returned in
+   * input order.
+   *
+   * If any task fails, no new tasks are started and, once running tasks
+   * settle, the error of the earliest failed item is thrown.
+   *
+   * `fn` must not call `map` on the same pool: an outer task waiting on
+   * inner tasks would hold a slot they need.
+   */
+  map<T, R>(items: readonly T[], fn: (item: T, index: number) => Promise<R>): Promise<R[]>
+}
+
+/**
+ * Create a worker pool.
+ *
+ * @param concurrency - Maximum number of tasks in flight (at least 1).
+ */
+export function createWorkerPool(concurrency: number): WorkerPool {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency: ${concurrency}. Must be a positive integer.`)
+  }
+
+  let active = 0
+  const waiting: (() => void)[] = []
+
+  async function acquire(): Promise<void> {
+    if (active < concurrency) {
+      active += 1
+      return
+    }
+    // The releasing task hands its slot over directly
+    await new Promise<void>((resolve) => waiting.push(resolve))
+  }
+
+  function release(): void {
+    const next = waiting.shift()
+    if (next) {
+      next()
+    } else {
+      active -= 1
+    }
+  }
+
+  return {
+    concurrency,
+
+    async map<T, R>(items: readonly T[], fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+      const results = new Array<R>(items.length)
+      const failures: { index: number; error: unknown }[] = []
+
+      await Promise.all(
+        items.map(async (item, index) => {
+          await acquire()
+          try {
+            if (failures.length === 0) {
+              results[index] = await fn(item, index)
+            }
+          } catch (error) {
+            failures.push({ index, error })
+          } finally {
+            release()
+          }
+        })
+      )
+
+      if (failures.length > 0) {
+        failures.sort((a, b) => a.index - b.index)
+        throw failures[0].error
+      }
+      return results
+    },
+  }
+}
+
+let ioPool = createWorkerPool(DEFAULT_IO_CONCURRENCY)
+
+/**
+ * The pool shared by the JSONL loaders.
+ */
+export function getIoPool(): WorkerPool {
+  return ioPool
+}
+
+/**
+ * Replace the shared pool with one of the given size.
+ * Use 1 to read files strictly one at a time.
+ */
+export function setIoConcurrency(concurrency: number): void {
+  ioPool = createWorkerPool(concurrency)
+}
@@ -13,6 +13,7 @@ import { copyToClipboardSync } from "../lib/clipboard"
 import {
   ProjectRecord,
   SessionRecord,
+  SessionStats,
   describeProject,
   describeSession,
   formatDate,
@@ -21,14 +22,41 @@ import {
   TokenSummary,
   TokenBreakdown,
   AggregateTokenSummary,
+  CostBreakdown,
   clearTokenCache,
   ChatMessage,
   ChatPart,
   ChatSearchResult,
+  timelineBucketLabel,
+  timelineBucketStart,
 } from "../lib/opencode-data"
 import { DEFAULT_SQLITE_PATH } from "../lib/opencode-data-sqlite"
 import { createProvider, type DataProvider, type StorageBackend } from "../lib/opencode-data-provider"
+import {
+  DEFAULT_CONFIG_PATH,
+  DEFAULT_TUI_PREFERENCES,
+  describeStoreLocation,
+  listStores,
+  type NamedStore,
+  type TuiPreferences,
+} from "../lib/config"
+import type { StoreChangeEvent } from "../lib/opencode-data-watch"
+import {
+  buildSessionTree,
+  collectDescendants,
+  expandWithDescendants,
+  flattenSessionTree,
+  type SessionTreeRow,
+} from "../lib/opencode-data-tree"
 import { createSearcher, type SearchCandidate } from "../lib/search"
+import {
+  budgetsForStore,
+  EACH_PROJECT,
+  evaluateBudget,
+  type Budget,
+  type BudgetStatus,
+  type BudgetTable,
+} from "../lib/budgets"
 
 type TabKey = "projects" | "sessions"
 
@@ -51,6 +79,8 @@ type ProjectsPanelProps = {
   active: boolean
   locked: boolean
   searchQuery: string
+  /** Budgets of the current store from the config file */
+  budgets: BudgetTable
   onNotify: (message: string, level?: NotificationLevel) => void
   requestConfirm: (state: ConfirmState) => void
   onNavigateToSessions: (projectId: string) => void
@@ -67,10 +97,61 @@ type SessionsPanelProps = {
   requestConfirm: (state: ConfirmState) => void
   onClearFilter: () => void
   onOpenChatViewer: (session: SessionRecord) => void
+  initialSort: "updated" | "created"
 }
 
 const MAX_CONFIRM_PREVIEW = 5
 
+const NO_BUDGETS: BudgetTable = {}
+
+// Delay used to coalesce a burst of store changes into one reload
+const LIVE_REFRESH_DEBOUNCE_MS = 250
+
+const isProjectChange = (event: StoreChangeEvent) =>
+  event.type === "project-added" || event.type === "project-removed"
+
+const isSessionChange = (event: StoreChangeEvent) =>
+  event.type === "session-created" || event.type === "session-updated" || event.type === "session-deleted"
+
+/**
+ * Call `onChange` once per burst of matching store changes, for as long as
+ * the component is mounted.
+ */
+function useStoreChanges(
+  provider: DataProvider | null,
+  matches: (event: StoreChangeEvent) => boolean,
+  onChange: () => void,
+  onError?: (error: Error) => void,
+) {
+  const latest = useRef({ matches, onChange, onError })
+  latest.current = { matches, onChange, onError }
+
+  useEffect(() => {
+    if (!provider) {
+      return
+    }
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const unsubscribe = provider.watch(
+      (event) => {
+        if (timer || !latest.current.matches(event)) {
+          return
+        }
+        timer = setTimeout(() => {
+          timer = null
+          latest.current.onChange()
+        }, LIVE_REFRESH_DEBOUNCE_MS)
+      },
+      { onError: (error) => latest.current.onError?.(error) },
+    )
+    return () => {
+      unsubscribe()
+      if (timer) {
+        clearTimeout(timer)
+      }
+    }
+  }, [provider])
+}
+
 // Palette used for subtle color accents
 const PALETTE = {
   primary: "#a5b4fc", // lavender
@@ -93,6 +174,25 @@ function formatTokenCount(n: number): string {
   return String(n)
 }
 
+function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`
+}
+
+/**
+ * Total cost, noting how much of it is estimated and how many messages could
+ * not be priced.
+ */
+function formatCostSummary(cost: CostBreakdown): string {
+  const notes: string[] = []
+  if (cost.estimated > 0) {
+    notes.push(`${formatCost(cost.estimated)} estimated`)
+  }
+  if (cost.unpricedMessages > 0) {
+    notes.push(`${cost.unpricedMessages} unpriced`)
+  }
+  return notes.length > 0 ? `${formatCost(cost.total)} (${notes.join(", ")})` : formatCost(cost.total)
+}
+
 function formatTokenBreakdown(tokens: TokenBreakdown): string[] {
   return [
     `Input: ${formatTokenCount(tokens.input)}`,
@@ -115,11 +215,11 @@ function formatAggregateSummaryShort(summary: AggregateTokenSummary): string {
   if (summary.total.kind === 'unknown') {
     return '?'
   }
-  const base = formatTokenCount(summary.total.tokens.total)
+  let base = formatTokenCount(summary.total.tokens.total)
   if (summary.unknownSessions && summary.unknownSessions > 0) {
-    return `${base} (+${summary.unknownSessions} unknown)`
+    base = `${base} (+${summary.unknownSessions} unknown)`
   }
-  return base
+  return summary.cost ? `${base}  ${formatCostSummary(summary.cost)}` : base
 }
 
 async function runBatchSessionOperation(
@@ -130,13 +230,19 @@ async function runBatchSessionOperation(
 ): Promise<BatchOperationResult> {
   const succeeded: BatchOperationResult["succeeded"] = []
   const failed: BatchOperationResult["failed"] = []
+  // A child copied along with its parent is linked to the parent's copy
+  const copyIds = new Map<string, string>()
 
   for (const session of sessions) {
     try {
+      const copiedParentId = session.parentId ? copyIds.get(session.parentId) : undefined
       const newRecord =
         mode === "move"
           ? await provider.moveSession(session, targetProjectId)
+          : copiedParentId
+          ? await provider.importSession(await provider.exportSession(session), targetProjectId, { parentId: copiedParentId })
           : await provider.copySession(session, targetProjectId)
+      copyIds.set(session.sessionId, newRecord.sessionId)
       succeeded.push({ session, newRecord })
     } catch (error) {
       failed.push({
@@ -258,8 +364,54 @@ const ProjectSelector = ({
   )
 }
 
+type StorePickerProps = {
+  stores: NamedStore[]
+  activeStore: NamedStore | null
+  cursor: number
+  onCursorChange: (index: number) => void
+  onSelect: (store: NamedStore) => void
+}
+
+const StorePicker = ({ stores, activeStore, cursor, onCursorChange, onSelect }: StorePickerProps) => {
+  const options: SelectOption[] = stores.map((store, idx) => ({
+    name: `${store.name === activeStore?.name ? "* " : "  "}${store.name} (${store.backend}${store.strict ? ", strict" : ""})`,
+    description: formatDisplayPath(describeStoreLocation(store)),
+    value: idx,
+  }))
+
+  return (
+    <box
+      title="Switch Store"
+      style={{
+        border: true,
+        borderColor: PALETTE.info,
+        padding: 1,
+        position: 'absolute',
+        top: 5,
+        left: 5,
+        right: 5,
+        bottom: 5,
+        zIndex: 100
+      }}
+    >
+      <select
+        options={options}
+        selectedIndex={cursor}
+        onChange={onCursorChange}
+        onSelect={(idx) => {
+          const store = stores[idx]
+          if (store) onSelect(store)
+        }}
+        focused={true}
+        showScrollIndicator
+      />
+      <text fg={PALETTE.muted}>Enter to switch, Esc to cancel</text>
+    </box>
+  )
+}
+
 const ProjectsPanel = forwardRef<PanelHandle, ProjectsPanelProps>(function ProjectsPanel(
-  { provider, active, locked, searchQuery, onNotify, requestConfirm, onNavigateToSessions },
+  { provider, active, locked, searchQuery, budgets, onNotify, requestConfirm, onNavigateToSessions },
   ref,
 ) {
   const [records, setRecords] = useState<ProjectRecord[]>([])
@@ -271,6 +423,8 @@ const ProjectsPanel = forwardRef<PanelHandle, ProjectsPanelProps>(function Proje
   // Token state for projects
   const [allSessions, setAllSessions] = useState<SessionRecord[]>([])
   const [currentProjectTokens, setCurrentProjectTokens] = useState<AggregateTokenSummary | null>(null)
+  // Names of the current project's budgets that are over their limit
+  const [exceededBudgets, setExceededBudgets] = useState<string[]>([])
 
   const missingCount = useMemo(() => records.filter((record) => record.state === "missing").length, [records])
 
@@ -289,8 +443,11 @@ const ProjectsPanel = forwardRef<PanelHandle, ProjectsPanelProps>(function Proje
   const currentRecord = visibleRecords[cursor]
 
   const refreshRecords = useCallback(
-    async (silent = false) => {
-      setLoading(true)
+    async (silent = false, inPlace = false) => {
+      // In-place reloads keep the list on screen instead of showing "Loading"
+      if (!inPlace) {
+        setLoading(true)
+      }
       setError(null)
       try {
         const data = await provider.loadProjectRecords()
@@ -313,6 +470,9 @@ const ProjectsPanel = forwardRef<PanelHandle, ProjectsPanelProps>(function Proje
     void refreshRecords(true)
   }, [refreshRecords])
 
+  // Keep the list current while OpenCode adds or removes projects
+  useStoreChanges(provider, isProjectChange, () => void refreshRecords(true, true))
+
   useEffect(() => {
     setSelectedIndexes((prev) => {
       if (prev.size === 0) {
@@ -352,6 +512,11 @@ const ProjectsPanel = forwardRef<PanelHandle, ProjectsPanelProps>(function Proje
     return () => { cancelled = true }
   }, [provider, records]) // Re-fetch when projects change (implies sessions may have changed)
 
+  // Session changes alter project token totals
+  useStoreChanges(provider, isSessionChange, () => {
+    void provider.loadSessionRecords().then(setAllSessions, () => {})
+  })
+
   // Compute token summary for current project
   useEffect(() => {
     setCurrentProjectTokens(null)
@@ -369,6 +534,46 @@ const ProjectsPanel = forwardRef<PanelHandle, ProjectsPanelProps>(function Proje
     }
   }, [currentRecord, allSessions, provider])
 
+  // Budget statuses by budget, project and period; new sessions or budgets start over
+  const budgetCache = useMemo(() => new Map<string, Promise<BudgetStatus[]>>(), [allSessions, provider, budgets])
+
+  // Check the budgets of the current project for this day, week or month
+  useEffect(() => {
+    setExceededBudgets([])
+    const projectBudgets = Object.entries(budgets).filter(
+      ([, budget]) => budget.project === EACH_PROJECT || budget.project === currentRecord?.projectId,
+    )
+    if (!currentRecord || allSessions.length === 0 || projectBudgets.length === 0) {
+      return
+    }
+    let cancelled = false
+    const now = new Date()
+    const projectSessions = allSessions.filter((session) => session.projectId === currentRecord.projectId)
+    const evaluate = ([name, budget]: [string, Budget]) => {
+      const period = timelineBucketLabel(timelineBucketStart(now, budget.period), budget.period)
+      const key = JSON.stringify([name, currentRecord.projectId, period])
+      let statuses = budgetCache.get(key)
+      if (!statuses) {
+        statuses = evaluateBudget(name, budget, provider, projectSessions, now)
+        budgetCache.set(key, statuses)
+        // A failed check is retried the next time the project is selected
+        statuses.catch(() => budgetCache.delete(key))
+      }
+      return statuses
+    }
+    Promise.all(projectBudgets.map(evaluate)).then(
+      (results) => {
+        if (!cancelled) {
+          setExceededBudgets(results.flat().filter((status) => status.exceeded).map((status) => status.budget))
+        }
+      },
+      () => {},
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [currentRecord, allSessions, provider, budgets, budgetCache])
+
   const toggleSelection = useCallback((record: ProjectRecord | undefined) => {
     if (!record) {
       return
@@ -415,11 +620,17 @@ const ProjectsPanel = forwardRef<PanelHandle, ProjectsPanelProps>(function Proje
         .slice(0, MAX_CONFIRM_PREVIEW)
         .map((record) => describeProject(record, { fullPath: true })),
       onConfirm: async () => {
-        const { removed, failed } = await provider.deleteProjectMetadata(selectedRecords)
+        const { removed, failed, trashId } = await provider.deleteProjectMetadata(selectedRecords, {
+          trash: { command: "tui: delete projects" },
+        })
         setSelectedIndexes(new Set())
+        // removed also lists cascaded message/part files; count only the projects themselves
+        const removedPaths = new Set(removed)
+        const deletedCount = selectedRecords.filter((record) => removedPaths.has(record.filePath)).length
+        const trashNote = trashId ? ` Moved to trash ${trashId} (restore: opencode-manager trash restore ${trashId})` : ""
         const msg = failed.length
-          ? `Removed ${removed.length} project file(s). Failed: ${failed.length}`
-          : `Removed ${removed.length} project file(s).`
+          ? `Removed ${deletedCount} project(s). Failed: ${failed.length} file(s).${trashNote}`
+          : `Removed ${deletedCount} project(s).${trashNote}`
         onNotify(msg, failed.length ? "error" : "info")
         await refreshRecords(true)
       },
@@ -545,10 +756,16 @@ const ProjectsPanel = forwardRef<PanelHandle, ProjectsPanelProps>(function Proje
                 <text fg={PALETTE.accent}>Tokens: </text>
                 {currentProjectTokens?.total.kind === 'known' ? (
                   <>
-                    <text fg={PALETTE.success}>Total: {formatTokenCount(currentProjectTokens.total.tokens.total)}</text>
+                    <text fg={exceededBudgets.length > 0 ? PALETTE.danger : PALETTE.success}>
+                      Total: {formatTokenCount(currentProjectTokens.total.tokens.total)}
+                    </text>
+                    {exceededBudgets.length > 0 ? (
+                      <text fg={PALETTE.danger}> (over budget: {exceededBudgets.join(", ")})</text>
+                    ) : null}
                     {currentProjectTokens.unknownSessions && currentProjectTokens.unknownSessions > 0 ? (
                       <text fg={PALETTE.muted}> (+{currentProjectTokens.unknownSessions} unknown sessions)</text>
                     ) : null}
+                    {currentProjectTokens.cost ? <text>  Cost: {formatCostSummary(currentProjectTokens.cost)}</text> : null}
                   </>
                 ) : (
                   <text fg={PALETTE.muted}>{currentProjectTokens ? '?' : 'loading...'}</text>
@@ -563,7 +780,7 @@ const ProjectsPanel = forwardRef<PanelHandle, ProjectsPanelProps>(function Proje
 })
 
 const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function SessionsPanel(
-  { provider, active, locked, projectFilter, searchQuery, globalTokenSummary, onNotify, requestConfirm, onClearFilter, onOpenChatViewer },
+  { provider, active, locked, projectFilter, searchQuery, globalTokenSummary, onNotify, requestConfirm, onClearFilter, onOpenChatViewer, initialSort },
   ref,
 ) {
   const [records, setRecords] = useState<SessionRecord[]>([])
@@ -571,7 +788,10 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
   const [error, setError] = useState<string | null>(null)
   const [cursor, setCursor] = useState(0)
   const [selectedIndexes, setSelectedIndexes] = useState<Set<number>>(new Set())
-  const [sortMode, setSortMode] = useState<"updated" | "created">("updated")
+  const [sortMode, setSortMode] = useState<"updated" | "created">(initialSort)
+  // Tree mode nests child (subagent) sessions under their parents; operations cascade to them
+  const [treeMode, setTreeMode] = useState(false)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
   const [isRenaming, setIsRenaming] = useState(false)
   const [renameValue, setRenameValue] = useState('')
   const [isSelectingProject, setIsSelectingProject] = useState(false)
@@ -581,6 +801,8 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
   // Token state
   const [currentTokenSummary, setCurrentTokenSummary] = useState<TokenSummary | null>(null)
   const [filteredTokenSummary, setFilteredTokenSummary] = useState<AggregateTokenSummary | null>(null)
+  const [subtreeTokenSummary, setSubtreeTokenSummary] = useState<AggregateTokenSummary | null>(null)
+  const [currentStats, setCurrentStats] = useState<SessionStats | null>(null)
 
   // Build fuzzy search candidates using the shared search library
   const searchCandidates = useMemo((): SearchCandidate<SessionRecord>[] => {
@@ -600,7 +822,7 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
     return createSearcher(searchCandidates)
   }, [searchCandidates])
 
-  const visibleRecords = useMemo(() => {
+  const visibleRecords = useMemo((): (SessionRecord | SessionTreeRow)[] => {
     const sorted = [...records].sort((a, b) => {
       const aDate = sortMode === "created" ? (a.createdAt ?? a.updatedAt) : (a.updatedAt ?? a.createdAt)
       const bDate = sortMode === "created" ? (b.createdAt ?? b.updatedAt) : (b.updatedAt ?? b.createdAt)
@@ -610,7 +832,8 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
       return a.sessionId.localeCompare(b.sessionId)
     })
     const q = searchQuery.trim()
-    if (!q) return sorted
+    // Search results are always flat
+    if (!q) return treeMode ? flattenSessionTree(buildSessionTree(sorted), collapsed) : sorted
 
     // Use fuzzy search
     const results = searcher.search(q, { returnMatchData: true })
@@ -643,12 +866,18 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
       return matched.slice(0, MAX_RESULTS)
     }
     return matched
-  }, [records, sortMode, searchQuery, searcher])
+  }, [records, sortMode, searchQuery, searcher, treeMode, collapsed])
   const currentSession = visibleRecords[cursor]
+  const currentDescendants = useMemo(
+    () => (currentSession ? collectDescendants(currentSession.sessionId, records) : []),
+    [currentSession, records],
+  )
 
   const refreshRecords = useCallback(
-    async (silent = false) => {
-      setLoading(true)
+    async (silent = false, inPlace = false) => {
+      if (!inPlace) {
+        setLoading(true)
+      }
       setError(null)
       try {
         const data = await provider.loadSessionRecords({ projectId: projectFilter || undefined })
@@ -671,6 +900,9 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
     void refreshRecords(true)
   }, [refreshRecords])
 
+  // Keep the list current while OpenCode creates, updates or deletes sessions
+  useStoreChanges(provider, isSessionChange, () => void refreshRecords(true, true))
+
   useEffect(() => {
     setSelectedIndexes((prev) => {
       if (prev.size === 0) {
@@ -716,6 +948,40 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
     }
   }, [currentSession, provider])
 
+  // Read model, agent and cost details of the current session
+  useEffect(() => {
+    setCurrentStats(null)
+    if (!currentSession) {
+      return
+    }
+    let cancelled = false
+    provider.enrichSessionRecords([currentSession]).then(([enriched]) => {
+      if (!cancelled) {
+        setCurrentStats(enriched?.stats ?? null)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [currentSession, provider])
+
+  // Roll up tokens of the current session and its descendants
+  useEffect(() => {
+    setSubtreeTokenSummary(null)
+    if (!currentSession || currentDescendants.length === 0) {
+      return
+    }
+    let cancelled = false
+    provider.computeGlobalTokenSummary([currentSession, ...currentDescendants]).then((summary) => {
+      if (!cancelled) {
+        setSubtreeTokenSummary(summary)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [currentSession, currentDescendants, provider])
+
   // Compute filtered token summary (deferred to avoid UI freeze)
   useEffect(() => {
     setFilteredTokenSummary(null)
@@ -755,18 +1021,23 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
   }, [])
 
   const selectedSessions = useMemo(() => {
-    if (selectedIndexes.size === 0) {
-      return currentSession ? [currentSession] : []
-    }
-    return records.filter((record) => selectedIndexes.has(record.index))
-  }, [records, selectedIndexes, currentSession])
+    const selected = selectedIndexes.size === 0
+      ? (currentSession ? [currentSession] : [])
+      : records.filter((record) => selectedIndexes.has(record.index))
+    return treeMode ? expandWithDescendants(selected, records) : selected
+  }, [records, selectedIndexes, currentSession, treeMode])
 
   const selectOptions: SelectOption[] = useMemo(() => {
     return visibleRecords.map((session, idx) => {
       const selected = selectedIndexes.has(session.index)
       const prefix = selected ? "[*]" : "[ ]"
       const primary = session.title && session.title.trim().length > 0 ? session.title : session.sessionId
-      const label = `${prefix} #${idx + 1} ${primary} (${session.version || "unknown"})`
+      let branch = ""
+      if ("depth" in session) {
+        const marker = session.childCount === 0 ? "  " : collapsed.has(session.sessionId) ? `▸ (+${session.descendantCount}) ` : "▾ "
+        branch = "  ".repeat(session.depth) + marker
+      }
+      const label = `${prefix} #${idx + 1} ${branch}${primary} (${session.version || "unknown"})`
       const stampBase = sortMode === "created" ? (session.createdAt ?? session.updatedAt) : (session.updatedAt ?? session.createdAt)
       const stamp = stampBase ? `${sortMode}: ${formatDate(stampBase)}` : `${sortMode}: ?`
       return {
@@ -775,7 +1046,7 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
         value: session.index,
       }
     })
-  }, [visibleRecords, selectedIndexes, sortMode])
+  }, [visibleRecords, selectedIndexes, sortMode, collapsed])
 
   const requestDeletion = useCallback(() => {
     if (selectedSessions.length === 0) {
@@ -783,21 +1054,27 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
       return
     }
     requestConfirm({
-      title: `Delete ${selectedSessions.length} session entr${selectedSessions.length === 1 ? "y" : "ies"}?`,
+      title: `Delete ${selectedSessions.length} session entr${selectedSessions.length === 1 ? "y" : "ies"}${treeMode ? " (including child sessions)" : ""}?`,
       details: selectedSessions
         .slice(0, MAX_CONFIRM_PREVIEW)
         .map((session) => describeSession(session, { fullPath: true })),
       onConfirm: async () => {
-        const { removed, failed } = await provider.deleteSessionMetadata(selectedSessions)
+        const { removed, failed, trashId } = await provider.deleteSessionMetadata(selectedSessions, {
+          trash: { command: "tui: delete sessions" },
+        })
         setSelectedIndexes(new Set())
+        // removed also lists cascaded message/part files; count only the sessions themselves
+        const removedPaths = new Set(removed)
+        const deletedCount = selectedSessions.filter((record) => removedPaths.has(record.filePath)).length
+        const trashNote = trashId ? ` Moved to trash ${trashId} (restore: opencode-manager trash restore ${trashId})` : ""
         const msg = failed.length
-          ? `Removed ${removed.length} session file(s). Failed: ${failed.length}`
-          : `Removed ${removed.length} session file(s).`
+          ? `Removed ${deletedCount} session(s). Failed: ${failed.length} file(s).${trashNote}`
+          : `Removed ${deletedCount} session(s).${trashNote}`
         onNotify(msg, failed.length ? "error" : "info")
         await refreshRecords(true)
       },
     })
-  }, [selectedSessions, onNotify, requestConfirm, refreshRecords, provider])
+  }, [selectedSessions, onNotify, requestConfirm, refreshRecords, provider, treeMode])
 
   const executeRename = useCallback(async () => {
     if (!currentSession || !renameValue.trim()) {
@@ -928,6 +1205,26 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
         setSortMode((prev) => (prev === "updated" ? "created" : "updated"))
         return
       }
+      if (letter === "t") {
+        setTreeMode((prev) => !prev)
+        return
+      }
+      if (treeMode && (key.name === "left" || key.name === "right") && currentSession) {
+        const sessionId = currentSession.sessionId
+        setCollapsed((prev) => {
+          if (prev.has(sessionId) === (key.name === "left")) {
+            return prev
+          }
+          const next = new Set(prev)
+          if (key.name === "left") {
+            next.add(sessionId)
+          } else {
+            next.delete(sessionId)
+          }
+          return next
+        })
+        return
+      }
       if (letter === "c" && projectFilter) {
         onClearFilter()
         return
@@ -1007,7 +1304,7 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
         return
       }
     },
-    [active, locked, currentSession, projectFilter, onClearFilter, onNotify, requestDeletion, toggleSelection, isRenaming, executeRename, isSelectingProject, availableProjects, projectCursor, operationMode, executeTransfer, selectedSessions, provider, onOpenChatViewer],
+    [active, locked, currentSession, projectFilter, onClearFilter, onNotify, requestDeletion, toggleSelection, isRenaming, executeRename, isSelectingProject, availableProjects, projectCursor, operationMode, executeTransfer, selectedSessions, provider, onOpenChatViewer, treeMode],
   )
 
   useImperativeHandle(
@@ -1033,8 +1330,8 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
       }}
     >
       <box flexDirection="column" marginBottom={1}>
-        <text>Filter: {projectFilter ? `project ${projectFilter}` : "none"} | Sort: {sortMode} | Search: {searchQuery ? `${searchQuery} (fuzzy)` : "(none)"} | Selected: {selectedIndexes.size}</text>
-        <text>Keys: Space select, A select all, S sort, D delete, Y copy ID, V view chat, F search chats, Shift+R rename, M move, P copy, C clear filter, Esc clear</text>
+        <text>Filter: {projectFilter ? `project ${projectFilter}` : "none"} | Sort: {sortMode} | View: {treeMode ? "tree" : "flat"} | Search: {searchQuery ? `${searchQuery} (fuzzy)` : "(none)"} | Selected: {selectedIndexes.size}</text>
+        <text>Keys: Space select, A select all, S sort, T tree{treeMode ? " (Left/Right collapse/expand)" : ""}, D delete, Y copy ID, V view chat, F search chats, Shift+R rename, M move, P copy, C clear filter, Esc clear</text>
       </box>
 
       {isRenaming ? (
@@ -1092,7 +1389,20 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
               </text>
               <text>Title: {currentSession.title && currentSession.title.trim().length > 0 ? currentSession.title : "(no title)"}</text>
               <text>Project: {currentSession.projectId}</text>
+              {currentSession.parentId ? <text>Parent: {currentSession.parentId}</text> : null}
               <text>Updated: {formatDate(currentSession.updatedAt || currentSession.createdAt)}</text>
+              {currentStats ? (
+                <>
+                  <text>
+                    Model: {currentStats.models.join(", ") || "unknown"}  Agent: {currentStats.agents.join(", ") || "unknown"}
+                  </text>
+                  <text>
+                    Messages: {currentStats.messageCount} ({currentStats.userTurns} user turns)  Cost: {formatCost(currentStats.cost)}  Last activity: {formatDate(currentStats.lastMessageAt)}
+                  </text>
+                </>
+              ) : (
+                <text fg={PALETTE.muted}>Messages: loading...</text>
+              )}
               <text>Directory:</text>
               <text>{formatDisplayPath(currentSession.directory, { fullPath: true })}</text>
               <box style={{ marginTop: 1 }}>
@@ -1105,11 +1415,18 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
                     <text>Cache R: {formatTokenCount(currentTokenSummary.tokens.cacheRead)} </text>
                     <text>Cache W: {formatTokenCount(currentTokenSummary.tokens.cacheWrite)} </text>
                     <text fg={PALETTE.success}>Total: {formatTokenCount(currentTokenSummary.tokens.total)}</text>
+                    {currentTokenSummary.cost ? <text>  Cost: {formatCostSummary(currentTokenSummary.cost)}</text> : null}
                   </>
                 ) : (
                   <text fg={PALETTE.muted}>{currentTokenSummary ? '?' : 'loading...'}</text>
                 )}
               </box>
+              {currentDescendants.length > 0 ? (
+                <box>
+                  <text fg={PALETTE.accent}>With {currentDescendants.length} child session(s): </text>
+                  <text>{subtreeTokenSummary ? formatAggregateSummaryShort(subtreeTokenSummary) : "loading..."}</text>
+                </box>
+              ) : null}
               {projectFilter && filteredTokenSummary ? (
                 <box style={{ marginTop: 1 }}>
                   <text fg={PALETTE.info}>Filtered ({projectFilter}): </text>
@@ -1131,7 +1448,7 @@ const SessionsPanel = forwardRef<PanelHandle, SessionsPanelProps>(function Sessi
   )
 })
 
-const StatusBar = ({ status, level }: { status: string; level: NotificationLevel }) => (
+const StatusBar = ({ status, level, skipped }: { status: string; level: NotificationLevel; skipped: number }) => (
   <box
     style={{
       border: true,
@@ -1140,9 +1457,12 @@ const StatusBar = ({ status, level }: { status: string; level: NotificationLevel
       paddingRight: 1,
       height: 3,
       marginTop: 1,
+      flexDirection: "row",
+      justifyContent: "space-between",
     }}
   >
     <text fg={level === "error" ? "#ef4444" : "#38bdf8"}>{status}</text>
+    {skipped > 0 ? <text fg={PALETTE.danger}>Skipped {skipped} malformed file(s)</text> : null}
   </box>
 )
 
@@ -1179,7 +1499,10 @@ const HelpScreen = ({ onDismiss }: { onDismiss: () => void }) => {
               <text> — Switch tabs</text>
             </Bullet>
             <Bullet>
-              <KeyChip k="R" /> <text> — Reload active view</text>
+              <KeyChip k="R" /> <text> — Reload active view (views also update live)</text>
+            </Bullet>
+            <Bullet>
+              <KeyChip k="O" /> <text> — Switch to a store from the config file</text>
             </Bullet>
             <Bullet>
               <text>Search current tab: </text>
@@ -1214,7 +1537,7 @@ const HelpScreen = ({ onDismiss }: { onDismiss: () => void }) => {
             <Bullet>
               <text fg={PALETTE.danger}>Delete: </text>
               <KeyChip k="D" />
-              <text> — With confirmation</text>
+              <text> — With confirmation, moved to trash</text>
             </Bullet>
             <Bullet>
               <text>Open sessions: </text>
@@ -1245,6 +1568,12 @@ const HelpScreen = ({ onDismiss }: { onDismiss: () => void }) => {
               <text>Toggle sort (updated/created): </text>
               <KeyChip k="S" />
             </Bullet>
+            <Bullet>
+              <text>Tree view: </text>
+              <KeyChip k="T" />
+              <text> — Collapse/expand with </text>
+              <KeyChip k="Left" /> <text> / </text> <KeyChip k="Right" />
+            </Bullet>
             <Bullet>
               <text>Clear project filter: </text>
               <KeyChip k="C" />
@@ -1252,7 +1581,7 @@ const HelpScreen = ({ onDismiss }: { onDismiss: () => void }) => {
             <Bullet>
               <text fg={PALETTE.danger}>Delete: </text>
               <KeyChip k="D" />
-              <text> — With confirmation</text>
+              <text> — With confirmation, moved to trash</text>
             </Bullet>
             <Bullet>
               <text>Copy ID: </text>
@@ -1545,31 +1874,59 @@ const ChatViewer = ({
 }
 
 export const App = ({
-  root,
-  backend,
-  dbPath,
-  sqliteStrict,
+  root: launchRoot,
+  backend: launchBackend,
+  dbPath: launchDbPath,
+  sqliteStrict: launchSqliteStrict,
+  jsonlStrict: launchJsonlStrict,
   forceWrite,
+  snapshot = false,
+  store,
+  preferences = DEFAULT_TUI_PREFERENCES,
+  budgets = NO_BUDGETS,
 }: {
   root: string
   backend: StorageBackend
   dbPath?: string
   sqliteStrict: boolean
+  jsonlStrict: boolean
   forceWrite: boolean
+  snapshot?: boolean
+  /** Registry store to start in (overrides the storage props) */
+  store?: NamedStore
+  /** Initial help screen, tab and session sort from the config file */
+  preferences?: TuiPreferences
+  /** Budgets from the config file; the projects panel flags projects over theirs */
+  budgets?: BudgetTable
 }) => {
   const renderer = useRenderer()
+
+  // A store chosen with --store or the store picker replaces the launch storage options
+  const [activeStore, setActiveStore] = useState<NamedStore | null>(store ?? null)
+  const storeBudgets = useMemo(() => budgetsForStore(budgets, activeStore?.name ?? null), [budgets, activeStore])
+  const [storePickerOpen, setStorePickerOpen] = useState(false)
+  const [storeChoices, setStoreChoices] = useState<NamedStore[]>([])
+  const [storeCursor, setStoreCursor] = useState(0)
+  const backend = activeStore?.backend ?? launchBackend
+  const root = activeStore?.root ?? launchRoot
+  const dbPath = activeStore ? activeStore.dbPath : launchDbPath
+  const sqliteStrict = launchSqliteStrict || Boolean(activeStore?.strict)
+  const jsonlStrict = launchJsonlStrict || Boolean(activeStore?.strict)
+
   const projectsRef = useRef<PanelHandle>(null)
   const sessionsRef = useRef<PanelHandle>(null)
 
-  const [activeTab, setActiveTab] = useState<TabKey>("projects")
+  const [activeTab, setActiveTab] = useState<TabKey>(preferences.tab)
   const [sessionFilter, setSessionFilter] = useState<string | null>(null)
   const [searchActive, setSearchActive] = useState(false)
   const [searchQuery, setSearchQuery] = useState("")
   const [status, setStatus] = useState("Ready")
   const [statusLevel, setStatusLevel] = useState<NotificationLevel>("info")
   const [sqliteWarning, setSqliteWarning] = useState<string | null>(null)
+  // Paths of JSONL files the loaders skipped, shown as a count in the status bar
+  const [skippedPaths, setSkippedPaths] = useState<string[]>([])
   const [confirmState, setConfirmState] = useState<ConfirmState | null>(null)
-  const [showHelp, setShowHelp] = useState(true)
+  const [showHelp, setShowHelp] = useState(preferences.showHelp)
   const [confirmBusy, setConfirmBusy] = useState(false)
   // Global token state
   const [globalTokens, setGlobalTokens] = useState<AggregateTokenSummary | null>(null)
@@ -1593,7 +1950,7 @@ export const App = ({
   const [allSessions, setAllSessions] = useState<SessionRecord[]>([])
 
   const resolvedDbPath = useMemo(() => {
-    if (backend !== "sqlite") {
+    if (backend === "jsonl") {
       return undefined
     }
     return dbPath ?? DEFAULT_SQLITE_PATH
@@ -1604,22 +1961,81 @@ export const App = ({
     setStatusLevel(level)
   }, [])
 
-  const provider = useMemo(() => {
-    return createProvider({
-      backend,
-      root,
-      dbPath: resolvedDbPath,
-      sqliteStrict,
-      forceWrite,
-      onWarning: (message) => {
-        setSqliteWarning(message)
-        notify(message, "error")
-      },
-    })
-  }, [backend, root, resolvedDbPath, sqliteStrict, forceWrite, notify, setSqliteWarning])
+  // Created in an effect: with --snapshot this copies the database, which must
+  // not happen during render, and the copy is released when the store changes
+  const [provider, setProvider] = useState<DataProvider | null>(null)
+  const [snapshotTakenAt, setSnapshotTakenAt] = useState<Date | null>(null)
+
+  useEffect(() => {
+    let created: DataProvider
+    try {
+      created = createProvider({
+        backend,
+        root,
+        dbPath: resolvedDbPath,
+        sqliteStrict,
+        forceWrite,
+        onWarning: (message) => {
+          setSqliteWarning(message)
+          notify(message, "error")
+        },
+        jsonlStrict,
+        onJsonlWarning: (warning) => {
+          setSkippedPaths((prev) => (prev.includes(warning.path) ? prev : [...prev, warning.path]))
+        },
+        snapshot,
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      setProvider(null)
+      setSnapshotTakenAt(null)
+      notify(`Failed to open store: ${message}`, "error")
+      return
+    }
+    setProvider(created)
+    setSnapshotTakenAt(created.snapshot?.takenAt ?? null)
+    return () => created.releaseSnapshot()
+  }, [backend, root, resolvedDbPath, sqliteStrict, jsonlStrict, forceWrite, snapshot, notify, setSqliteWarning])
+
+  const openStorePicker = useCallback(() => {
+    let stores: NamedStore[]
+    try {
+      stores = listStores()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      notify(message, "error")
+      return
+    }
+    if (stores.length === 0) {
+      notify(`No stores registered in ${formatDisplayPath(DEFAULT_CONFIG_PATH)}`, "error")
+      return
+    }
+    setStoreChoices(stores)
+    setStoreCursor(Math.max(0, stores.findIndex((s) => s.name === activeStore?.name)))
+    setStorePickerOpen(true)
+  }, [activeStore, notify])
+
+  const switchStore = useCallback((next: NamedStore) => {
+    setStorePickerOpen(false)
+    if (next.name === activeStore?.name) {
+      return
+    }
+    // Views reload from the new provider; state tied to the old store is dropped
+    setActiveStore(next)
+    setSessionFilter(null)
+    setChatViewerOpen(false)
+    setChatSession(null)
+    setGlobalTokens(null)
+    setSkippedPaths([])
+    setSqliteWarning(null)
+    notify(`Switched to store ${next.name}`)
+  }, [activeStore, notify])
 
   // Load global tokens
   useEffect(() => {
+    if (!provider) {
+      return
+    }
     let cancelled = false
     provider.loadSessionRecords().then((sessions) => {
       if (cancelled) return
@@ -1634,6 +2050,9 @@ export const App = ({
 
   // Load all sessions for chat search
   useEffect(() => {
+    if (!provider) {
+      return
+    }
     let cancelled = false
     provider.loadSessionRecords().then((sessions) => {
       if (!cancelled) {
@@ -1680,6 +2099,9 @@ export const App = ({
 
   // Chat viewer controls
   const openChatViewer = useCallback(async (session: SessionRecord) => {
+    if (!provider) {
+      return
+    }
     setChatViewerOpen(true)
     setChatSession(session)
     setChatMessages([])
@@ -1713,6 +2135,9 @@ export const App = ({
   }, [])
 
   const hydrateMessage = useCallback(async (message: ChatMessage) => {
+    if (!provider) {
+      return
+    }
     // Check cache first
     const cached = chatPartsCache.get(message.messageId)
     if (cached) {
@@ -1742,6 +2167,34 @@ export const App = ({
     }
   }, [provider, chatPartsCache])
 
+  // Append new messages to the open chat, keeping hydrated ones and the cursor
+  useStoreChanges(
+    provider,
+    (event) => event.type === "message-appended" && event.sessionId === chatSession?.sessionId,
+    () => {
+      if (!chatSession || !provider) {
+        return
+      }
+      const sessionId = chatSession.sessionId
+      provider.loadSessionChatIndex(sessionId).then((messages) => {
+        setChatMessages((prev) => {
+          if (prev.length > 0 && prev[0].sessionId !== sessionId) {
+            return prev
+          }
+          return messages.map((message) => chatPartsCache.get(message.messageId) ?? message)
+        })
+      }, () => {})
+    },
+  )
+
+  // Session changes alter the global token total and the chat search scope
+  useStoreChanges(
+    provider,
+    isSessionChange,
+    () => setTokenRefreshKey((k) => k + 1),
+    (error) => notify(`Live refresh failed: ${error.message}`, "error"),
+  )
+
   const copyChatMessage = useCallback((message: ChatMessage) => {
     if (!message.parts || message.parts.length === 0) {
       notify("No content to copy", "error")
@@ -1770,6 +2223,9 @@ export const App = ({
   }, [])
 
   const executeChatSearch = useCallback(async () => {
+    if (!provider) {
+      return
+    }
     if (!chatSearchQuery.trim()) {
       setChatSearchResults([])
       return
@@ -1843,6 +2299,21 @@ export const App = ({
         }
         return
       }
+      if (storePickerOpen) {
+        if (key.name === "escape") {
+          setStorePickerOpen(false)
+          return
+        }
+        if (key.name === "return" || key.name === "enter") {
+          const next = storeChoices[storeCursor]
+          if (next) {
+            switchStore(next)
+          }
+          return
+        }
+        // Let the select component handle up/down via onCursorChange
+        return
+      }
       if (confirmState) {
         const letter = key.sequence?.toLowerCase()
         if (key.name === "escape" || letter === "n") {
@@ -1985,18 +2456,39 @@ export const App = ({
       }
 
       if (letter === "r") {
-        // Clear token cache on reload
-        clearTokenCache()
-        setTokenRefreshKey((k) => k + 1)
-        if (activeTab === "projects") {
-          projectsRef.current?.refresh()
-        } else {
-          sessionsRef.current?.refresh()
+        const reload = () => {
+          // Clear token cache on reload
+          clearTokenCache()
+          setTokenRefreshKey((k) => k + 1)
+          if (activeTab === "projects") {
+            projectsRef.current?.refresh()
+          } else {
+            sessionsRef.current?.refresh()
+          }
         }
+        if (provider?.snapshot) {
+          // Retake the snapshot first so the reload sees the live database
+          notify("Retaking snapshot...")
+          provider.retakeSnapshot().then((next) => {
+            setSnapshotTakenAt(next?.takenAt ?? null)
+            reload()
+            notify("Snapshot retaken; reload requested...")
+          }, (error) => {
+            const message = error instanceof Error ? error.message : String(error)
+            notify(`Failed to retake snapshot: ${message}`, "error")
+          })
+          return
+        }
+        reload()
         notify("Reload requested...")
         return
       }
 
+      if (letter === "o") {
+        openStorePicker()
+        return
+      }
+
       // Open chat search with F key (Sessions tab only)
       if (letter === "f" && activeTab === "sessions") {
         openChatSearch()
@@ -2006,7 +2498,7 @@ export const App = ({
       const handler = activeTab === "projects" ? projectsRef.current : sessionsRef.current
       handler?.handleKey(key)
     },
-    [activeTab, cancelConfirm, confirmState, executeConfirm, notify, renderer, searchActive, searchQuery, showHelp, switchTab, chatViewerOpen, chatMessages, chatCursor, closeChatViewer, copyChatMessage, chatSearchOpen, chatSearchResults, chatSearchCursor, closeChatSearch, executeChatSearch, handleChatSearchResult, openChatSearch],
+    [activeTab, cancelConfirm, confirmState, executeConfirm, notify, renderer, searchActive, searchQuery, showHelp, switchTab, chatViewerOpen, chatMessages, chatCursor, closeChatViewer, copyChatMessage, chatSearchOpen, chatSearchResults, chatSearchCursor, closeChatSearch, executeChatSearch, handleChatSearchResult, openChatSearch, provider, storePickerOpen, storeChoices, storeCursor, switchStore, openStorePicker],
   )
 
   useKeyboard(handleGlobalKey)
@@ -2042,24 +2534,42 @@ export const App = ({
           ) : (
             <text fg={PALETTE.muted}>{globalTokens ? '?' : 'loading...'}</text>
           )}
+          {globalTokens?.total.kind === 'known' && globalTokens.cost ? (
+            <>
+              <text fg={PALETTE.muted}>|</text>
+              <text fg={PALETTE.accent}>Cost: </text>
+              <text fg={PALETTE.success}>{formatCostSummary(globalTokens.cost)}</text>
+            </>
+          ) : null}
+          <text fg={PALETTE.muted}>|</text>
+          <text fg={PALETTE.accent}>Store: </text>
+          <text fg={activeStore ? PALETTE.info : PALETTE.muted}>{activeStore?.name ?? "(command line)"}</text>
         </box>
         <box style={{ flexDirection: "row", gap: 1 }}>
           <text fg={PALETTE.accent}>Storage:</text>
-          <text fg={backend === "sqlite" ? PALETTE.info : PALETTE.muted}>
-            {backend === "sqlite" ? "SQLite" : "JSONL"}
+          <text fg={backend === "jsonl" ? PALETTE.muted : PALETTE.info}>
+            {backend === "sqlite" ? "SQLite" : backend === "merged" ? "Merged" : "JSONL"}
           </text>
           <text fg={PALETTE.muted}>|</text>
           <text>
             {backend === "sqlite"
               ? `DB: ${formatDisplayPath(resolvedDbPath ?? "(default)")}`
+              : backend === "merged"
+              ? `Root: ${formatDisplayPath(root)} + DB: ${formatDisplayPath(resolvedDbPath ?? "(default)")}`
               : `Root: ${formatDisplayPath(root)}`}
           </text>
+          {snapshotTakenAt ? (
+            <>
+              <text fg={PALETTE.muted}>|</text>
+              <text fg={PALETTE.key}>Snapshot taken at {formatDate(snapshotTakenAt)} (R retakes)</text>
+            </>
+          ) : null}
         </box>
         <text>
-          Tabs: [1] Projects [2] Sessions | Active: {activeTab} | Global: Tab switch, / search, X clear, R reload, Q quit, ? help
+          Tabs: [1] Projects [2] Sessions | Active: {activeTab} | Global: Tab switch, / search, X clear, R reload, O store, Q quit, ? help
         </text>
         {sessionFilter ? <text fg="#a3e635">Session filter: {sessionFilter}</text> : null}
-        {backend === "sqlite" && sqliteWarning ? (
+        {backend !== "jsonl" && sqliteWarning ? (
           <text fg={PALETTE.danger}>SQLite warning: {sqliteWarning}</text>
         ) : null}
       </box>
@@ -2072,14 +2582,19 @@ export const App = ({
 
       {showHelp ? (
         <HelpScreen onDismiss={() => setShowHelp(false)} />
+      ) : !provider ? (
+        <box style={{ flexGrow: 1, padding: 1 }}>
+          <text fg={PALETTE.muted}>Opening store...</text>
+        </box>
       ) : (
         <box style={{ flexDirection: "row", gap: 1, flexGrow: 1 }}>
           <ProjectsPanel
             ref={projectsRef}
             provider={provider}
             active={activeTab === "projects"}
-            locked={Boolean(confirmState) || showHelp}
+            locked={Boolean(confirmState) || showHelp || storePickerOpen}
             searchQuery={activeTab === "projects" ? searchQuery : ""}
+            budgets={storeBudgets}
             onNotify={notify}
             requestConfirm={requestConfirm}
             onNavigateToSessions={handleNavigateToSessions}
@@ -2088,7 +2603,7 @@ export const App = ({
             ref={sessionsRef}
             provider={provider}
             active={activeTab === "sessions"}
-            locked={Boolean(confirmState) || showHelp || chatViewerOpen || chatSearchOpen}
+            locked={Boolean(confirmState) || showHelp || chatViewerOpen || chatSearchOpen || storePickerOpen}
             projectFilter={sessionFilter}
             searchQuery={activeTab === "sessions" ? searchQuery : ""}
             globalTokenSummary={globalTokens}
@@ -2096,10 +2611,22 @@ export const App = ({
             requestConfirm={requestConfirm}
             onClearFilter={clearSessionFilter}
             onOpenChatViewer={openChatViewer}
+            initialSort={preferences.sessionSort}
           />
         </box>
       )}
 
+      {/* Store Picker Overlay */}
+      {storePickerOpen ? (
+        <StorePicker
+          stores={storeChoices}
+          activeStore={activeStore}
+          cursor={storeCursor}
+          onCursorChange={setStoreCursor}
+          onSelect={switchStore}
+        />
+      ) : null}
+
       {/* Chat Viewer Overlay */}
       {chatViewerOpen && chatSession ? (
         <ChatViewer
@@ -2223,7 +2750,7 @@ export const App = ({
         </box>
       ) : null}
 
-      <StatusBar status={status} level={statusLevel} />
+      <StatusBar status={status} level={statusLevel} skipped={skippedPaths.length} />
       {confirmState ? <ConfirmBar state={confirmState} busy={confirmBusy} /> : null}
     </box>
   )
@@ -9,13 +9,21 @@ import { resolve } from "node:path"
 import { DEFAULT_ROOT } from "../lib/opencode-data"
 import { DEFAULT_SQLITE_PATH } from "../lib/opencode-data-sqlite"
 import type { StorageBackend } from "../lib/opencode-data-provider"
+import { loadUserConfig, resolveSetting, type ConfigKey } from "../lib/config"
+import { DEFAULT_IO_CONCURRENCY } from "../lib/worker-pool"
 
 export interface TUIOptions {
   root: string
   backend: StorageBackend
   dbPath?: string
   sqliteStrict: boolean
+  jsonlStrict: boolean
   forceWrite: boolean
+  cache: boolean
+  concurrency: number
+  snapshot: boolean
+  /** Name of a store from the config file's store registry */
+  store?: string
 }
 
 /**
@@ -29,15 +37,26 @@ Storage options:
   --root <path>             Root path to JSONL storage (default: ~/.local/share/opencode)
   --experimental-sqlite     Use SQLite backend instead of JSONL files
   --db <path>               Path to SQLite database (implies --experimental-sqlite)
+  --merged                  Read JSONL storage and the SQLite database together
   --sqlite-strict           Fail on SQLite warnings or malformed data
+  --jsonl-strict            Fail on malformed JSONL files instead of skipping them
   --force-write             Wait for SQLite write locks before failing
+  --no-cache                Bypass the persistent index cache
+  --concurrency <n>         Maximum JSONL files read in parallel (default: 16)
+  --snapshot                Read SQLite data from a temporary copy (R retakes it)
+  --store <name>            Start in a named store from the config file (O switches)
+
+Defaults for these options and the TUI preferences (tui.showHelp, tui.tab,
+tui.sessionSort) can be set with \`opencode-manager config set\` or
+OPENCODE_MANAGER_* environment variables; flags take precedence.
 
 Key bindings:
   Tab / 1 / 2     Switch between projects and sessions
   /               Start search (active tab)
   X               Clear search
   ? / H           Toggle help
-  R               Reload (and refresh token cache)
+  R               Reload (and refresh token cache; retakes a --snapshot)
+  O               Switch to a store from the config file
   Q               Quit the application
 
 Projects view:
@@ -52,6 +71,8 @@ Sessions view:
   Space           Toggle selection
   A               Select all (visible)
   S               Toggle sort (updated/created)
+  T               Toggle tree view (child sessions under their parent)
+  Left/Right      Collapse/expand the highlighted session's children
   V               View chat history for selected session
   F               Search across all chat content in sessions
   Shift+R         Rename session
@@ -80,13 +101,26 @@ Chat viewer (when open):
 
 /**
  * Parse command-line arguments for TUI options.
+ *
+ * Options not given on the command line come from OPENCODE_MANAGER_*
+ * environment variables, then the config file, then the built-in defaults.
+ * The configured backend, store and database only apply when no storage flag
+ * (--root, --db, --experimental-sqlite, --merged, --store) is given.
+ *
+ * @throws ConfigError if the config file or an environment variable is invalid.
  */
 export function parseArgs(argv: string[] = process.argv.slice(2)): TUIOptions {
-  let root = DEFAULT_ROOT
-  let backend: StorageBackend = "jsonl"
+  let root: string | undefined
+  let backend: StorageBackend | undefined
   let dbPath: string | undefined
-  let sqliteStrict = false
-  let forceWrite = false
+  let sqliteStrict: boolean | undefined
+  let jsonlStrict: boolean | undefined
+  let merged = false
+  let forceWrite: boolean | undefined
+  let cache: boolean | undefined
+  let concurrency: number | undefined
+  let snapshot: boolean | undefined
+  let store: string | undefined
 
   for (let idx = 0; idx < argv.length; idx += 1) {
     const token = argv[idx]
@@ -105,14 +139,43 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): TUIOptions {
       backend = "sqlite"
       continue
     }
+    if (token === "--merged") {
+      merged = true
+      continue
+    }
     if (token === "--sqlite-strict") {
       sqliteStrict = true
       continue
     }
+    if (token === "--jsonl-strict") {
+      jsonlStrict = true
+      continue
+    }
     if (token === "--force-write") {
       forceWrite = true
       continue
     }
+    if (token === "--concurrency" && argv[idx + 1]) {
+      const parsed = Number(argv[idx + 1])
+      if (Number.isInteger(parsed) && parsed >= 1) {
+        concurrency = parsed
+      }
+      idx += 1
+      continue
+    }
+    if (token === "--no-cache") {
+      cache = false
+      continue
+    }
+    if (token === "--snapshot") {
+      snapshot = true
+      continue
+    }
+    if (token === "--store" && argv[idx + 1]) {
+      store = argv[idx + 1]
+      idx += 1
+      continue
+    }
     if (token === "--help" || token === "-h") {
       printUsage()
       process.exit(0)
@@ -123,15 +186,38 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): TUIOptions {
     }
   }
 
-  if (backend === "sqlite" && !dbPath) {
+  const config = loadUserConfig()
+  const setting = (key: ConfigKey) => resolveSetting(key, config)?.value
+
+  if (merged) {
+    backend = "merged"
+  }
+  const storageFlagGiven = root !== undefined || backend !== undefined || store !== undefined
+  if (!storageFlagGiven) {
+    store = setting("store") as string | undefined
+    if (!store) {
+      backend = setting("backend") as StorageBackend | undefined
+      if (backend && backend !== "jsonl") {
+        dbPath = setting("dbPath") as string | undefined
+      }
+    }
+  }
+  backend ??= "jsonl"
+
+  if (backend !== "jsonl" && !dbPath) {
     dbPath = resolve(DEFAULT_SQLITE_PATH)
   }
 
   return {
-    root: resolve(root),
+    root: resolve(root ?? (setting("root") as string | undefined) ?? DEFAULT_ROOT),
     backend,
     dbPath,
-    sqliteStrict,
-    forceWrite,
+    sqliteStrict: sqliteStrict ?? Boolean(setting("sqliteStrict")),
+    jsonlStrict: jsonlStrict ?? Boolean(setting("jsonlStrict")),
+    forceWrite: forceWrite ?? Boolean(setting("forceWrite")),
+    cache: cache ?? ((setting("cache") as boolean | undefined) ?? true),
+    concurrency: concurrency ?? ((setting("concurrency") as number | undefined) ?? DEFAULT_IO_CONCURRENCY),
+    snapshot: snapshot ?? Boolean(setting("snapshot")),
+    store,
   }
 }
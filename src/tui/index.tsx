@@ -14,6 +14,10 @@ import { createCliRenderer } from "@opentui/core"
 import { App } from "./app"
 import { DEFAULT_ROOT } from "../lib/opencode-data"
 import { DEFAULT_SQLITE_PATH } from "../lib/opencode-data-sqlite"
+import { configureIndexCache, DEFAULT_CACHE_PATH } from "../lib/opencode-data-cache"
+import { DEFAULT_IO_CONCURRENCY, setIoConcurrency } from "../lib/worker-pool"
+import { loadUserConfig, resolveStore, resolveTuiPreferences } from "../lib/config"
+import { configurePricing } from "../lib/pricing"
 import { parseArgs, printUsage, type TUIOptions } from "./args"
 
 // Re-export args module for external consumers
@@ -27,8 +31,17 @@ export async function launchTUI(options?: Partial<TUIOptions>): Promise<void> {
   const root = options?.root ?? DEFAULT_ROOT
   const backend = options?.backend ?? (options?.dbPath ? "sqlite" : "jsonl")
   const sqliteStrict = options?.sqliteStrict ?? false
+  const jsonlStrict = options?.jsonlStrict ?? false
   const forceWrite = options?.forceWrite ?? false
-  const dbPath = backend === "sqlite" ? (options?.dbPath ?? DEFAULT_SQLITE_PATH) : undefined
+  const snapshot = options?.snapshot ?? false
+  const dbPath = backend !== "jsonl" ? (options?.dbPath ?? DEFAULT_SQLITE_PATH) : undefined
+  // Resolve before rendering so an unknown store fails with a plain error
+  const store = options?.store ? resolveStore(options.store) : undefined
+  const config = loadUserConfig()
+  const preferences = resolveTuiPreferences(config)
+  configurePricing(config.pricing)
+  configureIndexCache(options?.cache === false ? null : DEFAULT_CACHE_PATH)
+  setIoConcurrency(options?.concurrency ?? DEFAULT_IO_CONCURRENCY)
 
   const renderer = await createCliRenderer()
   createRoot(renderer).render(
@@ -37,7 +50,12 @@ export async function launchTUI(options?: Partial<TUIOptions>): Promise<void> {
       backend={backend}
       dbPath={dbPath}
       sqliteStrict={sqliteStrict}
+      jsonlStrict={jsonlStrict}
       forceWrite={forceWrite}
+      snapshot={snapshot}
+      store={store}
+      preferences={preferences}
+      budgets={config.budgets}
     />
   )
 }
@@ -0,0 +1,82 @@
+/**
+ * Tests for single-file backup archives (tar.gz and AES-GCM encryption).
+ */
+
+import { describe, expect, it } from "bun:test"
+import { createCipheriv, scryptSync } from "node:crypto"
+import { gunzipSync } from "node:zlib"
+import {
+  createTarGz,
+  decryptArchive,
+  encryptArchive,
+  isEncryptedArchive,
+  readTarGz,
+} from "../../src/cli/archive"
+
+describe("tar.gz archives", () => {
+  it("should round-trip member names and contents", () => {
+    const archive = createTarGz([
+      { name: "manifest.json", data: Buffer.from("{}") },
+      { name: "storage/session/proj/a.json", data: Buffer.from("a".repeat(1000)) },
+      { name: "empty.json", data: Buffer.alloc(0) },
+    ])
+
+    const members = readTarGz(archive)
+
+    expect([...members.keys()]).toEqual(["manifest.json", "storage/session/proj/a.json", "empty.json"])
+    expect(members.get("storage/session/proj/a.json")!.toString()).toBe("a".repeat(1000))
+    expect(members.get("empty.json")!.length).toBe(0)
+  })
+
+  it("should write standard ustar headers", () => {
+    const tar = gunzipSync(createTarGz([{ name: "a.json", data: Buffer.from("x") }]))
+
+    expect(tar.subarray(257, 262).toString()).toBe("ustar")
+    expect(tar.length % 512).toBe(0)
+  })
+
+  it("should store long paths using the ustar prefix field", () => {
+    const name = `${"storage/part/".repeat(10)}${"p".repeat(60)}.json`
+
+    const members = readTarGz(createTarGz([{ name, data: Buffer.from("long") }]))
+
+    expect(members.get(name)!.toString()).toBe("long")
+  })
+
+  it("should reject data that is not an archive", () => {
+    expect(() => readTarGz(Buffer.from("not gzip"))).toThrow()
+  })
+})
+
+describe("archive encryption", () => {
+  const archive = createTarGz([{ name: "a.json", data: Buffer.from("secret contents") }])
+
+  it("should decrypt with the right passphrase", () => {
+    const encrypted = encryptArchive(archive, "correct horse")
+
+    expect(isEncryptedArchive(encrypted)).toBe(true)
+    expect(isEncryptedArchive(archive)).toBe(false)
+    expect(encrypted.includes(Buffer.from("secret contents"))).toBe(false)
+    expect(decryptArchive(encrypted, "correct horse").equals(archive)).toBe(true)
+  })
+
+  it("should reject a wrong passphrase or tampered data", () => {
+    const encrypted = encryptArchive(archive, "correct horse")
+    const tampered = Buffer.from(encrypted)
+    tampered[tampered.length - 1] ^= 0xff
+
+    expect(() => decryptArchive(encrypted, "wrong")).toThrow("Wrong passphrase or corrupted archive")
+    expect(() => decryptArchive(tampered, "correct horse")).toThrow("Wrong passphrase or corrupted archive")
+  })
+
+  it("should authenticate the header along with the ciphertext", () => {
+    // Same key, nonce and payload, but encrypted without the header as additional data
+    const encrypted = encryptArchive(archive, "correct horse")
+    const header = encrypted.subarray(0, 36)
+    const cipher = createCipheriv("aes-256-gcm", scryptSync("correct horse", header.subarray(8, 24), 32), header.subarray(24, 36))
+    const ciphertext = Buffer.concat([cipher.update(archive), cipher.final()])
+    const unbound = Buffer.concat([header, cipher.getAuthTag(), ciphertext])
+
+    expect(() => decryptArchive(unbound, "correct horse")).toThrow("Wrong passphrase or corrupted archive")
+  })
+})
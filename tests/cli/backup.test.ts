@@ -6,15 +6,24 @@
 
 import { describe, expect, it, beforeEach, afterEach } from "bun:test"
 import { promises as fs } from "node:fs"
-import { join } from "node:path"
+import { basename, join } from "node:path"
 import { tmpdir } from "node:os"
+import { Database } from "bun:sqlite"
 import {
+  backupRowsToDir,
   copyToBackupDir,
   generateBackupTimestamp,
+  isEncryptedBackup,
+  listBackups,
   previewBackupPaths,
   formatBackupResult,
+  readBackupManifest,
+  restoreBackup,
+  verifyBackup,
   type BackupResult,
 } from "../../src/cli/backup"
+import { selectCascadeRowsSqlite } from "../../src/lib/opencode-data-sqlite"
+import { FIXTURE_SQLITE_PATH } from "../helpers"
 
 // ========================
 // Test Helpers
@@ -367,3 +376,298 @@ describe("formatBackupResult", () => {
     expect(formatted).toBe("")
   })
 })
+
+// ========================
+// Manifest Tests
+// ========================
+
+describe("backup manifests", () => {
+  it("should record original paths, checksums and the command", async () => {
+    const srcFile = await createTestFile("storage/session/a.json", "{}")
+    const result = await copyToBackupDir([srcFile], {
+      backupDir,
+      preserveStructure: true,
+      structureRoot: sourceDir,
+      command: "opencode-manager sessions delete --session a",
+    })
+
+    const manifest = await readBackupManifest(result.backupDir)
+
+    expect(manifest.backend).toBe("jsonl")
+    expect(manifest.storeRoot).toBe(sourceDir)
+    expect(manifest.command).toBe("opencode-manager sessions delete --session a")
+    expect(manifest.items).toEqual([
+      {
+        kind: "file",
+        originalPath: srcFile,
+        backupPath: join("storage", "session", "a.json"),
+        sha256: "44136fa355b3678a1146ad16f7e8649e94fb4fc21fe77e8310c060f61caaff8a",
+        size: 2,
+      },
+    ])
+  })
+
+  it("should list every file of a backed-up directory", async () => {
+    await createTestFile("dir/one.json", "1")
+    await createTestFile("dir/nested/two.json", "2")
+    const result = await copyToBackupDir([join(sourceDir, "dir")], { backupDir })
+
+    const manifest = await readBackupManifest(result.backupDir)
+    const originals = manifest.items.map((item) => (item.kind === "file" ? item.originalPath : "")).sort()
+
+    expect(originals).toEqual([join(sourceDir, "dir", "nested", "two.json"), join(sourceDir, "dir", "one.json")])
+  })
+
+  it("should list backups newest first and skip directories without a manifest", async () => {
+    await fs.mkdir(join(backupDir, "legacy"))
+    const first = await copyToBackupDir([await createTestFile("a.json", "a")], { backupDir, prefix: "first" })
+    const second = await copyToBackupDir([await createTestFile("b.json", "b")], { backupDir, prefix: "second" })
+
+    const entries = await listBackups(backupDir)
+
+    expect(entries.map((entry) => entry.path).sort()).toEqual([first.backupDir, second.backupDir].sort())
+  })
+})
+
+// ========================
+// verifyBackup Tests
+// ========================
+
+describe("verifyBackup", () => {
+  it("should pass for an untouched backup", async () => {
+    const result = await copyToBackupDir([await createTestFile("a.json", "a")], { backupDir })
+
+    const verification = await verifyBackup(result.backupDir)
+
+    expect(verification).toMatchObject({ ok: true, checked: 1, problems: [] })
+  })
+
+  it("should report corrupted and missing copies", async () => {
+    const result = await copyToBackupDir(
+      [await createTestFile("a.json", "a"), await createTestFile("b.json", "b")],
+      { backupDir }
+    )
+    await fs.writeFile(join(result.backupDir, "a.json"), "changed")
+    await fs.rm(join(result.backupDir, "b.json"))
+
+    const verification = await verifyBackup(result.backupDir)
+
+    expect(verification.ok).toBe(false)
+    expect(verification.problems).toEqual([
+      { item: "a.json", problem: "checksum mismatch" },
+      { item: "b.json", problem: "missing from backup" },
+    ])
+  })
+
+  it("should reject a directory without a manifest", async () => {
+    await expect(verifyBackup(backupDir)).rejects.toThrow("No readable backup manifest")
+  })
+})
+
+// ========================
+// restoreBackup Tests
+// ========================
+
+describe("restoreBackup", () => {
+  it("should copy deleted files back to their original paths", async () => {
+    const srcFile = await createTestFile("storage/a.json", "original")
+    const result = await copyToBackupDir([srcFile], { backupDir, preserveStructure: true, structureRoot: sourceDir })
+    await fs.rm(srcFile)
+
+    const restore = await restoreBackup(result.backupDir)
+
+    expect(restore.items).toEqual([{ target: srcFile, action: "restore" }])
+    expect(restore.restored).toEqual([srcFile])
+    expect(await readFile(srcFile)).toBe("original")
+  })
+
+  it("should not write anything for a dry run", async () => {
+    const srcFile = await createTestFile("a.json", "original")
+    const result = await copyToBackupDir([srcFile], { backupDir })
+    await fs.rm(srcFile)
+
+    const restore = await restoreBackup(result.backupDir, { dryRun: true })
+
+    expect(restore.dryRun).toBe(true)
+    expect(restore.items[0].action).toBe("restore")
+    expect(await fileExists(srcFile)).toBe(false)
+  })
+
+  it("should leave identical files alone", async () => {
+    const srcFile = await createTestFile("a.json", "same")
+    const result = await copyToBackupDir([srcFile], { backupDir })
+
+    const restore = await restoreBackup(result.backupDir)
+
+    expect(restore.items).toEqual([{ target: srcFile, action: "unchanged" }])
+    expect(restore.restored).toEqual([])
+  })
+
+  it("should report conflicts with newer data and restore nothing", async () => {
+    const changed = await createTestFile("a.json", "old")
+    const deleted = await createTestFile("b.json", "gone")
+    const result = await copyToBackupDir([changed, deleted], { backupDir })
+    await fs.writeFile(changed, "newer")
+    await fs.rm(deleted)
+
+    const restore = await restoreBackup(result.backupDir)
+
+    expect(restore.conflicts).toEqual([changed])
+    expect(restore.restored).toEqual([])
+    expect(await readFile(changed)).toBe("newer")
+    expect(await fileExists(deleted)).toBe(false)
+  })
+
+  it("should overwrite conflicts with force", async () => {
+    const srcFile = await createTestFile("a.json", "old")
+    const result = await copyToBackupDir([srcFile], { backupDir })
+    await fs.writeFile(srcFile, "newer")
+
+    const restore = await restoreBackup(result.backupDir, { force: true })
+
+    expect(restore.items).toEqual([{ target: srcFile, action: "overwrite" }])
+    expect(await readFile(srcFile)).toBe("old")
+  })
+
+  it("should refuse to restore a corrupted backup", async () => {
+    const srcFile = await createTestFile("a.json", "original")
+    const result = await copyToBackupDir([srcFile], { backupDir })
+    await fs.writeFile(join(result.backupDir, "a.json"), "tampered")
+
+    await expect(restoreBackup(result.backupDir)).rejects.toThrow("failed verification")
+  })
+
+  it("should re-insert SQLite rows", async () => {
+    const dbPath = join(testDir, "opencode.db")
+    await fs.copyFile(FIXTURE_SQLITE_PATH, dbPath)
+    const rows = await selectCascadeRowsSqlite({ session: ["session_add_tests"] }, { db: dbPath })
+    const result = await backupRowsToDir(rows, { backupDir, storeRoot: dbPath })
+    const db = new Database(dbPath)
+    db.run("DELETE FROM part WHERE session_id = 'session_add_tests'")
+    db.run("DELETE FROM message WHERE session_id = 'session_add_tests'")
+    db.run("DELETE FROM session WHERE id = 'session_add_tests'")
+    db.close()
+
+    expect((await verifyBackup(result.backupDir)).ok).toBe(true)
+    const restore = await restoreBackup(result.backupDir)
+
+    expect(restore.backend).toBe("sqlite")
+    expect(restore.restored).toContain("sqlite:session:session_add_tests")
+    expect(restore.restored).toHaveLength(result.sources.length)
+    const check = new Database(dbPath, { readonly: true })
+    const session = check.query("SELECT id FROM session WHERE id = 'session_add_tests'").get()
+    check.close()
+    expect(session).toEqual({ id: "session_add_tests" })
+  })
+
+  it("should treat changed SQLite rows as conflicts", async () => {
+    const dbPath = join(testDir, "opencode.db")
+    await fs.copyFile(FIXTURE_SQLITE_PATH, dbPath)
+    const rows = await selectCascadeRowsSqlite({ session: ["session_add_tests"] }, { db: dbPath })
+    const result = await backupRowsToDir(rows, { backupDir, storeRoot: dbPath })
+    const db = new Database(dbPath)
+    db.run("UPDATE session SET data = '{}' WHERE id = 'session_add_tests'")
+    db.close()
+
+    const restore = await restoreBackup(result.backupDir)
+
+    expect(restore.conflicts).toEqual(["sqlite:session:session_add_tests"])
+    expect(restore.items.filter((item) => item.action === "unchanged").length).toBe(restore.items.length - 1)
+  })
+})
+
+// ========================
+// Archive Backup Tests
+// ========================
+
+describe("archive backups", () => {
+  it("should write a single .tar.gz file with the manifest inside", async () => {
+    const srcFile = await createTestFile("storage/session/a.json", "{}")
+
+    const result = await copyToBackupDir([srcFile], {
+      backupDir,
+      prefix: "session",
+      archive: true,
+      preserveStructure: true,
+      structureRoot: sourceDir,
+    })
+
+    expect(result.backupDir).toMatch(/session_\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}\.tar\.gz$/)
+    expect(result.destinations).toEqual([result.backupDir])
+    expect(result.entries).toEqual(["storage/session/a.json"])
+    expect(await fs.readdir(backupDir)).toEqual([basename(result.backupDir)])
+    const manifest = await readBackupManifest(result.backupDir)
+    expect(manifest).toMatchObject({ format: "archive", encrypted: false, storeRoot: sourceDir })
+    expect(manifest.items).toHaveLength(1)
+  })
+
+  it("should preview the archive path and member names", () => {
+    const preview = previewBackupPaths([join(sourceDir, "storage", "a.json")], {
+      backupDir,
+      archive: true,
+      preserveStructure: true,
+      structureRoot: sourceDir,
+    })
+
+    expect(preview.backupDir).toEndWith(".tar.gz")
+    expect(preview.destinations).toEqual([preview.backupDir])
+    expect(preview.entries).toEqual(["storage/a.json"])
+  })
+
+  it("should restore files from an archive", async () => {
+    const srcFile = await createTestFile("storage/a.json", "original")
+    const result = await copyToBackupDir([join(sourceDir, "storage")], { backupDir, archive: true })
+    await fs.rm(srcFile)
+
+    expect((await verifyBackup(result.backupDir)).ok).toBe(true)
+    const restore = await restoreBackup(result.backupDir)
+
+    expect(restore.restored).toEqual([srcFile])
+    expect(await readFile(srcFile)).toBe("original")
+  })
+
+  it("should encrypt with a passphrase and require it to read", async () => {
+    const srcFile = await createTestFile("a.json", "secret")
+    const result = await copyToBackupDir([srcFile], { backupDir, passphrase: "hunter2" })
+    await fs.rm(srcFile)
+
+    expect(result.backupDir).toEndWith(".tar.gz.enc")
+    expect(await isEncryptedBackup(result.backupDir)).toBe(true)
+    await expect(readBackupManifest(result.backupDir)).rejects.toThrow("a passphrase is required")
+    await expect(readBackupManifest(result.backupDir, { passphrase: "wrong" })).rejects.toThrow("Wrong passphrase")
+
+    const restore = await restoreBackup(result.backupDir, { passphrase: "hunter2" })
+
+    expect(restore.restored).toEqual([srcFile])
+    expect(await readFile(srcFile)).toBe("secret")
+  })
+
+  it("should list archives and warn about encrypted ones it cannot open", async () => {
+    const plain = await copyToBackupDir([await createTestFile("a.json", "a")], { backupDir, prefix: "plain", archive: true })
+    const locked = await copyToBackupDir([await createTestFile("b.json", "b")], { backupDir, prefix: "locked", passphrase: "pw" })
+    const warnings: string[] = []
+
+    const withoutPassphrase = await listBackups(backupDir, { onWarning: (message) => warnings.push(message) })
+    const withPassphrase = await listBackups(backupDir, { passphrase: "pw" })
+
+    expect(withoutPassphrase.map((entry) => entry.path)).toEqual([plain.backupDir])
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]).toContain(locked.backupDir)
+    expect(withPassphrase.map((entry) => entry.path).sort()).toEqual([locked.backupDir, plain.backupDir].sort())
+  })
+
+  it("should archive SQLite rows", async () => {
+    const dbPath = join(testDir, "opencode.db")
+    await fs.copyFile(FIXTURE_SQLITE_PATH, dbPath)
+    const rows = await selectCascadeRowsSqlite({ session: ["session_add_tests"] }, { db: dbPath })
+
+    const result = await backupRowsToDir(rows, { backupDir, storeRoot: dbPath, passphrase: "pw" })
+
+    expect(result.backupDir).toEndWith(".tar.gz.enc")
+    expect(result.destinations).toEqual([result.backupDir])
+    expect(result.entries).toEqual(["rows.json"])
+    const verification = await verifyBackup(result.backupDir, { passphrase: "pw" })
+    expect(verification.ok).toBe(true)
+    expect(verification.checked).toBe(result.sources.length)
+  })
+})
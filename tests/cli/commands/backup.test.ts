@@ -0,0 +1,191 @@
+/**
+ * Tests for the `backup` CLI commands (list, verify, restore).
+ *
+ * Backups are created by deleting from temporary copies of the fixture
+ * stores with --backup-dir, so the shared fixtures are never modified.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
+import { $ } from "bun";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../../helpers";
+
+const exists = (path: string) => fs.access(path).then(() => true).catch(() => false);
+
+describe("backup (JSONL)", () => {
+  let tempDir: string;
+  let root: string;
+  let backupDir: string;
+  let sessionFile: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    root = join(tempDir, "store");
+    backupDir = join(tempDir, "backups");
+    sessionFile = join(root, "storage", "session", "proj_present", "session_add_tests.json");
+    await fs.cp(FIXTURE_STORE_ROOT, root, { recursive: true });
+    await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --root ${root} --format json --yes --quiet --permanent --backup-dir ${backupDir}`.quiet();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const onlyBackup = async () => join(backupDir, (await fs.readdir(backupDir))[0]);
+
+  it("lists backups with their manifest", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts backup list --backup-dir ${backupDir} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data).toHaveLength(1);
+    expect(parsed.data[0].backend).toBe("jsonl");
+    expect(parsed.data[0].storeRoot).toBe(root);
+    expect(parsed.data[0].command).toContain("sessions delete --session session_add_tests");
+    expect(parsed.data[0].items.length).toBeGreaterThan(1);
+  });
+
+  it("requires --backup-dir to list", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts backup list --format json`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+  });
+
+  it("verifies checksums and fails on a corrupted copy", async () => {
+    const dir = await onlyBackup();
+    const ok = await $`bun src/bin/opencode-manager.ts backup verify ${dir} --format json`.quiet();
+    expect(JSON.parse(ok.stdout.toString()).data.ok).toBe(true);
+
+    await fs.appendFile(join(dir, "storage", "session", "proj_present", "session_add_tests.json"), "x");
+    const bad = await $`bun src/bin/opencode-manager.ts backup verify ${dir} --format json`.quiet().nothrow();
+    expect(bad.exitCode).toBe(4);
+  });
+
+  it("previews a restore with --dry-run", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts backup restore ${await onlyBackup()} --dry-run --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.dryRun).toBe(true);
+    expect(parsed.data.items.every((item: { action: string }) => item.action === "restore")).toBe(true);
+    expect(await exists(sessionFile)).toBe(false);
+  });
+
+  it("restores the deleted session", async () => {
+    await $`bun src/bin/opencode-manager.ts backup restore ${await onlyBackup()} --format json`.quiet();
+
+    const sessions = await $`bun src/bin/opencode-manager.ts sessions list --global --root ${root} --format json`.quiet();
+    const ids = JSON.parse(sessions.stdout.toString()).data.map((s: { sessionId: string }) => s.sessionId);
+    expect(ids).toContain("session_add_tests");
+  });
+
+  it("aborts on newer data unless --force --yes is given", async () => {
+    const dir = await onlyBackup();
+    await fs.writeFile(sessionFile, "{}");
+
+    const aborted = await $`bun src/bin/opencode-manager.ts backup restore ${dir} --format json`.quiet().nothrow();
+    expect(aborted.exitCode).toBe(1);
+    expect(await fs.readFile(sessionFile, "utf8")).toBe("{}");
+
+    const unconfirmed = await $`bun src/bin/opencode-manager.ts backup restore ${dir} --force --format json`.quiet().nothrow();
+    expect(unconfirmed.exitCode).toBe(2);
+
+    await $`bun src/bin/opencode-manager.ts backup restore ${dir} --force --yes --format json`.quiet();
+    expect(await fs.readFile(sessionFile, "utf8")).not.toBe("{}");
+  });
+});
+
+describe("backup (SQLite)", () => {
+  let tempDir: string;
+  let dbPath: string;
+  let backupDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    dbPath = join(tempDir, "opencode.db");
+    backupDir = join(tempDir, "backups");
+    await fs.copyFile(FIXTURE_SQLITE_PATH, dbPath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("backs up deleted rows and re-inserts them", async () => {
+    await $`bun src/bin/opencode-manager.ts projects delete --id proj_missing --db ${dbPath} --format json --yes --quiet --permanent --backup-dir ${backupDir}`.quiet();
+    const dir = join(backupDir, (await fs.readdir(backupDir))[0]);
+    expect(await exists(join(dir, "rows.json"))).toBe(true);
+
+    const result = await $`bun src/bin/opencode-manager.ts backup restore ${dir} --format json`.quiet();
+    expect(JSON.parse(result.stdout.toString()).data.restored).toContain("sqlite:project:proj_missing");
+
+    const projects = await $`bun src/bin/opencode-manager.ts projects list --db ${dbPath} --format json`.quiet();
+    const ids = JSON.parse(projects.stdout.toString()).data.map((p: { projectId: string }) => p.projectId);
+    expect(ids).toContain("proj_missing");
+  });
+});
+
+describe("backup archives", () => {
+  let tempDir: string;
+  let root: string;
+  let backupDir: string;
+  let sessionFile: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    root = join(tempDir, "store");
+    backupDir = join(tempDir, "backups");
+    sessionFile = join(root, "storage", "session", "proj_present", "session_add_tests.json");
+    await fs.cp(FIXTURE_STORE_ROOT, root, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const env = (passphrase?: string) => {
+    const vars = { ...process.env };
+    delete vars.OPENCODE_MANAGER_BACKUP_PASSPHRASE;
+    return passphrase ? { ...vars, OPENCODE_MANAGER_BACKUP_PASSPHRASE: passphrase } : vars;
+  };
+
+  it("writes a single .tar.gz file and restores from it", async () => {
+    await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --root ${root} --format json --yes --quiet --permanent --backup-dir ${backupDir} --backup-archive`.env(env()).quiet();
+    const files = await fs.readdir(backupDir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toEndWith(".tar.gz");
+
+    await $`bun src/bin/opencode-manager.ts backup restore ${join(backupDir, files[0])} --format json`.env(env()).quiet();
+    expect(await exists(sessionFile)).toBe(true);
+  });
+
+  it("encrypts with the passphrase from the environment", async () => {
+    await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --root ${root} --format json --yes --quiet --permanent --backup-dir ${backupDir} --backup-encrypt`.env(env("pw")).quiet();
+    const [file] = await fs.readdir(backupDir);
+    expect(file).toEndWith(".tar.gz.enc");
+    const archive = join(backupDir, file);
+
+    const locked = await $`bun src/bin/opencode-manager.ts backup list --backup-dir ${backupDir} --format json`.env(env()).quiet();
+    expect(JSON.parse(locked.stdout.toString()).data).toEqual([]);
+    expect(locked.stderr.toString()).toContain("passphrase is required");
+
+    const missing = await $`bun src/bin/opencode-manager.ts backup verify ${archive} --format json`.env(env()).quiet().nothrow();
+    expect(missing.exitCode).toBe(2);
+
+    const wrong = await $`bun src/bin/opencode-manager.ts backup verify ${archive} --format json`.env(env("nope")).quiet().nothrow();
+    expect(wrong.exitCode).toBe(4);
+
+    const listed = await $`bun src/bin/opencode-manager.ts backup list --backup-dir ${backupDir} --format json`.env(env("pw")).quiet();
+    expect(JSON.parse(listed.stdout.toString()).data[0]).toMatchObject({ format: "archive", encrypted: true });
+
+    await $`bun src/bin/opencode-manager.ts backup restore ${archive} --format json`.env(env("pw")).quiet();
+    expect(await exists(sessionFile)).toBe(true);
+  });
+
+  it("requires a passphrase to write an encrypted backup", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --root ${root} --format json --yes --permanent --backup-dir ${backupDir} --backup-encrypt`.env(env()).quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+    expect(await exists(sessionFile)).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for the `cache` CLI commands and the --no-cache global option.
+ *
+ * XDG_CACHE_HOME points each test at a temporary cache directory so the
+ * user's real cache is never read or modified.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
+import { $ } from "bun";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { FIXTURE_STORE_ROOT } from "../../helpers";
+
+describe("cache commands", () => {
+  let tempDir: string;
+  let env: Record<string, string | undefined>;
+  let cachePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    env = { ...process.env, XDG_CACHE_HOME: tempDir };
+    cachePath = join(tempDir, "opencode-manager", "index.db");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("fills the cache while listing sessions", async () => {
+    await $`bun src/bin/opencode-manager.ts sessions list --global --root ${FIXTURE_STORE_ROOT}`.env(env).quiet();
+    const result = await $`bun src/bin/opencode-manager.ts cache stats --format json`.env(env).quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.path).toBe(cachePath);
+    expect(parsed.data.entries.session).toBe(2);
+    expect(parsed.data.stores[0].store).toBe(FIXTURE_STORE_ROOT);
+  });
+
+  it("returns the same output from a warm cache", async () => {
+    const cold = await $`bun src/bin/opencode-manager.ts tokens global --root ${FIXTURE_STORE_ROOT} --format json`.env(env).quiet();
+    const warm = await $`bun src/bin/opencode-manager.ts tokens global --root ${FIXTURE_STORE_ROOT} --format json`.env(env).quiet();
+
+    expect(warm.stdout.toString()).toBe(cold.stdout.toString());
+  });
+
+  it("does not create the cache with --no-cache", async () => {
+    await $`bun src/bin/opencode-manager.ts sessions list --global --no-cache --root ${FIXTURE_STORE_ROOT}`.env(env).quiet();
+    const result = await $`bun src/bin/opencode-manager.ts cache stats`.env(env).quiet();
+
+    expect(result.stdout.toString()).toContain("not created yet");
+  });
+
+  it("clears the cache file", async () => {
+    await $`bun src/bin/opencode-manager.ts sessions list --global --root ${FIXTURE_STORE_ROOT}`.env(env).quiet();
+    const result = await $`bun src/bin/opencode-manager.ts cache clear --format json`.env(env).quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.removed).toBe(true);
+    expect(await fs.access(cachePath).then(() => true).catch(() => false)).toBe(false);
+  });
+});
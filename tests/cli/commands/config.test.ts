@@ -0,0 +1,132 @@
+/**
+ * Tests for the `config` CLI commands and config-file defaults.
+ *
+ * XDG_CONFIG_HOME points each test at a temporary config directory so the
+ * user's real config file is never read or modified.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
+import { $ } from "bun";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../../helpers";
+
+describe("config commands", () => {
+  let configHome: string;
+  let configPath: string;
+  let env: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    configHome = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    configPath = join(configHome, "opencode-manager", "config.json");
+    env = { ...process.env, XDG_CONFIG_HOME: configHome };
+  });
+
+  afterEach(async () => {
+    await fs.rm(configHome, { recursive: true, force: true });
+  });
+
+  it("prints the config file path", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts config path`.env(env).quiet();
+
+    expect(result.stdout.toString().trim()).toBe(configPath);
+  });
+
+  it("sets, gets and unsets a value", async () => {
+    await $`bun src/bin/opencode-manager.ts config set backup-dir ${configHome}/backups`.env(env).quiet();
+    const stored = JSON.parse(await fs.readFile(configPath, "utf8"));
+    expect(stored).toEqual({ defaults: { backupDir: join(configHome, "backups") } });
+
+    const get = await $`bun src/bin/opencode-manager.ts config get backupDir`.env(env).quiet();
+    expect(get.stdout.toString().trim()).toBe(join(configHome, "backups"));
+
+    await $`bun src/bin/opencode-manager.ts config unset backup-dir`.env(env).quiet();
+    const unset = await $`bun src/bin/opencode-manager.ts config get backupDir --format json`.env(env).quiet();
+    expect(JSON.parse(unset.stdout.toString()).data).toMatchObject({ value: null, source: "default" });
+  });
+
+  it("lists every setting with its source", async () => {
+    await $`bun src/bin/opencode-manager.ts config set limit 25`.env(env).quiet();
+
+    const result = await $`bun src/bin/opencode-manager.ts config list --format json`.env({ ...env, OPENCODE_MANAGER_SORT: "created" }).quiet();
+    const settings = JSON.parse(result.stdout.toString()).data;
+    const byKey = (key: string) => settings.find((setting: { key: string }) => setting.key === key);
+
+    expect(byKey("limit")).toMatchObject({ value: 25, source: "config" });
+    expect(byKey("sort")).toMatchObject({ value: "created", source: "env", envVar: "OPENCODE_MANAGER_SORT" });
+    expect(byKey("format")).toMatchObject({ value: "table", source: "default" });
+    expect(byKey("tui.showHelp")).toMatchObject({ value: true, source: "default" });
+  });
+
+  it("returns exit code 2 for an unknown key or invalid value", async () => {
+    const unknown = await $`bun src/bin/opencode-manager.ts config set colour red`.env(env).quiet().nothrow();
+    expect(unknown.exitCode).toBe(2);
+    expect(unknown.stderr.toString()).toContain('Unknown config key "colour"');
+
+    const invalid = await $`bun src/bin/opencode-manager.ts config set format yaml`.env(env).quiet().nothrow();
+    expect(invalid.exitCode).toBe(2);
+    expect(invalid.stderr.toString()).toContain("expected json | ndjson | table");
+  });
+});
+
+describe("config precedence", () => {
+  let configHome: string;
+  let env: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    configHome = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    env = { ...process.env, XDG_CONFIG_HOME: configHome };
+  });
+
+  afterEach(async () => {
+    await fs.rm(configHome, { recursive: true, force: true });
+  });
+
+  const writeConfig = async (config: unknown) => {
+    await fs.mkdir(join(configHome, "opencode-manager"), { recursive: true });
+    await fs.writeFile(join(configHome, "opencode-manager", "config.json"), JSON.stringify(config));
+  };
+
+  it("uses config defaults when no flag is given", async () => {
+    await writeConfig({ defaults: { format: "json", root: FIXTURE_STORE_ROOT } });
+
+    const result = await $`bun src/bin/opencode-manager.ts projects list`.env(env).quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.ok).toBe(true);
+    expect(parsed.data.length).toBeGreaterThan(0);
+  });
+
+  it("lets flags override environment variables and environment variables override the config", async () => {
+    await writeConfig({ defaults: { format: "table", root: FIXTURE_STORE_ROOT } });
+
+    const fromEnv = await $`bun src/bin/opencode-manager.ts projects list`.env({ ...env, OPENCODE_MANAGER_FORMAT: "json" }).quiet();
+    expect(JSON.parse(fromEnv.stdout.toString()).ok).toBe(true);
+
+    const fromFlag = await $`bun src/bin/opencode-manager.ts projects list --format ndjson`.env({ ...env, OPENCODE_MANAGER_FORMAT: "json" }).quiet();
+    const firstLine = JSON.parse(fromFlag.stdout.toString().trim().split("\n")[0]);
+    expect(firstLine.projectId).toBeDefined();
+  });
+
+  it("applies the configured backend only without storage flags", async () => {
+    await writeConfig({ defaults: { format: "json", backend: "sqlite", dbPath: FIXTURE_SQLITE_PATH } });
+
+    const configured = await $`bun src/bin/opencode-manager.ts sessions list --global`.env(env).quiet();
+    expect(JSON.parse(configured.stdout.toString()).data[0].filePath).toStartWith("sqlite:");
+
+    const flagged = await $`bun src/bin/opencode-manager.ts sessions list --global --root ${FIXTURE_STORE_ROOT}`.env(env).quiet();
+    expect(JSON.parse(flagged.stdout.toString()).data[0].filePath).toStartWith(FIXTURE_STORE_ROOT);
+  });
+
+  it("returns exit code 2 for an invalid config file but keeps config commands working", async () => {
+    await writeConfig({ defaults: { limit: "lots" } });
+
+    const list = await $`bun src/bin/opencode-manager.ts projects list --root ${FIXTURE_STORE_ROOT}`.env(env).quiet().nothrow();
+    expect(list.exitCode).toBe(2);
+    expect(list.stderr.toString()).toContain("Invalid value");
+
+    const unset = await $`bun src/bin/opencode-manager.ts config unset limit`.env(env).quiet().nothrow();
+    expect(unset.exitCode).toBe(0);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for the `doctor` CLI command.
+ *
+ * Problems are introduced into temporary copies of the fixture stores so the
+ * shared fixtures are never modified.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
+import { $ } from "bun";
+import { Database } from "bun:sqlite";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../../helpers";
+
+describe("doctor (JSONL)", () => {
+  let tempDir: string;
+  let root: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    root = join(tempDir, "store");
+    await fs.cp(FIXTURE_STORE_ROOT, root, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const messagePath = () => join(root, "storage", "message", "session_add_tests", "msg_assistant_01.json");
+
+  async function breakParent(): Promise<void> {
+    const payload = JSON.parse(await fs.readFile(messagePath(), "utf8"));
+    payload.parentID = "msg_gone";
+    await fs.writeFile(messagePath(), JSON.stringify(payload));
+  }
+
+  it("exits 0 and reports no problems for the fixture store", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts doctor --root ${root} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(result.exitCode).toBe(0);
+    expect(parsed.ok).toBe(true);
+    expect(parsed.data.issues).toEqual([]);
+    expect(parsed.data.errors).toBe(0);
+    expect(parsed.data.scanned.session).toBe(2);
+  });
+
+  it("exits 1 when errors are found", async () => {
+    await fs.writeFile(messagePath(), "{ not json");
+
+    const result = await $`bun src/bin/opencode-manager.ts doctor --root ${root} --format json`.quiet().nothrow();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(result.exitCode).toBe(1);
+    expect(parsed.data.errors).toBe(1);
+    expect(parsed.data.byCheck).toEqual({ json: 1 });
+    expect(parsed.data.issues[0].path).toBe(messagePath());
+    expect(result.stderr.toString()).toContain("1 error(s)");
+  });
+
+  it("allows warnings unless --strict is given", async () => {
+    await breakParent();
+
+    const lenient = await $`bun src/bin/opencode-manager.ts doctor --root ${root} --format json`.quiet().nothrow();
+    const strict = await $`bun src/bin/opencode-manager.ts doctor --strict --root ${root} --format json`.quiet().nothrow();
+
+    expect(lenient.exitCode).toBe(0);
+    expect(JSON.parse(lenient.stdout.toString()).data.warnings).toBe(1);
+    expect(strict.exitCode).toBe(1);
+  });
+
+  it("outputs one NDJSON line per issue", async () => {
+    await breakParent();
+    await fs.writeFile(join(root, "storage", "project", "proj_missing.json"), "{ not json");
+
+    const result = await $`bun src/bin/opencode-manager.ts doctor --root ${root} --format ndjson`.quiet().nothrow();
+    const lines = result.stdout.toString().trim().split("\n").map((line) => JSON.parse(line));
+
+    expect(lines.map((issue) => issue.check).sort()).toEqual(["json", "message-parent"]);
+  });
+
+  it("groups issues by check in the table output", async () => {
+    await breakParent();
+
+    const result = await $`bun src/bin/opencode-manager.ts doctor --root ${root}`.quiet().nothrow();
+    const output = result.stdout.toString();
+
+    expect(output).toContain("message-parent (1)");
+    expect(output).toContain("msg_gone");
+    expect(output).toContain("Found 0 error(s) and 1 warning(s)");
+  });
+});
+
+describe("doctor (SQLite)", () => {
+  let tempDir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    dbPath = join(tempDir, "opencode.db");
+    await fs.copyFile(FIXTURE_SQLITE_PATH, dbPath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("exits 0 for the fixture database", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts doctor --db ${dbPath} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.backend).toBe("sqlite");
+    expect(parsed.data.issues).toEqual([]);
+  });
+
+  it("reports unparsable row data", async () => {
+    const db = new Database(dbPath);
+    const { id } = db.query("SELECT id FROM part LIMIT 1").get() as { id: string };
+    db.run("UPDATE part SET data = '{ not json' WHERE id = ?", [id]);
+    db.close();
+
+    const result = await $`bun src/bin/opencode-manager.ts doctor --db ${dbPath} --format json`.quiet().nothrow();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(result.exitCode).toBe(1);
+    expect(parsed.data.issues.map((i: { path: string }) => i.path)).toEqual([`sqlite:part:${id}`]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for `maintenance orphans list` and `maintenance orphans clean` CLI commands.
+ *
+ * Uses temporary copies of the fixture store and SQLite database with
+ * injected orphans so destructive tests do not touch the shared fixtures.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
+import { $ } from "bun";
+import { Database } from "bun:sqlite";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../../helpers";
+
+const exists = (path: string) => fs.access(path).then(() => true).catch(() => false);
+
+describe("maintenance orphans (JSONL)", () => {
+  let tempDir: string;
+  let tempRoot: string;
+  let tempBackupDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    tempRoot = join(tempDir, "store");
+    tempBackupDir = join(tempDir, "backups");
+    await fs.cp(FIXTURE_STORE_ROOT, tempRoot, { recursive: true });
+
+    // Message directory for a deleted session, and parts for a deleted message
+    const messageDir = join(tempRoot, "storage", "message", "sess_deleted");
+    const partDir = join(tempRoot, "storage", "part", "msg_deleted");
+    await fs.mkdir(messageDir, { recursive: true });
+    await fs.mkdir(partDir, { recursive: true });
+    await fs.writeFile(join(messageDir, "msg_deleted.json"), JSON.stringify({ id: "msg_deleted" }));
+    await fs.writeFile(join(partDir, "part_deleted.json"), JSON.stringify({ id: "part_deleted" }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("lists no orphans for the fixture store", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts maintenance orphans list --root ${FIXTURE_STORE_ROOT} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed).toHaveProperty("ok", true);
+    expect(parsed.data).toEqual([]);
+  });
+
+  it("lists orphaned message and part directories", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts maintenance orphans list --root ${tempRoot} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    const kinds = parsed.data.map((o: { kind: string; id: string }) => `${o.kind}:${o.id}`);
+    expect(kinds).toEqual(["message:sess_deleted", "part:msg_deleted"]);
+  });
+
+  it("filters by --kind", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts maintenance orphans list --root ${tempRoot} --format json --kind part`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.length).toBe(1);
+    expect(parsed.data[0].kind).toBe("part");
+  });
+
+  it("returns exit code 2 for an invalid --kind", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts maintenance orphans list --root ${tempRoot} --format json --kind bogus`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+  });
+
+  it("outputs table format with orphan columns", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts maintenance orphans list --root ${tempRoot} --format table`.quiet();
+    const output = result.stdout.toString();
+
+    expect(output).toContain("Missing Parent");
+    expect(output).toContain("sess_deleted");
+  });
+
+  it("previews cleanup with --dry-run without deleting", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts maintenance orphans clean --root ${tempRoot} --format json --dry-run`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data).toHaveProperty("dryRun", true);
+    expect(parsed.data).toHaveProperty("resourceType", "orphan");
+    expect(parsed.data).toHaveProperty("count", 2);
+    expect(await exists(join(tempRoot, "storage", "message", "sess_deleted"))).toBe(true);
+  });
+
+  it("returns exit code 2 when --yes is not provided", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts maintenance orphans clean --root ${tempRoot} --format json`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+  });
+
+  it("backs up and removes orphans, keeping live data", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts maintenance orphans clean --root ${tempRoot} --format json --yes --quiet --backup-dir ${tempBackupDir}`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed).toHaveProperty("ok", true);
+    expect(parsed.data).toHaveProperty("count", 2);
+    expect(await exists(join(tempRoot, "storage", "message", "sess_deleted"))).toBe(false);
+    expect(await exists(join(tempRoot, "storage", "part", "msg_deleted"))).toBe(false);
+    expect(await exists(join(tempRoot, "storage", "message", "session_add_tests"))).toBe(true);
+
+    const backupContents = await fs.readdir(tempBackupDir);
+    expect(backupContents[0]).toMatch(/^orphans_\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}$/);
+    const backupFile = join(tempBackupDir, backupContents[0], "storage", "part", "msg_deleted", "part_deleted.json");
+    expect(await exists(backupFile)).toBe(true);
+  });
+
+  it("succeeds with nothing to clean", async () => {
+    await $`bun src/bin/opencode-manager.ts maintenance orphans clean --root ${tempRoot} --format json --yes`.quiet();
+    const result = await $`bun src/bin/opencode-manager.ts maintenance orphans clean --root ${tempRoot} --format json --yes`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data).toHaveProperty("count", 0);
+  });
+});
+
+describe("maintenance orphans (SQLite)", () => {
+  let tempDir: string;
+  let tempDbPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    tempDbPath = join(tempDir, "test.db");
+    await fs.copyFile(FIXTURE_SQLITE_PATH, tempDbPath);
+
+    const db = new Database(tempDbPath);
+    db.run(
+      "INSERT INTO message (id, session_id, created_at, data) VALUES ('msg_dangling', 'sess_deleted', 0, '{}')"
+    );
+    db.close();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("lists orphaned rows", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts maintenance orphans list --db ${tempDbPath} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.length).toBe(1);
+    expect(parsed.data[0]).toMatchObject({
+      kind: "message",
+      id: "msg_dangling",
+      parentId: "sess_deleted",
+      path: "sqlite:message:msg_dangling",
+    });
+  });
+
+  it("removes orphaned rows and backs up a consistent copy of the database", async () => {
+    const backupDir = join(tempDir, "backups");
+    await $`bun src/bin/opencode-manager.ts maintenance orphans clean --db ${tempDbPath} --format json --yes --quiet --backup-dir ${backupDir}`.quiet();
+
+    const db = new Database(tempDbPath, { readonly: true });
+    const row = db.query("SELECT id FROM message WHERE id = 'msg_dangling'").get();
+    db.close();
+    expect(row).toBeNull();
+
+    const [backupName] = await fs.readdir(backupDir);
+    expect((await fs.readdir(join(backupDir, backupName))).sort()).toEqual(["manifest.json", "test.db"]);
+    const copy = new Database(join(backupDir, backupName, "test.db"), { readonly: true });
+    const backedUp = copy.query("SELECT id FROM message WHERE id = 'msg_dangling'").get();
+    copy.close();
+    expect(backedUp).toEqual({ id: "msg_dangling" });
+
+    const manifest = JSON.parse(await fs.readFile(join(backupDir, backupName, "manifest.json"), "utf8"));
+    expect(manifest.items.map((item: { originalPath: string }) => item.originalPath)).toEqual([tempDbPath]);
+  });
+});
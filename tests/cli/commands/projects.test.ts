@@ -280,7 +280,18 @@ describe("projects delete --dry-run", () => {
     expect(parsed.data).toHaveProperty("count", 1);
     expect(parsed.data).toHaveProperty("paths");
     expect(parsed.data.paths).toBeArray();
-    expect(parsed.data.paths.length).toBe(1);
+    // Project file + 2 session files + 2 messages + 4 parts
+    expect(parsed.data.paths.length).toBe(9);
+  });
+
+  it("includes the project's sessions in dry-run output", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts projects delete --id proj_present --root ${FIXTURE_STORE_ROOT} --format json --dry-run`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+    const paths: string[] = parsed.data.paths;
+
+    expect(paths.some((p) => p.endsWith("session_add_tests.json"))).toBe(true);
+    expect(paths.some((p) => p.endsWith("session_parser_fix.json"))).toBe(true);
+    expect(paths.some((p) => p.endsWith("part_text_01.json"))).toBe(true);
   });
 
   it("includes correct file path in dry-run output", async () => {
@@ -371,6 +382,21 @@ describe("projects delete --backup-dir", () => {
     expect(exists).toBe(true);
   });
 
+  it("deletes the project's sessions, messages and parts", async () => {
+    await $`bun src/bin/opencode-manager.ts projects delete --id proj_present --root ${tempRoot} --format json --yes --backup-dir ${tempBackupDir}`.quiet();
+
+    const exists = (path: string) => fs.access(path).then(() => true).catch(() => false);
+    expect(await exists(join(tempRoot, "storage", "session", "proj_present", "session_add_tests.json"))).toBe(false);
+    expect(await exists(join(tempRoot, "storage", "session", "proj_present", "session_parser_fix.json"))).toBe(false);
+    expect(await exists(join(tempRoot, "storage", "message", "session_add_tests"))).toBe(false);
+    expect(await exists(join(tempRoot, "storage", "part", "msg_assistant_01"))).toBe(false);
+
+    // Backup carries the cascaded files too
+    const backupContents = await fs.readdir(tempBackupDir);
+    const backupSubdir = join(tempBackupDir, backupContents[0]);
+    expect(await exists(join(backupSubdir, "storage", "part", "msg_user_01", "part_text_01.json"))).toBe(true);
+  });
+
   it("deletes the original file after backup", async () => {
     const originalFile = join(tempRoot, "storage", "project", "proj_present.json");
     
@@ -930,10 +956,10 @@ describe("projects delete --experimental-sqlite", () => {
     expect(sessionsInProjectAfter.length).toBe(0);
   });
 
-  it("ignores --backup-dir flag with SQLite backend (virtual paths cannot be backed up)", async () => {
-    // backup-dir is only meaningful for JSONL file backend
-    // SQLite backend should ignore it and proceed with deletion
-    const result = await $`bun src/bin/opencode-manager.ts projects delete --id proj_missing --db ${tempDbPath} --format json --yes --backup-dir ${tempDbDir}`.quiet();
+  it("backs up the deleted rows with --backup-dir on SQLite backend", async () => {
+    // SQLite rows are saved to rows.json so `backup restore` can re-insert them
+    const backupDir = join(tempDbDir, "backups");
+    const result = await $`bun src/bin/opencode-manager.ts projects delete --id proj_missing --db ${tempDbPath} --format json --yes --quiet --backup-dir ${backupDir}`.quiet();
     const output = result.stdout.toString();
 
     const parsed = JSON.parse(output);
@@ -945,5 +971,10 @@ describe("projects delete --experimental-sqlite", () => {
     const parsedAfter = JSON.parse(listAfter.stdout.toString());
     const projectsAfter = parsedAfter.data.map((p: { projectId: string }) => p.projectId);
     expect(projectsAfter).not.toContain("proj_missing");
+
+    const backupContents = await fs.readdir(backupDir);
+    expect(backupContents[0]).toMatch(/^project_/);
+    const rows = JSON.parse(await fs.readFile(join(backupDir, backupContents[0], "rows.json"), "utf8"));
+    expect(rows.project.length).toBeGreaterThan(0);
   });
 });
@@ -1,5 +1,5 @@
 /**
- * Tests for `sessions list` and `sessions delete` CLI command output.
+ * Tests for `sessions list`, `sessions tree` and `sessions delete` CLI command output.
  *
  * Uses fixture store at tests/fixtures/store to verify command output formats.
  */
@@ -368,7 +368,17 @@ describe("sessions delete --dry-run", () => {
     expect(parsed.data).toHaveProperty("count", 1);
     expect(parsed.data).toHaveProperty("paths");
     expect(parsed.data.paths).toBeArray();
-    expect(parsed.data.paths.length).toBe(1);
+    // Session file + 2 messages + 4 parts
+    expect(parsed.data.paths.length).toBe(7);
+  });
+
+  it("includes message and part files in dry-run output", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --root ${FIXTURE_STORE_ROOT} --format json --dry-run`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+    const paths: string[] = parsed.data.paths;
+
+    expect(paths.some((p) => p.endsWith(join("message", "session_add_tests", "msg_user_01.json")))).toBe(true);
+    expect(paths.some((p) => p.endsWith(join("part", "msg_assistant_01", "part_tool_01.json")))).toBe(true);
   });
 
   it("includes correct file path in dry-run output", async () => {
@@ -459,6 +469,29 @@ describe("sessions delete --backup-dir", () => {
     expect(exists).toBe(true);
   });
 
+  it("backup contains the session's messages and parts", async () => {
+    await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --root ${tempRoot} --format json --yes --backup-dir ${tempBackupDir}`.quiet();
+
+    const backupContents = await fs.readdir(tempBackupDir);
+    const backupSubdir = join(tempBackupDir, backupContents[0]);
+
+    const messages = await fs.readdir(join(backupSubdir, "storage", "message", "session_add_tests"));
+    expect(messages.sort()).toEqual(["msg_assistant_01.json", "msg_user_01.json"]);
+    const parts = await fs.readdir(join(backupSubdir, "storage", "part", "msg_assistant_01"));
+    expect(parts.length).toBe(3);
+  });
+
+  it("deletes messages and parts along with the session", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --root ${tempRoot} --format json --yes --quiet --backup-dir ${tempBackupDir}`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+    expect(parsed.data.deleted.length).toBe(7);
+
+    const exists = (path: string) => fs.access(path).then(() => true).catch(() => false);
+    expect(await exists(join(tempRoot, "storage", "message", "session_add_tests"))).toBe(false);
+    expect(await exists(join(tempRoot, "storage", "part", "msg_user_01"))).toBe(false);
+    expect(await exists(join(tempRoot, "storage", "part", "msg_assistant_01"))).toBe(false);
+  });
+
   it("deletes the original file after backup", async () => {
     const originalFile = join(tempRoot, "storage", "session", "proj_present", "session_add_tests.json");
     
@@ -837,6 +870,151 @@ describe("sessions copy", () => {
     expect(session).toBeDefined();
     expect(session.projectId).toBe("proj_missing");
   });
+
+  it("copied session includes the full chat history", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions copy --session session_add_tests --to proj_missing --root ${tempRoot} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+    const newSessionId = parsed.data.newSessionId;
+
+    const chatResult = await $`bun src/bin/opencode-manager.ts chat list --session ${newSessionId} --root ${tempRoot} --format json --include-parts`.quiet();
+    const chatParsed = JSON.parse(chatResult.stdout.toString());
+
+    expect(chatParsed.data.length).toBe(2);
+    for (const message of chatParsed.data) {
+      expect(message.sessionId).toBe(newSessionId);
+      expect(message.parts.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("sessions list --stats", () => {
+  let tempDir: string;
+  let tempRoot: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    tempRoot = join(tempDir, "store");
+    await fs.cp(FIXTURE_STORE_ROOT, tempRoot, { recursive: true });
+
+    const assistantPath = join(tempRoot, "storage", "message", "session_add_tests", "msg_assistant_01.json");
+    const payload = JSON.parse(await fs.readFile(assistantPath, "utf8"));
+    await fs.writeFile(
+      assistantPath,
+      JSON.stringify({ ...payload, providerID: "anthropic", modelID: "claude-sonnet-4", mode: "build", cost: 0.42 })
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("adds message stats to JSON records", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions list --global --stats --root ${tempRoot} --format json`.quiet();
+    const sessions = JSON.parse(result.stdout.toString()).data;
+    const session = sessions.find((s: { sessionId: string }) => s.sessionId === "session_add_tests");
+
+    expect(session.stats).toEqual({
+      models: ["anthropic/claude-sonnet-4"],
+      agents: ["build"],
+      messageCount: 2,
+      userTurns: 1,
+      cost: 0.42,
+      lastMessageAt: "2024-01-03T00:03:20.000Z",
+    });
+  });
+
+  it("adds stats columns to the table only with --stats", async () => {
+    const plain = await $`bun src/bin/opencode-manager.ts sessions list --global --root ${tempRoot} --format table`.quiet();
+    expect(plain.stdout.toString()).not.toContain("Last Activity");
+
+    const result = await $`bun src/bin/opencode-manager.ts sessions list --global --stats --root ${tempRoot} --format table`.quiet();
+    const output = result.stdout.toString();
+    expect(output).toContain("Last Activity");
+    expect(output).toContain("$0.42");
+  });
+});
+
+describe("sessions tree", () => {
+  it("nests forked sessions under their parent", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions tree --global --db ${FIXTURE_SQLITE_PATH} --format json`.quiet();
+    const rows = JSON.parse(result.stdout.toString()).data;
+    const parentIndex = rows.findIndex((row: { sessionId: string }) => row.sessionId === "session_parser_fix");
+
+    expect(rows[parentIndex]).toMatchObject({ depth: 0, childCount: 1, descendantCount: 1 });
+    expect(rows[parentIndex + 1]).toMatchObject({ sessionId: "session_fork_parser", depth: 1, parentId: "session_parser_fix" });
+  });
+
+  it("shows one session and its descendants with --session", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions tree --session session_parser_fix --db ${FIXTURE_SQLITE_PATH} --format json`.quiet();
+    const rows = JSON.parse(result.stdout.toString()).data;
+
+    expect(rows.map((row: { sessionId: string }) => row.sessionId)).toEqual(["session_parser_fix", "session_fork_parser"]);
+  });
+
+  it("indents child sessions in table format", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions tree --session session_parser_fix --db ${FIXTURE_SQLITE_PATH} --format table`.quiet();
+    const output = result.stdout.toString();
+
+    expect(output).toContain("Fix bug in parser");
+    expect(output).toContain("└ Fork: Alternative parser approach");
+  });
+});
+
+describe("sessions --cascade", () => {
+  let tempDir: string;
+  let tempRoot: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    tempRoot = join(tempDir, "store");
+    await fs.cp(FIXTURE_STORE_ROOT, tempRoot, { recursive: true });
+    await fs.mkdir(join(tempRoot, "storage", "session", "proj_missing"), { recursive: true });
+
+    // Make session_parser_fix a subagent session of session_add_tests
+    const childPath = join(tempRoot, "storage", "session", "proj_present", "session_parser_fix.json");
+    const payload = JSON.parse(await fs.readFile(childPath, "utf8"));
+    await fs.writeFile(childPath, JSON.stringify({ ...payload, parentID: "session_add_tests" }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const exists = (path: string) => fs.access(path).then(() => true).catch(() => false);
+  const sessionFile = (projectId: string, sessionId: string) =>
+    join(tempRoot, "storage", "session", projectId, `${sessionId}.json`);
+
+  it("deletes only the given session without --cascade", async () => {
+    await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --yes --permanent --root ${tempRoot} --format json`.quiet();
+
+    expect(await exists(sessionFile("proj_present", "session_add_tests"))).toBe(false);
+    expect(await exists(sessionFile("proj_present", "session_parser_fix"))).toBe(true);
+  });
+
+  it("deletes child sessions with --cascade", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --cascade --yes --permanent --root ${tempRoot} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.childSessionIds).toEqual(["session_parser_fix"]);
+    expect(await exists(sessionFile("proj_present", "session_add_tests"))).toBe(false);
+    expect(await exists(sessionFile("proj_present", "session_parser_fix"))).toBe(false);
+  });
+
+  it("moves child sessions with --cascade", async () => {
+    await $`bun src/bin/opencode-manager.ts sessions move --session session_add_tests --to proj_missing --cascade --root ${tempRoot} --format json`.quiet();
+
+    expect(await exists(sessionFile("proj_missing", "session_add_tests"))).toBe(true);
+    expect(await exists(sessionFile("proj_missing", "session_parser_fix"))).toBe(true);
+  });
+
+  it("copies child sessions linked to the parent's copy with --cascade", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions copy --session session_add_tests --to proj_missing --cascade --root ${tempRoot} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+    const [childId] = parsed.data.childSessionIds;
+
+    const child = JSON.parse(await fs.readFile(sessionFile("proj_missing", childId), "utf8"));
+    expect(child.parentID).toBe(parsed.data.newSessionId);
+  });
 });
 
 /**
@@ -1005,6 +1183,108 @@ describe("sessions list --experimental-sqlite", () => {
   });
 });
 
+describe("sessions --snapshot", () => {
+  let tempDbDir: string;
+  let tempDbPath: string;
+
+  beforeEach(async () => {
+    tempDbDir = await fs.mkdtemp(join(tmpdir(), "opencode-snapshot-test-"));
+    tempDbPath = join(tempDbDir, "test.db");
+    await fs.copyFile(FIXTURE_SQLITE_PATH, tempDbPath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDbDir, { recursive: true, force: true });
+  });
+
+  it("lists sessions from a snapshot and reports when it was taken", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions list --global --db ${tempDbPath} --snapshot --format json`.quiet();
+
+    const parsed = JSON.parse(result.stdout.toString());
+    expect(parsed.data.length).toBe(5);
+    expect(result.stderr.toString()).toContain(`Reading SQLite snapshot of ${tempDbPath} taken at`);
+  });
+
+  it("omits the snapshot note with --quiet", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions list --global --db ${tempDbPath} --snapshot --quiet --format json`.quiet();
+
+    expect(result.stderr.toString()).not.toContain("snapshot");
+  });
+
+  it("refuses to rename a session", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions rename --session session_add_tests --title "Blocked" --db ${tempDbPath} --snapshot --format json`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr.toString()).toContain("Rerun without --snapshot");
+
+    const listResult = await $`bun src/bin/opencode-manager.ts sessions list --global --db ${tempDbPath} --format json`.quiet();
+    const titles = JSON.parse(listResult.stdout.toString()).data.map((s: { title: string }) => s.title);
+    expect(titles).not.toContain("Blocked");
+  });
+});
+
+describe("sessions --store", () => {
+  let tempDir: string;
+  let tempRoot: string;
+  let tempDbPath: string;
+  let env: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-store-test-"));
+    tempRoot = join(tempDir, "store");
+    tempDbPath = join(tempDir, "test.db");
+    await fs.cp(FIXTURE_STORE_ROOT, tempRoot, { recursive: true });
+    await fs.copyFile(FIXTURE_SQLITE_PATH, tempDbPath);
+    await fs.mkdir(join(tempDir, "opencode-manager"));
+    await fs.writeFile(
+      join(tempDir, "opencode-manager", "config.json"),
+      JSON.stringify({
+        stores: {
+          files: { backend: "jsonl", root: tempRoot },
+          db: { backend: "sqlite", db: tempDbPath },
+        },
+      })
+    );
+    env = { ...process.env, XDG_CONFIG_HOME: tempDir };
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("reads the named store", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions list --global --store db --format json`.env(env).quiet();
+
+    expect(JSON.parse(result.stdout.toString()).data.length).toBe(5);
+  });
+
+  it("returns exit code 2 for an unknown store", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions list --global --store nope --format json`.env(env).quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+    expect(result.stderr.toString()).toContain("Known stores: db, files");
+  });
+
+  it("copies a session into another store with --to-store", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions copy --session session_add_tests --to proj_missing --store files --to-store db --format json`.env(env).quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data).toMatchObject({ originalSessionId: "session_add_tests", toProject: "proj_missing", toStore: "db" });
+
+    const sourceChat = await $`bun src/bin/opencode-manager.ts chat list --session session_add_tests --store files --format json`.env(env).quiet();
+    const copiedChat = await $`bun src/bin/opencode-manager.ts chat list --session ${parsed.data.newSessionId} --store db --format json`.env(env).quiet();
+    expect(JSON.parse(copiedChat.stdout.toString()).data.length).toBe(JSON.parse(sourceChat.stdout.toString()).data.length);
+  });
+
+  it("returns exit code 3 when the project is missing from the target store", async () => {
+    await fs.rm(join(tempRoot, "storage", "project", "proj_missing.json"));
+
+    const result = await $`bun src/bin/opencode-manager.ts sessions copy --session session_parser_fix --to proj_missing --store db --to-store files --format json`.env(env).quiet().nothrow();
+
+    expect(result.exitCode).toBe(3);
+  });
+});
+
 /**
  * Integration tests for SQLite backend - sessions delete command.
  *
@@ -1188,10 +1468,10 @@ describe("sessions delete --experimental-sqlite", () => {
     expect(chatAfter.exitCode).toBe(3); // Session not found
   });
 
-  it("ignores --backup-dir flag with SQLite backend (virtual paths cannot be backed up)", async () => {
-    // backup-dir is only meaningful for JSONL file backend
-    // SQLite backend should ignore it and proceed with deletion
-    const result = await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --db ${tempDbPath} --format json --yes --backup-dir ${tempDbDir}`.quiet();
+  it("backs up the deleted rows with --backup-dir on SQLite backend", async () => {
+    // SQLite rows are saved to rows.json so `backup restore` can re-insert them
+    const backupDir = join(tempDbDir, "backups");
+    const result = await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --db ${tempDbPath} --format json --yes --quiet --backup-dir ${backupDir}`.quiet();
     const output = result.stdout.toString();
 
     const parsed = JSON.parse(output);
@@ -1203,6 +1483,11 @@ describe("sessions delete --experimental-sqlite", () => {
     const parsedAfter = JSON.parse(listAfter.stdout.toString());
     const sessionsAfter = parsedAfter.data.map((s: { sessionId: string }) => s.sessionId);
     expect(sessionsAfter).not.toContain("session_add_tests");
+
+    const backupContents = await fs.readdir(backupDir);
+    expect(backupContents[0]).toMatch(/^session_/);
+    const rows = JSON.parse(await fs.readFile(join(backupDir, backupContents[0], "rows.json"), "utf8"));
+    expect(rows.session.length).toBeGreaterThan(0);
   });
 });
 
@@ -1629,3 +1914,72 @@ describe("sessions copy --experimental-sqlite", () => {
     expect(combined).toMatch(/error|failed|not found/i);
   });
 });
+
+describe("sessions list with malformed JSONL files", () => {
+  let tempDir: string;
+  let root: string;
+  let brokenPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    root = join(tempDir, "store");
+    await fs.cp(FIXTURE_STORE_ROOT, root, { recursive: true });
+    brokenPath = join(root, "storage", "session", "proj_present", "session_parser_fix.json");
+    await fs.writeFile(brokenPath, "{ not json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("skips the file and warns on stderr with its path and reason", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions list --global --root ${root} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.map((s: { sessionId: string }) => s.sessionId)).toEqual(["session_add_tests"]);
+    expect(result.stderr.toString()).toContain(`Skipped ${brokenPath}: invalid JSON`);
+  });
+
+  it("fails with exit code 1 under --jsonl-strict", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions list --global --root ${root} --format json --jsonl-strict`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout.toString()).toBe("");
+    expect(result.stderr.toString()).toContain(brokenPath);
+  });
+});
+
+describe("sessions list --merged", () => {
+  it("lists sessions from both stores once, tagged with their source", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions list --global --merged --root ${FIXTURE_STORE_ROOT} --db ${FIXTURE_SQLITE_PATH} --format json`.quiet();
+    const sessions = JSON.parse(result.stdout.toString()).data as { sessionId: string; source: string }[];
+
+    expect(sessions.map((s) => s.sessionId).sort()).toEqual([
+      "session_add_tests",
+      "session_fork_parser",
+      "session_missing_proj_01",
+      "session_parser_fix",
+      "session_refactor_api",
+    ]);
+    expect(new Set(sessions.map((s) => s.source))).toEqual(new Set(["sqlite"]));
+  });
+
+  it("shows chat for a session that only exists in the JSONL store", async () => {
+    const tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    try {
+      const root = join(tempDir, "store");
+      await fs.cp(FIXTURE_STORE_ROOT, root, { recursive: true });
+      const sessionDir = join(root, "storage", "session", "proj_present");
+      const payload = JSON.parse(await fs.readFile(join(sessionDir, "session_add_tests.json"), "utf8"));
+      await fs.writeFile(join(sessionDir, "session_jsonl_only.json"), JSON.stringify({ ...payload, id: "session_jsonl_only" }));
+      await fs.cp(join(root, "storage", "message", "session_add_tests"), join(root, "storage", "message", "session_jsonl_only"), { recursive: true });
+
+      const result = await $`bun src/bin/opencode-manager.ts chat list --session session_jsonl_only --merged --root ${root} --db ${FIXTURE_SQLITE_PATH} --format json`.quiet();
+      const messages = JSON.parse(result.stdout.toString()).data;
+
+      expect(messages).toHaveLength(2);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
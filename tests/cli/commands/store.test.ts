@@ -0,0 +1,265 @@
+/**
+ * Tests for the `store migrate`, `store diff` and `store list` CLI commands.
+ *
+ * Migrates the fixture stores into temporary targets (a SQLite database or
+ * a JSONL directory) so the shared fixtures are never modified.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
+import { $ } from "bun";
+import { Database } from "bun:sqlite";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../../helpers";
+
+const exists = (path: string) => fs.access(path).then(() => true).catch(() => false);
+
+describe("store migrate", () => {
+  let tempDir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    dbPath = join(tempDir, "migrated.db");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("migrates the JSONL store and reports verification", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT} --db ${dbPath} --format json --quiet`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed).toHaveProperty("ok", true);
+    expect(parsed.data.tables.session.inserted).toBe(2);
+    expect(parsed.data.verification.ok).toBe(true);
+  });
+
+  it("makes the migrated data readable through the SQLite backend", async () => {
+    await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT} --db ${dbPath} --quiet`.quiet();
+    const result = await $`bun src/bin/opencode-manager.ts sessions list --global --db ${dbPath} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    const ids = parsed.data.map((s: { sessionId: string }) => s.sessionId).sort();
+    expect(ids).toEqual(["session_add_tests", "session_parser_fix"]);
+  });
+
+  it("writes progress to stderr unless --quiet", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT} --db ${dbPath} --format json`.quiet();
+
+    expect(result.stderr.toString()).toContain("Migrating sessions: 2/2 (100%)");
+    expect(() => JSON.parse(result.stdout.toString())).not.toThrow();
+  });
+
+  it("outputs a summary table", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT} --db ${dbPath} --quiet`.quiet();
+    const output = result.stdout.toString();
+
+    expect(output).toContain("Overwritten");
+    expect(output).toContain("Verification passed");
+  });
+
+  it("does not create the database with --dry-run", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT} --db ${dbPath} --format json --quiet --dry-run`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.dryRun).toBe(true);
+    expect(await exists(dbPath)).toBe(false);
+  });
+
+  it("returns exit code 1 on conflicts by default", async () => {
+    await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT} --db ${dbPath} --quiet`.quiet();
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT} --db ${dbPath} --quiet --format json`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr.toString()).toContain("already exists");
+  });
+
+  it("skips existing rows with --on-conflict skip", async () => {
+    await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT} --db ${dbPath} --quiet`.quiet();
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT} --db ${dbPath} --quiet --format json --on-conflict skip`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.tables.part.skipped).toBe(4);
+    expect(parsed.data.conflicts.length).toBe(10);
+  });
+
+  it("requires --yes for --on-conflict overwrite", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT} --db ${dbPath} --quiet --on-conflict overwrite`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+  });
+
+  it("overwrites existing rows with --on-conflict overwrite --yes", async () => {
+    const db = new Database(dbPath);
+    db.run("CREATE TABLE session (id TEXT PRIMARY KEY, project_id TEXT, parent_id TEXT, created_at INTEGER, updated_at INTEGER, data TEXT)");
+    db.run("INSERT INTO session (id, project_id, data) VALUES ('session_add_tests', 'other', '{}')");
+    db.close();
+
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT} --db ${dbPath} --quiet --format json --on-conflict overwrite --yes`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.tables.session.overwritten).toBe(1);
+    expect(parsed.data.verification.ok).toBe(true);
+  });
+
+  it("returns exit code 2 without --db", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to sqlite --root ${FIXTURE_STORE_ROOT}`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+  });
+
+  it("returns exit code 2 when source and target are the same backend", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from jsonl --to jsonl --root ${FIXTURE_STORE_ROOT} --db ${dbPath}`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+  });
+});
+
+describe("store migrate --from sqlite --to jsonl", () => {
+  let tempDir: string;
+  let exportRoot: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    exportRoot = join(tempDir, "snapshot");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("exports the database into the JSONL layout", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from sqlite --to jsonl --db ${FIXTURE_SQLITE_PATH} --root ${exportRoot} --format json --quiet`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.tables.session.inserted).toBe(5);
+    expect(parsed.data.verification.ok).toBe(true);
+    expect(await exists(join(exportRoot, "storage", "project", "proj_present.json"))).toBe(true);
+  });
+
+  it("makes the exported data readable through the JSONL backend", async () => {
+    await $`bun src/bin/opencode-manager.ts store migrate --from sqlite --to jsonl --db ${FIXTURE_SQLITE_PATH} --root ${exportRoot} --quiet`.quiet();
+    const result = await $`bun src/bin/opencode-manager.ts sessions list --global --root ${exportRoot} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.length).toBe(5);
+  });
+
+  it("does not write files with --dry-run", async () => {
+    await $`bun src/bin/opencode-manager.ts store migrate --from sqlite --to jsonl --db ${FIXTURE_SQLITE_PATH} --root ${exportRoot} --quiet --dry-run`.quiet();
+
+    expect(await exists(exportRoot)).toBe(false);
+  });
+
+  it("returns exit code 1 when exporting over an existing snapshot", async () => {
+    await $`bun src/bin/opencode-manager.ts store migrate --from sqlite --to jsonl --db ${FIXTURE_SQLITE_PATH} --root ${exportRoot} --quiet`.quiet();
+    const result = await $`bun src/bin/opencode-manager.ts store migrate --from sqlite --to jsonl --db ${FIXTURE_SQLITE_PATH} --root ${exportRoot} --quiet`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(1);
+  });
+});
+
+describe("store diff", () => {
+  let tempDir: string;
+  let otherRoot: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    otherRoot = join(tempDir, "snapshot");
+    await fs.cp(FIXTURE_STORE_ROOT, otherRoot, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("exits 0 when two roots match", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store diff --root ${FIXTURE_STORE_ROOT} --other-root ${otherRoot} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.differences).toEqual([]);
+    expect(parsed.data.compared.session).toBe(2);
+  });
+
+  it("exits 1 and lists differences against a database", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store diff --root ${FIXTURE_STORE_ROOT} --db ${FIXTURE_SQLITE_PATH} --format json`.quiet().nothrow();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(result.exitCode).toBe(1);
+    expect(parsed.data.right.backend).toBe("sqlite");
+    expect(parsed.data.byTable).toEqual({ project: 0, session: 4, message: 4, part: 0 });
+    expect(result.stderr.toString()).toContain("8 difference(s)");
+  });
+
+  it("groups differences by table in the table output", async () => {
+    await fs.rm(join(otherRoot, "storage", "session", "proj_present", "session_parser_fix.json"));
+
+    const result = await $`bun src/bin/opencode-manager.ts store diff --root ${FIXTURE_STORE_ROOT} --other-root ${otherRoot}`.quiet().nothrow();
+    const output = result.stdout.toString();
+
+    expect(output).toContain("session (1)");
+    expect(output).toContain("only-left");
+    expect(output).toContain("Found 1 difference(s)");
+  });
+
+  it("returns exit code 3 when the other root does not exist", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store diff --root ${FIXTURE_STORE_ROOT} --other-root ${join(tempDir, "missing")}`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(3);
+  });
+});
+
+describe("store list", () => {
+  let configHome: string;
+
+  beforeEach(async () => {
+    configHome = await fs.mkdtemp(join(tmpdir(), "opencode-config-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(configHome, { recursive: true, force: true });
+  });
+
+  const writeConfig = async (config: unknown) => {
+    await fs.mkdir(join(configHome, "opencode-manager"), { recursive: true });
+    await fs.writeFile(join(configHome, "opencode-manager", "config.json"), JSON.stringify(config));
+  };
+
+  it("lists registered stores with resolved locations", async () => {
+    await writeConfig({
+      stores: {
+        fixture: { backend: "jsonl", root: FIXTURE_STORE_ROOT },
+        db: { backend: "sqlite", db: "./opencode.db", strict: true },
+      },
+    });
+
+    const result = await $`bun src/bin/opencode-manager.ts store list --format json`.env({ ...process.env, XDG_CONFIG_HOME: configHome }).quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.map((s: { name: string }) => s.name)).toEqual(["db", "fixture"]);
+    expect(parsed.data[0]).toMatchObject({
+      backend: "sqlite",
+      dbPath: join(configHome, "opencode-manager", "opencode.db"),
+      strict: true,
+    });
+  });
+
+  it("prints an empty table without a config file", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts store list`.env({ ...process.env, XDG_CONFIG_HOME: configHome }).quiet();
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.toString()).toContain("Name");
+  });
+
+  it("returns exit code 2 for an invalid config file", async () => {
+    await writeConfig({ stores: { bad: { backend: "postgres" } } });
+
+    const result = await $`bun src/bin/opencode-manager.ts store list`.env({ ...process.env, XDG_CONFIG_HOME: configHome }).quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+    expect(result.stderr.toString()).toContain('Invalid store "bad"');
+  });
+});
@@ -8,8 +8,11 @@
  * - session_parser_fix: No messages, so no token data
  */
 
-import { describe, expect, it } from "bun:test";
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
 import { $ } from "bun";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../../helpers";
 
 // ========================
@@ -604,3 +607,214 @@ describe("tokens global --experimental-sqlite", () => {
     expect(output).toContain("Failed to open SQLite database");
   });
 });
+
+describe("tokens session --include-children", () => {
+  // session_fork_parser is a child of session_parser_fix and has no messages
+  it("adds child sessions to the session's totals", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts tokens session --session session_parser_fix --include-children --db ${FIXTURE_SQLITE_PATH} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.knownOnly).toHaveProperty("total", 745);
+    expect(parsed.data.unknownSessions).toBe(1);
+  });
+
+  it("labels the table with the number of child sessions", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts tokens session --session session_parser_fix --include-children --db ${FIXTURE_SQLITE_PATH} --format table`.quiet();
+
+    expect(result.stdout.toString()).toContain("Session: session_parser_fix (+1 child session(s))");
+  });
+});
+
+describe("tokens cost", () => {
+  let tempDir: string;
+  let storeRoot: string;
+  let env: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    storeRoot = join(tempDir, "store");
+    env = { ...process.env, XDG_CONFIG_HOME: join(tempDir, "config") };
+
+    await fs.mkdir(join(storeRoot, "storage", "session", "proj_cost"), { recursive: true });
+    await fs.mkdir(join(storeRoot, "storage", "message", "sess_cost"), { recursive: true });
+    await fs.writeFile(
+      join(storeRoot, "storage", "session", "proj_cost", "sess_cost.json"),
+      JSON.stringify({ id: "sess_cost", projectID: "proj_cost", title: "Cost", time: { created: 1000, updated: 3000 } })
+    );
+    const messages = [
+      { id: "msg_recorded", role: "assistant", providerID: "openai", modelID: "gpt-4o", cost: 0.5, tokens: { input: 1000, output: 100 } },
+      { id: "msg_free", role: "assistant", providerID: "anthropic", modelID: "claude-sonnet-4", cost: 0, tokens: { input: 1000000, output: 0 } },
+    ];
+    for (const message of messages) {
+      await fs.writeFile(
+        join(storeRoot, "storage", "message", "sess_cost", `${message.id}.json`),
+        JSON.stringify({ ...message, sessionID: "sess_cost", time: { created: 2000 } })
+      );
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const writePricing = async (pricing: unknown) => {
+    await fs.mkdir(join(tempDir, "config", "opencode-manager"), { recursive: true });
+    await fs.writeFile(join(tempDir, "config", "opencode-manager", "config.json"), JSON.stringify({ pricing }));
+  };
+
+  it("reports recorded cost and counts unpriced messages without a pricing table", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts tokens session --session sess_cost --root ${storeRoot} --format json`.env(env).quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.cost).toEqual({ recorded: 0.5, estimated: 0, total: 0.5, unpricedMessages: 1 });
+  });
+
+  it("estimates cost from the configured pricing table", async () => {
+    await writePricing({ "anthropic/claude-sonnet-4": { input: 3, output: 15 } });
+
+    const result = await $`bun src/bin/opencode-manager.ts tokens global --root ${storeRoot} --format json`.env(env).quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.cost).toEqual({ recorded: 0.5, estimated: 3, total: 3.5, unpricedMessages: 0 });
+  });
+
+  it("shows recorded and estimated cost in the table", async () => {
+    await writePricing({ "claude-sonnet-4": { input: 3, output: 15 } });
+
+    const result = await $`bun src/bin/opencode-manager.ts tokens session --session sess_cost --root ${storeRoot} --format table`.env(env).quiet();
+
+    expect(result.stdout.toString()).toContain("Cost: $3.50 (recorded $0.50, estimated $3.00)");
+  });
+
+  it("returns exit code 2 for an invalid price", async () => {
+    await writePricing({ "gpt-4o": { input: 2.5 } });
+
+    const result = await $`bun src/bin/opencode-manager.ts tokens global --root ${storeRoot}`.env(env).quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+    expect(result.stderr.toString()).toContain('Invalid price for "gpt-4o"');
+  });
+});
+
+describe("tokens --by", () => {
+  it("splits global usage by model in JSON", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts tokens global --by model --db ${FIXTURE_SQLITE_PATH} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.by).toBe("model");
+    expect(parsed.data.groups[0]).toHaveProperty("key", "unknown");
+    expect(parsed.data.groups[0].tokens).toEqual(parsed.data.total);
+    expect(parsed.data.unknownSessions).toBe(1);
+  });
+
+  it("prints one row per group with percentages", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts tokens project --project proj_present --by agent --root ${FIXTURE_STORE_ROOT} --format table`.quiet();
+    const output = result.stdout.toString();
+
+    expect(output).toContain("Project: proj_present by agent");
+    expect(output).toContain("Agent");
+    expect(output).toContain("Cache Write");
+    expect(output).toContain("100%");
+  });
+
+  it("emits one NDJSON line per group", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts tokens session --session session_add_tests --by provider --root ${FIXTURE_STORE_ROOT} --format ndjson`.quiet();
+    const lines = result.stdout.toString().trim().split("\n");
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({ by: "provider", key: "unknown", messages: 1 });
+  });
+
+  it("returns exit code 2 for an unknown grouping", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts tokens global --by colour --root ${FIXTURE_STORE_ROOT}`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+    expect(result.stderr.toString()).toContain('Invalid --by "colour"');
+  });
+});
+
+describe("tokens timeline", () => {
+  it("buckets usage by month in JSON", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts tokens timeline --bucket month --db ${FIXTURE_SQLITE_PATH} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.bucket).toBe("month");
+    expect(parsed.data.rows).toHaveLength(1);
+    expect(parsed.data.rows[0]).toMatchObject({ period: "2024-01", start: "2024-01-01T00:00:00.000Z", end: "2024-02-01T00:00:00.000Z" });
+    expect(parsed.data.rows[0].tokens).toEqual(parsed.data.total);
+  });
+
+  it("prints a bar chart and fills empty periods up to --until", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts tokens timeline --project proj_present --until 2024-01-05 --root ${FIXTURE_STORE_ROOT} --format table`.quiet();
+    const output = result.stdout.toString();
+
+    expect(output).toContain("Project: proj_present by day");
+    expect(output).toMatch(/2024-01-03 .*█/);
+    expect(output).toMatch(/2024-01-05 +0 /);
+  });
+
+  it("emits one NDJSON line per period", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts tokens timeline --bucket week --since 2024-01-01 --until 2024-01-14 --root ${FIXTURE_STORE_ROOT} --format ndjson`.quiet();
+    const lines = result.stdout.toString().trim().split("\n").map((line) => JSON.parse(line));
+
+    expect(lines.map((line) => line.period)).toEqual(["2024-W01", "2024-W02"]);
+    expect(lines[0]).toMatchObject({ bucket: "week", messages: 1 });
+  });
+
+  it("returns exit code 2 for an invalid bucket or date", async () => {
+    const bucket = await $`bun src/bin/opencode-manager.ts tokens timeline --bucket year --root ${FIXTURE_STORE_ROOT}`.quiet().nothrow();
+    expect(bucket.exitCode).toBe(2);
+    expect(bucket.stderr.toString()).toContain('Invalid --bucket "year"');
+
+    const since = await $`bun src/bin/opencode-manager.ts tokens timeline --since yesterday --root ${FIXTURE_STORE_ROOT}`.quiet().nothrow();
+    expect(since.exitCode).toBe(2);
+    expect(since.stderr.toString()).toContain('Invalid --since "yesterday"');
+  });
+});
+
+describe("tokens check", () => {
+  let configHome: string;
+  let env: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    configHome = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    env = { ...process.env, XDG_CONFIG_HOME: configHome };
+  });
+
+  afterEach(async () => {
+    await fs.rm(configHome, { recursive: true, force: true });
+  });
+
+  const writeBudgets = async (budgets: unknown) => {
+    await fs.mkdir(join(configHome, "opencode-manager"), { recursive: true });
+    await fs.writeFile(join(configHome, "opencode-manager", "config.json"), JSON.stringify({ budgets }));
+  };
+
+  it("exits with code 0 when every budget is within its limits", async () => {
+    await writeBudgets({ weekly: { period: "week", tokens: 1000 } });
+
+    const result = await $`bun src/bin/opencode-manager.ts tokens check --at 2024-01-03 --root ${FIXTURE_STORE_ROOT} --format json`.env(env).quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.exceeded).toBe(0);
+    expect(parsed.data.statuses[0]).toMatchObject({ budget: "weekly", periodLabel: "2024-W01", tokens: 310, tokenLimit: 1000 });
+  });
+
+  it("prints the report and exits with code 5 when a budget is exceeded", async () => {
+    await writeBudgets({ daily: { period: "day", tokens: 100, project: "proj_present" }, monthly: { period: "month", cost: 10 } });
+
+    const result = await $`bun src/bin/opencode-manager.ts tokens check --at 2024-01-03 --root ${FIXTURE_STORE_ROOT} --format table`.env(env).quiet().nothrow();
+    const output = result.stdout.toString();
+
+    expect(result.exitCode).toBe(5);
+    expect(output).toMatch(/daily .*proj_present .*2024-01-03 .*310 \/ 100 .*OVER/);
+    expect(output).toMatch(/monthly .*all projects .*2024-01 .*ok/);
+    expect(result.stderr.toString()).toContain("1 of 2 budget check(s) exceeded");
+  });
+
+  it("reports that no budgets are configured", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts tokens check --root ${FIXTURE_STORE_ROOT}`.env(env).quiet();
+
+    expect(result.stdout.toString()).toContain("[No budgets configured]");
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for the `trash` CLI commands and trash-by-default deletes.
+ *
+ * Deletes run against temporary copies of the fixture stores so the shared
+ * fixtures are never modified.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
+import { $ } from "bun";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../../helpers";
+
+const exists = (path: string) => fs.access(path).then(() => true).catch(() => false);
+
+describe("trash (JSONL)", () => {
+  let tempDir: string;
+  let root: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    root = join(tempDir, "store");
+    await fs.cp(FIXTURE_STORE_ROOT, root, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const deleteSession = async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --root ${root} --format json --yes`.quiet();
+    return JSON.parse(result.stdout.toString()).data;
+  };
+
+  it("moves deleted sessions into the trash by default", async () => {
+    const data = await deleteSession();
+
+    expect(data.trashId).toMatch(/^\d{8}-\d{6}-[0-9a-f]{6}$/);
+    expect(await exists(join(root, "trash", data.trashId, "manifest.json"))).toBe(true);
+  });
+
+  it("lists trash entries with the recorded command", async () => {
+    const { trashId } = await deleteSession();
+
+    const result = await $`bun src/bin/opencode-manager.ts trash list --root ${root} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data).toHaveLength(1);
+    expect(parsed.data[0].id).toBe(trashId);
+    expect(parsed.data[0].resourceIds).toEqual(["session_add_tests"]);
+    expect(parsed.data[0].command).toContain("sessions delete --session session_add_tests");
+  });
+
+  it("outputs a trash table", async () => {
+    await deleteSession();
+
+    const result = await $`bun src/bin/opencode-manager.ts trash list --root ${root}`.quiet();
+    const output = result.stdout.toString();
+
+    expect(output).toContain("Trash ID");
+    expect(output).toContain("session_add_tests");
+  });
+
+  it("restores a session by trash ID prefix", async () => {
+    const { trashId } = await deleteSession();
+
+    const result = await $`bun src/bin/opencode-manager.ts trash restore ${trashId.slice(0, 15)} --root ${root} --format json`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+    expect(parsed.data.trashId).toBe(trashId);
+
+    const sessions = await $`bun src/bin/opencode-manager.ts sessions list --global --root ${root} --format json`.quiet();
+    const ids = JSON.parse(sessions.stdout.toString()).data.map((s: { sessionId: string }) => s.sessionId);
+    expect(ids).toContain("session_add_tests");
+  });
+
+  it("returns exit code 3 for an unknown trash ID", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts trash restore nonexistent --root ${root} --format json`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(3);
+  });
+
+  it("deletes permanently with --permanent", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts sessions delete --session session_add_tests --root ${root} --format json --yes --permanent`.quiet();
+    const parsed = JSON.parse(result.stdout.toString());
+
+    expect(parsed.data.trashId).toBeUndefined();
+    expect(await exists(join(root, "trash"))).toBe(false);
+  });
+
+  it("requires --yes to purge", async () => {
+    await deleteSession();
+
+    const result = await $`bun src/bin/opencode-manager.ts trash purge --older-than 0m --root ${root} --format json`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+  });
+
+  it("purges entries older than the given duration", async () => {
+    await deleteSession();
+
+    const kept = await $`bun src/bin/opencode-manager.ts trash purge --older-than 7d --root ${root} --format json --yes`.quiet();
+    expect(JSON.parse(kept.stdout.toString()).data.count).toBe(0);
+
+    const purged = await $`bun src/bin/opencode-manager.ts trash purge --older-than 0m --root ${root} --format json --yes`.quiet();
+    expect(JSON.parse(purged.stdout.toString()).data.count).toBe(1);
+
+    const list = await $`bun src/bin/opencode-manager.ts trash list --root ${root} --format json`.quiet();
+    expect(JSON.parse(list.stdout.toString()).data).toEqual([]);
+  });
+
+  it("rejects a malformed --older-than", async () => {
+    const result = await $`bun src/bin/opencode-manager.ts trash purge --older-than soon --root ${root} --format json --yes`.quiet().nothrow();
+
+    expect(result.exitCode).toBe(2);
+  });
+});
+
+describe("trash (SQLite)", () => {
+  let tempDir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    dbPath = join(tempDir, "opencode.db");
+    await fs.copyFile(FIXTURE_SQLITE_PATH, dbPath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("restores a deleted project with its sessions", async () => {
+    const before = await $`bun src/bin/opencode-manager.ts sessions list --global --db ${dbPath} --format json`.quiet();
+    const sessionCount = JSON.parse(before.stdout.toString()).data.length;
+
+    const deleted = await $`bun src/bin/opencode-manager.ts projects delete --id proj_missing --db ${dbPath} --format json --yes`.quiet();
+    const { trashId } = JSON.parse(deleted.stdout.toString()).data;
+    expect(await exists(join(tempDir, "trash", trashId, "rows.json"))).toBe(true);
+
+    await $`bun src/bin/opencode-manager.ts trash restore ${trashId} --db ${dbPath} --format json`.quiet();
+
+    const after = await $`bun src/bin/opencode-manager.ts sessions list --global --db ${dbPath} --format json`.quiet();
+    expect(JSON.parse(after.stdout.toString()).data).toHaveLength(sessionCount);
+  });
+});
@@ -11,6 +11,7 @@ import {
   UsageError,
   NotFoundError,
   FileOperationError,
+  BudgetExceededError,
   requireConfirmation,
   projectNotFound,
   sessionNotFound,
@@ -42,6 +43,10 @@ describe("ExitCode", () => {
   it("should have FILE_ERROR as 4", () => {
     expect(ExitCode.FILE_ERROR).toBe(4)
   })
+
+  it("should have BUDGET_EXCEEDED as 5", () => {
+    expect(ExitCode.BUDGET_EXCEEDED).toBe(5)
+  })
 })
 
 // ========================
@@ -167,6 +172,20 @@ describe("FileOperationError", () => {
   })
 })
 
+// ========================
+// BudgetExceededError Tests
+// ========================
+
+describe("BudgetExceededError", () => {
+  it("should create error with exit code 5", () => {
+    const error = new BudgetExceededError("1 of 3 budget(s) exceeded")
+    expect(error.message).toBe("1 of 3 budget(s) exceeded")
+    expect(error.exitCode).toBe(ExitCode.BUDGET_EXCEEDED)
+    expect(error.name).toBe("BudgetExceededError")
+    expect(error instanceof CLIError).toBe(true)
+  })
+})
+
 // ========================
 // Validation Helper Tests
 // ========================
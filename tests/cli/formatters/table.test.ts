@@ -31,10 +31,13 @@ import {
   formatTokenBreakdownTable,
   formatTokenSummary,
   formatAggregateTokenSummary,
+  formatBudgetReport,
+  formatGroupedTokenSummary,
+  formatTokenTimeline,
   type ColumnDefinition,
   type TokenBreakdownRow,
 } from "../../../src/cli/formatters/table"
-import type { AggregateTokenSummary, ChatMessage, ProjectRecord, SessionRecord, TokenBreakdown, TokenSummary } from "../../../src/lib/opencode-data"
+import type { AggregateTokenSummary, ChatMessage, GroupedTokenSummary, ProjectRecord, SessionRecord, TokenBreakdown, TokenSummary, TokenTimeline } from "../../../src/lib/opencode-data"
 
 // ========================
 // Helper Test Data
@@ -1067,6 +1070,18 @@ describe("formatTokenSummary", () => {
     expect(result).toContain("Category")
     expect(result).toContain("Input")
     expect(result).toContain("Total")
+    expect(result).not.toContain("Cost")
+  })
+
+  it("should append recorded and estimated cost when computed", () => {
+    const summary: TokenSummary = {
+      kind: "known",
+      tokens: { input: 1000, output: 500, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 1500 },
+      cost: { recorded: 1.2, estimated: 0.005, total: 1.205, unpricedMessages: 2 },
+    }
+    const result = formatTokenSummary(summary)
+    expect(result).toContain("Cost: $1.21 (recorded $1.20, estimated $0.0050)")
+    expect(result).toContain("Note: 2 message(s) without a recorded cost or a configured price")
   })
 
   it("should format unknown summary with missing reason", () => {
@@ -1162,3 +1177,124 @@ describe("formatAggregateTokenSummary", () => {
     expect(result).toContain("Note: 5 session(s) with unavailable token data")
   })
 })
+
+// ========================
+// formatGroupedTokenSummary tests
+// ========================
+
+describe("formatGroupedTokenSummary", () => {
+  const breakdown = (input: number, output: number): TokenBreakdown => ({
+    input,
+    output,
+    reasoning: 0,
+    cacheRead: 0,
+    cacheWrite: 0,
+    total: input + output,
+  })
+  const grouped: GroupedTokenSummary = {
+    by: "model",
+    groups: [
+      { key: "anthropic/claude-sonnet-4", messages: 3, tokens: breakdown(6000, 1500), cost: { recorded: 0.2, estimated: 0, total: 0.2, unpricedMessages: 0 } },
+      { key: "openai/gpt-4o", messages: 1, tokens: breakdown(2000, 500), cost: { recorded: 0, estimated: 0, total: 0, unpricedMessages: 1 } },
+    ],
+    total: breakdown(8000, 2000),
+    unknownSessions: 2,
+  }
+
+  it("should list one row per group with its share of the total", () => {
+    const result = formatGroupedTokenSummary(grouped, { label: "Global" })
+    expect(result).toContain("Global by model")
+    expect(result).toContain("Model")
+    expect(result).toContain("anthropic/claude-sonnet-4")
+    expect(result).toContain("75.0%")
+    expect(result).toContain("25.0%")
+    expect(result).toContain("Cost: $0.20 (recorded $0.20, estimated $0.00)")
+    expect(result).toContain("Note: 2 session(s) with unavailable token data")
+  })
+
+  it("should say when there is no token data", () => {
+    const result = formatGroupedTokenSummary({ ...grouped, groups: [], total: breakdown(0, 0), unknownSessions: 0 })
+    expect(result).toContain("[No token data]")
+  })
+})
+
+// ========================
+// formatTokenTimeline tests
+// ========================
+
+describe("formatTokenTimeline", () => {
+  const noCost = { recorded: 0, estimated: 0, total: 0, unpricedMessages: 0 }
+  const row = (period: string, total: number) => ({
+    period,
+    start: new Date(`${period}T00:00:00Z`),
+    end: new Date(`${period}T00:00:00Z`),
+    messages: total > 0 ? 1 : 0,
+    tokens: { input: total, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total },
+    cost: noCost,
+  })
+  const timeline: TokenTimeline = {
+    bucket: "day",
+    since: null,
+    until: null,
+    rows: [row("2024-01-01", 1000), row("2024-01-02", 0), row("2024-01-03", 500)],
+    total: { input: 1500, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 1500 },
+    cost: noCost,
+    unknownSessions: 0,
+    undatedMessages: 2,
+  }
+
+  it("should scale bars to the busiest period", () => {
+    const lines = formatTokenTimeline(timeline, { label: "Global" }).split("\n")
+    const bar = (period: string) => (lines.find((line) => line.startsWith(period)) ?? "").split("█").length - 1
+
+    expect(lines[0]).toBe("Global by day")
+    expect(bar("2024-01-01")).toBe(30)
+    expect(bar("2024-01-02")).toBe(0)
+    expect(bar("2024-01-03")).toBe(15)
+    expect(lines).toContain("Total: 1.5K tokens in 2 message(s)")
+    expect(lines).toContain("Note: 2 message(s) without a creation time")
+  })
+
+  it("should say when there is no token data", () => {
+    expect(formatTokenTimeline({ ...timeline, rows: [] })).toContain("[No token data]")
+  })
+})
+
+// ========================
+// formatBudgetReport tests
+// ========================
+
+describe("formatBudgetReport", () => {
+  const status = {
+    budget: "weekly",
+    period: "week" as const,
+    periodLabel: "2024-W05",
+    start: new Date("2024-01-29T00:00:00Z"),
+    end: new Date("2024-02-05T00:00:00Z"),
+    store: null,
+    project: null,
+    tokens: 6_000_000,
+    cost: 12,
+    tokenLimit: 5_000_000,
+    costLimit: null,
+    used: 1.2,
+    exceeded: true,
+  }
+
+  it("should show usage against limits and count exceeded budgets", () => {
+    const result = formatBudgetReport({
+      at: new Date("2024-02-01T00:00:00Z"),
+      statuses: [status, { ...status, budget: "spend", store: "work", project: "proj_a", tokenLimit: null, costLimit: 20, used: 0.6, exceeded: false }],
+      exceeded: 1,
+    })
+    const lines = result.split("\n")
+
+    expect(lines.find((line) => line.startsWith("weekly"))).toMatch(/all projects .*2024-W05 .*6\.00M \/ 5\.00M .*- .*120\.0% .*OVER/)
+    expect(lines.find((line) => line.startsWith("spend"))).toMatch(/work: proj_a .*\$12\.00 \/ \$20\.00 .*60\.0% .*ok/)
+    expect(result).toContain("1 of 2 budget check(s) exceeded")
+  })
+
+  it("should say when no budgets are configured", () => {
+    expect(formatBudgetReport({ at: new Date(), statuses: [], exceeded: 0 })).toBe("[No budgets configured]")
+  })
+})
@@ -102,6 +102,24 @@ describe("CLI smoke tests", () => {
   });
 });
 
+describe("parseGlobalOptions backup flags", () => {
+  it("defaults to directory backups", () => {
+    const opts = parseGlobalOptions({});
+
+    expect(opts.backupArchive).toBe(false);
+    expect(opts.backupEncrypt).toBe(false);
+  });
+
+  it("--backup-encrypt implies --backup-archive", () => {
+    const opts = parseGlobalOptions({
+      backupEncrypt: true,
+    });
+
+    expect(opts.backupArchive).toBe(true);
+    expect(opts.backupEncrypt).toBe(true);
+  });
+});
+
 describe("parseGlobalOptions SQLite flags", () => {
   it("--experimental-sqlite flag is parsed correctly", () => {
     const opts = parseGlobalOptions({
@@ -155,6 +173,36 @@ describe("parseGlobalOptions SQLite flags", () => {
     expect(opts.sqliteStrict).toBe(true);
   });
 
+  it("--merged keeps --db as the SQLite half instead of switching backends", () => {
+    const opts = parseGlobalOptions({ merged: true, db: "/custom/path/opencode.db" });
+
+    expect(opts.merged).toBe(true);
+    expect(opts.experimentalSqlite).toBe(false);
+    expect(opts.dbPath).toBe("/custom/path/opencode.db");
+  });
+
+  it("--jsonl-strict flag is parsed correctly", () => {
+    expect(parseGlobalOptions({ jsonlStrict: true }).jsonlStrict).toBe(true);
+    expect(parseGlobalOptions({}).jsonlStrict).toBe(false);
+  });
+
+  it("--no-cache disables the index cache", () => {
+    expect(parseGlobalOptions({ cache: false }).cache).toBe(false);
+    expect(parseGlobalOptions({}).cache).toBe(true);
+  });
+
+  it("--concurrency is parsed as a number and falls back to the default when invalid", () => {
+    expect(parseGlobalOptions({ concurrency: "4" }).concurrency).toBe(4);
+    expect(parseGlobalOptions({}).concurrency).toBe(16);
+    expect(parseGlobalOptions({ concurrency: "0" }).concurrency).toBe(16);
+    expect(parseGlobalOptions({ concurrency: "abc" }).concurrency).toBe(16);
+  });
+
+  it("--snapshot flag is parsed correctly", () => {
+    expect(parseGlobalOptions({ snapshot: true }).snapshot).toBe(true);
+    expect(parseGlobalOptions({}).snapshot).toBe(false);
+  });
+
   it("--force-write flag is parsed correctly", () => {
     const opts = parseGlobalOptions({
       forceWrite: true,
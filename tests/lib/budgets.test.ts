@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test"
+import { budgetsForStore, checkBudgets, evaluateBudget } from "../../src/lib/budgets"
+import { createProvider } from "../../src/lib/opencode-data-provider"
+import { FIXTURE_STORE_ROOT } from "../helpers"
+
+// The fixture store's only assistant message with tokens (310) is from 2024-01-03
+const AT = new Date("2024-01-03T12:00:00Z")
+
+describe("budgetsForStore", () => {
+  test("keeps budgets without a store and those naming it", () => {
+    const budgets = {
+      all: { period: "month" as const, cost: 200 },
+      work: { period: "week" as const, tokens: 1000, store: "work" },
+      home: { period: "week" as const, tokens: 1000, store: "home" },
+    }
+
+    expect(Object.keys(budgetsForStore(budgets, "work"))).toEqual(["all", "work"])
+    expect(Object.keys(budgetsForStore(budgets, null))).toEqual(["all"])
+  })
+})
+
+describe("evaluateBudget", () => {
+  const provider = createProvider({ root: FIXTURE_STORE_ROOT })
+
+  test("sums the period that contains the given time", async () => {
+    const sessions = await provider.loadSessionRecords()
+
+    const [week] = await evaluateBudget("weekly", { period: "week", tokens: 1000 }, provider, sessions, AT)
+    expect(week).toMatchObject({
+      budget: "weekly",
+      periodLabel: "2024-W01",
+      start: new Date("2024-01-01T00:00:00Z"),
+      end: new Date("2024-01-08T00:00:00Z"),
+      project: null,
+      tokens: 310,
+      tokenLimit: 1000,
+      costLimit: null,
+      exceeded: false,
+    })
+    expect(week.used).toBeCloseTo(0.31)
+
+    const [nextDay] = await evaluateBudget("daily", { period: "day", tokens: 1 }, provider, sessions, new Date("2024-01-04T00:00:00Z"))
+    expect(nextDay).toMatchObject({ tokens: 0, used: 0, exceeded: false })
+  })
+
+  test("gives each project its own status with project *", async () => {
+    const sessions = await provider.loadSessionRecords()
+    const projects = [...new Set(sessions.map((session) => session.projectId))].sort()
+
+    const statuses = await evaluateBudget("each", { period: "month", tokens: 300, project: "*" }, provider, sessions, AT)
+
+    expect(statuses.map((status) => status.project)).toEqual(projects)
+    expect(statuses.filter((status) => status.exceeded).map((status) => status.tokens)).toEqual([310])
+  })
+
+  test("skips sessions last updated before the period", async () => {
+    const sessions = await provider.loadSessionRecords()
+    const timelineSessions: string[][] = []
+    const recording = {
+      ...provider,
+      computeTokenTimeline: (...args: Parameters<typeof provider.computeTokenTimeline>) => {
+        timelineSessions.push(args[0].map((session) => session.sessionId))
+        return provider.computeTokenTimeline(...args)
+      },
+    }
+
+    const statuses = await evaluateBudget(
+      "each",
+      { period: "month", tokens: 300, project: "*" },
+      recording,
+      sessions,
+      new Date("2030-01-15T00:00:00Z")
+    )
+
+    expect(timelineSessions).toEqual([])
+    expect(statuses.length).toBe(new Set(sessions.map((session) => session.projectId)).size)
+    expect(statuses.every((status) => status.tokens === 0 && !status.exceeded)).toBe(true)
+  })
+})
+
+describe("checkBudgets", () => {
+  test("counts exceeded statuses and loads each store's sessions once", async () => {
+    const provider = createProvider({ root: FIXTURE_STORE_ROOT })
+    let loads = 0
+    const counting = {
+      ...provider,
+      loadSessionRecords: async () => {
+        loads += 1
+        return provider.loadSessionRecords()
+      },
+    }
+
+    const report = await checkBudgets(
+      { small: { period: "day", tokens: 100 }, large: { period: "month", tokens: 1_000_000 } },
+      () => counting,
+      AT
+    )
+
+    expect(report.statuses.map((status) => [status.budget, status.exceeded])).toEqual([
+      ["small", true],
+      ["large", false],
+    ])
+    expect(report.exceeded).toBe(1)
+    expect(loads).toBe(1)
+  })
+})
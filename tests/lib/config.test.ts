@@ -0,0 +1,247 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test"
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { homedir, tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+  ConfigError,
+  configEnvVar,
+  describeStoreLocation,
+  listSettings,
+  listStores,
+  loadUserConfig,
+  normalizeConfigKey,
+  parseConfigValue,
+  resolveSetting,
+  resolveStore,
+  resolveTuiPreferences,
+  setConfigValue,
+  unsetConfigValue,
+} from "../../src/lib/config"
+import { DEFAULT_ROOT } from "../../src/lib/opencode-data"
+import { DEFAULT_SQLITE_PATH } from "../../src/lib/opencode-data-sqlite"
+
+describe("loadUserConfig", () => {
+  let dir: string
+  let configPath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "oc-manager-config-"))
+    configPath = join(dir, "config.json")
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const writeConfig = (value: unknown) => writeFileSync(configPath, typeof value === "string" ? value : JSON.stringify(value))
+
+  test("treats a missing file as an empty registry", () => {
+    expect(loadUserConfig(configPath)).toEqual({ settings: {}, stores: {}, pricing: {}, budgets: {} })
+  })
+
+  test("expands ~ and resolves relative paths against the config directory", () => {
+    writeConfig({
+      stores: {
+        home: { backend: "sqlite", db: "~/data/opencode.db" },
+        local: { backend: "jsonl", root: "stores/local", strict: true },
+      },
+    })
+
+    const { stores } = loadUserConfig(configPath)
+
+    expect(stores.home.db).toBe(join(homedir(), "data", "opencode.db"))
+    expect(stores.local).toEqual({ backend: "jsonl", root: join(dir, "stores", "local"), db: undefined, strict: true })
+  })
+
+  test("rejects an unknown backend", () => {
+    writeConfig({ stores: { bad: { backend: "postgres" } } })
+
+    expect(() => loadUserConfig(configPath)).toThrow(ConfigError)
+    expect(() => loadUserConfig(configPath)).toThrow('Invalid store "bad"')
+  })
+
+  test("rejects malformed JSON and non-boolean strictness", () => {
+    writeConfig("{ not json")
+    expect(() => loadUserConfig(configPath)).toThrow("Failed to read config file")
+
+    writeConfig({ stores: { loose: { backend: "jsonl", strict: "yes" } } })
+    expect(() => loadUserConfig(configPath)).toThrow("strict must be true or false")
+  })
+
+  test("reads model prices and rejects incomplete or invalid ones", () => {
+    writeConfig({ pricing: { "anthropic/claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3 } } })
+    expect(loadUserConfig(configPath).pricing).toEqual({
+      "anthropic/claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3 },
+    })
+
+    writeConfig({ pricing: { "gpt-4o": { input: 2.5 } } })
+    expect(() => loadUserConfig(configPath)).toThrow('Invalid price for "gpt-4o"')
+
+    writeConfig({ pricing: { "gpt-4o": { input: 2.5, output: -1 } } })
+    expect(() => loadUserConfig(configPath)).toThrow("output must be a non-negative number")
+
+    writeConfig({ pricing: { "gpt-4o": { input: 2.5, output: 10, images: 1 } } })
+    expect(() => loadUserConfig(configPath)).toThrow('unknown field "images"')
+  })
+
+  test("reads budgets and rejects invalid ones", () => {
+    writeConfig({
+      stores: { work: { backend: "sqlite" } },
+      budgets: { weekly: { period: "week", tokens: 5_000_000, project: "*" }, spend: { period: "month", cost: 200, store: "work" } },
+    })
+    expect(loadUserConfig(configPath).budgets).toEqual({
+      weekly: { period: "week", tokens: 5_000_000, project: "*" },
+      spend: { period: "month", cost: 200, store: "work" },
+    })
+
+    writeConfig({ budgets: { yearly: { period: "year", tokens: 1 } } })
+    expect(() => loadUserConfig(configPath)).toThrow("period must be one of day, week, month")
+
+    writeConfig({ budgets: { empty: { period: "day" } } })
+    expect(() => loadUserConfig(configPath)).toThrow("set tokens, cost or both")
+
+    writeConfig({ budgets: { free: { period: "day", cost: 0 } } })
+    expect(() => loadUserConfig(configPath)).toThrow("cost must be a positive number")
+
+    writeConfig({ budgets: { home: { period: "day", tokens: 1, store: "home" } } })
+    expect(() => loadUserConfig(configPath)).toThrow('Invalid budget "home"')
+  })
+})
+
+describe("settings", () => {
+  let dir: string
+  let configPath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "oc-manager-config-"))
+    configPath = join(dir, "config.json")
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test("reads defaults and TUI preferences, resolving paths against the config directory", () => {
+    writeFileSync(configPath, JSON.stringify({ defaults: { format: "json", backupDir: "backups" }, tui: { showHelp: false } }))
+
+    expect(loadUserConfig(configPath).settings).toEqual({
+      format: "json",
+      backupDir: join(dir, "backups"),
+      "tui.showHelp": false,
+    })
+  })
+
+  test("rejects unknown settings and values of the wrong kind", () => {
+    writeFileSync(configPath, JSON.stringify({ defaults: { colour: "red" } }))
+    expect(() => loadUserConfig(configPath)).toThrow('Unknown setting "colour"')
+
+    writeFileSync(configPath, JSON.stringify({ defaults: { format: "yaml" } }))
+    expect(() => loadUserConfig(configPath)).toThrow("expected json | ndjson | table")
+
+    writeFileSync(configPath, JSON.stringify({ tui: { tab: "chat" } }))
+    expect(() => loadUserConfig(configPath)).toThrow(ConfigError)
+  })
+
+  test("names keys in flag style and maps them to environment variables", () => {
+    expect(normalizeConfigKey("backup-dir")).toBe("backupDir")
+    expect(normalizeConfigKey("tui.showHelp")).toBe("tui.showHelp")
+    expect(() => normalizeConfigKey("colour")).toThrow('Unknown config key "colour"')
+    expect(configEnvVar("backupDir")).toBe("OPENCODE_MANAGER_BACKUP_DIR")
+    expect(configEnvVar("tui.showHelp")).toBe("OPENCODE_MANAGER_TUI_SHOW_HELP")
+  })
+
+  test("parses text values by kind", () => {
+    expect(parseConfigValue("limit", "25")).toBe(25)
+    expect(parseConfigValue("quiet", "yes")).toBe(true)
+    expect(parseConfigValue("cache", "off")).toBe(false)
+    expect(parseConfigValue("dbPath", "data/opencode.db", dir)).toBe(join(dir, "data", "opencode.db"))
+    expect(() => parseConfigValue("limit", "0")).toThrow("expected positive integer")
+    expect(() => parseConfigValue("sort", "name")).toThrow("expected updated | created")
+  })
+
+  test("prefers environment variables over the config file", () => {
+    const config = { settings: { format: "json" as const, limit: 10 }, stores: {}, pricing: {}, budgets: {} }
+    const env = { OPENCODE_MANAGER_FORMAT: "ndjson" }
+
+    expect(resolveSetting("format", config, env)).toEqual({ value: "ndjson", source: "env" })
+    expect(resolveSetting("limit", config, env)).toEqual({ value: 10, source: "config" })
+    expect(resolveSetting("sort", config, env)).toBeUndefined()
+    expect(() => resolveSetting("limit", config, { OPENCODE_MANAGER_LIMIT: "many" })).toThrow(ConfigError)
+
+    const listed = listSettings({ sort: "updated" }, config, env)
+    expect(listed.find((setting) => setting.key === "sort")).toEqual({
+      key: "sort",
+      value: "updated",
+      source: "default",
+      envVar: "OPENCODE_MANAGER_SORT",
+    })
+    expect(listed.find((setting) => setting.key === "store")?.value).toBeNull()
+  })
+
+  test("applies TUI preferences over the built-in defaults", () => {
+    const config = { settings: { "tui.tab": "sessions" as const }, stores: {}, pricing: {}, budgets: {} }
+
+    expect(resolveTuiPreferences(config, { OPENCODE_MANAGER_TUI_SHOW_HELP: "false" })).toEqual({
+      showHelp: false,
+      tab: "sessions",
+      sessionSort: "updated",
+    })
+  })
+
+  test("sets and unsets values while keeping the rest of the file", () => {
+    writeFileSync(configPath, JSON.stringify({ stores: { work: { backend: "sqlite" } } }))
+
+    expect(setConfigValue("format", "json", configPath)).toBe("json")
+    expect(setConfigValue("tui.showHelp", "false", configPath)).toBe(false)
+    expect(() => setConfigValue("limit", "-1", configPath)).toThrow(ConfigError)
+    expect(JSON.parse(readFileSync(configPath, "utf8"))).toEqual({
+      stores: { work: { backend: "sqlite" } },
+      defaults: { format: "json" },
+      tui: { showHelp: false },
+    })
+
+    expect(unsetConfigValue("format", configPath)).toBe(true)
+    expect(unsetConfigValue("format", configPath)).toBe(false)
+    expect(loadUserConfig(configPath).settings).toEqual({ "tui.showHelp": false })
+  })
+
+  test("creates the config directory when setting a value", () => {
+    const nestedPath = join(dir, "nested", "config.json")
+
+    setConfigValue("limit", "50", nestedPath)
+
+    expect(loadUserConfig(nestedPath).settings).toEqual({ limit: 50 })
+  })
+})
+
+describe("store registry", () => {
+  const config = {
+    settings: {},
+    stores: {
+      work: { backend: "sqlite" as const, db: "/data/work.db", strict: true },
+      both: { backend: "merged" as const },
+    },
+    pricing: {},
+    budgets: {},
+  }
+
+  test("lists stores by name with defaults applied", () => {
+    const stores = listStores(config)
+
+    expect(stores.map((store) => store.name)).toEqual(["both", "work"])
+    expect(stores[0]).toEqual({ name: "both", backend: "merged", root: DEFAULT_ROOT, dbPath: DEFAULT_SQLITE_PATH, strict: false })
+    expect(describeStoreLocation(stores[0])).toBe(`${DEFAULT_ROOT} + ${DEFAULT_SQLITE_PATH}`)
+    expect(describeStoreLocation(stores[1])).toBe("/data/work.db")
+  })
+
+  test("resolves a store by name and names the known stores otherwise", () => {
+    expect(resolveStore("work", config).dbPath).toBe("/data/work.db")
+    expect(() => resolveStore("home", config)).toThrow('Unknown store "home". Known stores: both, work')
+  })
+
+  test("does not resolve Object.prototype members as stores", () => {
+    for (const name of ["constructor", "toString", "__proto__"]) {
+      expect(() => resolveStore(name, config)).toThrow(`Unknown store "${name}"`)
+    }
+  })
+})
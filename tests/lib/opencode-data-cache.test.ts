@@ -0,0 +1,143 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test"
+import { promises as fs } from "node:fs"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import {
+  clearIndexCache,
+  configureIndexCache,
+  flushIndexCache,
+  getIndexCacheStats,
+} from "../../src/lib/opencode-data-cache"
+import {
+  clearTokenCache,
+  computeGlobalTokenSummary,
+  computeSessionTokenSummary,
+  loadSessionChatIndex,
+  loadSessionRecords,
+} from "../../src/lib/opencode-data"
+import { createProvider } from "../../src/lib/opencode-data-provider"
+import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../helpers"
+
+describe("index cache", () => {
+  let tempDir: string
+  let root: string
+  let cachePath: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "oc-manager-cache-"))
+    root = join(tempDir, "store")
+    cachePath = join(tempDir, "cache", "index.db")
+    await fs.cp(FIXTURE_STORE_ROOT, root, { recursive: true })
+    configureIndexCache(cachePath)
+  })
+
+  afterEach(async () => {
+    configureIndexCache(null)
+    clearTokenCache()
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  const sessionPath = () => join(root, "storage", "session", "proj_present", "session_add_tests.json")
+
+  test("stores session records, message indexes and token summaries", async () => {
+    const sessions = await loadSessionRecords({ root })
+    await loadSessionChatIndex("session_add_tests", root)
+    await computeGlobalTokenSummary(sessions, root)
+    flushIndexCache()
+
+    const stats = getIndexCacheStats(cachePath)
+    expect(stats.exists).toBe(true)
+    expect(stats.entries).toEqual({ project: 0, session: 2, messages: 1, tokens: 2, stats: 0 })
+    expect(stats.stores).toEqual([{ store: root, entries: 5 }])
+  })
+
+  test("returns the same records from the cache", async () => {
+    const fresh = await loadSessionRecords({ root })
+    const freshMessages = await loadSessionChatIndex("session_add_tests", root)
+    flushIndexCache()
+
+    expect(await loadSessionRecords({ root })).toEqual(fresh)
+    expect(await loadSessionChatIndex("session_add_tests", root)).toEqual(freshMessages)
+  })
+
+  test("re-reads files whose mtime or size changed", async () => {
+    await loadSessionRecords({ root })
+    flushIndexCache()
+
+    const payload = JSON.parse(await fs.readFile(sessionPath(), "utf8"))
+    payload.title = "Renamed while cached"
+    await fs.writeFile(sessionPath(), JSON.stringify(payload))
+
+    const sessions = await loadSessionRecords({ root })
+    expect(sessions.find((s) => s.sessionId === "session_add_tests")?.title).toBe("Renamed while cached")
+  })
+
+  test("recomputes token summaries when a message file is rewritten in place", async () => {
+    const session = (await loadSessionRecords({ root })).find((s) => s.sessionId === "session_add_tests")!
+    const before = await computeSessionTokenSummary(session, root)
+    flushIndexCache()
+    clearTokenCache()
+
+    const messagePath = join(root, "storage", "message", "session_add_tests", "msg_assistant_01.json")
+    const payload = JSON.parse(await fs.readFile(messagePath, "utf8"))
+    payload.tokens.input = 9999
+    await fs.writeFile(messagePath, JSON.stringify(payload, null, 2))
+
+    const after = await computeSessionTokenSummary(session, root)
+    expect(before.kind === "known" && before.tokens.input).toBe(150)
+    expect(after.kind === "known" && after.tokens.input).toBe(9999)
+  })
+
+  test("prunes entries for deleted files on a full scan", async () => {
+    await loadSessionRecords({ root })
+    flushIndexCache()
+    await fs.rm(sessionPath())
+
+    await loadSessionRecords({ root })
+    flushIndexCache()
+
+    expect(getIndexCacheStats(cachePath).entries.session).toBe(1)
+  })
+
+  test("keys SQLite token summaries by the database path", async () => {
+    const provider = createProvider({ backend: "sqlite", dbPath: FIXTURE_SQLITE_PATH })
+    const sessions = await provider.loadSessionRecords()
+    const first = await provider.computeGlobalTokenSummary(sessions)
+    flushIndexCache()
+
+    expect(getIndexCacheStats(cachePath).stores).toEqual([{ store: FIXTURE_SQLITE_PATH, entries: sessions.length }])
+    expect(await provider.computeGlobalTokenSummary(sessions)).toEqual(first)
+  })
+
+  test("keeps SQLite session stats with their dates", async () => {
+    const provider = createProvider({ backend: "sqlite", dbPath: FIXTURE_SQLITE_PATH })
+    const sessions = await provider.loadSessionRecords()
+    const first = await provider.enrichSessionRecords(sessions)
+    flushIndexCache()
+
+    expect(getIndexCacheStats(cachePath).entries.stats).toBe(sessions.length)
+    const second = await provider.enrichSessionRecords(sessions)
+    expect(second).toEqual(first)
+    expect(second.some((session) => session.stats?.lastMessageAt instanceof Date)).toBe(true)
+  })
+
+  test("does not touch disk when disabled", async () => {
+    configureIndexCache(null)
+    await loadSessionRecords({ root })
+    flushIndexCache()
+
+    expect(getIndexCacheStats(cachePath).exists).toBe(false)
+  })
+
+  test("clear removes the cache file", async () => {
+    await loadSessionRecords({ root })
+    flushIndexCache()
+
+    const result = await clearIndexCache(cachePath)
+
+    expect(result.removed).toBe(true)
+    expect(result.sizeBytes).toBeGreaterThan(0)
+    expect(getIndexCacheStats(cachePath).exists).toBe(false)
+    expect((await clearIndexCache(cachePath)).removed).toBe(false)
+  })
+})
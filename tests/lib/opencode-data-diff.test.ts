@@ -0,0 +1,95 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test"
+import { promises as fs } from "node:fs"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import { countStoreDifferences, diffStores } from "../../src/lib/opencode-data-diff"
+import { migrateJsonlToSqlite } from "../../src/lib/opencode-data-migrate"
+import { createProvider } from "../../src/lib/opencode-data-provider"
+import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../helpers"
+
+describe("diffStores", () => {
+  let tempDir: string
+  let root: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "oc-manager-diff-"))
+    root = join(tempDir, "store")
+    await fs.cp(FIXTURE_STORE_ROOT, root, { recursive: true })
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  const jsonl = (path: string) => createProvider({ backend: "jsonl", root: path })
+
+  test("reports no differences between identical roots", async () => {
+    const report = await diffStores(jsonl(FIXTURE_STORE_ROOT), jsonl(root))
+
+    expect(report.differences).toEqual([])
+    expect(report.compared).toEqual({ project: 2, session: 2, message: 2, part: 4 })
+    expect(report.right).toEqual({ backend: "jsonl", location: root })
+  })
+
+  test("reports title and timestamp mismatches", async () => {
+    const sessionPath = join(root, "storage", "session", "proj_present", "session_add_tests.json")
+    const payload = JSON.parse(await fs.readFile(sessionPath, "utf8"))
+    payload.title = "Renamed"
+    payload.time.updated = payload.time.updated + 1000
+    await fs.writeFile(sessionPath, JSON.stringify(payload))
+
+    const report = await diffStores(jsonl(FIXTURE_STORE_ROOT), jsonl(root))
+
+    expect(report.differences.map((d) => [d.id, d.kind])).toEqual([
+      ["session_add_tests", "title"],
+      ["session_add_tests", "updated"],
+    ])
+    expect(report.differences[0].right).toBe("Renamed")
+  })
+
+  test("reports parts present on one side only", async () => {
+    await fs.rm(join(root, "storage", "part", "msg_assistant_01", "part_tool_01.json"))
+
+    const report = await diffStores(jsonl(FIXTURE_STORE_ROOT), jsonl(root))
+    const part = report.differences.find((d) => d.table === "part")
+
+    expect(part).toEqual({
+      table: "part",
+      id: "part_tool_01",
+      kind: "only-left",
+      sessionId: "session_add_tests",
+      left: "tool",
+      right: null,
+    })
+    expect(report.compared.part).toBe(3)
+  })
+
+  test("compares a JSONL root with a SQLite database", async () => {
+    const sqlite = createProvider({ backend: "sqlite", dbPath: FIXTURE_SQLITE_PATH })
+    const report = await diffStores(jsonl(FIXTURE_STORE_ROOT), sqlite)
+
+    const onlyRight = report.differences.filter((d) => d.table === "session" && d.kind === "only-right")
+    expect(onlyRight.map((d) => d.id).sort()).toEqual([
+      "session_fork_parser",
+      "session_missing_proj_01",
+      "session_refactor_api",
+    ])
+    expect(report.differences.find((d) => d.kind === "tokens")?.id).toBe("session_parser_fix")
+    expect(countStoreDifferences(report.differences)).toEqual({ project: 0, session: 4, message: 4, part: 0 })
+  })
+
+  test("reports no differences between a store and its migration", async () => {
+    // A session without messages has an unknown total on both sides, for different reasons
+    await fs.writeFile(
+      join(root, "storage", "session", "proj_present", "session_empty.json"),
+      JSON.stringify({ id: "session_empty", projectID: "proj_present", title: "Empty", time: { created: 1704240000000, updated: 1704240000000 } })
+    )
+    const dbPath = join(tempDir, "migrated.db")
+    await migrateJsonlToSqlite({ root, dbPath })
+
+    const report = await diffStores(jsonl(root), createProvider({ backend: "sqlite", dbPath }))
+
+    expect(report.differences).toEqual([])
+    expect(report.compared.session).toBe(3)
+  })
+})
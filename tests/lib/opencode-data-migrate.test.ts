@@ -0,0 +1,292 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test"
+import { Database } from "bun:sqlite"
+import { promises as fs } from "node:fs"
+import { join, relative } from "node:path"
+import { tmpdir } from "node:os"
+import { migrateJsonlToSqlite, migrateSqliteToJsonl } from "../../src/lib/opencode-data-migrate"
+import { createSchema, inspectSchema } from "../../src/lib/opencode-data-sqlite"
+import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../helpers"
+
+const exists = (path: string) => fs.access(path).then(() => true).catch(() => false)
+
+describe("migrateJsonlToSqlite", () => {
+  let tempDir: string
+  let dbPath: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "oc-manager-migrate-"))
+    dbPath = join(tempDir, "migrated.db")
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  test("creates the schema and copies every record", async () => {
+    const result = await migrateJsonlToSqlite({ root: FIXTURE_STORE_ROOT, dbPath })
+
+    expect(result.tables.project.inserted).toBe(2)
+    expect(result.tables.session.inserted).toBe(2)
+    expect(result.tables.message.inserted).toBe(2)
+    expect(result.tables.part.inserted).toBe(4)
+    expect(result.conflicts).toEqual([])
+
+    const db = new Database(dbPath, { readonly: true })
+    expect(inspectSchema(db)).toEqual({ missingTables: [], missingColumns: {} })
+    const part = db.query("SELECT message_id, session_id FROM part WHERE id = 'part_tool_01'").get()
+    db.close()
+    expect(part).toEqual({ message_id: "msg_assistant_01", session_id: "session_add_tests" })
+  })
+
+  test("preserves the raw payload in the data column", async () => {
+    await migrateJsonlToSqlite({ root: FIXTURE_STORE_ROOT, dbPath })
+
+    const source = JSON.parse(
+      await fs.readFile(
+        join(FIXTURE_STORE_ROOT, "storage", "message", "session_add_tests", "msg_assistant_01.json"),
+        "utf8"
+      )
+    )
+    const db = new Database(dbPath, { readonly: true })
+    const row = db.query("SELECT data FROM message WHERE id = 'msg_assistant_01'").get() as { data: string }
+    db.close()
+    expect(JSON.parse(row.data)).toEqual(source)
+  })
+
+  test("verification matches counts and token totals", async () => {
+    const result = await migrateJsonlToSqlite({ root: FIXTURE_STORE_ROOT, dbPath })
+
+    expect(result.verification?.ok).toBe(true)
+    expect(result.verification?.mismatches).toEqual([])
+    expect(result.verification?.counts.part).toEqual({ expected: 4, actual: 4 })
+    expect(result.verification?.tokens.actual).toEqual(result.verification!.tokens.expected)
+    expect(result.verification?.tokens.expected.total).toBeGreaterThan(0)
+  })
+
+  test("reports progress once per session", async () => {
+    const progress: number[] = []
+    await migrateJsonlToSqlite({
+      root: FIXTURE_STORE_ROOT,
+      dbPath,
+      onProgress: ({ sessionsDone }) => progress.push(sessionsDone),
+    })
+    expect(progress).toEqual([1, 2])
+  })
+
+  test("dry run does not create the database", async () => {
+    const result = await migrateJsonlToSqlite({ root: FIXTURE_STORE_ROOT, dbPath, dryRun: true })
+
+    expect(result.dryRun).toBe(true)
+    expect(result.verification).toBeNull()
+    expect(result.tables.session.inserted).toBe(2)
+    expect(await exists(dbPath)).toBe(false)
+  })
+
+  test("dry run lists conflicts without writing", async () => {
+    await migrateJsonlToSqlite({ root: FIXTURE_STORE_ROOT, dbPath })
+    const result = await migrateJsonlToSqlite({ root: FIXTURE_STORE_ROOT, dbPath, dryRun: true })
+
+    expect(result.conflicts.length).toBe(10)
+    expect(result.conflicts[0]).toEqual({ table: "project", id: "proj_missing" })
+  })
+
+  test("fails on conflict by default and rolls back", async () => {
+    const db = new Database(dbPath)
+    createSchema(db)
+    db.run("INSERT INTO session (id, project_id, data) VALUES ('session_add_tests', 'other', '{}')")
+    db.close()
+
+    await expect(migrateJsonlToSqlite({ root: FIXTURE_STORE_ROOT, dbPath })).rejects.toThrow(
+      /session "session_add_tests" already exists/
+    )
+
+    const check = new Database(dbPath, { readonly: true })
+    const projects = check.query("SELECT COUNT(*) as count FROM project").get() as { count: number }
+    check.close()
+    expect(projects.count).toBe(0)
+  })
+
+  test("skip mode keeps existing rows", async () => {
+    const db = new Database(dbPath)
+    createSchema(db)
+    db.run("INSERT INTO session (id, project_id, data) VALUES ('session_add_tests', 'other', '{}')")
+    db.close()
+
+    const result = await migrateJsonlToSqlite({ root: FIXTURE_STORE_ROOT, dbPath, onConflict: "skip" })
+
+    expect(result.tables.session).toMatchObject({ inserted: 1, skipped: 1 })
+    const check = new Database(dbPath, { readonly: true })
+    const row = check.query("SELECT project_id FROM session WHERE id = 'session_add_tests'").get()
+    check.close()
+    expect(row).toEqual({ project_id: "other" })
+  })
+
+  test("overwrite mode replaces existing rows", async () => {
+    const db = new Database(dbPath)
+    createSchema(db)
+    db.run("INSERT INTO session (id, project_id, data) VALUES ('session_add_tests', 'other', '{}')")
+    db.close()
+
+    const result = await migrateJsonlToSqlite({ root: FIXTURE_STORE_ROOT, dbPath, onConflict: "overwrite" })
+
+    expect(result.tables.session).toMatchObject({ inserted: 1, overwritten: 1 })
+    expect(result.verification?.ok).toBe(true)
+    const check = new Database(dbPath, { readonly: true })
+    const row = check.query("SELECT project_id FROM session WHERE id = 'session_add_tests'").get()
+    check.close()
+    expect(row).toEqual({ project_id: "proj_present" })
+  })
+
+  test("rejects a target with an incompatible schema", async () => {
+    const db = new Database(dbPath)
+    db.run("CREATE TABLE session (id TEXT PRIMARY KEY)")
+    db.close()
+
+    await expect(migrateJsonlToSqlite({ root: FIXTURE_STORE_ROOT, dbPath })).rejects.toThrow(/incompatible/)
+  })
+
+  test("reports malformed message and part files as warnings", async () => {
+    const root = join(tempDir, "store")
+    await fs.cp(FIXTURE_STORE_ROOT, root, { recursive: true })
+    const badMessage = join(root, "storage", "message", "session_add_tests", "msg_broken.json")
+    const badPart = join(root, "storage", "part", "msg_assistant_01", "part_broken.json")
+    await fs.writeFile(badMessage, "{ not json")
+    await fs.writeFile(badPart, JSON.stringify({ type: "text" }))
+
+    const result = await migrateJsonlToSqlite({ root, dbPath })
+
+    expect(result.tables.message.inserted).toBe(2)
+    expect(result.tables.part.inserted).toBe(4)
+    expect(result.warnings.length).toBe(2)
+    expect(result.warnings.some((w) => w.includes(badMessage))).toBe(true)
+    expect(result.warnings.some((w) => w.includes(badPart) && w.includes("missing id"))).toBe(true)
+  })
+})
+
+describe("migrateSqliteToJsonl", () => {
+  let tempDir: string
+  let root: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "oc-manager-export-"))
+    root = join(tempDir, "snapshot")
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  const listJson = async (dir: string): Promise<string[]> => {
+    const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true })
+    return entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+      .map((entry) => relative(dir, join(entry.parentPath, entry.name)))
+      .sort()
+  }
+
+  test("writes every row into the JSONL layout", async () => {
+    const result = await migrateSqliteToJsonl({ dbPath: FIXTURE_SQLITE_PATH, root })
+
+    expect(result.tables.project.inserted).toBe(2)
+    expect(result.tables.session.inserted).toBe(5)
+    expect(result.tables.message.inserted).toBe(10)
+    expect(result.tables.part.inserted).toBe(20)
+    expect(result.warnings).toEqual([])
+    expect(await exists(join(root, "storage", "message", "session_add_tests", "msg_user_01.json"))).toBe(true)
+  })
+
+  test("verification matches counts and token totals", async () => {
+    const result = await migrateSqliteToJsonl({ dbPath: FIXTURE_SQLITE_PATH, root })
+
+    expect(result.verification?.ok).toBe(true)
+    expect(result.verification?.counts.message).toEqual({ expected: 10, actual: 10 })
+    expect(result.verification?.tokens.expected.total).toBeGreaterThan(0)
+  })
+
+  test("fills id and time from columns when the data column lacks them", async () => {
+    const dbPath = join(tempDir, "bare.db")
+    const db = new Database(dbPath)
+    createSchema(db)
+    db.run("INSERT INTO project (id, data) VALUES ('proj_bare', '{}')")
+    db.run(
+      "INSERT INTO session (id, project_id, parent_id, created_at, updated_at, data) VALUES ('sess_bare', 'proj_bare', 'sess_parent', 1000, 2000, '{\"title\":\"Bare\"}')"
+    )
+    db.close()
+
+    await migrateSqliteToJsonl({ dbPath, root })
+
+    const payload = JSON.parse(
+      await fs.readFile(join(root, "storage", "session", "proj_bare", "sess_bare.json"), "utf8")
+    )
+    expect(payload).toEqual({
+      title: "Bare",
+      id: "sess_bare",
+      parentID: "sess_parent",
+      time: { created: 1000, updated: 2000 },
+    })
+  })
+
+  test("round-trips a JSONL store through SQLite unchanged", async () => {
+    const dbPath = join(tempDir, "roundtrip.db")
+    await migrateJsonlToSqlite({ root: FIXTURE_STORE_ROOT, dbPath })
+    await migrateSqliteToJsonl({ dbPath, root })
+
+    const sourceFiles = await listJson(join(FIXTURE_STORE_ROOT, "storage"))
+    expect(await listJson(join(root, "storage"))).toEqual(sourceFiles)
+    for (const file of sourceFiles) {
+      const original = JSON.parse(await fs.readFile(join(FIXTURE_STORE_ROOT, "storage", file), "utf8"))
+      const exported = JSON.parse(await fs.readFile(join(root, "storage", file), "utf8"))
+      expect(exported).toEqual(original)
+    }
+  })
+
+  test("reports malformed data columns as warnings", async () => {
+    const dbPath = join(tempDir, "malformed.db")
+    const db = new Database(dbPath)
+    createSchema(db)
+    db.run("INSERT INTO project (id, data) VALUES ('proj_bad', '{not json')")
+    db.close()
+
+    const result = await migrateSqliteToJsonl({ dbPath, root })
+
+    expect(result.warnings.length).toBe(1)
+    expect(result.warnings[0]).toContain("proj_bad")
+    expect(await exists(join(root, "storage", "project", "proj_bad.json"))).toBe(true)
+  })
+
+  test("fails on conflict without writing anything", async () => {
+    await migrateSqliteToJsonl({ dbPath: FIXTURE_SQLITE_PATH, root })
+    await fs.rm(join(root, "storage", "part"), { recursive: true })
+
+    await expect(migrateSqliteToJsonl({ dbPath: FIXTURE_SQLITE_PATH, root })).rejects.toThrow(/already exists/)
+    expect(await exists(join(root, "storage", "part"))).toBe(false)
+  })
+
+  test("skip mode keeps existing files and excludes their sessions from token checks", async () => {
+    await migrateSqliteToJsonl({ dbPath: FIXTURE_SQLITE_PATH, root })
+    const sessionPath = join(root, "storage", "session", "proj_present", "session_add_tests.json")
+    await fs.writeFile(sessionPath, JSON.stringify({ id: "session_add_tests", title: "Local edit" }))
+
+    const result = await migrateSqliteToJsonl({ dbPath: FIXTURE_SQLITE_PATH, root, onConflict: "skip" })
+
+    expect(result.tables.session.skipped).toBe(5)
+    expect(result.verification?.ok).toBe(true)
+    expect(JSON.parse(await fs.readFile(sessionPath, "utf8")).title).toBe("Local edit")
+  })
+
+  test("overwrite mode rewrites existing files in place", async () => {
+    await migrateSqliteToJsonl({ dbPath: FIXTURE_SQLITE_PATH, root })
+    const sessionPath = join(root, "storage", "session", "proj_present", "session_add_tests.json")
+    await fs.writeFile(sessionPath, JSON.stringify({ id: "session_add_tests", title: "Local edit" }))
+
+    const result = await migrateSqliteToJsonl({ dbPath: FIXTURE_SQLITE_PATH, root, onConflict: "overwrite" })
+
+    expect(result.tables.session.overwritten).toBe(5)
+    expect(result.verification?.ok).toBe(true)
+    expect(JSON.parse(await fs.readFile(sessionPath, "utf8")).title).not.toBe("Local edit")
+  })
+
+  test("rejects a missing database", async () => {
+    await expect(migrateSqliteToJsonl({ dbPath: join(tempDir, "nope.db"), root })).rejects.toThrow(/not found/)
+  })
+})
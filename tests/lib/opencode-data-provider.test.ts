@@ -1,6 +1,6 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test"
 import { Database } from "bun:sqlite"
-import { existsSync, unlinkSync, mkdirSync } from "node:fs"
+import { existsSync, unlinkSync, mkdirSync, cpSync, copyFileSync, readFileSync, rmSync, writeFileSync } from "node:fs"
 import { join } from "node:path"
 import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../helpers"
 import {
@@ -9,6 +9,8 @@ import {
   type StorageBackend,
   type DataProvider,
 } from "../../src/lib/opencode-data-provider"
+import { MalformedRecordError, type JsonlWarning } from "../../src/lib/opencode-data"
+import { configurePricing } from "../../src/lib/pricing"
 
 describe("opencode-data-provider", () => {
   const testDir = "/tmp/oc-manager-provider-tests"
@@ -139,7 +141,7 @@ describe("opencode-data-provider", () => {
     test("throws on invalid backend value", () => {
       expect(() => {
         createProvider({ backend: "invalid" as StorageBackend })
-      }).toThrow('Invalid storage backend: "invalid". Must be "jsonl" or "sqlite".')
+      }).toThrow('Invalid storage backend: "invalid". Must be "jsonl", "sqlite" or "merged".')
     })
   })
 
@@ -199,12 +201,148 @@ describe("opencode-data-provider", () => {
     })
   })
 
+  describe("JSONL strict and warning modes", () => {
+    const storeRoot = join(testDir, "jsonl-store")
+    const brokenSession = join(storeRoot, "storage", "session", "proj_present", "session_parser_fix.json")
+
+    beforeEach(() => {
+      cpSync(FIXTURE_STORE_ROOT, storeRoot, { recursive: true })
+      writeFileSync(brokenSession, "{ not json")
+    })
+
+    afterEach(() => {
+      rmSync(storeRoot, { recursive: true, force: true })
+    })
+
+    test("reports each skipped file to onJsonlWarning", async () => {
+      const warnings: JsonlWarning[] = []
+      const provider = createProvider({ root: storeRoot, onJsonlWarning: (w) => warnings.push(w) })
+
+      const sessions = await provider.loadSessionRecords()
+
+      expect(sessions.map((s) => s.sessionId)).toEqual(["session_add_tests"])
+      expect(warnings).toHaveLength(1)
+      expect(warnings[0].path).toBe(brokenSession)
+      expect(warnings[0].reason).toStartWith("invalid JSON")
+    })
+
+    test("throws MalformedRecordError in strict mode", async () => {
+      const provider = createProvider({ root: storeRoot, jsonlStrict: true })
+
+      const error = await provider.loadSessionRecords().catch((e) => e)
+
+      expect(error).toBeInstanceOf(MalformedRecordError)
+      expect(error.warning.path).toBe(brokenSession)
+    })
+
+    test("applies strict and warning modes to project deletes and orphan scans", async () => {
+      const warnings: JsonlWarning[] = []
+      const provider = createProvider({ root: storeRoot, onJsonlWarning: (w) => warnings.push(w) })
+      await provider.findOrphans()
+      expect(warnings.map((w) => w.path)).toEqual([brokenSession])
+
+      const strict = createProvider({ root: storeRoot, jsonlStrict: true })
+      const project = (await strict.loadProjectRecords()).find((p) => p.projectId === "proj_present")!
+      await expect(strict.deleteProjectMetadata([project], { dryRun: true })).rejects.toBeInstanceOf(MalformedRecordError)
+      await expect(strict.findOrphans()).rejects.toBeInstanceOf(MalformedRecordError)
+    })
+
+    test("createProviderFromGlobalOptions passes jsonlStrict through", async () => {
+      const provider = createProviderFromGlobalOptions({ root: storeRoot, jsonlStrict: true })
+
+      await expect(provider.loadSessionRecords()).rejects.toThrow(brokenSession)
+    })
+  })
+
+  describe("merged provider", () => {
+    const storeRoot = join(testDir, "merged-store")
+    const mergedDbPath = join(testDir, "merged.db")
+    const sessionPath = (id: string) => join(storeRoot, "storage", "session", "proj_present", `${id}.json`)
+
+    beforeEach(() => {
+      cpSync(FIXTURE_STORE_ROOT, storeRoot, { recursive: true })
+      copyFileSync(FIXTURE_SQLITE_PATH, mergedDbPath)
+      // Make the JSONL copy of session_add_tests newer than the SQLite row
+      const payload = JSON.parse(readFileSync(sessionPath("session_add_tests"), "utf8"))
+      payload.time.updated = Date.parse("2024-02-01T00:00:00Z")
+      writeFileSync(sessionPath("session_add_tests"), JSON.stringify(payload))
+    })
+
+    afterEach(() => {
+      rmSync(storeRoot, { recursive: true, force: true })
+      rmSync(mergedDbPath, { force: true })
+    })
+
+    const createMerged = () => createProvider({ backend: "merged", root: storeRoot, dbPath: mergedDbPath })
+
+    test("unions sessions, keeping the newer copy of duplicates", async () => {
+      const sessions = await createMerged().loadSessionRecords()
+
+      expect(sessions.map((s) => `${s.index}:${s.sessionId}:${s.source}`)).toEqual([
+        "1:session_add_tests:jsonl",
+        "2:session_fork_parser:sqlite",
+        "3:session_missing_proj_01:sqlite",
+        "4:session_refactor_api:sqlite",
+        "5:session_parser_fix:sqlite",
+      ])
+    })
+
+    test("unions projects by ID", async () => {
+      const projects = await createMerged().loadProjectRecords()
+
+      expect(projects.map((p) => p.projectId).sort()).toEqual(["proj_missing", "proj_present"])
+      expect(projects.every((p) => p.source === "jsonl" || p.source === "sqlite")).toBe(true)
+    })
+
+    test("routes chat loading to the store that owns the session", async () => {
+      const provider = createMerged()
+
+      const jsonlMessages = await provider.loadSessionChatIndex("session_add_tests")
+      const sqliteMessages = await provider.loadSessionChatIndex("session_parser_fix")
+
+      expect(jsonlMessages.map((m) => m.messageId)).toEqual(["msg_user_01", "msg_assistant_01"])
+      expect(sqliteMessages.map((m) => m.messageId)).toContain("msg_parser_user_02")
+      const parts = await provider.loadMessageParts(sqliteMessages[0].messageId)
+      expect(parts.length).toBeGreaterThan(0)
+    })
+
+    test("routes writes to the owning store", async () => {
+      const provider = createMerged()
+      const sessions = await provider.loadSessionRecords()
+      const jsonlSession = sessions.find((s) => s.sessionId === "session_add_tests")!
+      const sqliteSession = sessions.find((s) => s.sessionId === "session_parser_fix")!
+
+      expect(provider.ownerOf(jsonlSession).backend).toBe("jsonl")
+      expect(provider.ownerOf(sqliteSession).backend).toBe("sqlite")
+
+      await provider.updateSessionTitle(jsonlSession, "Renamed in JSONL")
+      await provider.updateSessionTitle(sqliteSession, "Renamed in SQLite")
+
+      expect(JSON.parse(readFileSync(sessionPath("session_add_tests"), "utf8")).title).toBe("Renamed in JSONL")
+      expect(JSON.parse(readFileSync(sessionPath("session_parser_fix"), "utf8")).title).not.toBe("Renamed in SQLite")
+      const db = new Database(mergedDbPath, { readonly: true })
+      const row = db
+        .query("SELECT json_extract(data, '$.title') AS title FROM session WHERE id = 'session_parser_fix'")
+        .get() as { title: string }
+      db.close()
+      expect(row.title).toBe("Renamed in SQLite")
+    })
+
+    test("createProviderFromGlobalOptions builds a merged provider", () => {
+      const provider = createProviderFromGlobalOptions({ merged: true, root: storeRoot, dbPath: mergedDbPath })
+
+      expect(provider.backend).toBe("merged")
+      expect(provider.location).toBe(`${storeRoot} + ${mergedDbPath}`)
+    })
+  })
+
   describe("DataProvider interface compliance", () => {
     test("JSONL provider implements all DataProvider methods", () => {
       const provider = createProvider({ backend: "jsonl" })
 
       // All required methods from DataProvider interface
       const requiredMethods = [
+        "ownerOf",
         "loadProjectRecords",
         "loadSessionRecords",
         "loadSessionChatIndex",
@@ -212,12 +350,22 @@ describe("opencode-data-provider", () => {
         "hydrateChatMessageParts",
         "deleteProjectMetadata",
         "deleteSessionMetadata",
+        "findOrphans",
+        "deleteOrphans",
+        "diagnose",
+        "listTrash",
+        "restoreTrash",
+        "purgeTrash",
         "updateSessionTitle",
         "moveSession",
         "copySession",
+        "exportSession",
+        "importSession",
         "computeSessionTokenSummary",
+        "computeSessionTokenSummaries",
         "computeProjectTokenSummary",
         "computeGlobalTokenSummary",
+        "enrichSessionRecords",
         "searchSessionsChat",
       ]
 
@@ -233,6 +381,7 @@ describe("opencode-data-provider", () => {
 
       // All required methods from DataProvider interface
       const requiredMethods = [
+        "ownerOf",
         "loadProjectRecords",
         "loadSessionRecords",
         "loadSessionChatIndex",
@@ -240,12 +389,22 @@ describe("opencode-data-provider", () => {
         "hydrateChatMessageParts",
         "deleteProjectMetadata",
         "deleteSessionMetadata",
+        "findOrphans",
+        "deleteOrphans",
+        "diagnose",
+        "listTrash",
+        "restoreTrash",
+        "purgeTrash",
         "updateSessionTitle",
         "moveSession",
         "copySession",
+        "exportSession",
+        "importSession",
         "computeSessionTokenSummary",
+        "computeSessionTokenSummaries",
         "computeProjectTokenSummary",
         "computeGlobalTokenSummary",
+        "enrichSessionRecords",
         "searchSessionsChat",
       ]
 
@@ -420,6 +579,377 @@ describe("opencode-data-provider", () => {
     })
   })
 
+  describe("copying sessions between providers", () => {
+    const storeRoot = join(testDir, "transfer-store")
+    const transferDbPath = join(testDir, "transfer.db")
+
+    beforeEach(() => {
+      cpSync(FIXTURE_STORE_ROOT, storeRoot, { recursive: true })
+      copyFileSync(FIXTURE_SQLITE_PATH, transferDbPath)
+    })
+
+    afterEach(() => {
+      rmSync(storeRoot, { recursive: true, force: true })
+      rmSync(transferDbPath, { force: true })
+    })
+
+    const findSession = async (provider: DataProvider, sessionId: string) =>
+      (await provider.loadSessionRecords()).find((s) => s.sessionId === sessionId)!
+
+    const chatShape = async (provider: DataProvider, sessionId: string) => {
+      const messages = await provider.loadSessionChatIndex(sessionId)
+      return Promise.all(messages.map(async (m) => `${m.role}:${(await provider.loadMessageParts(m.messageId)).length}`))
+    }
+
+    test("copies a JSONL session into a SQLite store with its messages and parts", async () => {
+      const jsonl = createProvider({ backend: "jsonl", root: storeRoot })
+      const sqlite = createProvider({ backend: "sqlite", dbPath: transferDbPath })
+      const source = await findSession(jsonl, "session_add_tests")
+
+      const copy = await sqlite.importSession(await jsonl.exportSession(source), "proj_missing")
+
+      expect(copy.sessionId).not.toBe("session_add_tests")
+      expect(copy.projectId).toBe("proj_missing")
+      expect(copy.title).toBe(source.title)
+      expect(await chatShape(sqlite, copy.sessionId)).toEqual(await chatShape(jsonl, source.sessionId))
+      const copied = await findSession(sqlite, copy.sessionId)
+      expect(await sqlite.computeSessionTokenSummary(copied)).toEqual(await jsonl.computeSessionTokenSummary(source))
+    })
+
+    test("copies a SQLite session into a JSONL store with remapped IDs", async () => {
+      const jsonl = createProvider({ backend: "jsonl", root: storeRoot })
+      const sqlite = createProvider({ backend: "sqlite", dbPath: transferDbPath })
+      const source = await findSession(sqlite, "session_parser_fix")
+
+      const copy = await jsonl.importSession(await sqlite.exportSession(source), "proj_present")
+
+      expect(existsSync(copy.filePath)).toBe(true)
+      expect(await chatShape(jsonl, copy.sessionId)).toEqual(await chatShape(sqlite, source.sessionId))
+      const sourceIds = new Set((await sqlite.loadSessionChatIndex(source.sessionId)).map((m) => m.messageId))
+      const copiedMessages = await jsonl.loadSessionChatIndex(copy.sessionId)
+      expect(copiedMessages.every((m) => !sourceIds.has(m.messageId) && m.sessionId === copy.sessionId)).toBe(true)
+    })
+
+    test("refuses to import into a snapshot", async () => {
+      const jsonl = createProvider({ backend: "jsonl", root: storeRoot })
+      const snapshot = createProvider({ backend: "sqlite", dbPath: transferDbPath, snapshot: true })
+      try {
+        const data = await jsonl.exportSession(await findSession(jsonl, "session_add_tests"))
+
+        await expect(snapshot.importSession(data, "proj_missing")).rejects.toThrow("Rerun without --snapshot")
+      } finally {
+        snapshot.releaseSnapshot()
+      }
+    })
+  })
+
+  describe("session stats", () => {
+    const storeRoot = join(testDir, "stats-store")
+    const messages = [
+      { id: "msg_1", role: "user", time: { created: 1_000 }, agent: "build", model: { providerID: "openai", modelID: "gpt-4o" } },
+      { id: "msg_2", role: "assistant", time: { created: 2_000 }, providerID: "openai", modelID: "gpt-4o", mode: "build", cost: 0.25 },
+      { id: "msg_3", role: "user", time: { created: 3_000 } },
+      { id: "msg_4", role: "assistant", time: { created: 4_000 }, providerID: "anthropic", modelID: "claude-sonnet-4", agent: "plan", cost: 0.5 },
+      { id: "msg_5", role: "assistant", time: { created: 5_000 }, providerID: "openai", modelID: "gpt-4o", mode: "build" },
+    ]
+    const expected = {
+      models: ["openai/gpt-4o", "anthropic/claude-sonnet-4"],
+      agents: ["build", "plan"],
+      messageCount: 5,
+      userTurns: 2,
+      cost: 0.75,
+      lastMessageAt: new Date(5_000),
+    }
+
+    afterEach(() => {
+      rmSync(storeRoot, { recursive: true, force: true })
+    })
+
+    test("JSONL provider derives stats from message files", async () => {
+      mkdirSync(join(storeRoot, "storage", "session", "proj_1"), { recursive: true })
+      mkdirSync(join(storeRoot, "storage", "message", "sess_1"), { recursive: true })
+      writeFileSync(
+        join(storeRoot, "storage", "session", "proj_1", "sess_1.json"),
+        JSON.stringify({ id: "sess_1", projectID: "proj_1", title: "Stats", time: { created: 1_000, updated: 5_000 } })
+      )
+      for (const message of messages) {
+        writeFileSync(
+          join(storeRoot, "storage", "message", "sess_1", `${message.id}.json`),
+          JSON.stringify({ ...message, sessionID: "sess_1" })
+        )
+      }
+
+      const provider = createProvider({ backend: "jsonl", root: storeRoot })
+      const [session] = await provider.enrichSessionRecords(await provider.loadSessionRecords())
+
+      expect(session.stats).toEqual(expected)
+    })
+
+    test("SQLite provider derives the same stats from message rows", async () => {
+      createTestDatabase(testDbPath)
+      const db = new Database(testDbPath)
+      db.run("INSERT INTO session (id, project_id, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?)", [
+        "sess_1",
+        "proj_1",
+        1_000,
+        5_000,
+        JSON.stringify({ id: "sess_1", projectID: "proj_1", title: "Stats" }),
+      ])
+      for (const message of messages) {
+        db.run("INSERT INTO message (id, session_id, created_at, data) VALUES (?, ?, ?, ?)", [
+          message.id,
+          "sess_1",
+          message.time.created,
+          JSON.stringify(message),
+        ])
+      }
+      db.close()
+
+      const provider = createProvider({ backend: "sqlite", dbPath: testDbPath })
+      const [session] = await provider.enrichSessionRecords(await provider.loadSessionRecords())
+
+      expect(session.stats).toEqual(expected)
+    })
+
+    test("plain session records carry no stats", async () => {
+      const provider = createProvider({ backend: "jsonl", root: FIXTURE_STORE_ROOT })
+      const sessions = await provider.loadSessionRecords()
+
+      expect(sessions.every((session) => session.stats === undefined)).toBe(true)
+    })
+  })
+
+  describe("token cost and grouping", () => {
+    const storeRoot = join(testDir, "cost-store")
+    const messages = [
+      { id: "msg_1", role: "user", time: { created: 1_000 } },
+      { id: "msg_2", role: "assistant", time: { created: 2_000 }, providerID: "openai", modelID: "gpt-4o", agent: "build", cost: 0.25, tokens: { input: 1000, output: 500 } },
+      { id: "msg_3", role: "assistant", time: { created: 3_000 }, providerID: "anthropic", modelID: "claude-sonnet-4", mode: "plan", cost: 0, tokens: { input: 1_000_000, output: 0 } },
+      { id: "msg_4", role: "assistant", time: { created: 4_000 }, providerID: "local", modelID: "llama", agent: "build", tokens: { input: 10, output: 5 } },
+      { id: "msg_5", role: "assistant", time: { created: 5_000 }, providerID: "openai", modelID: "gpt-4o", agent: "build", cost: 0.5, tokens: { input: 2000, output: 100, cache: { read: 300 } } },
+    ]
+    const expected = { recorded: 0.75, estimated: 3, total: 3.75, unpricedMessages: 1 }
+
+    const createJsonlStore = () => {
+      mkdirSync(join(storeRoot, "storage", "session", "proj_1"), { recursive: true })
+      mkdirSync(join(storeRoot, "storage", "message", "sess_1"), { recursive: true })
+      writeFileSync(
+        join(storeRoot, "storage", "session", "proj_1", "sess_1.json"),
+        JSON.stringify({ id: "sess_1", projectID: "proj_1", title: "Cost", time: { created: 1_000, updated: 5_000 } })
+      )
+      for (const message of messages) {
+        writeFileSync(
+          join(storeRoot, "storage", "message", "sess_1", `${message.id}.json`),
+          JSON.stringify({ ...message, sessionID: "sess_1" })
+        )
+      }
+      return createProvider({ backend: "jsonl", root: storeRoot })
+    }
+
+    const createSqliteStore = () => {
+      createTestDatabase(testDbPath)
+      const db = new Database(testDbPath)
+      db.run("INSERT INTO session (id, project_id, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?)", [
+        "sess_1",
+        "proj_1",
+        1_000,
+        5_000,
+        JSON.stringify({ id: "sess_1", projectID: "proj_1", title: "Cost" }),
+      ])
+      for (const message of messages) {
+        db.run("INSERT INTO message (id, session_id, created_at, data) VALUES (?, ?, ?, ?)", [
+          message.id,
+          "sess_1",
+          message.time.created,
+          JSON.stringify(message),
+        ])
+      }
+      db.close()
+      return createProvider({ backend: "sqlite", dbPath: testDbPath })
+    }
+
+    beforeEach(() => {
+      configurePricing({ "claude-sonnet-4": { input: 3, output: 15 } })
+    })
+
+    afterEach(() => {
+      configurePricing()
+      rmSync(storeRoot, { recursive: true, force: true })
+    })
+
+    test("JSONL provider sums recorded and estimated cost", async () => {
+      const provider = createJsonlStore()
+      const sessions = await provider.loadSessionRecords()
+      const summary = await provider.computeSessionTokenSummary(sessions[0])
+      const global = await provider.computeGlobalTokenSummary(sessions)
+
+      expect(summary.kind === "known" && summary.cost).toEqual(expected)
+      expect(global.cost).toEqual(expected)
+    })
+
+    test("SQLite provider sums the same cost from message rows", async () => {
+      const provider = createSqliteStore()
+      const sessions = await provider.loadSessionRecords()
+      const summary = await provider.computeSessionTokenSummary(sessions[0])
+      const global = await provider.computeGlobalTokenSummary(sessions)
+
+      expect(summary.kind === "known" && summary.cost).toEqual(expected)
+      expect(global.cost).toEqual(expected)
+    })
+
+    test("JSONL provider splits usage by model, provider and agent", async () => {
+      const provider = createJsonlStore()
+      const sessions = await provider.loadSessionRecords()
+
+      const byModel = await provider.computeGroupedTokenSummary(sessions, "model")
+      expect(byModel.groups.map((group) => [group.key, group.messages, group.tokens.total])).toEqual([
+        ["anthropic/claude-sonnet-4", 1, 1_000_000],
+        ["openai/gpt-4o", 2, 3900],
+        ["local/llama", 1, 15],
+      ])
+      expect(byModel.groups[0].cost).toEqual({ recorded: 0, estimated: 3, total: 3, unpricedMessages: 0 })
+      expect(byModel.total.total).toBe(1_003_915)
+      expect(byModel.unknownSessions).toBe(0)
+
+      const byAgent = await provider.computeGroupedTokenSummary(sessions, "agent")
+      expect(byAgent.groups.map((group) => group.key)).toEqual(["plan", "build"])
+      expect(byAgent.groups[1].cost).toEqual({ recorded: 0.75, estimated: 0, total: 0.75, unpricedMessages: 1 })
+
+      const byProvider = await provider.computeGroupedTokenSummary(sessions, "provider")
+      expect(byProvider.groups.map((group) => group.key)).toEqual(["anthropic", "openai", "local"])
+    })
+
+    test("SQLite provider groups in SQL with the same result", async () => {
+      const jsonl = createJsonlStore()
+      const sqlite = createSqliteStore()
+      const jsonlSessions = await jsonl.loadSessionRecords()
+      const sqliteSessions = await sqlite.loadSessionRecords()
+
+      for (const by of ["model", "provider", "agent"] as const) {
+        expect(await sqlite.computeGroupedTokenSummary(sqliteSessions, by)).toEqual(
+          await jsonl.computeGroupedTokenSummary(jsonlSessions, by)
+        )
+      }
+    })
+
+    test("SQLite provider buckets messages like the JSONL provider", async () => {
+      const jsonl = createJsonlStore()
+      const sqlite = createSqliteStore()
+      const options = { bucket: "day" as const, since: new Date(3_000), until: new Date(3 * 24 * 60 * 60 * 1000) }
+
+      const timeline = await jsonl.computeTokenTimeline(await jsonl.loadSessionRecords(), options)
+
+      expect(timeline.rows.map((row) => [row.period, row.messages])).toEqual([
+        ["1970-01-01", 3],
+        ["1970-01-02", 0],
+        ["1970-01-03", 0],
+      ])
+      expect(timeline.rows[0].cost).toEqual({ recorded: 0.5, estimated: 3, total: 3.5, unpricedMessages: 1 })
+      expect(await sqlite.computeTokenTimeline(await sqlite.loadSessionRecords(), options)).toEqual(timeline)
+    })
+
+    test("counts sessions without token data as unknown", async () => {
+      const provider = createProvider({ backend: "sqlite", dbPath: FIXTURE_SQLITE_PATH })
+      const sessions = await provider.loadSessionRecords()
+      const aggregate = await provider.computeGlobalTokenSummary(sessions)
+
+      const grouped = await provider.computeGroupedTokenSummary(sessions, "model")
+
+      expect(grouped.total).toEqual(aggregate.knownOnly!)
+      expect(grouped.unknownSessions).toBe(aggregate.unknownSessions!)
+
+      const timeline = await provider.computeTokenTimeline(sessions, { bucket: "month" })
+      expect(timeline.total).toEqual(aggregate.knownOnly!)
+      expect(timeline.unknownSessions).toBe(aggregate.unknownSessions!)
+    })
+  })
+
+  describe("bulk token summaries", () => {
+    const assistant = (id: string, tokens?: object) =>
+      JSON.stringify({ id, role: "assistant", providerID: "openai", modelID: "gpt-4o", cost: 0.25, ...(tokens ? { tokens } : {}) })
+    const rows = [
+      ["sess_known", "msg_1", JSON.stringify({ id: "msg_1", role: "user" })],
+      ["sess_known", "msg_2", assistant("msg_2", { input: 100, output: 50 })],
+      ["sess_known", "msg_3", assistant("msg_3", { input: 10, cache: { read: 5 } })],
+      ["sess_missing", "msg_4", assistant("msg_4", { input: 100 })],
+      ["sess_missing", "msg_5", assistant("msg_5", { input: -1 })],
+      ["sess_user", "msg_6", JSON.stringify({ id: "msg_6", role: "user" })],
+      ["sess_user", "msg_7", " "],
+      ["sess_malformed", "msg_8", "{ not json"],
+      ["sess_malformed", "msg_9", assistant("msg_9", { output: 7 })],
+    ]
+    const sessionIds = ["sess_known", "sess_missing", "sess_user", "sess_empty", "sess_malformed"]
+
+    const createStore = (options: { sqliteStrict?: boolean; onWarning?: (warning: string) => void } = {}) => {
+      createTestDatabase(testDbPath)
+      const db = new Database(testDbPath)
+      sessionIds.forEach((id, i) => {
+        db.run("INSERT INTO session (id, project_id, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?)", [
+          id,
+          "proj_1",
+          i,
+          i,
+          JSON.stringify({ id, projectID: "proj_1", title: id }),
+        ])
+      })
+      rows.forEach(([sessionId, id, data], i) => {
+        db.run("INSERT INTO message (id, session_id, created_at, data) VALUES (?, ?, ?, ?)", [id, sessionId, i, data])
+      })
+      db.close()
+      return createProvider({ backend: "sqlite", dbPath: testDbPath, ...options })
+    }
+
+    test("summarizes every session in one pass with the same unknown reasons", async () => {
+      const warnings: string[] = []
+      const provider = createStore({ onWarning: (warning) => warnings.push(warning) })
+      const sessions = await provider.loadSessionRecords()
+      const byId = new Map(sessions.map((session) => [session.sessionId, session]))
+      const ordered = sessionIds.map((id) => byId.get(id)!)
+
+      const summaries = await provider.computeSessionTokenSummaries(ordered)
+
+      expect(summaries).toEqual([
+        {
+          kind: "known",
+          tokens: { input: 110, output: 50, reasoning: 0, cacheRead: 5, cacheWrite: 0, total: 165 },
+          cost: { recorded: 0.5, estimated: 0, total: 0.5, unpricedMessages: 0 },
+        },
+        { kind: "unknown", reason: "missing" },
+        { kind: "unknown", reason: "no_messages" },
+        { kind: "unknown", reason: "no_messages" },
+        {
+          kind: "known",
+          tokens: { input: 0, output: 7, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 7 },
+          cost: { recorded: 0.25, estimated: 0, total: 0.25, unpricedMessages: 0 },
+        },
+      ])
+      expect(warnings.filter((warning) => warning.includes("msg_8"))).toHaveLength(1)
+      for (const [i, session] of ordered.entries()) {
+        expect(await provider.computeSessionTokenSummary(session)).toEqual(summaries[i])
+      }
+    })
+
+    test("adds up project and global totals from the bulk summaries", async () => {
+      const provider = createStore({ onWarning: () => {} })
+      const sessions = await provider.loadSessionRecords()
+
+      const global = await provider.computeGlobalTokenSummary(sessions)
+
+      expect(global.knownOnly).toEqual({ input: 110, output: 57, reasoning: 0, cacheRead: 5, cacheWrite: 0, total: 172 })
+      expect(global.unknownSessions).toBe(3)
+      expect(global.cost?.recorded).toBe(0.75)
+      expect(await provider.computeProjectTokenSummary("proj_1", sessions)).toEqual(global)
+      expect((await provider.computeProjectTokenSummary("proj_2", sessions)).total).toEqual({ kind: "unknown", reason: "no_messages" })
+    })
+
+    test("rejects malformed message JSON in strict mode", async () => {
+      const provider = createStore({ sqliteStrict: true })
+      const sessions = await provider.loadSessionRecords()
+
+      await expect(provider.computeGlobalTokenSummary(sessions)).rejects.toThrow("msg_8")
+    })
+  })
+
   describe("token summary parity (JSONL vs SQLite)", () => {
     test("computeSessionTokenSummary matches for shared session", async () => {
       const jsonlProvider = createProvider({ backend: "jsonl", root: FIXTURE_STORE_ROOT })
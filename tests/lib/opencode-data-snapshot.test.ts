@@ -0,0 +1,117 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test"
+import { Database } from "bun:sqlite"
+import { copyFileSync, existsSync, mkdirSync, rmSync } from "node:fs"
+import { join } from "node:path"
+import { FIXTURE_SQLITE_PATH } from "../helpers"
+import { releaseSqliteSnapshot, takeSqliteSnapshot } from "../../src/lib/opencode-data-snapshot"
+import { createProvider, type DataProviderOptions } from "../../src/lib/opencode-data-provider"
+
+describe("SQLite snapshots", () => {
+  const testDir = "/tmp/oc-manager-snapshot-tests"
+  const dbPath = join(testDir, "test.db")
+
+  beforeEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+    mkdirSync(testDir, { recursive: true })
+    copyFileSync(FIXTURE_SQLITE_PATH, dbPath)
+  })
+
+  // Exit hooks do not run under bun test, so every snapshot is released here
+  let releaseAll: (() => void)[] = []
+  function snapshotProvider(options: DataProviderOptions) {
+    const provider = createProvider({ ...options, snapshot: true })
+    releaseAll.push(() => provider.releaseSnapshot())
+    return provider
+  }
+
+  afterEach(() => {
+    for (const release of releaseAll) {
+      release()
+    }
+    releaseAll = []
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  function renameSession(sessionId: string, title: string): void {
+    const db = new Database(dbPath)
+    db.run("UPDATE session SET data = json_set(data, '$.title', ?) WHERE id = ?", [title, sessionId])
+    db.close()
+  }
+
+  test("copies the database into a temporary file", () => {
+    const before = Date.now()
+    const snapshot = takeSqliteSnapshot(dbPath)
+
+    expect(snapshot.sourcePath).toBe(dbPath)
+    expect(snapshot.path).not.toBe(dbPath)
+    expect(existsSync(snapshot.path)).toBe(true)
+    expect(snapshot.takenAt.getTime()).toBeGreaterThanOrEqual(before)
+
+    const copy = new Database(snapshot.path, { readonly: true })
+    const { count } = copy.query("SELECT COUNT(*) AS count FROM session").get() as { count: number }
+    copy.close()
+    expect(count).toBe(5)
+
+    releaseSqliteSnapshot(snapshot)
+    expect(existsSync(snapshot.path)).toBe(false)
+  })
+
+  test("fails with the database path when it cannot be opened", () => {
+    expect(() => takeSqliteSnapshot(join(testDir, "missing.db"))).toThrow(join(testDir, "missing.db"))
+  })
+
+  test("provider reads stay on the snapshot until it is retaken", async () => {
+    const provider = snapshotProvider({ backend: "sqlite", dbPath })
+    const first = provider.snapshot
+    expect(first).not.toBeNull()
+    expect(provider.location).toBe(dbPath)
+
+    renameSession("session_add_tests", "Changed after snapshot")
+    const stale = await provider.loadSessionRecords()
+    expect(stale.find((s) => s.sessionId === "session_add_tests")?.title).not.toBe("Changed after snapshot")
+
+    const second = await provider.retakeSnapshot()
+    expect(second?.path).not.toBe(first?.path)
+    expect(existsSync(first!.path)).toBe(false)
+    const fresh = await provider.loadSessionRecords()
+    expect(fresh.find((s) => s.sessionId === "session_add_tests")?.title).toBe("Changed after snapshot")
+  })
+
+  test("provider refuses writes but allows dry runs", async () => {
+    const provider = snapshotProvider({ backend: "sqlite", dbPath })
+    const sessions = await provider.loadSessionRecords()
+    const session = sessions.find((s) => s.sessionId === "session_add_tests")!
+
+    await expect(provider.updateSessionTitle(session, "Nope")).rejects.toThrow("snapshot")
+    await expect(provider.deleteSessionMetadata([session])).rejects.toThrow("snapshot")
+
+    const dryRun = await provider.deleteSessionMetadata([session], { dryRun: true })
+    expect(dryRun.removed.length).toBeGreaterThan(0)
+    const live = new Database(dbPath, { readonly: true })
+    expect(live.query("SELECT id FROM session WHERE id = ?").get("session_add_tests")).not.toBeNull()
+    live.close()
+  })
+
+  test("provider releases its snapshot copy and refuses reads until it is retaken", async () => {
+    const provider = snapshotProvider({ backend: "merged", root: testDir, dbPath })
+    const path = provider.snapshot!.path
+    expect(existsSync(path)).toBe(true)
+
+    provider.releaseSnapshot()
+    expect(existsSync(path)).toBe(false)
+    expect(provider.snapshot).toBeNull()
+    await expect(provider.loadSessionRecords()).rejects.toThrow("was released")
+    expect(existsSync(path)).toBe(false)
+
+    const retaken = await provider.retakeSnapshot()
+    expect(retaken).not.toBeNull()
+    expect((await provider.loadSessionRecords()).length).toBeGreaterThan(0)
+  })
+
+  test("JSONL providers never take snapshots", async () => {
+    const provider = createProvider({ backend: "jsonl", root: testDir, snapshot: true })
+    expect(provider.snapshot).toBeNull()
+    expect(await provider.retakeSnapshot()).toBeNull()
+    expect(() => provider.releaseSnapshot()).not.toThrow()
+  })
+})
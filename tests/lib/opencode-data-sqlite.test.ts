@@ -16,6 +16,10 @@ import {
   updateSessionTitleSqlite,
   moveSessionSqlite,
   copySessionSqlite,
+  findOrphansSqlite,
+  deleteOrphansSqlite,
+  diagnoseStoreSqlite,
+  writeRowsSqlite,
 } from "../../src/lib/opencode-data-sqlite"
 
 describe("opencode-data-sqlite", () => {
@@ -511,10 +515,10 @@ describe("opencode-data-sqlite", () => {
       const records = await loadSessionRecordsSqlite({ db })
       
       expect(records).toHaveLength(2)
-      // Both sessions should be loaded (parent_id is stored but not exposed in SessionRecord)
-      const sessionIds = records.map(r => r.sessionId)
-      expect(sessionIds).toContain("parent_sess")
-      expect(sessionIds).toContain("child_sess")
+      const parent = records.find(r => r.sessionId === "parent_sess")
+      const child = records.find(r => r.sessionId === "child_sess")
+      expect(parent?.parentId).toBeUndefined()
+      expect(child?.parentId).toBe("parent_sess")
       
       db.close()
     })
@@ -565,7 +569,7 @@ describe("opencode-data-sqlite", () => {
       
       expect(records).toHaveLength(1)
       expect(records[0].sessionId).toBe("root_sess")
-      // Session should load correctly despite null parent_id
+      expect(records[0].parentId).toBeUndefined()
       
       db.close()
     })
@@ -2985,6 +2989,212 @@ describe("opencode-data-sqlite", () => {
     })
   })
 
+  describe("findOrphansSqlite / deleteOrphansSqlite", () => {
+    /**
+     * Create an in-memory database with one healthy session and one orphan of each kind:
+     * - sess_orphan: project proj_gone does not exist
+     * - msg_orphan: session sess_gone does not exist (its part is orphaned too)
+     * - part_orphan: message msg_gone does not exist
+     */
+    function createDbWithOrphans(): Database {
+      const db = new Database(":memory:")
+      db.run("CREATE TABLE project (id TEXT PRIMARY KEY, data TEXT NOT NULL)")
+      db.run(`
+        CREATE TABLE session (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          parent_id TEXT,
+          created_at INTEGER,
+          updated_at INTEGER,
+          data TEXT NOT NULL
+        )
+      `)
+      db.run("CREATE TABLE message (id TEXT PRIMARY KEY, session_id TEXT NOT NULL, created_at INTEGER, data TEXT NOT NULL)")
+      db.run("CREATE TABLE part (id TEXT PRIMARY KEY, message_id TEXT NOT NULL, session_id TEXT NOT NULL, data TEXT NOT NULL)")
+
+      db.run("INSERT INTO project (id, data) VALUES ('proj_1', '{}')")
+      const insertSession = db.prepare(
+        "INSERT INTO session (id, project_id, created_at, updated_at, data) VALUES (?, ?, 0, 0, '{}')"
+      )
+      insertSession.run("sess_ok", "proj_1")
+      insertSession.run("sess_orphan", "proj_gone")
+      const insertMessage = db.prepare("INSERT INTO message (id, session_id, created_at, data) VALUES (?, ?, 0, '{}')")
+      insertMessage.run("msg_ok", "sess_ok")
+      insertMessage.run("msg_in_orphan_session", "sess_orphan")
+      insertMessage.run("msg_orphan", "sess_gone")
+      const insertPart = db.prepare("INSERT INTO part (id, message_id, session_id, data) VALUES (?, ?, ?, '{}')")
+      insertPart.run("part_ok", "msg_ok", "sess_ok")
+      insertPart.run("part_in_orphan_session", "msg_in_orphan_session", "sess_orphan")
+      insertPart.run("part_of_orphan_msg", "msg_orphan", "sess_gone")
+      insertPart.run("part_orphan", "msg_gone", "sess_ok")
+      return db
+    }
+
+    test("finds sessions, messages and parts without a parent row", async () => {
+      const db = createDbWithOrphans()
+
+      const orphans = await findOrphansSqlite({ db })
+
+      expect(orphans.map((o) => `${o.kind}:${o.id}:${o.parentId}`)).toEqual([
+        "session:sess_orphan:proj_gone",
+        "message:msg_orphan:sess_gone",
+        "part:part_of_orphan_msg:msg_orphan",
+        "part:part_orphan:msg_gone",
+      ])
+      expect(orphans[0].path).toBe("sqlite:session:sess_orphan")
+      expect(orphans[0].sizeBytes).toBeNull()
+      db.close()
+    })
+
+    test("dry run reports paths without deleting", async () => {
+      const db = createDbWithOrphans()
+      const orphans = await findOrphansSqlite({ db })
+
+      const result = await deleteOrphansSqlite(orphans, { db, dryRun: true })
+
+      expect(result.removed).toHaveLength(4)
+      expect(db.query("SELECT COUNT(*) as count FROM part").get() as any).toEqual({ count: 4 })
+      db.close()
+    })
+
+    test("deletes orphans and cascades orphaned sessions", async () => {
+      const db = createDbWithOrphans()
+      const orphans = await findOrphansSqlite({ db })
+
+      const result = await deleteOrphansSqlite(orphans, { db })
+
+      expect(result.failed).toHaveLength(0)
+      expect(result.removed).toHaveLength(4)
+      expect((db.query("SELECT id FROM session").all() as { id: string }[]).map((r) => r.id)).toEqual(["sess_ok"])
+      expect((db.query("SELECT id FROM message").all() as { id: string }[]).map((r) => r.id)).toEqual(["msg_ok"])
+      expect((db.query("SELECT id FROM part").all() as { id: string }[]).map((r) => r.id)).toEqual(["part_ok"])
+      expect(await findOrphansSqlite({ db })).toEqual([])
+      db.close()
+    })
+
+    test("returns no orphans and warns when schema is incomplete", async () => {
+      const db = new Database(":memory:")
+      db.run("CREATE TABLE session (id TEXT PRIMARY KEY)")
+      const warnings: string[] = []
+
+      const orphans = await findOrphansSqlite({ db, onWarning: (w) => warnings.push(w) })
+
+      expect(orphans).toEqual([])
+      expect(warnings[0]).toContain("findOrphans")
+      db.close()
+    })
+  })
+
+  describe("diagnoseStoreSqlite", () => {
+    /**
+     * Create an in-memory database with one consistent session:
+     * msg_user -> msg_assistant, each with one part.
+     */
+    function createHealthyDb(): Database {
+      const db = new Database(":memory:")
+      db.run("CREATE TABLE project (id TEXT PRIMARY KEY, data TEXT NOT NULL)")
+      db.run(`
+        CREATE TABLE session (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          parent_id TEXT,
+          created_at INTEGER,
+          updated_at INTEGER,
+          data TEXT NOT NULL
+        )
+      `)
+      db.run("CREATE TABLE message (id TEXT PRIMARY KEY, session_id TEXT NOT NULL, created_at INTEGER, data TEXT NOT NULL)")
+      db.run("CREATE TABLE part (id TEXT PRIMARY KEY, message_id TEXT NOT NULL, session_id TEXT NOT NULL, data TEXT NOT NULL)")
+
+      db.run(`INSERT INTO project (id, data) VALUES ('proj_1', '{"time":{"created":1704067200000}}')`)
+      db.run(
+        `INSERT INTO session (id, project_id, created_at, updated_at, data) VALUES ('sess_1', 'proj_1', 1704067200000, 1704067200000, '{"projectID":"proj_1"}')`
+      )
+      const insertMessage = db.prepare("INSERT INTO message (id, session_id, created_at, data) VALUES (?, 'sess_1', 1704067200000, ?)")
+      insertMessage.run("msg_user", JSON.stringify({ role: "user" }))
+      insertMessage.run("msg_assistant", JSON.stringify({ role: "assistant", parentID: "msg_user" }))
+      const insertPart = db.prepare("INSERT INTO part (id, message_id, session_id, data) VALUES (?, ?, 'sess_1', ?)")
+      insertPart.run("part_user", "msg_user", JSON.stringify({ messageID: "msg_user" }))
+      insertPart.run("part_assistant", "msg_assistant", JSON.stringify({ messageID: "msg_assistant" }))
+      return db
+    }
+
+    test("reports no issues for a consistent database", async () => {
+      const db = createHealthyDb()
+
+      const report = await diagnoseStoreSqlite({ db })
+
+      expect(report.backend).toBe("sqlite")
+      expect(report.scanned).toEqual({ project: 1, session: 1, message: 2, part: 2 })
+      expect(report.issues).toEqual([])
+      db.close()
+    })
+
+    test("reports unparsable data, bad references and future timestamps", async () => {
+      const db = createHealthyDb()
+      db.run("UPDATE project SET data = '{ not json' WHERE id = 'proj_1'")
+      db.run(`UPDATE session SET data = '{"projectID":"proj_other"}', updated_at = 4102444800000 WHERE id = 'sess_1'`)
+      db.run(`UPDATE message SET data = '{"role":"assistant","parentID":"msg_gone"}' WHERE id = 'msg_assistant'`)
+      db.run(`UPDATE part SET data = '{"messageID":"msg_user"}' WHERE id = 'part_assistant'`)
+
+      const report = await diagnoseStoreSqlite({ db, now: new Date("2026-01-01T00:00:00Z") })
+
+      expect(report.issues.map((i) => `${i.check}:${i.path}`)).toEqual([
+        "json:sqlite:project:proj_1",
+        "timestamp:sqlite:session:sess_1",
+        "session-project:sqlite:session:sess_1",
+        "message-parent:sqlite:message:msg_assistant",
+        "part-message:sqlite:part:part_assistant",
+      ])
+      db.close()
+    })
+
+    test("reports schema problems and skips content checks", async () => {
+      const db = new Database(":memory:")
+      db.run("CREATE TABLE project (id TEXT PRIMARY KEY, data TEXT NOT NULL)")
+      db.run("CREATE TABLE session (id TEXT PRIMARY KEY, data TEXT NOT NULL)")
+
+      const report = await diagnoseStoreSqlite({ db })
+
+      expect(report.issues.length).toBeGreaterThan(0)
+      expect(report.issues.every((i) => i.check === "sqlite-schema" && i.severity === "error")).toBe(true)
+      expect(report.issues.map((i) => i.message)).toContain("Missing table: message")
+      expect(report.scanned).toEqual({ project: 0, session: 0, message: 0, part: 0 })
+      db.close()
+    })
+  })
+
+  describe("writeRowsSqlite", () => {
+    function createDb(): Database {
+      const db = new Database(":memory:")
+      db.run("CREATE TABLE project (id TEXT PRIMARY KEY, data TEXT NOT NULL)")
+      return db
+    }
+
+    test("inserts snapshot rows", async () => {
+      const db = createDb()
+
+      const written = await writeRowsSqlite({ project: [{ id: "proj_1", data: "{}" }] }, { db })
+
+      expect(written).toEqual(["sqlite:project:proj_1"])
+      expect(db.query("SELECT id, data FROM project").all()).toEqual([{ id: "proj_1", data: "{}" }])
+      db.close()
+    })
+
+    test("rejects tables and columns outside the live schema", async () => {
+      const db = createDb()
+
+      await expect(writeRowsSqlite({ "project; DROP TABLE project": [{ id: "x" }] }, { db })).rejects.toThrow(
+        'unknown table "project; DROP TABLE project"'
+      )
+      await expect(writeRowsSqlite({ project: [{ id: "proj_1", "data) VALUES (1, 2); --": "{}" }] }, { db })).rejects.toThrow(
+        "does not exist in the database"
+      )
+      expect(db.query("SELECT COUNT(*) AS count FROM project").get()).toEqual({ count: 0 })
+      db.close()
+    })
+  })
+
   describe("SQLite lock handling", () => {
     test("write operations fail gracefully when DB is locked", async () => {
       const lockDbPath = join(testDir, "locked.db")
@@ -0,0 +1,189 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test"
+import { Database } from "bun:sqlite"
+import { promises as fs } from "node:fs"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import { createProvider } from "../../src/lib/opencode-data-provider"
+import {
+  createTrashId,
+  findTrashEntry,
+  getTrashRoot,
+  listTrashEntries,
+  purgeTrashEntries,
+} from "../../src/lib/opencode-data-trash"
+import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../helpers"
+
+const exists = (path: string) => fs.access(path).then(() => true).catch(() => false)
+
+const TRASH = { command: "test delete" }
+
+describe("trash helpers", () => {
+  test("getTrashRoot places the trash under the store root or next to the database", () => {
+    expect(getTrashRoot("jsonl", "/data/store")).toBe("/data/store/trash")
+    expect(getTrashRoot("sqlite", "/data/opencode.db")).toBe("/data/trash")
+  })
+
+  test("createTrashId sorts by time", () => {
+    const earlier = createTrashId(new Date("2026-01-01T10:00:00Z"))
+    const later = createTrashId(new Date("2026-01-02T09:00:00Z"))
+
+    expect(earlier).toMatch(/^20260101-100000-[0-9a-f]{6}$/)
+    expect(earlier < later).toBe(true)
+  })
+})
+
+describe("JSONL trash", () => {
+  let tempDir: string
+  let root: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "oc-manager-trash-"))
+    root = join(tempDir, "store")
+    await fs.cp(FIXTURE_STORE_ROOT, root, { recursive: true })
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  test("moves deleted session files into a trash entry with a manifest", async () => {
+    const provider = createProvider({ backend: "jsonl", root })
+    const [session] = (await provider.loadSessionRecords()).filter((s) => s.sessionId === "session_add_tests")
+
+    const result = await provider.deleteSessionMetadata([session], { trash: TRASH })
+
+    expect(result.failed).toEqual([])
+    expect(result.trashId).toBeDefined()
+    expect(await exists(session.filePath)).toBe(false)
+
+    const [entry] = await provider.listTrash()
+    expect(entry.id).toBe(result.trashId!)
+    expect(entry.command).toBe("test delete")
+    expect(entry.resourceType).toBe("session")
+    expect(entry.resourceIds).toEqual(["session_add_tests"])
+    expect(entry.items).toHaveLength(result.removed.length)
+    expect(await exists(join(entry.path, "files", "storage", "session", "proj_present", "session_add_tests.json"))).toBe(true)
+  })
+
+  test("restores trashed files to their original paths and removes the entry", async () => {
+    const provider = createProvider({ backend: "jsonl", root })
+    const [project] = (await provider.loadProjectRecords()).filter((p) => p.projectId === "proj_present")
+    const { trashId, removed } = await provider.deleteProjectMetadata([project], { trash: TRASH })
+
+    const { restored } = await provider.restoreTrash(trashId!.slice(0, 12))
+
+    expect(restored.sort()).toEqual([...removed].sort())
+    expect((await provider.loadProjectRecords()).map((p) => p.projectId)).toContain("proj_present")
+    expect((await provider.loadSessionChatIndex("session_add_tests")).length).toBeGreaterThan(0)
+    expect(await provider.listTrash()).toEqual([])
+  })
+
+  test("refuses to restore over files that exist again", async () => {
+    const provider = createProvider({ backend: "jsonl", root })
+    const [session] = (await provider.loadSessionRecords()).filter((s) => s.sessionId === "session_add_tests")
+    const { trashId } = await provider.deleteSessionMetadata([session], { trash: TRASH })
+    await fs.writeFile(session.filePath, "{}")
+
+    await expect(provider.restoreTrash(trashId!)).rejects.toThrow("already exist")
+    expect(await provider.listTrash()).toHaveLength(1)
+  })
+
+  test("deletes permanently without a trash context", async () => {
+    const provider = createProvider({ backend: "jsonl", root })
+    const [session] = (await provider.loadSessionRecords()).filter((s) => s.sessionId === "session_add_tests")
+
+    const result = await provider.deleteSessionMetadata([session])
+
+    expect(result.trashId).toBeUndefined()
+    expect(await exists(getTrashRoot("jsonl", root))).toBe(false)
+  })
+
+  test("dry runs do not create trash entries", async () => {
+    const provider = createProvider({ backend: "jsonl", root })
+    const sessions = await provider.loadSessionRecords()
+
+    const result = await provider.deleteSessionMetadata(sessions, { dryRun: true, trash: TRASH })
+
+    expect(result.trashId).toBeUndefined()
+    expect(await provider.listTrash()).toEqual([])
+  })
+
+  test("findTrashEntry reports unknown and ambiguous IDs", async () => {
+    const provider = createProvider({ backend: "jsonl", root })
+    for (const session of await provider.loadSessionRecords()) {
+      await provider.deleteSessionMetadata([session], { trash: TRASH })
+    }
+
+    await expect(findTrashEntry("jsonl", root, "nope")).rejects.toThrow("Trash entry not found")
+    await expect(findTrashEntry("jsonl", root, "2")).rejects.toThrow("Multiple trash entries match")
+  })
+
+  test("purge removes only entries older than the cutoff", async () => {
+    const provider = createProvider({ backend: "jsonl", root })
+    const [session] = await provider.loadSessionRecords()
+    await provider.deleteSessionMetadata([session], { trash: TRASH })
+    const later = new Date(Date.now() + 2 * 60 * 60 * 1000)
+
+    expect(await purgeTrashEntries("jsonl", root, { olderThanMs: 3 * 60 * 60 * 1000, now: later })).toEqual([])
+    const dryRun = await purgeTrashEntries("jsonl", root, { olderThanMs: 60 * 60 * 1000, now: later, dryRun: true })
+    expect(dryRun).toHaveLength(1)
+    expect(await listTrashEntries("jsonl", root)).toHaveLength(1)
+
+    await purgeTrashEntries("jsonl", root, { olderThanMs: 60 * 60 * 1000, now: later })
+    expect(await listTrashEntries("jsonl", root)).toEqual([])
+  })
+})
+
+describe("SQLite trash", () => {
+  let tempDir: string
+  let dbPath: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "oc-manager-trash-"))
+    dbPath = join(tempDir, "opencode.db")
+    await fs.copyFile(FIXTURE_SQLITE_PATH, dbPath)
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  const countRows = (table: string) => {
+    const db = new Database(dbPath, { readonly: true })
+    const { count } = db.query(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }
+    db.close()
+    return count
+  }
+
+  test("saves deleted rows next to the database and restores them", async () => {
+    const provider = createProvider({ backend: "sqlite", dbPath })
+    const before = ["project", "session", "message", "part"].map(countRows)
+    const projects = await provider.loadProjectRecords()
+
+    const result = await provider.deleteProjectMetadata([projects[0]], { trash: TRASH })
+
+    expect(result.trashId).toBeDefined()
+    expect(await exists(join(tempDir, "trash", result.trashId!, "rows.json"))).toBe(true)
+    const [entry] = await provider.listTrash()
+    expect(entry.backend).toBe("sqlite")
+    expect(entry.resourceIds).toEqual([projects[0].projectId])
+
+    const { restored } = await provider.restoreTrash(result.trashId!)
+
+    expect(restored).toHaveLength(entry.items.length)
+    expect(["project", "session", "message", "part"].map(countRows)).toEqual(before)
+    expect(await provider.listTrash()).toEqual([])
+  })
+
+  test("refuses to restore rows whose IDs exist again", async () => {
+    const provider = createProvider({ backend: "sqlite", dbPath })
+    const sessions = await provider.loadSessionRecords()
+    const { trashId } = await provider.deleteSessionMetadata([sessions[0]], { trash: TRASH })
+    const db = new Database(dbPath)
+    db.run("INSERT INTO session (id, project_id, data) VALUES (?, 'x', '{}')", [sessions[0].sessionId])
+    db.close()
+
+    await expect(provider.restoreTrash(trashId!)).rejects.toThrow("already exist")
+    expect(await provider.listTrash()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test"
+import { promises as fs } from "node:fs"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import { FIXTURE_STORE_ROOT } from "../helpers"
+import type { SessionRecord } from "../../src/lib/opencode-data"
+import { createProvider } from "../../src/lib/opencode-data-provider"
+import {
+  buildSessionTree,
+  collectDescendants,
+  copySessionTree,
+  expandWithDescendants,
+  flattenSessionTree,
+} from "../../src/lib/opencode-data-tree"
+
+function session(sessionId: string, parentId?: string): SessionRecord {
+  return {
+    index: 0,
+    filePath: `/store/${sessionId}.json`,
+    sessionId,
+    projectId: "proj_1",
+    directory: "/work",
+    title: sessionId,
+    version: "1.0.0",
+    parentId,
+  }
+}
+
+const ids = (records: readonly SessionRecord[]) => records.map((record) => record.sessionId)
+
+describe("session hierarchy", () => {
+  // root_a
+  // ├── child_a1
+  // │   └── grandchild_a1
+  // └── child_a2
+  // root_b
+  const sessions = [
+    session("child_a2", "root_a"),
+    session("root_a"),
+    session("grandchild_a1", "child_a1"),
+    session("root_b"),
+    session("child_a1", "root_a"),
+  ]
+
+  test("builds trees keeping the input order of roots and siblings", () => {
+    const rows = flattenSessionTree(buildSessionTree(sessions))
+
+    expect(ids(rows)).toEqual(["root_a", "child_a2", "child_a1", "grandchild_a1", "root_b"])
+    expect(rows.map((row) => row.depth)).toEqual([0, 1, 1, 2, 0])
+    expect(rows[0]).toMatchObject({ childCount: 2, descendantCount: 3 })
+    expect(rows[2]).toMatchObject({ childCount: 1, descendantCount: 1 })
+  })
+
+  test("treats sessions with a missing parent as roots", () => {
+    const rows = flattenSessionTree(buildSessionTree([session("orphan", "deleted"), session("root_b")]))
+
+    expect(ids(rows)).toEqual(["orphan", "root_b"])
+    expect(rows.every((row) => row.depth === 0)).toBe(true)
+  })
+
+  test("lists every session once when parent links form a cycle", () => {
+    const rows = flattenSessionTree(buildSessionTree([session("a", "b"), session("b", "a"), session("self", "self")]))
+
+    expect(ids(rows).sort()).toEqual(["a", "b", "self"])
+  })
+
+  test("leaves out children of collapsed sessions", () => {
+    const rows = flattenSessionTree(buildSessionTree(sessions), new Set(["root_a"]))
+
+    expect(ids(rows)).toEqual(["root_a", "root_b"])
+    expect(rows[0].descendantCount).toBe(3)
+  })
+
+  test("collects descendants parent-first", () => {
+    expect(ids(collectDescendants("root_a", sessions))).toEqual(["child_a2", "child_a1", "grandchild_a1"])
+    expect(collectDescendants("root_b", sessions)).toEqual([])
+  })
+
+  test("expands a selection with descendants without duplicates", () => {
+    const selected = [sessions[4], sessions[1]]
+
+    expect(ids(expandWithDescendants(selected, sessions))).toEqual([
+      "child_a1",
+      "grandchild_a1",
+      "root_a",
+      "child_a2",
+    ])
+  })
+})
+
+describe("copySessionTree", () => {
+  let tempDir: string
+  let tempRoot: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-tree-test-"))
+    tempRoot = join(tempDir, "store")
+    await fs.cp(FIXTURE_STORE_ROOT, tempRoot, { recursive: true })
+    const childPath = join(tempRoot, "storage", "session", "proj_present", "session_parser_fix.json")
+    const payload = JSON.parse(await fs.readFile(childPath, "utf8"))
+    await fs.writeFile(childPath, JSON.stringify({ ...payload, parentID: "session_add_tests" }))
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  test("links copied children to their parent's copy", async () => {
+    const provider = createProvider({ root: tempRoot })
+    const all = await provider.loadSessionRecords()
+    const parent = all.find((record) => record.sessionId === "session_add_tests")!
+
+    const copies = await copySessionTree(provider, provider, expandWithDescendants([parent], all), "proj_missing")
+
+    expect(copies).toHaveLength(2)
+    expect(copies[0].parentId).toBeUndefined()
+    expect(copies[1].parentId).toBe(copies[0].sessionId)
+
+    const reloaded = await provider.loadSessionRecords({ projectId: "proj_missing" })
+    const child = reloaded.find((record) => record.sessionId === copies[1].sessionId)!
+    expect(child.parentId).toBe(copies[0].sessionId)
+  })
+})
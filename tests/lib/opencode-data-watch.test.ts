@@ -0,0 +1,249 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test"
+import { Database } from "bun:sqlite"
+import { copyFileSync, cpSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { FIXTURE_STORE_ROOT, FIXTURE_SQLITE_PATH } from "../helpers"
+import { createProvider } from "../../src/lib/opencode-data-provider"
+import { createSharedWatcher, type StoreChangeEvent } from "../../src/lib/opencode-data-watch"
+
+const WATCH_INTERVAL_MS = 50
+
+/**
+ * Collect events until `done` returns true or the timeout elapses.
+ */
+function collectEvents() {
+  const events: StoreChangeEvent[] = []
+  const listener = (event: StoreChangeEvent) => {
+    events.push(event)
+  }
+  const waitFor = async (done: (events: StoreChangeEvent[]) => boolean, timeoutMs = 3000) => {
+    const deadline = Date.now() + timeoutMs
+    while (!done(events) && Date.now() < deadline) {
+      await Bun.sleep(20)
+    }
+    return events
+  }
+  return { events, listener, waitFor }
+}
+
+const hasEvent = (type: StoreChangeEvent["type"], id: string) => (events: StoreChangeEvent[]) =>
+  events.some((event) => event.type === type && ("sessionId" in event ? event.sessionId : event.projectId) === id)
+
+describe("createSharedWatcher", () => {
+  test("starts one watcher for all listeners and stops after the last unsubscribes", () => {
+    let started = 0
+    let stopped = 0
+    let emit: (event: StoreChangeEvent) => void = () => {}
+    const watch = createSharedWatcher((emitEvent) => {
+      started++
+      emit = emitEvent
+      return () => {
+        stopped++
+      }
+    })
+
+    const first: StoreChangeEvent[] = []
+    const second: StoreChangeEvent[] = []
+    const unsubscribeFirst = watch((event) => first.push(event))
+    const unsubscribeSecond = watch((event) => second.push(event))
+    emit({ type: "project-added", projectId: "proj_new" })
+
+    expect(started).toBe(1)
+    expect(first).toHaveLength(1)
+    expect(second).toHaveLength(1)
+
+    unsubscribeFirst()
+    expect(stopped).toBe(0)
+    unsubscribeSecond()
+    expect(stopped).toBe(1)
+  })
+
+  test("reports a throwing listener to its own onError without skipping others", () => {
+    let emit: (event: StoreChangeEvent) => void = () => {}
+    const watch = createSharedWatcher((emitEvent) => {
+      emit = emitEvent
+      return () => {}
+    })
+    const errors: Error[] = []
+    const received: StoreChangeEvent[] = []
+    watch(() => {
+      throw new Error("listener failed")
+    }, { onError: (error) => errors.push(error) })
+    watch((event) => received.push(event))
+
+    emit({ type: "project-removed", projectId: "proj_old" })
+
+    expect(errors.map((error) => error.message)).toEqual(["listener failed"])
+    expect(received).toHaveLength(1)
+  })
+})
+
+describe("JSONL watch", () => {
+  // A fresh root per test: Bun's fs.watch stays silent on a path that was
+  // watched, removed and created again
+  let testRoot: string
+  let storage: string
+  let unsubscribe: (() => void) | null = null
+
+  beforeEach(() => {
+    testRoot = mkdtempSync(join(tmpdir(), "oc-manager-watch-jsonl-"))
+    storage = join(testRoot, "storage")
+    cpSync(FIXTURE_STORE_ROOT, testRoot, { recursive: true })
+  })
+
+  afterEach(() => {
+    unsubscribe?.()
+    unsubscribe = null
+    rmSync(testRoot, { recursive: true, force: true })
+  })
+
+  test("reports created, updated and deleted sessions and appended messages", async () => {
+    const provider = createProvider({ backend: "jsonl", root: testRoot, watchIntervalMs: WATCH_INTERVAL_MS })
+    const { events, listener, waitFor } = collectEvents()
+    unsubscribe = provider.watch(listener)
+    // Let the initial scan take its snapshot
+    await Bun.sleep(150)
+
+    const now = Date.now()
+    writeFileSync(
+      join(storage, "session", "proj_present", "session_live.json"),
+      JSON.stringify({ id: "session_live", projectID: "proj_present", title: "Live", time: { created: now, updated: now } })
+    )
+    await waitFor(hasEvent("session-created", "session_live"))
+
+    mkdirSync(join(storage, "message", "session_live"), { recursive: true })
+    writeFileSync(
+      join(storage, "message", "session_live", "msg_live_01.json"),
+      JSON.stringify({ id: "msg_live_01", sessionID: "session_live", role: "user", time: { created: now + 1 } })
+    )
+    writeFileSync(
+      join(storage, "session", "proj_present", "session_live.json"),
+      JSON.stringify({ id: "session_live", projectID: "proj_present", title: "Live (renamed)", time: { created: now, updated: now + 1 } })
+    )
+    await waitFor(hasEvent("message-appended", "session_live"))
+
+    rmSync(join(storage, "session", "proj_present", "session_parser_fix.json"))
+    await waitFor(hasEvent("session-deleted", "session_parser_fix"))
+
+    expect(events).toContainEqual({ type: "session-created", sessionId: "session_live", projectId: "proj_present" })
+    expect(events).toContainEqual({ type: "message-appended", sessionId: "session_live", messageId: "msg_live_01" })
+    expect(events).toContainEqual({ type: "session-deleted", sessionId: "session_parser_fix", projectId: "proj_present" })
+    // Existing messages are not reported
+    expect(events.filter((event) => event.type === "message-appended")).toHaveLength(1)
+  })
+
+  test("reports added and removed projects", async () => {
+    const provider = createProvider({ backend: "jsonl", root: testRoot, watchIntervalMs: WATCH_INTERVAL_MS })
+    const { events, listener, waitFor } = collectEvents()
+    unsubscribe = provider.watch(listener)
+    await Bun.sleep(150)
+
+    writeFileSync(join(storage, "project", "proj_live.json"), JSON.stringify({ id: "proj_live", worktree: "/tmp" }))
+    rmSync(join(storage, "project", "proj_missing.json"))
+    await waitFor((seen) => hasEvent("project-added", "proj_live")(seen) && hasEvent("project-removed", "proj_missing")(seen))
+
+    expect(events).toContainEqual({ type: "project-added", projectId: "proj_live" })
+    expect(events).toContainEqual({ type: "project-removed", projectId: "proj_missing" })
+  })
+
+  test("picks up changes from fs.watch events without waiting for a rescan", async () => {
+    const provider = createProvider({ backend: "jsonl", root: testRoot, watchIntervalMs: 60_000 })
+    const { events, listener, waitFor } = collectEvents()
+    unsubscribe = provider.watch(listener)
+    await Bun.sleep(150)
+
+    const now = Date.now()
+    writeFileSync(
+      join(storage, "session", "proj_present", "session_live.json"),
+      JSON.stringify({ id: "session_live", projectID: "proj_present", title: "Live", time: { created: now, updated: now } })
+    )
+    await waitFor(hasEvent("session-created", "session_live"))
+
+    expect(events).toEqual([{ type: "session-created", sessionId: "session_live", projectId: "proj_present" }])
+  })
+
+  test("reports messages appended in the legacy message layout", async () => {
+    const provider = createProvider({ backend: "jsonl", root: testRoot, watchIntervalMs: WATCH_INTERVAL_MS })
+    const { events, listener, waitFor } = collectEvents()
+    unsubscribe = provider.watch(listener)
+    await Bun.sleep(150)
+
+    const now = Date.now()
+    const sessionPath = join(storage, "session", "proj_present", "session_add_tests.json")
+    mkdirSync(join(storage, "session", "message", "session_add_tests"), { recursive: true })
+    writeFileSync(
+      join(storage, "session", "message", "session_add_tests", "msg_legacy_01.json"),
+      JSON.stringify({ id: "msg_legacy_01", sessionID: "session_add_tests", role: "user", time: { created: now } })
+    )
+    writeFileSync(sessionPath, JSON.stringify({ id: "session_add_tests", projectID: "proj_present", time: { created: now, updated: now } }))
+    await waitFor(hasEvent("message-appended", "session_add_tests"))
+
+    expect(events).toContainEqual({ type: "message-appended", sessionId: "session_add_tests", messageId: "msg_legacy_01" })
+  })
+
+  test("emits nothing after unsubscribing", async () => {
+    const provider = createProvider({ backend: "jsonl", root: testRoot, watchIntervalMs: WATCH_INTERVAL_MS })
+    const { events, listener } = collectEvents()
+    provider.watch(listener)()
+
+    writeFileSync(join(storage, "project", "proj_live.json"), JSON.stringify({ id: "proj_live" }))
+    await Bun.sleep(200)
+
+    expect(events).toEqual([])
+  })
+})
+
+describe("SQLite watch", () => {
+  const testDir = "/tmp/oc-manager-watch-sqlite"
+  const dbPath = join(testDir, "test.db")
+  let unsubscribe: (() => void) | null = null
+
+  beforeEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+    mkdirSync(testDir, { recursive: true })
+    copyFileSync(FIXTURE_SQLITE_PATH, dbPath)
+  })
+
+  afterEach(() => {
+    unsubscribe?.()
+    unsubscribe = null
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test("reports changes committed by another connection", async () => {
+    const provider = createProvider({ backend: "sqlite", dbPath, watchIntervalMs: WATCH_INTERVAL_MS })
+    const { events, listener, waitFor } = collectEvents()
+    unsubscribe = provider.watch(listener)
+    await Bun.sleep(150)
+
+    const now = Date.now()
+    const db = new Database(dbPath)
+    db.run(
+      "INSERT INTO session (id, project_id, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?)",
+      ["session_live", "proj_present", now, now, JSON.stringify({ id: "session_live", title: "Live" })]
+    )
+    db.run(
+      "INSERT INTO message (id, session_id, created_at, data) VALUES (?, ?, ?, ?)",
+      ["msg_live_01", "session_live", now + 1, JSON.stringify({ id: "msg_live_01", role: "user" })]
+    )
+    db.run("DELETE FROM session WHERE id = ?", ["session_parser_fix"])
+    db.close()
+
+    await waitFor((seen) => hasEvent("message-appended", "session_live")(seen) && hasEvent("session-deleted", "session_parser_fix")(seen))
+
+    expect(events).toContainEqual({ type: "session-created", sessionId: "session_live", projectId: "proj_present" })
+    expect(events).toContainEqual({ type: "message-appended", sessionId: "session_live", messageId: "msg_live_01" })
+    expect(events).toContainEqual({ type: "session-deleted", sessionId: "session_parser_fix", projectId: "proj_present" })
+  })
+
+  test("reports a database that cannot be opened through onError", async () => {
+    const provider = createProvider({ backend: "sqlite", dbPath: join(testDir, "missing.db"), watchIntervalMs: WATCH_INTERVAL_MS })
+    const errors: Error[] = []
+    unsubscribe = provider.watch(() => {}, { onError: (error) => errors.push(error) })
+    await Bun.sleep(200)
+
+    // Reported once, not on every poll
+    expect(errors).toHaveLength(1)
+  })
+})
@@ -4,12 +4,32 @@
  * Uses fixture store at tests/fixtures/store to verify data loading functions.
  */
 
-import { describe, expect, it } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 import { FIXTURE_STORE_ROOT } from "../helpers";
 import {
+  bucketTokenUsage,
+  copySession,
+  deleteOrphans,
+  deleteProjectMetadata,
+  deleteSessionMetadata,
+  diagnoseStore,
+  findOrphans,
+  listSessionDataPaths,
+  loadMessageParts,
   loadProjectRecords,
+  loadSessionChatIndex,
+  loadSessionRecords,
   filterProjectsByState,
+  MalformedRecordError,
+  mergeTokenTimelines,
+  timelineBucketLabel,
+  timelineBucketStart,
+  type JsonlWarning,
   type ProjectRecord,
+  type SessionRecord,
 } from "../../src/lib/opencode-data";
 
 describe("loadProjectRecords", () => {
@@ -133,3 +153,457 @@ describe("filterProjectsByState", () => {
     expect(unknown.length).toBe(0);
   });
 });
+
+describe("copySession", () => {
+  let tempDir: string;
+  let tempRoot: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    tempRoot = join(tempDir, "store");
+    await fs.cp(FIXTURE_STORE_ROOT, tempRoot, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function copyFixtureSession(): Promise<SessionRecord> {
+    const sessions = await loadSessionRecords({ root: tempRoot });
+    const source = sessions.find((s) => s.sessionId === "session_add_tests")!;
+    return copySession(source, "proj_missing", tempRoot);
+  }
+
+  it("copies messages with new IDs pointing at the new session", async () => {
+    const copy = await copyFixtureSession();
+    const messages = await loadSessionChatIndex(copy.sessionId, tempRoot);
+
+    expect(messages.length).toBe(2);
+    for (const message of messages) {
+      expect(message.sessionId).toBe(copy.sessionId);
+      expect(["msg_user_01", "msg_assistant_01"]).not.toContain(message.messageId);
+    }
+  });
+
+  it("rewrites parentID references to the copied messages", async () => {
+    const copy = await copyFixtureSession();
+    const messages = await loadSessionChatIndex(copy.sessionId, tempRoot);
+
+    const user = messages.find((m) => m.role === "user")!;
+    const assistant = messages.find((m) => m.role === "assistant")!;
+    expect(assistant.parentId).toBe(user.messageId);
+    expect(assistant.tokens?.total).toBe(310);
+  });
+
+  it("copies parts with new IDs and rewritten messageID", async () => {
+    const copy = await copyFixtureSession();
+    const messages = await loadSessionChatIndex(copy.sessionId, tempRoot);
+    const assistant = messages.find((m) => m.role === "assistant")!;
+
+    const parts = await loadMessageParts(assistant.messageId, tempRoot);
+    expect(parts.length).toBe(3);
+    for (const part of parts) {
+      expect(part.messageId).toBe(assistant.messageId);
+      expect(part.partId).not.toMatch(/^part_(tool|subtask|text)_0\d$/);
+    }
+
+    const partDir = join(tempRoot, "storage", "part", assistant.messageId);
+    for (const file of await fs.readdir(partDir)) {
+      const payload = JSON.parse(await fs.readFile(join(partDir, file), "utf8"));
+      expect(payload.messageID).toBe(assistant.messageId);
+      expect(payload.sessionID).toBe(copy.sessionId);
+    }
+  });
+
+  it("leaves the source session's messages untouched", async () => {
+    await copyFixtureSession();
+    const messages = await loadSessionChatIndex("session_add_tests", tempRoot);
+
+    expect(messages.map((m) => m.messageId).sort()).toEqual(["msg_assistant_01", "msg_user_01"]);
+    expect(messages.find((m) => m.role === "assistant")!.parentId).toBe("msg_user_01");
+  });
+
+  it("copies a session without messages as an empty session", async () => {
+    const sessions = await loadSessionRecords({ root: tempRoot });
+    const source = sessions.find((s) => s.sessionId === "session_parser_fix")!;
+    const copy = await copySession(source, "proj_present", tempRoot);
+
+    expect(await loadSessionChatIndex(copy.sessionId, tempRoot)).toEqual([]);
+    const exists = await fs.access(join(tempRoot, "storage", "message", copy.sessionId)).then(() => true).catch(() => false);
+    expect(exists).toBe(false);
+  });
+
+  it("loads parentID as parentId and does not keep it on copies", async () => {
+    const childPath = join(tempRoot, "storage", "session", "proj_present", "session_parser_fix.json");
+    const payload = JSON.parse(await fs.readFile(childPath, "utf8"));
+    await fs.writeFile(childPath, JSON.stringify({ ...payload, parentID: "session_add_tests" }));
+
+    const sessions = await loadSessionRecords({ root: tempRoot });
+    const child = sessions.find((s) => s.sessionId === "session_parser_fix")!;
+    expect(child.parentId).toBe("session_add_tests");
+    expect(sessions.find((s) => s.sessionId === "session_add_tests")!.parentId).toBeUndefined();
+
+    const copy = await copySession(child, "proj_present", tempRoot);
+    expect(copy.parentId).toBeUndefined();
+    const copies = await loadSessionRecords({ root: tempRoot });
+    expect(copies.find((s) => s.sessionId === copy.sessionId)!.parentId).toBeUndefined();
+  });
+});
+
+describe("deleteSessionMetadata", () => {
+  let tempDir: string;
+  let tempRoot: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    tempRoot = join(tempDir, "store");
+    await fs.cp(FIXTURE_STORE_ROOT, tempRoot, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const exists = (path: string) => fs.access(path).then(() => true).catch(() => false);
+
+  async function loadSession(sessionId: string): Promise<SessionRecord> {
+    const sessions = await loadSessionRecords({ root: tempRoot });
+    return sessions.find((s) => s.sessionId === sessionId)!;
+  }
+
+  it("reports every message and part file in dry-run without deleting", async () => {
+    const session = await loadSession("session_add_tests");
+    const result = await deleteSessionMetadata([session], { dryRun: true });
+
+    expect(result.removed[0]).toBe(session.filePath);
+    expect(result.removed.length).toBe(7);
+    expect(result.failed).toEqual([]);
+    expect(await exists(join(tempRoot, "storage", "part", "msg_user_01", "part_text_01.json"))).toBe(true);
+  });
+
+  it("removes messages, parts and their emptied directories", async () => {
+    const session = await loadSession("session_add_tests");
+    const result = await deleteSessionMetadata([session], { root: tempRoot });
+
+    expect(result.failed).toEqual([]);
+    expect(result.removed.length).toBe(7);
+    expect(await exists(session.filePath)).toBe(false);
+    expect(await exists(join(tempRoot, "storage", "message", "session_add_tests"))).toBe(false);
+    expect(await exists(join(tempRoot, "storage", "part", "msg_assistant_01"))).toBe(false);
+    // Sibling session is untouched
+    expect(await exists(join(tempRoot, "storage", "session", "proj_present", "session_parser_fix.json"))).toBe(true);
+  });
+
+  it("removes messages and parts stored in the legacy layout", async () => {
+    const legacyMessages = join(tempRoot, "storage", "session", "message", "session_add_tests");
+    const legacyParts = join(tempRoot, "storage", "session", "part");
+    await fs.mkdir(join(tempRoot, "storage", "session", "message"), { recursive: true });
+    await fs.rename(join(tempRoot, "storage", "message", "session_add_tests"), legacyMessages);
+    await fs.rename(join(tempRoot, "storage", "part"), legacyParts);
+
+    const session = await loadSession("session_add_tests");
+    expect((await listSessionDataPaths("session_add_tests", tempRoot)).length).toBe(6);
+
+    const result = await deleteSessionMetadata([session]);
+
+    expect(result.failed).toEqual([]);
+    expect(result.removed.length).toBe(7);
+    expect(await exists(legacyMessages)).toBe(false);
+    expect(await exists(join(legacyParts, "msg_assistant_01"))).toBe(false);
+  });
+});
+
+describe("deleteProjectMetadata", () => {
+  let tempDir: string;
+  let tempRoot: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    tempRoot = join(tempDir, "store");
+    await fs.cp(FIXTURE_STORE_ROOT, tempRoot, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("cascades to the project's sessions, messages and parts", async () => {
+    const projects = await loadProjectRecords({ root: tempRoot });
+    const project = projects.find((p) => p.projectId === "proj_present")!;
+
+    const result = await deleteProjectMetadata([project]);
+
+    expect(result.failed).toEqual([]);
+    expect(result.removed).toContain(project.filePath);
+    expect(result.removed.length).toBe(9);
+    expect(await loadSessionRecords({ root: tempRoot, projectId: "proj_present" })).toEqual([]);
+    expect(await loadSessionChatIndex("session_add_tests", tempRoot)).toEqual([]);
+  });
+});
+
+describe("findOrphans / deleteOrphans", () => {
+  let tempDir: string;
+  let tempRoot: string;
+
+  const exists = (path: string) => fs.access(path).then(() => true).catch(() => false);
+
+  async function writeJson(path: string, payload: unknown): Promise<void> {
+    await fs.mkdir(join(path, ".."), { recursive: true });
+    await fs.writeFile(path, JSON.stringify(payload));
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    tempRoot = join(tempDir, "store");
+    await fs.cp(FIXTURE_STORE_ROOT, tempRoot, { recursive: true });
+
+    const storage = join(tempRoot, "storage");
+    // Session whose project is gone, with its own message + part
+    await writeJson(join(storage, "session", "proj_gone", "sess_lost.json"), { id: "sess_lost", projectID: "proj_gone" });
+    await writeJson(join(storage, "message", "sess_lost", "msg_lost.json"), { id: "msg_lost", sessionID: "sess_lost" });
+    await writeJson(join(storage, "part", "msg_lost", "part_lost.json"), { id: "part_lost", messageID: "msg_lost" });
+    // Messages whose session is gone (legacy layout), and the parts of those messages
+    await writeJson(join(storage, "session", "message", "sess_gone", "msg_stale.json"), { id: "msg_stale" });
+    await writeJson(join(storage, "part", "msg_stale", "part_stale.json"), { id: "part_stale" });
+    // Parts whose message is gone
+    await writeJson(join(storage, "part", "msg_gone", "part_a.json"), { id: "part_a" });
+    await writeJson(join(storage, "part", "msg_gone", "part_b.json"), { id: "part_b" });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("reports no orphans for the fixture store", async () => {
+    expect(await findOrphans(FIXTURE_STORE_ROOT)).toEqual([]);
+  });
+
+  it("finds sessions, message directories and part directories without a parent", async () => {
+    const orphans = await findOrphans(tempRoot);
+
+    expect(orphans.map((o) => `${o.kind}:${o.id}:${o.parentId}:${o.itemCount}`)).toEqual([
+      "session:sess_lost:proj_gone:1",
+      "message:sess_gone:sess_gone:1",
+      "part:msg_gone:msg_gone:2",
+      "part:msg_stale:msg_stale:1",
+    ]);
+    expect(orphans.every((o) => (o.sizeBytes ?? 0) > 0)).toBe(true);
+  });
+
+  it("dry run lists cascaded session files without deleting", async () => {
+    const orphans = await findOrphans(tempRoot);
+    const result = await deleteOrphans(orphans, { dryRun: true });
+
+    expect(result.removed).toContain(join(tempRoot, "storage", "part", "msg_lost", "part_lost.json"));
+    expect(result.removed).toContain(join(tempRoot, "storage", "part", "msg_gone"));
+    expect(await exists(join(tempRoot, "storage", "part", "msg_gone"))).toBe(true);
+  });
+
+  it("removes orphans and leaves live data intact", async () => {
+    const orphans = await findOrphans(tempRoot);
+    const result = await deleteOrphans(orphans, { root: tempRoot });
+
+    expect(result.failed).toEqual([]);
+    expect(await findOrphans(tempRoot)).toEqual([]);
+    expect(await exists(join(tempRoot, "storage", "message", "sess_lost"))).toBe(false);
+    expect(await exists(join(tempRoot, "storage", "part", "msg_lost"))).toBe(false);
+    expect((await loadSessionChatIndex("session_add_tests", tempRoot)).length).toBe(2);
+  });
+});
+
+describe("diagnoseStore", () => {
+  let tempDir: string;
+  let tempRoot: string;
+  let storage: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    tempRoot = join(tempDir, "store");
+    storage = join(tempRoot, "storage");
+    await fs.cp(FIXTURE_STORE_ROOT, tempRoot, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function updateJson(path: string, update: (payload: any) => void): Promise<void> {
+    const payload = JSON.parse(await fs.readFile(path, "utf8"));
+    update(payload);
+    await fs.writeFile(path, JSON.stringify(payload));
+  }
+
+  it("reports no issues for the fixture store", async () => {
+    const report = await diagnoseStore(FIXTURE_STORE_ROOT);
+
+    expect(report.backend).toBe("jsonl");
+    expect(report.scanned).toEqual({ project: 2, session: 2, message: 2, part: 4 });
+    expect(report.issues).toEqual([]);
+  });
+
+  it("reports each category of problem", async () => {
+    await fs.writeFile(join(storage, "project", "proj_missing.json"), "{ not json");
+    await updateJson(join(storage, "session", "proj_present", "session_parser_fix.json"), (p) => {
+      p.projectID = "proj_other";
+    });
+    await updateJson(join(storage, "message", "session_add_tests", "msg_assistant_01.json"), (p) => {
+      p.parentID = "msg_gone";
+      p.time.created = Date.parse("2030-01-01T00:00:00Z");
+    });
+    await updateJson(join(storage, "part", "msg_user_01", "part_text_01.json"), (p) => {
+      p.messageID = "msg_assistant_01";
+    });
+
+    const report = await diagnoseStore(tempRoot, { now: new Date("2026-01-01T00:00:00Z") });
+
+    expect(report.issues.map((i) => `${i.check}:${i.severity}`).sort()).toEqual([
+      "json:error",
+      "message-parent:warning",
+      "part-message:error",
+      "session-project:error",
+      "timestamp:warning",
+    ]);
+    const timestamp = report.issues.find((i) => i.check === "timestamp")!;
+    expect(timestamp.path).toBe(join(storage, "message", "session_add_tests", "msg_assistant_01.json"));
+    expect(timestamp.message).toContain("in the future");
+  });
+
+  it("reports missing timestamps as warnings", async () => {
+    await updateJson(join(storage, "session", "proj_present", "session_add_tests.json"), (p) => {
+      delete p.time;
+    });
+
+    const report = await diagnoseStore(tempRoot);
+
+    expect(report.issues.map((i) => i.message)).toEqual(["time.created is missing", "time.updated is missing"]);
+    expect(report.issues.every((i) => i.severity === "warning")).toBe(true);
+  });
+});
+
+describe("malformed JSONL files", () => {
+  let tempDir: string;
+  let tempRoot: string;
+  let storage: string;
+  let warnings: JsonlWarning[];
+  const onWarning = (warning: JsonlWarning) => warnings.push(warning);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), "opencode-test-"));
+    tempRoot = join(tempDir, "store");
+    storage = join(tempRoot, "storage");
+    warnings = [];
+    await fs.cp(FIXTURE_STORE_ROOT, tempRoot, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("warns about project and session files that do not parse", async () => {
+    await fs.writeFile(join(storage, "project", "proj_missing.json"), "{ not json");
+    await fs.writeFile(join(storage, "session", "proj_present", "session_parser_fix.json"), "[]");
+
+    const projects = await loadProjectRecords({ root: tempRoot, onWarning });
+    const sessions = await loadSessionRecords({ root: tempRoot, onWarning });
+
+    expect(projects.map((p) => p.projectId)).toEqual(["proj_present"]);
+    expect(sessions.map((s) => s.sessionId)).toEqual(["session_add_tests"]);
+    expect(warnings.map((w) => w.path)).toEqual([
+      join(storage, "project", "proj_missing.json"),
+      join(storage, "session", "proj_present", "session_parser_fix.json"),
+    ]);
+    expect(warnings[0].reason).toStartWith("invalid JSON");
+    expect(warnings[1].reason).toBe("not a JSON object");
+  });
+
+  it("warns about messages and parts without an id", async () => {
+    const messagePath = join(storage, "message", "session_add_tests", "msg_user_01.json");
+    const partPath = join(storage, "part", "msg_assistant_01", "part_tool_01.json");
+    await fs.writeFile(messagePath, JSON.stringify({ role: "user" }));
+    await fs.writeFile(partPath, JSON.stringify({ type: "tool" }));
+
+    const messages = await loadSessionChatIndex("session_add_tests", tempRoot, { onWarning });
+    const parts = await loadMessageParts("msg_assistant_01", tempRoot, { onWarning });
+
+    expect(messages.map((m) => m.messageId)).toEqual(["msg_assistant_01"]);
+    expect(parts).toHaveLength(2);
+    expect(warnings).toEqual([
+      { path: messagePath, reason: "missing id" },
+      { path: partPath, reason: "missing id" },
+    ]);
+  });
+
+  it("throws instead of skipping in strict mode", async () => {
+    const sessionPath = join(storage, "session", "proj_present", "session_parser_fix.json");
+    await fs.writeFile(sessionPath, "{ not json");
+
+    const error = await loadSessionRecords({ root: tempRoot, strict: true, onWarning }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(MalformedRecordError);
+    expect(error.warning.path).toBe(sessionPath);
+    expect(error.message).toContain(sessionPath);
+    expect(warnings).toEqual([]);
+  });
+});
+
+describe("token timeline", () => {
+  const usage = (createdAt: string | null, total: number) => ({
+    createdAt: createdAt ? new Date(createdAt) : null,
+    messages: 1,
+    tokens: { input: total, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total },
+    cost: { recorded: 0, estimated: 0, total: 0, unpricedMessages: 0 },
+  });
+
+  it("labels UTC days, ISO weeks and months", () => {
+    const date = new Date("2021-01-03T23:30:00Z");
+
+    expect(timelineBucketLabel(timelineBucketStart(date, "day"), "day")).toBe("2021-01-03");
+    expect(timelineBucketStart(date, "week").toISOString()).toBe("2020-12-28T00:00:00.000Z");
+    expect(timelineBucketLabel(timelineBucketStart(date, "week"), "week")).toBe("2020-W53");
+    expect(timelineBucketLabel(timelineBucketStart(new Date("2024-12-30T12:00:00Z"), "week"), "week")).toBe("2025-W01");
+    expect(timelineBucketLabel(timelineBucketStart(date, "month"), "month")).toBe("2021-01");
+  });
+
+  it("fills gaps between periods and skips messages outside the range", () => {
+    const timeline = bucketTokenUsage(
+      [
+        usage("2024-01-01T10:00:00Z", 100),
+        usage("2024-01-03T10:00:00Z", 50),
+        usage("2024-01-03T20:00:00Z", 25),
+        usage("2024-01-05T00:00:00Z", 1000),
+        usage(null, 5),
+      ],
+      { bucket: "day", until: new Date("2024-01-05T00:00:00Z") },
+      2
+    );
+
+    expect(timeline.rows.map((row) => [row.period, row.messages, row.tokens.total])).toEqual([
+      ["2024-01-01", 1, 100],
+      ["2024-01-02", 0, 0],
+      ["2024-01-03", 2, 75],
+      ["2024-01-04", 0, 0],
+    ]);
+    expect(timeline.rows[1].end.toISOString()).toBe("2024-01-03T00:00:00.000Z");
+    expect(timeline.total.total).toBe(175);
+    expect(timeline.undatedMessages).toBe(1);
+    expect(timeline.unknownSessions).toBe(2);
+  });
+
+  it("merges timelines of disjoint session sets", () => {
+    const options = { bucket: "month" as const };
+    const merged = mergeTokenTimelines(
+      [
+        bucketTokenUsage([usage("2024-01-15T00:00:00Z", 10)], options, 1),
+        bucketTokenUsage([usage("2024-01-20T00:00:00Z", 20), usage("2024-03-01T00:00:00Z", 30)], options),
+      ],
+      options
+    );
+
+    expect(merged.rows.map((row) => [row.period, row.messages, row.tokens.total])).toEqual([
+      ["2024-01", 2, 30],
+      ["2024-02", 0, 0],
+      ["2024-03", 1, 30],
+    ]);
+    expect(merged.unknownSessions).toBe(1);
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import {
+  addCostBreakdown,
+  addMessageCost,
+  configurePricing,
+  emptyCostBreakdown,
+  estimateTokenCost,
+  findModelPrice,
+  pricingFingerprint,
+} from "../../src/lib/pricing"
+
+const tokens = (input: number, output: number, reasoning = 0, cacheRead = 0, cacheWrite = 0) => ({
+  input,
+  output,
+  reasoning,
+  cacheRead,
+  cacheWrite,
+  total: input + output + reasoning + cacheRead + cacheWrite,
+})
+
+afterEach(() => {
+  configurePricing()
+})
+
+describe("findModelPrice", () => {
+  test("prefers the provider-qualified key over the bare model", () => {
+    configurePricing({
+      "anthropic/claude-sonnet-4": { input: 3, output: 15 },
+      "claude-sonnet-4": { input: 1, output: 5 },
+    })
+
+    expect(findModelPrice("anthropic", "claude-sonnet-4")).toEqual({ input: 3, output: 15 })
+    expect(findModelPrice("bedrock", "claude-sonnet-4")).toEqual({ input: 1, output: 5 })
+    expect(findModelPrice("openai", "gpt-4o")).toBeUndefined()
+    expect(findModelPrice("anthropic", undefined)).toBeUndefined()
+  })
+
+  test("changes the fingerprint with the table", () => {
+    expect(pricingFingerprint()).toBe("none")
+
+    configurePricing({ "gpt-4o": { input: 2.5, output: 10 } })
+    const first = pricingFingerprint()
+    configurePricing({ "gpt-4o": { input: 2.5, output: 12 } })
+
+    expect(first).not.toBe("none")
+    expect(pricingFingerprint()).not.toBe(first)
+  })
+})
+
+describe("estimateTokenCost", () => {
+  test("prices reasoning like output and cache like input by default", () => {
+    const price = { input: 2, output: 10 }
+
+    expect(estimateTokenCost(tokens(1_000_000, 100_000, 100_000, 500_000, 0), price)).toBeCloseTo(2 + 1 + 1 + 1)
+    expect(estimateTokenCost(tokens(0, 0, 0, 1_000_000, 1_000_000), { ...price, cacheRead: 0.2, cacheWrite: 2.5 })).toBeCloseTo(2.7)
+  })
+})
+
+describe("addMessageCost", () => {
+  test("uses recorded cost, estimates the rest and counts unpriced messages", () => {
+    configurePricing({ "openai/gpt-4o": { input: 2.5, output: 10 } })
+    const cost = emptyCostBreakdown()
+
+    addMessageCost(cost, { tokens: tokens(1000, 500), providerId: "openai", modelId: "gpt-4o", cost: 0.5 })
+    addMessageCost(cost, { tokens: tokens(1_000_000, 0), providerId: "openai", modelId: "gpt-4o", cost: 0 })
+    addMessageCost(cost, { tokens: tokens(1000, 500), providerId: "local", modelId: "llama" })
+    addMessageCost(cost, { tokens: tokens(0, 0), providerId: "local", modelId: "llama" })
+
+    expect(cost).toEqual({ recorded: 0.5, estimated: 2.5, total: 3, unpricedMessages: 1 })
+  })
+
+  test("sums breakdowns", () => {
+    const a = { recorded: 1, estimated: 0.5, total: 1.5, unpricedMessages: 2 }
+
+    expect(addCostBreakdown(a, a)).toEqual({ recorded: 2, estimated: 1, total: 3, unpricedMessages: 4 })
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, test, expect } from "bun:test"
+import { createWorkerPool } from "../../src/lib/worker-pool"
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe("createWorkerPool", () => {
+  test("returns results in input order regardless of completion order", async () => {
+    const pool = createWorkerPool(4)
+    const results = await pool.map([30, 10, 20, 0], async (ms, index) => {
+      await delay(ms)
+      return index
+    })
+    expect(results).toEqual([0, 1, 2, 3])
+  })
+
+  test("never runs more tasks than its concurrency", async () => {
+    const pool = createWorkerPool(3)
+    let active = 0
+    let peak = 0
+    await pool.map(Array.from({ length: 20 }, (_, i) => i), async () => {
+      active += 1
+      peak = Math.max(peak, active)
+      await delay(1)
+      active -= 1
+    })
+    expect(peak).toBe(3)
+  })
+
+  test("shares the limit between concurrent map calls", async () => {
+    const pool = createWorkerPool(2)
+    let active = 0
+    let peak = 0
+    const task = async () => {
+      active += 1
+      peak = Math.max(peak, active)
+      await delay(1)
+      active -= 1
+    }
+    await Promise.all([pool.map([1, 2, 3], task), pool.map([4, 5, 6], task)])
+    expect(peak).toBe(2)
+  })
+
+  test("runs tasks one at a time with concurrency 1", async () => {
+    const pool = createWorkerPool(1)
+    const order: string[] = []
+    await pool.map(["a", "b", "c"], async (item) => {
+      order.push(`start ${item}`)
+      await delay(1)
+      order.push(`end ${item}`)
+    })
+    expect(order).toEqual(["start a", "end a", "start b", "end b", "start c", "end c"])
+  })
+
+  test("throws the error of the earliest failed item and stops scheduling", async () => {
+    const pool = createWorkerPool(2)
+    const started: number[] = []
+    const run = pool.map([0, 1, 2, 3, 4], async (item) => {
+      started.push(item)
+      await delay(item === 0 ? 10 : 1)
+      if (item <= 1) {
+        throw new Error(`failed ${item}`)
+      }
+      return item
+    })
+    await expect(run).rejects.toThrow("failed 0")
+    expect(started).toEqual([0, 1])
+  })
+
+  test("rejects invalid concurrency", () => {
+    expect(() => createWorkerPool(0)).toThrow("Invalid concurrency")
+    expect(() => createWorkerPool(1.5)).toThrow("Invalid concurrency")
+  })
+})
@@ -0,0 +1,29 @@
+/**
+ * Test Setup
+ *
+ * Preloaded by `bun test` (see bunfig.toml). Points the index cache and the
+ * config file at a temporary directory and drops OPENCODE_MANAGER_* variables,
+ * so test runs never write to the developer's ~/.cache/opencode-manager and
+ * never pick up their config defaults. CLI processes spawned by the tests
+ * inherit this environment; tests that need a config set their own
+ * XDG_CONFIG_HOME.
+ */
+
+import { afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+const sandbox = mkdtempSync(join(tmpdir(), "opencode-manager-tests-"));
+
+process.env.XDG_CACHE_HOME = join(sandbox, "cache");
+process.env.XDG_CONFIG_HOME = join(sandbox, "config");
+for (const name of Object.keys(process.env)) {
+  if (name.startsWith("OPENCODE_MANAGER_")) {
+    delete process.env[name];
+  }
+}
+
+afterAll(() => {
+  rmSync(sandbox, { recursive: true, force: true });
+});